@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+// CLI entry for the mock Core API.
+//
+//   npm run mock:core                          # http://127.0.0.1:8080
+//   npm run mock:core -- --port 8787 --seed ./my-seed.json
+//   npm run mock:core -- --no-node-detail      # 404 every GET /api/nodes/:id
+//   npm run mock:core -- --latency 300         # delay each response by 300ms
+//   npm run mock:core -- --run-step-delay 2000 # slow down simulated program runs
+
+import { createMockCoreServer, loadSeed, DEFAULT_SEED_PATH } from "./server.js";
+
+const parseArgs = (argv) => {
+  const args = {
+    port: Number(process.env.MOCK_CORE_PORT) || 8080,
+    seed: DEFAULT_SEED_PATH,
+    nodeDetailRoute: true,
+    latency: 0,
+    runStepDelay: 800,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--port") args.port = Number(argv[++i]);
+    else if (arg === "--seed") args.seed = argv[++i];
+    else if (arg === "--latency") args.latency = Number(argv[++i]);
+    else if (arg === "--run-step-delay") args.runStepDelay = Number(argv[++i]);
+    else if (arg === "--no-node-detail") args.nodeDetailRoute = false;
+    else {
+      console.error(`Unknown argument: ${arg}`);
+      process.exit(1);
+    }
+  }
+  return args;
+};
+
+const args = parseArgs(process.argv.slice(2));
+const mock = createMockCoreServer({
+  seed: loadSeed(args.seed),
+  nodeDetailRoute: args.nodeDetailRoute,
+  latency: args.latency,
+  runStepDelay: args.runStepDelay,
+});
+
+mock.listen(args.port).then((url) => {
+  console.log(`[mock-core] Listening on ${url} (seed: ${args.seed})`);
+});
+
+const shutdown = () => {
+  mock.close().finally(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
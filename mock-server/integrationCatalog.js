@@ -0,0 +1,197 @@
+// Integration kinds from the glossary, each with the config schema its
+// connection form is built from. Fields of type "secret" are write-only: the
+// store keeps them apart from `config` and serializers only report whether
+// they are set.
+
+const secret = (key, label, { required = true, help = "" } = {}) => ({
+  key,
+  label,
+  type: "secret",
+  required,
+  help,
+});
+
+export const INTEGRATION_CATALOG = [
+  {
+    kind: "github",
+    label: "GitHub",
+    description: "Repositories, pull requests and releases.",
+    fields: [
+      { key: "owner", label: "Owner or organisation", type: "text", required: true },
+      {
+        key: "repository",
+        label: "Repository",
+        type: "text",
+        required: false,
+        help: "Leave empty to allow every repository the token can see.",
+      },
+      secret("token", "Personal access token", {
+        help: "Needs read access to contents and pull requests.",
+      }),
+    ],
+  },
+  {
+    kind: "slite",
+    label: "Slite",
+    description: "Team notes and documentation channels.",
+    fields: [
+      { key: "channel", label: "Default channel", type: "text", required: false },
+      secret("apiKey", "API key"),
+    ],
+  },
+  {
+    kind: "google-drive",
+    label: "Google Drive",
+    description: "Shared folders and the documents inside them.",
+    fields: [
+      { key: "folderId", label: "Folder ID", type: "text", required: true },
+      { key: "serviceAccount", label: "Service account email", type: "text", required: true },
+      secret("privateKey", "Service account private key"),
+    ],
+  },
+  {
+    kind: "slack",
+    label: "Slack",
+    description: "Notifications and summaries posted to channels.",
+    fields: [
+      {
+        key: "defaultChannel",
+        label: "Default channel",
+        type: "text",
+        required: true,
+        placeholder: "#releases",
+      },
+      secret("botToken", "Bot token"),
+    ],
+  },
+  {
+    kind: "n8n",
+    label: "n8n",
+    description: "Workflows triggered from programs through webhooks.",
+    fields: [
+      {
+        key: "baseUrl",
+        label: "Instance URL",
+        type: "url",
+        required: true,
+        placeholder: "https://n8n.example.com",
+      },
+      secret("apiKey", "API key"),
+    ],
+  },
+  {
+    kind: "railway",
+    label: "Railway",
+    description: "Deployments and service status.",
+    fields: [
+      { key: "projectId", label: "Project ID", type: "text", required: true },
+      {
+        key: "environment",
+        label: "Environment",
+        type: "select",
+        required: true,
+        options: ["production", "staging", "development"],
+      },
+      secret("apiToken", "API token"),
+    ],
+  },
+  {
+    kind: "http",
+    label: "HTTP API",
+    description: "Any JSON API reachable over HTTP.",
+    fields: [
+      {
+        key: "baseUrl",
+        label: "Base URL",
+        type: "url",
+        required: true,
+        placeholder: "https://api.example.com",
+      },
+      {
+        key: "authHeader",
+        label: "Auth header",
+        type: "text",
+        required: false,
+        placeholder: "Authorization",
+      },
+      secret("authToken", "Auth token", { required: false }),
+    ],
+  },
+];
+
+export const findIntegrationKind = (kind) =>
+  INTEGRATION_CATALOG.find((entry) => entry.kind === kind) ?? null;
+
+const isUrl = (value) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Splits submitted values into plain `config` and `secrets`, dropping keys the
+ * schema doesn't know. Returns `{ config, secrets, error }`; `error` names the
+ * first invalid value. Required fields are checked against `existing` too, so
+ * an edit may leave a stored secret untouched.
+ */
+export function readIntegrationValues(entry, { config = {}, secrets = {} }, existing = null) {
+  const nextConfig = {};
+  const nextSecrets = {};
+  for (const field of entry.fields) {
+    if (field.type === "secret") {
+      const value = secrets?.[field.key];
+      if (typeof value === "string" && value.trim()) nextSecrets[field.key] = value.trim();
+      const isSet = nextSecrets[field.key] ?? existing?.secrets?.[field.key];
+      if (field.required && !isSet) return { error: `${field.label} is required` };
+      continue;
+    }
+    const raw = config?.[field.key] ?? existing?.config?.[field.key] ?? "";
+    const value = typeof raw === "string" ? raw.trim() : String(raw);
+    if (field.required && !value) return { error: `${field.label} is required` };
+    if (value && field.type === "url" && !isUrl(value)) {
+      return { error: `${field.label} must be an http(s) URL` };
+    }
+    if (value && field.type === "select" && !field.options.includes(value)) {
+      return { error: `${field.label} must be one of ${field.options.join(", ")}` };
+    }
+    nextConfig[field.key] = value;
+  }
+  return { config: nextConfig, secrets: nextSecrets, error: null };
+}
+
+/**
+ * Simulated connection check. Nothing leaves the machine: a secret containing
+ * "invalid" or "expired" fails authentication, a host containing "slow" comes
+ * back degraded, everything else is healthy.
+ */
+export function checkIntegration(entry, integration) {
+  const secrets = Object.values(integration.secrets ?? {});
+  const hosts = entry.fields
+    .filter((field) => field.type === "url")
+    .map((field) => integration.config[field.key] ?? "");
+  const missing = entry.fields.find(
+    (field) =>
+      field.required && !(integration.config[field.key] || integration.secrets?.[field.key])
+  );
+  if (missing) {
+    return { status: "failing", message: `${missing.label} is not set`, latencyMs: null };
+  }
+  if (secrets.some((value) => /invalid|expired/i.test(value))) {
+    return {
+      status: "failing",
+      message: `${entry.label} rejected the credentials (401)`,
+      latencyMs: 180,
+    };
+  }
+  if (hosts.some((host) => /slow/i.test(host))) {
+    return {
+      status: "degraded",
+      message: "Connected, but responses took over 2s",
+      latencyMs: 2350,
+    };
+  }
+  return { status: "healthy", message: `Connected to ${entry.label}`, latencyMs: 120 };
+}
@@ -0,0 +1,235 @@
+// MCP server templates and tool-definition checks for the mock Core API.
+// Templates are pre-approved, which is what lets "create from template" apply
+// automatically; any later edit that adds a tool expands what the server can
+// do and has to go through a capability-change proposal.
+// Keep the checks in sync with src/content/mcpTools.ts.
+
+const stringProperty = (description) => ({ type: "string", description });
+
+export const MCP_TEMPLATES = [
+  {
+    id: "documents-reader",
+    label: "Documents reader",
+    description: "Read-only access to a node's documents.",
+    tools: [
+      {
+        name: "list_documents",
+        description: "List the documents on the node, newest first.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            governanceOnly: {
+              type: "boolean",
+              description: "Only return governance documents.",
+            },
+          },
+        },
+      },
+      {
+        name: "get_document",
+        description: "Fetch one document's title and Markdown content.",
+        inputSchema: {
+          type: "object",
+          properties: { documentId: stringProperty("Canonical document ID.") },
+          required: ["documentId"],
+        },
+      },
+    ],
+  },
+  {
+    id: "program-runner",
+    label: "Program runner",
+    description: "Lets an agent list the node's programs and start runs.",
+    tools: [
+      {
+        name: "list_programs",
+        description: "List the programs on the node with their status.",
+        inputSchema: { type: "object", properties: {} },
+      },
+      {
+        name: "start_run",
+        description: "Start a run of an active program and return its run number.",
+        inputSchema: {
+          type: "object",
+          properties: { programId: stringProperty("Program to run.") },
+          required: ["programId"],
+        },
+      },
+    ],
+  },
+  {
+    id: "knowledge-search",
+    label: "Knowledge search",
+    description: "Search across the node's curated knowledge.",
+    tools: [
+      {
+        name: "search",
+        description: "Return the passages that best match a query.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: stringProperty("What to look for."),
+            limit: { type: "integer", description: "Maximum passages to return.", minimum: 1 },
+          },
+          required: ["query"],
+        },
+      },
+    ],
+  },
+  {
+    id: "blank",
+    label: "Blank",
+    description: "No tools. Every tool added later is reviewed as a capability change.",
+    tools: [],
+  },
+];
+
+export const findMcpTemplate = (id) => MCP_TEMPLATES.find((template) => template.id === id) ?? null;
+
+const TOOL_NAME = /^[a-z][a-z0-9_]{0,63}$/;
+const SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+
+const isPlainObject = (value) =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Problems with one property schema, recursing into objects and array items
+const propertyIssues = (schema, path) => {
+  if (!isPlainObject(schema)) return [`${path} must be a schema object`];
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.type === undefined && !schema.enum) return [`${path} needs a type`];
+  const unknown = types.filter((type) => type !== undefined && !SCHEMA_TYPES.includes(type));
+  if (unknown.length > 0) return [`${path} has unknown type ${unknown.join(", ")}`];
+  if (types.includes("object") && schema.properties !== undefined) {
+    return objectIssues(schema, path);
+  }
+  if (types.includes("array") && schema.items !== undefined) {
+    return propertyIssues(schema.items, `${path}.items`);
+  }
+  return [];
+};
+
+const objectIssues = (schema, path) => {
+  const properties = schema.properties ?? {};
+  if (!isPlainObject(properties)) return [`${path}.properties must be an object`];
+  const issues = Object.entries(properties).flatMap(([key, value]) =>
+    propertyIssues(value, `${path}.properties.${key}`)
+  );
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required)) {
+      issues.push(`${path}.required must be an array`);
+    } else {
+      schema.required
+        .filter((key) => !(key in properties))
+        .forEach((key) => issues.push(`${path}.required names unknown property "${key}"`));
+    }
+  }
+  return issues;
+};
+
+/**
+ * Problems with a tool's input schema. MCP tools take an object, so the root
+ * must be `{ "type": "object" }`; nested schemas need a known JSON Schema type.
+ */
+export const inputSchemaIssues = (schema) => {
+  if (!isPlainObject(schema) || schema.type !== "object") {
+    return ['inputSchema must be a JSON Schema with "type": "object"'];
+  }
+  return objectIssues(schema, "inputSchema");
+};
+
+/**
+ * Validates and normalises a tool list. Throws a message naming the first
+ * invalid tool, so routes can turn it into a 400.
+ */
+export const readTools = (tools) => {
+  if (!Array.isArray(tools)) throw new Error("tools must be an array");
+  const seen = new Set();
+  return tools.map((tool, index) => {
+    const name = typeof tool?.name === "string" ? tool.name.trim() : "";
+    if (!TOOL_NAME.test(name)) {
+      throw new Error(
+        `tools[${index}].name must be lowercase letters, digits and underscores, starting with a letter`
+      );
+    }
+    if (seen.has(name)) throw new Error(`Tool "${name}" is defined twice`);
+    seen.add(name);
+    const description = typeof tool.description === "string" ? tool.description.trim() : "";
+    if (!description) throw new Error(`Tool "${name}" needs a description`);
+    const issues = inputSchemaIssues(tool.inputSchema);
+    if (issues.length > 0) throw new Error(`Tool "${name}": ${issues[0]}`);
+    return { name, description, inputSchema: tool.inputSchema };
+  });
+};
+
+// Tool names in `next` that `current` doesn't have: the capability change
+export const addedTools = (current, next) => {
+  const existing = new Set(current.map((tool) => tool.name));
+  return next.filter((tool) => !existing.has(tool.name)).map((tool) => tool.name);
+};
+
+const matchesType = (type, value) => {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Problems with call arguments against a tool's input schema. Covers the
+ * keywords the editor accepts (type, properties, required, items, enum,
+ * minimum / maximum, additionalProperties: false), not all of JSON Schema.
+ */
+export const argumentIssues = (schema, value, path = "arguments") => {
+  if (!isPlainObject(schema)) return [];
+  const types = schema.type === undefined ? [] : [schema.type].flat();
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    return [`${path} must be ${types.join(" or ")}`];
+  }
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    return [
+      `${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    ];
+  }
+  const issues = [];
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties : {};
+    (Array.isArray(schema.required) ? schema.required : [])
+      .filter((key) => value[key] === undefined)
+      .forEach((key) => issues.push(`${path}.${key} is required`));
+    Object.entries(value).forEach(([key, item]) => {
+      if (key in properties) {
+        issues.push(...argumentIssues(properties[key], item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      issues.push(...argumentIssues(schema.items, item, `${path}[${index}]`))
+    );
+  }
+  return issues;
+};
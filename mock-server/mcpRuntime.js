@@ -0,0 +1,161 @@
+// Local JSON-RPC endpoint for MCP servers, so the app's inspector can send
+// `initialize`, `tools/list` and `tools/call` against a definition and see
+// exactly what an MCP client would get back. Template tools answer from the
+// node's data; calls never change anything (start_run only reports what it
+// would do), and any other tool returns a simulated echo of its arguments.
+
+import { argumentIssues, findMcpTemplate } from "./mcp.js";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+// JSON-RPC 2.0 error codes
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+const rpcError = (id, code, message, data = undefined) => ({
+  jsonrpc: "2.0",
+  id: id ?? null,
+  error: data === undefined ? { code, message } : { code, message, data },
+});
+
+const textResult = (value) => ({
+  content: [
+    { type: "text", text: typeof value === "string" ? value : JSON.stringify(value, null, 2) },
+  ],
+  isError: false,
+});
+
+const toolError = (message) => ({ content: [{ type: "text", text: message }], isError: true });
+
+const matchesQuery = (text, query) => text.toLowerCase().includes(query.toLowerCase());
+
+// Passages are the document paragraphs containing the query, newest documents first
+const searchPassages = (store, nodeId, query, limit) =>
+  store
+    .listDocuments({ nodeId })
+    .flatMap((document) =>
+      document.content
+        .split(/\n{2,}/)
+        .filter((paragraph) => matchesQuery(paragraph, query))
+        .map((paragraph) => ({
+          documentId: document.id,
+          title: document.title,
+          passage: paragraph.trim(),
+        }))
+    )
+    .slice(0, limit);
+
+const TOOL_HANDLERS = {
+  list_documents: (store, server, args) =>
+    store
+      .listDocuments({ nodeId: server.nodeId })
+      .filter((document) => !args.governanceOnly || document.isGovernance)
+      .map((document) => ({
+        id: document.id,
+        title: document.title,
+        isGovernance: document.isGovernance,
+        updatedAt: document.updatedAt,
+      })),
+
+  get_document: (store, server, args) => {
+    const document = store.getDocument(args.documentId);
+    if (!document || document.metadata.nodeId !== server.nodeId) {
+      return toolError(`Document ${args.documentId} not found on this node`);
+    }
+    return { id: document.id, title: document.title, content: document.content };
+  },
+
+  list_programs: (store, server) =>
+    store
+      .listPrograms({ nodeId: server.nodeId })
+      .map((program) => ({ id: program.id, name: program.name, status: program.status })),
+
+  start_run: (store, server, args) => {
+    const program = store.getProgram(args.programId);
+    if (!program || program.nodeId !== server.nodeId) {
+      return toolError(`Program ${args.programId} not found on this node`);
+    }
+    if (program.status !== "active") {
+      return toolError(`Program "${program.name}" is ${program.status}; only active programs run`);
+    }
+    return `Dry run: would start "${program.name}" (${program.steps.length} steps). The inspector never starts real runs.`;
+  },
+
+  search: (store, server, args) =>
+    searchPassages(store, server.nodeId, args.query, args.limit ?? 5),
+};
+
+// The template's definition of a tool the server was created with. Only those
+// tools reach a handler above: a tool added later under the same name may take
+// entirely different arguments.
+const templateTool = (server, name) =>
+  findMcpTemplate(server.templateId)?.tools.find((tool) => tool.name === name) ?? null;
+
+const callTool = (store, server, params) => {
+  const name = params?.name;
+  const tool = server.tools.find((candidate) => candidate.name === name);
+  if (!tool) return { error: [INVALID_PARAMS, `Unknown tool: ${name}`] };
+  const args = params.arguments ?? {};
+  const issues = argumentIssues(tool.inputSchema, args);
+  if (issues.length > 0) {
+    return { error: [INVALID_PARAMS, `Invalid arguments for ${name}`, { issues }] };
+  }
+  const handler = TOOL_HANDLERS[name];
+  const builtIn = handler ? templateTool(server, name) : null;
+  if (!builtIn) {
+    return { result: textResult(`Simulated call to ${name} with ${JSON.stringify(args)}`) };
+  }
+  // The handler needs the template's arguments, which an edited schema may no longer require
+  const templateIssues = argumentIssues(builtIn.inputSchema, args);
+  if (templateIssues.length > 0) {
+    return {
+      error: [
+        INVALID_PARAMS,
+        `Invalid arguments for ${name}: the template's handler needs its original input`,
+        { issues: templateIssues },
+      ],
+    };
+  }
+  const value = handler(store, server, args);
+  return { result: value?.isError ? value : textResult(value) };
+};
+
+/**
+ * Answers one JSON-RPC message for `server`. Returns the response object, or
+ * null for a notification (no `id`), which gets no response body.
+ */
+export const handleMcpMessage = (store, server, message) => {
+  if (Array.isArray(message)) {
+    return rpcError(null, INVALID_REQUEST, "Batch requests are not supported");
+  }
+  if (message?.jsonrpc !== "2.0" || typeof message.method !== "string") {
+    return rpcError(
+      message?.id,
+      INVALID_REQUEST,
+      'Expected a JSON-RPC 2.0 request with a "method"'
+    );
+  }
+  if (message.id === undefined) return null;
+
+  const { id, method, params } = message;
+  const reply = (result) => ({ jsonrpc: "2.0", id, result });
+  switch (method) {
+    case "initialize":
+      return reply({
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: server.name, version: server.version },
+      });
+    case "ping":
+      return reply({});
+    case "tools/list":
+      return reply({ tools: server.tools });
+    case "tools/call": {
+      const { result, error } = callTool(store, server, params);
+      return error ? rpcError(id, ...error) : reply(result);
+    }
+    default:
+      return rpcError(id, METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+};
@@ -0,0 +1,199 @@
+// Chunking, readiness checks and ranking for retrieval (RAG) on the mock Core API.
+// Documents split at Markdown headings; each section's paragraphs are packed
+// into chunks of about CHUNK_TOKENS, and every chunk carries the heading trail
+// above it so it still makes sense when retrieved on its own. Token counts are
+// estimates (four characters per token), good enough to size chunks. Queries
+// are ranked lexically (BM25) rather than by embeddings.
+
+export const CHUNK_TOKENS = 300;
+// A section this long needs subheadings before it can be indexed well
+export const SECTION_TOKENS = 1200;
+
+export const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^(```|~~~)/;
+
+// Sections between headings, with the heading trail that leads to each one.
+// Headings inside fenced code blocks are content, not structure.
+const splitSections = (content) => {
+  const lines = content.split("\n");
+  const sections = [];
+  const trail = [];
+  let current = { headings: [], startLine: 1, lines: [] };
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE.test(line.trim())) inFence = !inFence;
+    const match = !inFence && HEADING.exec(line);
+    if (!match) {
+      current.lines.push({ text: line, number: index + 1 });
+      return;
+    }
+    sections.push(current);
+    const level = match[1].length;
+    trail.splice(level - 1);
+    trail[level - 1] = match[2];
+    current = { headings: trail.filter(Boolean), startLine: index + 1, lines: [] };
+  });
+  sections.push(current);
+  return sections.filter((section) => section.lines.some((line) => line.text.trim()));
+};
+
+// Blank-line separated blocks; a fenced code block stays in one piece
+const splitParagraphs = (lines) => {
+  const paragraphs = [];
+  let block = [];
+  let inFence = false;
+  const flush = () => {
+    if (block.some((line) => line.text.trim())) paragraphs.push(block);
+    block = [];
+  };
+  lines.forEach((line) => {
+    if (FENCE.test(line.text.trim())) inFence = !inFence;
+    if (!inFence && !line.text.trim()) {
+      flush();
+      return;
+    }
+    block.push(line);
+  });
+  flush();
+  return paragraphs;
+};
+
+const joinLines = (lines) =>
+  lines
+    .map((line) => line.text)
+    .join("\n")
+    .trim();
+
+/**
+ * Chunks a document for embedding. `text` is what gets embedded: the heading
+ * trail, then the chunk's paragraphs; `tokens` estimates that whole string.
+ */
+export const chunkDocument = (document) => {
+  const chunks = [];
+  splitSections(document.content ?? "").forEach((section) => {
+    const prefix = section.headings.length > 0 ? `${section.headings.join(" > ")}\n\n` : "";
+    let pending = [];
+    const emit = () => {
+      if (pending.length === 0) return;
+      const body = pending.map(joinLines).join("\n\n");
+      chunks.push({
+        index: chunks.length,
+        headings: section.headings,
+        startLine: pending[0][0].number,
+        endLine: pending[pending.length - 1].slice(-1)[0].number,
+        text: `${prefix}${body}`,
+        tokens: estimateTokens(`${prefix}${body}`),
+      });
+      pending = [];
+    };
+    splitParagraphs(section.lines).forEach((paragraph) => {
+      const size = estimateTokens([...pending, paragraph].map(joinLines).join("\n\n"));
+      if (pending.length > 0 && estimateTokens(prefix) + size > CHUNK_TOKENS) emit();
+      pending.push(paragraph);
+    });
+    emit();
+  });
+  return chunks;
+};
+
+/**
+ * What stops a document from being indexed. Errors block "mark ready";
+ * warnings are shown but don't.
+ */
+export const readinessIssues = (document) => {
+  const issues = [];
+  if (!document.title?.trim()) {
+    issues.push({
+      code: "MISSING_TITLE",
+      severity: "error",
+      message: "The document needs a title; retrieved chunks cite it as their source.",
+    });
+  }
+  const sections = splitSections(document.content ?? "");
+  if (sections.length === 0) {
+    issues.push({
+      code: "EMPTY_CONTENT",
+      severity: "error",
+      message: "The document has no content to index.",
+    });
+    return issues;
+  }
+  sections.forEach((section) => {
+    const tokens = estimateTokens(joinLines(section.lines));
+    if (tokens > SECTION_TOKENS) {
+      const name = section.headings.slice(-1)[0] ?? "Untitled opening section";
+      issues.push({
+        code: "OVERSIZED_SECTION",
+        severity: "error",
+        message: `"${name}" is about ${tokens} tokens (limit ${SECTION_TOKENS}). Split it with subheadings.`,
+        line: section.startLine,
+      });
+    }
+  });
+  if (sections.every((section) => section.headings.length === 0)) {
+    issues.push({
+      code: "NO_HEADINGS",
+      severity: "warning",
+      message: "No headings, so chunks carry no section context.",
+    });
+  }
+  return issues;
+};
+
+// Words too common to say anything about relevance
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have how in is it its of on or that the this to was what when where which who why will with".split(
+    " "
+  )
+);
+
+const tokenize = (text) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term)
+  );
+
+export const queryTerms = (query) => [...new Set(tokenize(query))];
+
+// BM25 parameters: term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Ranks `entries`, each carrying a `chunk` from chunkDocument, against a query
+ * with BM25 over the chunk text, heading trail included. A stand-in for vector
+ * search: it only rewards shared words. Entries that share none are dropped;
+ * the rest come back best first with `score` and the `matchedTerms` behind it.
+ */
+export const rankChunks = (entries, query) => {
+  const terms = queryTerms(query);
+  if (terms.length === 0 || entries.length === 0) return [];
+  const docs = entries.map((entry) => {
+    const counts = new Map();
+    const tokens = tokenize(entry.chunk.text);
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return { entry, counts, length: tokens.length };
+  });
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = docs.filter((doc) => doc.counts.has(term)).length;
+      return [term, Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5))];
+    })
+  );
+
+  return docs
+    .map(({ entry, counts, length }) => {
+      const matchedTerms = terms.filter((term) => counts.has(term));
+      const score = matchedTerms.reduce((sum, term) => {
+        const frequency = counts.get(term);
+        const norm = frequency + K1 * (1 - B + (B * length) / averageLength);
+        return sum + (idf.get(term) * frequency * (K1 + 1)) / norm;
+      }, 0);
+      return { ...entry, score: Math.round(score * 1000) / 1000, matchedTerms };
+    })
+    .filter((ranked) => ranked.matchedTerms.length > 0)
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,110 @@
+// Minimal path router for the mock Core API.
+// Handlers receive `{ params, query, body, actor }` and return a JSON-serialisable
+// value, `{ status, body }` via `respond()` when a non-200 status is needed, or
+// a server-sent event stream via `eventStream()`.
+
+export class HttpError extends Error {
+  constructor(status, message, code = null, details = undefined) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    // Extra fields merged into the error body, e.g. `current` on a version conflict
+    this.details = details;
+  }
+}
+
+export const badRequest = (message, code = "BAD_REQUEST") =>
+  new HttpError(400, message, code);
+
+export const forbidden = (message, code = "FORBIDDEN", details = undefined) =>
+  new HttpError(403, message, code, details);
+
+export const notFound = (message, code = "NOT_FOUND") =>
+  new HttpError(404, message, code);
+
+export const conflict = (message, code = "CONFLICT", details = undefined) =>
+  new HttpError(409, message, code, details);
+
+const RESPONSE = Symbol("response");
+
+export const respond = (status, body) => ({ [RESPONSE]: true, status, body });
+
+const STREAM = Symbol("stream");
+
+// `open({ send, close })` runs once the response is streaming and may return a
+// cleanup function, called when the client disconnects or the stream is closed
+export const eventStream = (open) => ({ [STREAM]: true, open });
+
+// Path segments arrive percent-encoded; a malformed escape is the client's mistake
+const decodeSegment = (segment) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw badRequest(`Malformed path segment "${segment}"`, "MALFORMED_PATH");
+  }
+};
+
+const compile = (pattern) => {
+  const keys = [];
+  const source = pattern
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        keys.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return { regex: new RegExp(`^${source}/?$`), keys };
+};
+
+export function createRouter() {
+  const routes = [];
+
+  const add = (method) => (pattern, handler) => {
+    routes.push({ method, handler, ...compile(pattern) });
+  };
+
+  const match = (method, pathname) => {
+    let pathMatched = false;
+    for (const route of routes) {
+      const result = route.regex.exec(pathname);
+      if (!result) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+      const params = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeSegment(result[index + 1]);
+      });
+      return { handler: route.handler, params };
+    }
+    return { handler: null, pathMatched };
+  };
+
+  const handle = async (method, pathname, { query = {}, body, actor } = {}) => {
+    const { handler, params, pathMatched } = match(method, pathname);
+    if (!handler) {
+      throw pathMatched
+        ? new HttpError(405, `Method ${method} not allowed`, "METHOD_NOT_ALLOWED")
+        : notFound(`No route for ${method} ${pathname}`);
+    }
+    const result = await handler({ params, query, body, actor });
+    if (result && result[STREAM]) {
+      return { status: 200, stream: result.open };
+    }
+    if (result && result[RESPONSE]) {
+      return { status: result.status, body: result.body };
+    }
+    return { status: 200, body: result };
+  };
+
+  return {
+    get: add("GET"),
+    post: add("POST"),
+    patch: add("PATCH"),
+    put: add("PUT"),
+    delete: add("DELETE"),
+    handle,
+  };
+}
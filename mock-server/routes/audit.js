@@ -0,0 +1,27 @@
+import { badRequest } from "../router.js";
+
+const MAX_PAGE_SIZE = 100;
+
+const readPositiveInt = (value, fallback, name) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw badRequest(`${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+export function registerAuditRoutes(router, store) {
+  router.get("/api/audit", ({ query }) =>
+    store.listAudit({
+      workspaceId: query.workspaceId,
+      nodeId: query.nodeId,
+      documentId: query.documentId,
+      action: query.action,
+      mode: query.mode,
+      actor: query.actor,
+      page: readPositiveInt(query.page, 1, "page"),
+      pageSize: Math.min(readPositiveInt(query.pageSize, 20, "pageSize"), MAX_PAGE_SIZE),
+    })
+  );
+}
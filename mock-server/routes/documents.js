@@ -0,0 +1,184 @@
+import { badRequest, conflict, forbidden, notFound, respond } from "../router.js";
+import { CHUNK_TOKENS, SECTION_TOKENS, chunkDocument, readinessIssues } from "../rag.js";
+
+const MAX_PAGE_SIZE = 100;
+const SORT_FIELDS = ["title", "updatedAt", "createdAt"];
+
+const readPositiveInt = (value, fallback, name) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw badRequest(`${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const readBoolean = (value, name) => {
+  if (value === undefined) return undefined;
+  if (value !== "true" && value !== "false") {
+    throw badRequest(`${name} must be true or false`);
+  }
+  return value === "true";
+};
+
+export function registerDocumentRoutes(router, store) {
+  router.get("/api/documents", ({ query }) =>
+    store.listDocuments({ nodeId: query.nodeId })
+  );
+
+  // Registered before /:id so "page" and "summary" aren't read as document ids
+  router.get("/api/documents/page", ({ query }) => {
+    const sort = query.sort ?? "updatedAt";
+    if (!SORT_FIELDS.includes(sort)) {
+      throw badRequest(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+    }
+    const order = query.order ?? (sort === "title" ? "asc" : "desc");
+    if (order !== "asc" && order !== "desc") {
+      throw badRequest("order must be asc or desc");
+    }
+    return store.pageDocuments({
+      nodeId: query.nodeId,
+      governance: readBoolean(query.governance, "governance"),
+      ragReady: readBoolean(query.ragReady, "ragReady"),
+      type: query.type,
+      sort,
+      order,
+      page: readPositiveInt(query.page, 1, "page"),
+      pageSize: Math.min(readPositiveInt(query.pageSize, 25, "pageSize"), MAX_PAGE_SIZE),
+    });
+  });
+
+  router.get("/api/documents/summary", ({ query }) =>
+    store.documentSummary({
+      limit: Math.min(readPositiveInt(query.limit, 5, "limit"), MAX_PAGE_SIZE),
+    })
+  );
+
+  router.get("/api/documents/:id", ({ params }) => {
+    const document = store.getDocument(params.id);
+    if (!document) {
+      throw notFound(`Document ${params.id} not found`);
+    }
+    return document;
+  });
+
+  router.get("/api/documents/:id/versions", ({ params }) => {
+    if (!store.findDocument(params.id)) {
+      throw notFound(`Document ${params.id} not found`);
+    }
+    return store.listDocumentVersions(params.id);
+  });
+
+  // Chunking preview and readiness for retrieval. `ready` means the index was
+  // built from the current version; a text edit since then makes it stale.
+  router.get("/api/documents/:id/rag", ({ params }) => {
+    const existing = store.findDocument(params.id);
+    if (!existing) {
+      throw notFound(`Document ${params.id} not found`);
+    }
+    const chunks = chunkDocument(existing);
+    return {
+      documentId: existing.id,
+      version: existing.version,
+      ready: Boolean(existing.ragReady) && existing.ragIndex?.version === existing.version,
+      index: existing.ragIndex ?? null,
+      chunks,
+      totalTokens: chunks.reduce((sum, chunk) => sum + chunk.tokens, 0),
+      issues: readinessIssues(existing),
+      limits: { chunkTokens: CHUNK_TOKENS, sectionTokens: SECTION_TOKENS },
+    };
+  });
+
+  // Embedding refresh: rebuilds the document's chunks without touching its
+  // text, so it applies automatically (and governance documents are no
+  // exception). Blocking issues have to be fixed by an edit first.
+  router.post("/api/documents/:id/rag/refresh", ({ params, body, actor }) => {
+    const existing = store.findDocument(params.id);
+    if (!existing) {
+      throw notFound(`Document ${params.id} not found`);
+    }
+    if (body?.version !== undefined && String(body.version) !== existing.version) {
+      throw conflict(
+        `Document was updated to version ${existing.version} since version ${body.version} was loaded`,
+        "VERSION_CONFLICT",
+        { current: store.serializeDocument(existing) }
+      );
+    }
+    const blocking = readinessIssues(existing).filter((issue) => issue.severity === "error");
+    if (blocking.length > 0) {
+      throw conflict(
+        `"${existing.title || existing.id}" is not ready for indexing: ${blocking.map((issue) => issue.message).join(" ")}`,
+        "RAG_NOT_READY",
+        { issues: blocking }
+      );
+    }
+
+    const before = {
+      ragReady: Boolean(existing.ragReady),
+      indexedVersion: existing.ragIndex?.version ?? null,
+    };
+    const reindex = Boolean(existing.ragIndex);
+    const chunkCount = chunkDocument(existing).length;
+    const updated = store.markRagIndexed(params.id, { chunkCount });
+    store.recordAudit({
+      actor,
+      action: "rag.refresh",
+      mode: "automatic",
+      target: { type: "document", id: updated.id, name: updated.title },
+      scope: { documentId: updated.id },
+      summary: `${reindex ? "Reindexed" : "Indexed"} "${updated.title}" for retrieval (version ${updated.metadata.version}, ${chunkCount} ${chunkCount === 1 ? "chunk" : "chunks"})`,
+      before,
+      after: { ragReady: true, indexedVersion: updated.ragIndex.version },
+    });
+    return updated;
+  });
+
+  router.post("/api/documents", ({ body, actor }) => {
+    const title = typeof body?.title === "string" ? body.title.trim() : "";
+    if (!body?.nodeId || !title) {
+      throw badRequest("nodeId and title are required");
+    }
+    if (!store.findNode(body.nodeId)) {
+      throw badRequest(`Unknown node ${body.nodeId}`, "UNKNOWN_NODE");
+    }
+    if (body.content !== undefined && body.content !== null && typeof body.content !== "string") {
+      throw badRequest("content must be a string");
+    }
+    const document = store.createDocument({
+      nodeId: body.nodeId,
+      title,
+      content: body.content,
+      isGovernance: body.isGovernance,
+      author: actor,
+    });
+    store.recordAudit({
+      actor,
+      action: "document.create",
+      mode: "automatic",
+      target: { type: "document", id: document.id, name: document.title },
+      scope: { documentId: document.id },
+      summary: `Added document "${document.title}"`,
+      after: {
+        title: document.title,
+        content: document.content,
+        isGovernance: document.isGovernance,
+      },
+    });
+    return respond(201, document);
+  });
+
+  // Every edit is governed ("Edit Document" in the governance matrix): it only
+  // happens by approving a proposal
+  router.patch("/api/documents/:id", ({ params }) => {
+    const existing = store.findDocument(params.id);
+    if (!existing) {
+      throw notFound(`Document ${params.id} not found`);
+    }
+    throw forbidden(
+      existing.isGovernance
+        ? "Governance documents can only change through an approved proposal"
+        : "Editing a document requires an approved proposal",
+      "GOVERNED_CHANGE_REQUIRED"
+    );
+  });
+}
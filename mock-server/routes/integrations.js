@@ -0,0 +1,131 @@
+import { badRequest, forbidden, notFound, respond } from "../router.js";
+import {
+  INTEGRATION_CATALOG,
+  checkIntegration,
+  findIntegrationKind,
+  readIntegrationValues,
+} from "../integrationCatalog.js";
+
+// Audit events carry config values but only say which secrets changed
+const auditValues = (entry, { name, config, secrets }, { secretLabel }) => ({
+  name,
+  ...config,
+  ...Object.fromEntries(
+    entry.fields
+      .filter((field) => field.type === "secret" && secrets[field.key])
+      .map((field) => [field.key, secretLabel])
+  ),
+});
+
+export function registerIntegrationRoutes(router, store) {
+  router.get("/api/integrations/catalog", () => INTEGRATION_CATALOG);
+
+  router.get("/api/integrations", ({ query }) => store.listIntegrations({ nodeId: query.nodeId }));
+
+  router.get("/api/integrations/:id", ({ params }) => {
+    const integration = store.getIntegration(params.id);
+    if (!integration) {
+      throw notFound(`Integration ${params.id} not found`);
+    }
+    return integration;
+  });
+
+  router.post("/api/integrations", ({ body, actor }) => {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!body?.nodeId || !body?.kind || !name) {
+      throw badRequest("nodeId, kind and name are required");
+    }
+    if (!store.findNode(body.nodeId)) {
+      throw badRequest(`Unknown node ${body.nodeId}`, "UNKNOWN_NODE");
+    }
+    const entry = findIntegrationKind(body.kind);
+    if (!entry) {
+      throw badRequest(`Unknown integration kind ${body.kind}`, "UNKNOWN_INTEGRATION_KIND");
+    }
+    const { config, secrets, error } = readIntegrationValues(entry, body);
+    if (error) {
+      throw badRequest(error, "INVALID_INTEGRATION_CONFIG");
+    }
+
+    const integration = store.createIntegration({
+      nodeId: body.nodeId,
+      kind: entry.kind,
+      name,
+      config,
+      secrets,
+    });
+    store.recordAudit({
+      actor,
+      action: "integration.create",
+      mode: "automatic",
+      target: { type: "integration", id: integration.id, name: integration.name },
+      scope: { nodeId: integration.nodeId },
+      summary: `Connected ${entry.label} integration "${integration.name}"`,
+      after: auditValues(entry, { name, config, secrets }, { secretLabel: "(set)" }),
+    });
+    return respond(201, integration);
+  });
+
+  router.patch("/api/integrations/:id", ({ params, body, actor }) => {
+    const existing = store.findIntegration(params.id);
+    if (!existing) {
+      throw notFound(`Integration ${params.id} not found`);
+    }
+    const entry = findIntegrationKind(existing.kind);
+    let name;
+    if (body?.name !== undefined) {
+      name = String(body.name).trim();
+      if (!name) throw badRequest("name cannot be empty");
+    }
+    const { config, secrets, error } = readIntegrationValues(
+      entry,
+      { config: body?.config ?? existing.config, secrets: body?.secrets },
+      existing
+    );
+    if (error) {
+      throw badRequest(error, "INVALID_INTEGRATION_CONFIG");
+    }
+
+    const before = auditValues(
+      entry,
+      { name: existing.name, config: existing.config, secrets: {} },
+      { secretLabel: "" }
+    );
+    const updated = store.updateIntegration(params.id, { name, config, secrets });
+    store.recordAudit({
+      actor,
+      action: "integration.edit",
+      mode: "automatic",
+      target: { type: "integration", id: updated.id, name: updated.name },
+      scope: { nodeId: updated.nodeId },
+      summary: `Updated ${entry.label} integration "${updated.name}"`,
+      before,
+      after: auditValues(
+        entry,
+        { name: updated.name, config, secrets },
+        { secretLabel: "(replaced)" }
+      ),
+    });
+    return updated;
+  });
+
+  router.delete("/api/integrations/:id", ({ params }) => {
+    if (!store.findIntegration(params.id)) {
+      throw notFound(`Integration ${params.id} not found`);
+    }
+    throw forbidden(
+      "Disconnecting an integration requires an approved proposal",
+      "GOVERNED_CHANGE_REQUIRED"
+    );
+  });
+
+  // Health checks are telemetry rather than changes, so they are not audited
+  router.post("/api/integrations/:id/test", ({ params }) => {
+    const existing = store.findIntegration(params.id);
+    if (!existing) {
+      throw notFound(`Integration ${params.id} not found`);
+    }
+    const result = checkIntegration(findIntegrationKind(existing.kind), existing);
+    return store.setIntegrationHealth(params.id, result);
+  });
+}
@@ -0,0 +1,253 @@
+import { badRequest, notFound, respond } from "../router.js";
+import { chunkDocument, queryTerms, rankChunks, readinessIssues } from "../rag.js";
+
+const PURPOSES = ["rag", "validation", "governance"];
+const GOVERNANCE_FILTERS = ["only", "exclude"];
+const MAX_RESULTS = 20;
+
+// Sources are fetched by the indexer, so only web addresses can be indexed
+const isFetchable = (uri) => {
+  try {
+    return ["http:", "https:"].includes(new URL(uri).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// What one rebuild does to a member. Documents are chunked exactly as for
+// their own RAG index; a document with blocking issues fails instead.
+const indexMember = (store) => (member) => {
+  if (member.kind === "source") {
+    return isFetchable(member.uri)
+      ? { indexedVersion: null, chunkCount: null, error: null }
+      : { error: `Cannot fetch ${member.uri}; sources must be http(s) URLs` };
+  }
+  const document = store.findDocument(member.documentId);
+  const blocking = readinessIssues(document).filter((issue) => issue.severity === "error");
+  if (blocking.length > 0) {
+    return { error: blocking.map((issue) => issue.message).join(" ") };
+  }
+  return {
+    indexedVersion: document.version,
+    chunkCount: chunkDocument(document).length,
+    error: null,
+  };
+};
+
+export function registerKnowledgeStoreRoutes(router, store) {
+  router.get("/api/knowledge-stores", ({ query }) =>
+    store.listKnowledgeStores({ workspaceId: query.workspaceId, nodeId: query.nodeId })
+  );
+
+  const requireStore = (id) => {
+    const existing = store.findKnowledgeStore(id);
+    if (!existing) {
+      throw notFound(`Knowledge store ${id} not found`);
+    }
+    return existing;
+  };
+
+  router.get("/api/knowledge-stores/:id", ({ params }) =>
+    store.serializeKnowledgeStore(requireStore(params.id))
+  );
+
+  // Scoped to a node when `nodeId` is given, otherwise to the whole workspace
+  router.post("/api/knowledge-stores", ({ body, actor }) => {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!body?.workspaceId || !name) {
+      throw badRequest("workspaceId and name are required");
+    }
+    if (!store.findWorkspace(body.workspaceId)) {
+      throw badRequest(`Unknown workspace ${body.workspaceId}`, "UNKNOWN_WORKSPACE");
+    }
+    const node = body.nodeId ? store.findNode(body.nodeId) : null;
+    if (body.nodeId && (!node || node.workspaceId !== body.workspaceId)) {
+      throw badRequest(`Unknown node ${body.nodeId} in this workspace`, "UNKNOWN_NODE");
+    }
+    const purpose = body.purpose ?? "rag";
+    if (!PURPOSES.includes(purpose)) {
+      throw badRequest(`purpose must be one of ${PURPOSES.join(", ")}`);
+    }
+
+    const created = store.createKnowledgeStore({
+      workspaceId: body.workspaceId,
+      nodeId: node?.id ?? null,
+      name,
+      description: typeof body.description === "string" ? body.description.trim() : "",
+      purpose,
+    });
+    store.recordAudit({
+      actor,
+      action: "knowledge.create",
+      mode: "automatic",
+      target: { type: "knowledgeStore", id: created.id, name: created.name },
+      scope: { workspaceId: created.workspaceId, nodeId: created.nodeId },
+      summary: `Created knowledge store "${created.name}" for ${node ? `node ${node.name}` : `workspace ${created.scope.workspaceName}`}`,
+      after: { name: created.name, purpose: created.purpose },
+    });
+    return respond(201, created);
+  });
+
+  router.post("/api/knowledge-stores/:id/members", ({ params, body, actor }) => {
+    const existing = requireStore(params.id);
+    let member;
+    let label;
+    if (body?.kind === "document") {
+      const document = body.documentId ? store.findDocument(body.documentId) : null;
+      if (!document) {
+        throw badRequest(`Unknown document ${body.documentId}`, "UNKNOWN_DOCUMENT");
+      }
+      const node = store.findNode(document.nodeId);
+      const inScope = existing.nodeId
+        ? document.nodeId === existing.nodeId
+        : node?.workspaceId === existing.workspaceId;
+      if (!inScope) {
+        throw badRequest(
+          `"${document.title}" is outside this store's ${existing.nodeId ? "node" : "workspace"}`,
+          "OUT_OF_SCOPE"
+        );
+      }
+      if (existing.members.some((m) => m.kind === "document" && m.documentId === document.id)) {
+        throw badRequest(`"${document.title}" is already in this store`, "DUPLICATE_MEMBER");
+      }
+      member = { kind: "document", documentId: document.id };
+      label = document.title;
+    } else if (body?.kind === "source") {
+      label = typeof body.label === "string" ? body.label.trim() : "";
+      const uri = typeof body.uri === "string" ? body.uri.trim() : "";
+      if (!label || !uri) {
+        throw badRequest("label and uri are required for a source");
+      }
+      if (existing.members.some((m) => m.kind === "source" && m.uri === uri)) {
+        throw badRequest(`${uri} is already in this store`, "DUPLICATE_MEMBER");
+      }
+      member = { kind: "source", label, uri };
+    } else {
+      throw badRequest('kind must be "document" or "source"');
+    }
+
+    const before = existing.members.length;
+    const updated = store.addKnowledgeStoreMember(params.id, member, { author: actor });
+    store.recordAudit({
+      actor,
+      action: "knowledge.edit",
+      mode: "automatic",
+      target: { type: "knowledgeStore", id: updated.id, name: updated.name },
+      scope: { workspaceId: updated.workspaceId, nodeId: updated.nodeId },
+      summary: `Added ${member.kind} "${label}" to knowledge store "${updated.name}"`,
+      before: { members: before },
+      after: { members: updated.members.length },
+    });
+    return respond(201, updated);
+  });
+
+  router.delete("/api/knowledge-stores/:id/members/:memberId", ({ params, actor }) => {
+    const existing = requireStore(params.id);
+    const member = store
+      .serializeKnowledgeStore(existing)
+      .members.find((m) => m.id === params.memberId);
+    if (!member) {
+      throw notFound(`Member ${params.memberId} not found in this knowledge store`);
+    }
+    const before = existing.members.length;
+    const updated = store.removeKnowledgeStoreMember(params.id, params.memberId);
+    store.recordAudit({
+      actor,
+      action: "knowledge.edit",
+      mode: "automatic",
+      target: { type: "knowledgeStore", id: updated.id, name: updated.name },
+      scope: { workspaceId: updated.workspaceId, nodeId: updated.nodeId },
+      summary: `Removed ${member.kind} "${member.label}" from knowledge store "${updated.name}"`,
+      before: { members: before },
+      after: { members: updated.members.length },
+    });
+    return updated;
+  });
+
+  // Read-only, so not logged. Only document members that a rebuild has indexed
+  // are searched; stale ones are searched as they are now and flagged.
+  router.get("/api/knowledge-stores/:id/query", ({ params, query }) => {
+    const existing = store.serializeKnowledgeStore(requireStore(params.id));
+    const text = typeof query.q === "string" ? query.q.trim() : "";
+    if (!text) {
+      throw badRequest("q is required");
+    }
+    if (queryTerms(text).length === 0) {
+      throw badRequest("The query has no searchable words", "EMPTY_QUERY");
+    }
+    if (query.governance && !GOVERNANCE_FILTERS.includes(query.governance)) {
+      throw badRequest(`governance must be one of ${GOVERNANCE_FILTERS.join(", ")}`);
+    }
+    const limit = Math.min(Math.max(Number(query.limit) || 5, 1), MAX_RESULTS);
+
+    const skipped = [];
+    const searchable = existing.members.filter((member) => {
+      if (member.kind === "source") {
+        skipped.push({
+          memberId: member.id,
+          label: member.label,
+          reason: "External sources aren't fetched by the local mock server",
+        });
+        return false;
+      }
+      if (member.indexedVersion === null) {
+        skipped.push({
+          memberId: member.id,
+          label: member.label,
+          reason: member.error ?? "Not indexed yet; rebuild the store",
+        });
+        return false;
+      }
+      return true;
+    });
+
+    const entries = searchable
+      .map((member) => ({ member, document: store.findDocument(member.documentId) }))
+      .filter(({ document }) => !query.nodeId || document.nodeId === query.nodeId)
+      .filter(
+        ({ document }) =>
+          !query.governance || !!document.isGovernance === (query.governance === "only")
+      )
+      .flatMap(({ member, document }) =>
+        chunkDocument(document).map((chunk) => ({
+          memberId: member.id,
+          documentId: document.id,
+          title: document.title,
+          nodeId: document.nodeId,
+          nodeName: store.findNode(document.nodeId)?.name ?? "",
+          isGovernance: !!document.isGovernance,
+          stale: member.status === "stale",
+          chunk,
+        }))
+      );
+
+    return {
+      storeId: existing.id,
+      query: text,
+      terms: queryTerms(text),
+      results: rankChunks(entries, text).slice(0, limit),
+      searched: {
+        documents: new Set(entries.map((entry) => entry.documentId)).size,
+        chunks: entries.length,
+      },
+      skipped,
+    };
+  });
+
+  // A rebuild re-derives the index from the members as they are now; it never
+  // touches their content, so it applies automatically like a RAG refresh
+  router.post("/api/knowledge-stores/:id/rebuild", ({ params, actor }) => {
+    requireStore(params.id);
+    const updated = store.rebuildKnowledgeStore(params.id, indexMember(store));
+    const { indexed, failed } = updated.counts;
+    store.recordAudit({
+      actor,
+      action: "knowledge.rebuild",
+      mode: "automatic",
+      target: { type: "knowledgeStore", id: updated.id, name: updated.name },
+      scope: { workspaceId: updated.workspaceId, nodeId: updated.nodeId },
+      summary: `Rebuilt knowledge store "${updated.name}" (${indexed} indexed${failed > 0 ? `, ${failed} failed` : ""})`,
+    });
+    return updated;
+  });
+}
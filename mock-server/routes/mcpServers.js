@@ -0,0 +1,132 @@
+import { badRequest, conflict, forbidden, notFound, respond } from "../router.js";
+import { MCP_TEMPLATES, addedTools, findMcpTemplate, readTools } from "../mcp.js";
+import { handleMcpMessage } from "../mcpRuntime.js";
+
+// Tool lists are validated here so a 400 names the offending tool
+const parseTools = (tools) => {
+  try {
+    return readTools(tools);
+  } catch (err) {
+    throw badRequest(err.message, "INVALID_TOOL_DEFINITION");
+  }
+};
+
+export function registerMcpServerRoutes(router, store) {
+  router.get("/api/mcp/templates", () => MCP_TEMPLATES);
+
+  router.get("/api/mcp-servers", ({ query }) => store.listMcpServers({ nodeId: query.nodeId }));
+
+  const requireServer = (id) => {
+    const server = store.findMcpServer(id);
+    if (!server) {
+      throw notFound(`MCP server ${id} not found`);
+    }
+    return server;
+  };
+
+  router.get("/api/mcp-servers/:id", ({ params }) =>
+    store.serializeMcpServer(requireServer(params.id))
+  );
+
+  router.get("/api/mcp-servers/:id/versions", ({ params }) => {
+    requireServer(params.id);
+    return store.listMcpServerVersions(params.id);
+  });
+
+  // JSON-RPC endpoint for the inspector and local MCP clients. Errors are
+  // JSON-RPC error objects with HTTP 200; notifications are accepted with 202.
+  // Calls only read, so they aren't audited.
+  router.post("/api/mcp-servers/:id/rpc", ({ params, body }) => {
+    const server = requireServer(params.id);
+    const response = handleMcpMessage(store, server, body);
+    return response ? response : respond(202, undefined);
+  });
+
+  // Servers start from a pre-approved template, so creating one is automatic
+  router.post("/api/mcp-servers", ({ body, actor }) => {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!body?.nodeId || !body?.templateId || !name) {
+      throw badRequest("nodeId, templateId and name are required");
+    }
+    if (!store.findNode(body.nodeId)) {
+      throw badRequest(`Unknown node ${body.nodeId}`, "UNKNOWN_NODE");
+    }
+    const template = findMcpTemplate(body.templateId);
+    if (!template) {
+      throw badRequest(`Unknown MCP template ${body.templateId}`, "UNKNOWN_MCP_TEMPLATE");
+    }
+
+    const server = store.createMcpServer({
+      nodeId: body.nodeId,
+      templateId: template.id,
+      name,
+      description:
+        typeof body.description === "string" ? body.description.trim() : template.description,
+      tools: template.tools,
+      author: actor,
+    });
+    store.recordAudit({
+      actor,
+      action: "mcp.createFromTemplate",
+      mode: "automatic",
+      target: { type: "mcpServer", id: server.id, name: server.name },
+      scope: { nodeId: server.nodeId },
+      summary: `Created MCP server "${server.name}" from the ${template.label} template (${server.tools.length} tools)`,
+      after: { name: server.name, tools: server.tools },
+    });
+    return respond(201, server);
+  });
+
+  // Edits that only change or remove tools apply directly; adding a tool widens
+  // what agents can do through the server and needs a capability proposal
+  router.patch("/api/mcp-servers/:id", ({ params, body, actor }) => {
+    const existing = requireServer(params.id);
+    if (body?.version === undefined || body.version === null) {
+      throw badRequest("version is required");
+    }
+    if (String(body.version) !== existing.version) {
+      throw conflict(
+        `MCP server was updated to version ${existing.version} since version ${body.version} was loaded`,
+        "VERSION_CONFLICT",
+        { current: store.serializeMcpServer(existing) }
+      );
+    }
+
+    const patch = {};
+    if (body.name !== undefined) {
+      const name = String(body.name).trim();
+      if (!name) throw badRequest("name cannot be empty");
+      patch.name = name;
+    }
+    if (body.description !== undefined) patch.description = String(body.description ?? "");
+    if (body.tools !== undefined) {
+      patch.tools = parseTools(body.tools);
+      const added = addedTools(existing.tools, patch.tools);
+      if (added.length > 0) {
+        throw forbidden(
+          `Adding tools (${added.join(", ")}) is a capability change and needs an approved proposal`,
+          "GOVERNED_CHANGE_REQUIRED",
+          { addedTools: added }
+        );
+      }
+    }
+
+    const before = {
+      name: existing.name,
+      description: existing.description,
+      tools: existing.tools,
+    };
+    const updated = store.updateMcpServer(params.id, patch, { author: actor });
+    store.recordAudit({
+      actor,
+      action: "mcp.edit",
+      mode: "automatic",
+      target: { type: "mcpServer", id: updated.id, name: updated.name },
+      scope: { nodeId: updated.nodeId },
+      summary: `Edited MCP server "${updated.name}" (version ${updated.version})`,
+      before,
+      after: patch,
+    });
+    return updated;
+  });
+}
@@ -0,0 +1,70 @@
+import { badRequest, conflict, notFound } from "../router.js";
+
+// Keep in sync with MODULE_KINDS in src/content/moduleKinds.ts
+const MODULE_KINDS = ["template", "prompt", "schema", "validation", "connector"];
+
+export function registerModuleRoutes(router, store) {
+  router.get("/api/modules", ({ query }) =>
+    store.listModules({ workspaceId: query.workspaceId, nodeId: query.nodeId, kind: query.kind })
+  );
+
+  router.get("/api/modules/:id", ({ params }) => {
+    const module = store.getModule(params.id);
+    if (!module) {
+      throw notFound(`Module ${params.id} not found`);
+    }
+    return module;
+  });
+
+  router.patch("/api/modules/:id", ({ params, body, actor }) => {
+    const existing = store.findModule(params.id);
+    if (!existing) {
+      throw notFound(`Module ${params.id} not found`);
+    }
+    if (body?.version === undefined || body.version === null) {
+      throw badRequest("version is required");
+    }
+    if (String(body.version) !== existing.version) {
+      throw conflict(
+        `Module was updated to version ${existing.version} since version ${body.version} was loaded`,
+        "VERSION_CONFLICT",
+        { current: store.serializeModule(existing) }
+      );
+    }
+
+    const patch = {};
+    if (body.name !== undefined) {
+      const name = String(body.name).trim();
+      if (!name) throw badRequest("name cannot be empty");
+      patch.name = name;
+    }
+    if (body.kind !== undefined) {
+      if (!MODULE_KINDS.includes(body.kind)) {
+        throw badRequest(`kind must be one of ${MODULE_KINDS.join(", ")}`);
+      }
+      patch.kind = body.kind;
+    }
+    if (body.description !== undefined) patch.description = String(body.description ?? "");
+    if (body.content !== undefined) patch.content = String(body.content ?? "");
+
+    const before = {
+      name: existing.name,
+      kind: existing.kind,
+      description: existing.description,
+      content: existing.content,
+    };
+    const updated = store.updateModule(params.id, patch);
+    const usedBy = updated.usedBy.length;
+    store.recordAudit({
+      actor,
+      action: "module.edit",
+      mode: "automatic",
+      target: { type: "module", id: updated.id, name: updated.name },
+      scope: { nodeId: updated.nodeId },
+      summary: `Edited ${updated.kind} module "${updated.name}" (version ${updated.version}, used by ${usedBy} program${usedBy === 1 ? "" : "s"})`,
+      before,
+      after: patch,
+    });
+    return updated;
+  });
+}
@@ -0,0 +1,51 @@
+import { badRequest, forbidden, notFound, respond } from "../router.js";
+
+export function registerNodeRoutes(router, store, { nodeDetailRoute = true } = {}) {
+  router.get("/api/nodes", ({ query }) =>
+    store.listNodes({ workspaceId: query.workspaceId })
+  );
+
+  // With `nodeDetailRoute: false` every lookup 404s, like older Core builds,
+  // which exercises the list-and-filter fallback in NodeDetailPage.
+  router.get("/api/nodes/:id", ({ params }) => {
+    const node = nodeDetailRoute ? store.getNode(params.id) : null;
+    if (!node) {
+      throw notFound(`Node ${params.id} not found`);
+    }
+    return node;
+  });
+
+  router.post("/api/nodes", ({ body, actor }) => {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!body?.workspaceId || !name) {
+      throw badRequest("workspaceId and name are required");
+    }
+    if (!store.findWorkspace(body.workspaceId)) {
+      throw badRequest(`Unknown workspace ${body.workspaceId}`, "UNKNOWN_WORKSPACE");
+    }
+    const node = store.createNode({ workspaceId: body.workspaceId, name });
+    store.recordAudit({
+      actor,
+      action: "node.create",
+      mode: "automatic",
+      target: { type: "node", id: node.id, name: node.name },
+      scope: { nodeId: node.id },
+      summary: `Created node "${node.name}" in ${node.workspace?.name ?? body.workspaceId}`,
+      after: { name: node.name },
+    });
+    return respond(201, node);
+  });
+
+  // Renames and deletes are governed: they only happen by approving a proposal
+  const governedOnly = ({ params }) => {
+    if (!store.findNode(params.id)) {
+      throw notFound(`Node ${params.id} not found`);
+    }
+    throw forbidden(
+      "Renaming or deleting a node requires an approved proposal",
+      "GOVERNED_CHANGE_REQUIRED"
+    );
+  };
+  router.patch("/api/nodes/:id", governedOnly);
+  router.delete("/api/nodes/:id", governedOnly);
+}
@@ -0,0 +1,144 @@
+import { badRequest, conflict, forbidden, notFound, respond } from "../router.js";
+
+// Keep in sync with PROGRAM_TYPES / PROGRAM_STATUSES in src/content/programTemplates.ts
+const PROGRAM_TYPES = ["workflow", "automation", "agent", "generator", "build-plan", "runbook"];
+const PROGRAM_STATUSES = ["draft", "active", "paused", "archived"];
+
+const readEnum = (value, allowed, field) => {
+  if (!allowed.includes(value)) {
+    throw badRequest(`${field} must be one of ${allowed.join(", ")}`);
+  }
+  return value;
+};
+
+const readSteps = (store, steps) => {
+  if (!Array.isArray(steps)) {
+    throw badRequest("steps must be an array");
+  }
+  return steps.map((step, index) => {
+    const name = typeof step?.name === "string" ? step.name.trim() : "";
+    if (!name) {
+      throw badRequest(`steps[${index}].name is required`);
+    }
+    const moduleId = step.moduleId || null;
+    if (moduleId && !store.findModule(moduleId)) {
+      throw badRequest(`Unknown module ${moduleId}`, "UNKNOWN_MODULE");
+    }
+    return {
+      id: typeof step.id === "string" && step.id ? step.id : `step-${index + 1}`,
+      name,
+      moduleId,
+      instructions: typeof step.instructions === "string" ? step.instructions : "",
+    };
+  });
+};
+
+const definitionOf = (program) => ({
+  name: program.name,
+  type: program.type,
+  status: program.status,
+  description: program.description,
+  steps: program.steps,
+});
+
+export function registerProgramRoutes(router, store) {
+  router.get("/api/programs", ({ query }) => store.listPrograms({ nodeId: query.nodeId }));
+
+  router.get("/api/programs/:id", ({ params }) => {
+    const program = store.getProgram(params.id);
+    if (!program) {
+      throw notFound(`Program ${params.id} not found`);
+    }
+    return program;
+  });
+
+  router.get("/api/programs/:id/versions", ({ params }) => {
+    if (!store.findProgram(params.id)) {
+      throw notFound(`Program ${params.id} not found`);
+    }
+    return store.listProgramVersions(params.id);
+  });
+
+  router.post("/api/programs", ({ body, actor }) => {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!body?.nodeId || !name) {
+      throw badRequest("nodeId and name are required");
+    }
+    if (!store.findNode(body.nodeId)) {
+      throw badRequest(`Unknown node ${body.nodeId}`, "UNKNOWN_NODE");
+    }
+    const program = store.createProgram({
+      nodeId: body.nodeId,
+      name,
+      type: readEnum(body.type, PROGRAM_TYPES, "type"),
+      status: readEnum(body.status ?? "draft", PROGRAM_STATUSES, "status"),
+      description: typeof body.description === "string" ? body.description : "",
+      steps: readSteps(store, body.steps ?? []),
+      author: actor,
+    });
+    store.recordAudit({
+      actor,
+      action: "program.create",
+      mode: "automatic",
+      target: { type: "program", id: program.id, name: program.name },
+      scope: { nodeId: program.nodeId },
+      summary: `Created ${program.type} "${program.name}"`,
+      after: { name: program.name },
+    });
+    return respond(201, program);
+  });
+
+  router.patch("/api/programs/:id", ({ params, body, actor }) => {
+    const existing = store.findProgram(params.id);
+    if (!existing) {
+      throw notFound(`Program ${params.id} not found`);
+    }
+    if (body?.version === undefined || body.version === null) {
+      throw badRequest("version is required");
+    }
+    if (String(body.version) !== existing.version) {
+      throw conflict(
+        `Program was updated to version ${existing.version} since version ${body.version} was loaded`,
+        "VERSION_CONFLICT",
+        { current: store.serializeProgram(existing) }
+      );
+    }
+
+    const patch = {};
+    if (body.name !== undefined) {
+      const name = String(body.name).trim();
+      if (!name) throw badRequest("name cannot be empty");
+      patch.name = name;
+    }
+    if (body.type !== undefined) patch.type = readEnum(body.type, PROGRAM_TYPES, "type");
+    if (body.status !== undefined) {
+      patch.status = readEnum(body.status, PROGRAM_STATUSES, "status");
+    }
+    if (body.description !== undefined) patch.description = String(body.description ?? "");
+    if (body.steps !== undefined) patch.steps = readSteps(store, body.steps);
+
+    const before = definitionOf(existing);
+    const restoredFrom = body.restoredFrom ? String(body.restoredFrom) : null;
+    const updated = store.updateProgram(params.id, patch, { author: actor, restoredFrom });
+    store.recordAudit({
+      actor,
+      action: "program.edit",
+      mode: "automatic",
+      target: { type: "program", id: updated.id, name: updated.name },
+      scope: { nodeId: updated.nodeId },
+      summary: restoredFrom
+        ? `Restored "${updated.name}" to version ${restoredFrom} (as version ${updated.version})`
+        : `Edited "${updated.name}" (version ${updated.version})`,
+      before,
+      after: patch,
+    });
+    return updated;
+  });
+
+  router.delete("/api/programs/:id", ({ params }) => {
+    if (!store.findProgram(params.id)) {
+      throw notFound(`Program ${params.id} not found`);
+    }
+    throw forbidden("Deleting a program requires an approved proposal", "GOVERNED_CHANGE_REQUIRED");
+  });
+}
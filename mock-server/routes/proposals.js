@@ -0,0 +1,401 @@
+import { badRequest, conflict, notFound, respond } from "../router.js";
+import { addedTools, readTools } from "../mcp.js";
+
+// Governed-change workflow: edits to governance documents, renames / deletes of
+// workspaces and nodes, deletes of programs and integrations, and new MCP
+// server tools are stored as proposals and only applied once approved.
+
+const STRUCTURAL_OPERATIONS = ["rename", "delete"];
+
+// Programs and integrations are renamed by editing them, so only their
+// deletion is structural
+const OPERATIONS_BY_TARGET = {
+  workspace: STRUCTURAL_OPERATIONS,
+  node: STRUCTURAL_OPERATIONS,
+  program: ["delete"],
+  integration: ["delete"],
+};
+
+// A proposal that leaves out the content or governance flag keeps the document's
+const readSnapshot = (proposed, document) => {
+  const title = typeof proposed?.title === "string" ? proposed.title.trim() : "";
+  if (!title) {
+    throw badRequest("proposed.title is required");
+  }
+  if (proposed.content != null && typeof proposed.content !== "string") {
+    throw badRequest("proposed.content must be a string");
+  }
+  return {
+    title,
+    content: proposed.content === undefined ? document.content : (proposed.content ?? ""),
+    isGovernance:
+      typeof proposed.isGovernance === "boolean" ? proposed.isGovernance : document.isGovernance,
+  };
+};
+
+const requireReviewer = (body) => {
+  const reviewer = typeof body?.reviewer === "string" ? body.reviewer.trim() : "";
+  if (!reviewer) {
+    throw badRequest("reviewer is required");
+  }
+  return reviewer;
+};
+
+export function registerProposalRoutes(router, store) {
+  router.get("/api/proposals", ({ query }) =>
+    store.listProposals({
+      nodeId: query.nodeId,
+      documentId: query.documentId,
+      serverId: query.serverId,
+      status: query.status,
+    })
+  );
+
+  const lookup = (type, id) =>
+    type === "workspace"
+      ? store.findWorkspace(id)
+      : type === "node"
+        ? store.findNode(id)
+        : type === "program"
+          ? store.findProgram(id)
+          : type === "integration"
+            ? store.findIntegration(id)
+            : null;
+
+  const findTarget = (type, id) => {
+    const target = lookup(type, id);
+    if (!target) {
+      throw badRequest(`Unknown ${type} ${id}`, "UNKNOWN_TARGET");
+    }
+    return target;
+  };
+
+  const scopeOf = (proposal) =>
+    proposal.target.type === "workspace"
+      ? { workspaceId: proposal.target.id }
+      : { workspaceId: proposal.workspaceId, nodeId: proposal.nodeId };
+
+  const describe = (proposal) =>
+    proposal.operation === "rename"
+      ? `rename ${proposal.target.type} "${proposal.target.name}" to "${proposal.proposedName}"`
+      : `delete ${proposal.target.type} "${proposal.target.name}"`;
+
+  const serverTarget = (proposal) => ({
+    type: "mcpServer",
+    id: proposal.serverId,
+    name: proposal.serverName,
+  });
+
+  // Scope is passed explicitly because a deleted target can no longer be resolved
+  const recordDecision = (proposal, actor, summary, extra = {}) =>
+    store.recordAudit({
+      actor,
+      action: `proposal.${proposal.status === "approved" ? "approve" : "reject"}`,
+      mode: "governed",
+      ...(proposal.kind === "structure"
+        ? { target: proposal.target, scope: scopeOf(proposal) }
+        : proposal.kind === "capability"
+          ? { target: serverTarget(proposal), scope: { nodeId: proposal.nodeId } }
+          : {
+              target: { type: "document", id: proposal.documentId, name: proposal.documentTitle },
+              scope: { documentId: proposal.documentId },
+            }),
+      summary,
+      ...extra,
+    });
+
+  const createStructural = (body, author, rationale, actor) => {
+    const entity = findTarget(body.targetType, body.targetId);
+    const operations = OPERATIONS_BY_TARGET[body.targetType];
+    if (!operations.includes(body.operation)) {
+      throw badRequest(`operation for a ${body.targetType} must be one of ${operations.join(", ")}`);
+    }
+    const proposedName = typeof body.proposedName === "string" ? body.proposedName.trim() : "";
+    if (body.operation === "rename" && !proposedName) {
+      throw badRequest("proposedName is required for a rename");
+    }
+    if (body.operation === "rename" && proposedName === entity.name) {
+      throw badRequest("proposedName must differ from the current name");
+    }
+
+    const proposal = store.createStructuralProposal({
+      operation: body.operation,
+      target: { type: body.targetType, id: entity.id, name: entity.name },
+      proposedName: body.operation === "rename" ? proposedName : null,
+      author,
+      rationale,
+    });
+    store.recordAudit({
+      actor,
+      action: "proposal.submit",
+      mode: "governed",
+      target: proposal.target,
+      scope: scopeOf(proposal),
+      summary: `${author} proposed to ${describe(proposal)}: ${rationale}`,
+      ...(proposal.operation === "rename"
+        ? { before: { name: entity.name }, after: { name: proposedName } }
+        : {}),
+    });
+    return respond(201, proposal);
+  };
+
+  const createCapability = (body, author, rationale, actor) => {
+    const server = store.findMcpServer(body.serverId);
+    if (!server) {
+      throw badRequest(`Unknown MCP server ${body.serverId}`, "UNKNOWN_TARGET");
+    }
+    if (String(body.baseVersion) !== server.version) {
+      throw conflict(
+        `MCP server was updated to version ${server.version} since version ${body.baseVersion} was loaded`,
+        "VERSION_CONFLICT",
+        { current: store.serializeMcpServer(server) }
+      );
+    }
+    const name = typeof body.proposed?.name === "string" ? body.proposed.name.trim() : "";
+    if (!name) {
+      throw badRequest("proposed.name is required");
+    }
+    let tools;
+    try {
+      tools = readTools(body.proposed.tools);
+    } catch (err) {
+      throw badRequest(err.message, "INVALID_TOOL_DEFINITION");
+    }
+    const added = addedTools(server.tools, tools);
+    if (added.length === 0) {
+      throw badRequest(
+        "No tools are added, so the change can be saved directly",
+        "NO_CAPABILITY_CHANGE"
+      );
+    }
+
+    const proposal = store.createCapabilityProposal({
+      serverId: server.id,
+      baseVersion: server.version,
+      proposed: {
+        name,
+        description:
+          typeof body.proposed.description === "string"
+            ? body.proposed.description
+            : server.description,
+        tools,
+      },
+      addedTools: added,
+      author,
+      rationale,
+    });
+    store.recordAudit({
+      actor,
+      action: "proposal.submit",
+      mode: "governed",
+      target: serverTarget(proposal),
+      scope: { nodeId: proposal.nodeId },
+      summary: `${author} proposed adding ${added.join(", ")} to MCP server "${server.name}": ${rationale}`,
+      before: proposal.current,
+      after: proposal.proposed,
+    });
+    return respond(201, proposal);
+  };
+
+  router.post("/api/proposals", ({ body, actor }) => {
+    const author = typeof body?.author === "string" ? body.author.trim() : "";
+    const rationale = typeof body?.rationale === "string" ? body.rationale.trim() : "";
+    if (!author || !rationale) {
+      throw badRequest("author and rationale are required");
+    }
+    if (body.kind === "structure") {
+      return createStructural(body, author, rationale, actor);
+    }
+    if (body.kind === "capability") {
+      return createCapability(body, author, rationale, actor);
+    }
+
+    const document = store.findDocument(body.documentId);
+    if (!document) {
+      throw badRequest(`Unknown document ${body.documentId}`, "UNKNOWN_DOCUMENT");
+    }
+    if (String(body.baseVersion) !== document.version) {
+      throw conflict(
+        `Document was updated to version ${document.version} since version ${body.baseVersion} was loaded`,
+        "VERSION_CONFLICT",
+        { current: store.serializeDocument(document) }
+      );
+    }
+
+    const proposal = store.createProposal({
+      documentId: document.id,
+      baseVersion: document.version,
+      author,
+      rationale,
+      proposed: readSnapshot(body.proposed, document),
+      restoredFrom: body.restoredFrom ? String(body.restoredFrom) : null,
+    });
+    store.recordAudit({
+      actor,
+      action: "proposal.submit",
+      mode: "governed",
+      target: { type: "document", id: document.id, name: document.title },
+      scope: { documentId: document.id },
+      summary: `${author} proposed a change to "${document.title}": ${rationale}`,
+      before: proposal.current,
+      after: proposal.proposed,
+    });
+    return respond(201, proposal);
+  });
+
+  const findPending = (id) => {
+    const proposal = store.findProposal(id);
+    if (!proposal) {
+      throw notFound(`Proposal ${id} not found`);
+    }
+    if (proposal.status !== "pending") {
+      throw conflict(`Proposal is already ${proposal.status}`, "PROPOSAL_DECIDED");
+    }
+    return proposal;
+  };
+
+  const approveStructural = (proposal, reviewer, note, actor) => {
+    const { target } = proposal;
+    const entity = lookup(target.type, target.id);
+    if (!entity) {
+      throw conflict(`${target.type} "${target.name}" no longer exists`, "TARGET_GONE");
+    }
+    // Renamed since the proposal was drafted: the reviewer would be approving a stale picture
+    if (entity.name !== target.name) {
+      throw conflict(
+        `${target.type} was renamed to "${entity.name}" after this proposal was drafted`,
+        "TARGET_CHANGED"
+      );
+    }
+
+    let impact = "";
+    if (proposal.operation === "rename") {
+      if (target.type === "workspace") store.renameWorkspace(target.id, proposal.proposedName);
+      else store.renameNode(target.id, proposal.proposedName);
+    } else {
+      const removed =
+        target.type === "workspace"
+          ? store.deleteWorkspace(target.id)
+          : target.type === "node"
+            ? store.deleteNode(target.id)
+            : target.type === "program"
+              ? store.deleteProgram(target.id)
+              : store.deleteIntegration(target.id);
+      store.closeOrphanedProposals(removed, {
+        reviewer,
+        note: `Closed automatically: ${target.type} "${target.name}" was deleted`,
+      });
+      if (target.type === "workspace" || target.type === "node") {
+        impact = ` (${removed.nodeIds.length} nodes, ${removed.documentIds.length} documents, ${removed.programIds.length} programs removed)`;
+      } else if (target.type === "integration") {
+        impact = " (stored secrets discarded)";
+      }
+    }
+
+    const decided = store.decideProposal(proposal.id, { status: "approved", reviewer, note });
+    recordDecision(
+      decided,
+      actor,
+      `${reviewer} approved ${decided.author}'s proposal to ${describe(decided)}${impact}`,
+      proposal.operation === "rename"
+        ? { before: { name: target.name }, after: { name: proposal.proposedName } }
+        : {}
+    );
+    return decided;
+  };
+
+  const approveCapability = (proposal, reviewer, note, actor) => {
+    const server = store.findMcpServer(proposal.serverId);
+    if (server.version !== proposal.baseVersion) {
+      throw conflict(
+        `MCP server moved to version ${server.version} after this proposal was drafted against version ${proposal.baseVersion}`,
+        "VERSION_CONFLICT",
+        { current: store.serializeMcpServer(server) }
+      );
+    }
+
+    const before = { name: server.name, description: server.description, tools: server.tools };
+    const updated = store.updateMcpServer(server.id, proposal.proposed, {
+      author: proposal.author,
+      proposalId: proposal.id,
+    });
+    const decided = store.decideProposal(proposal.id, {
+      status: "approved",
+      reviewer,
+      note,
+      appliedVersion: updated.version,
+    });
+    recordDecision(
+      decided,
+      actor,
+      `${reviewer} approved adding ${proposal.addedTools.join(", ")} to MCP server "${updated.name}"; applied as version ${updated.version}`,
+      { before, after: proposal.proposed }
+    );
+    return decided;
+  };
+
+  router.post("/api/proposals/:id/approve", ({ params, body, actor }) => {
+    const proposal = findPending(params.id);
+    const reviewer = requireReviewer(body);
+    if (proposal.kind === "structure") {
+      return approveStructural(proposal, reviewer, body?.note, actor);
+    }
+    if (proposal.kind === "capability") {
+      return approveCapability(proposal, reviewer, body?.note, actor);
+    }
+    const document = store.findDocument(proposal.documentId);
+    if (document.version !== proposal.baseVersion) {
+      throw conflict(
+        `Document moved to version ${document.version} after this proposal was drafted against version ${proposal.baseVersion}`,
+        "VERSION_CONFLICT",
+        { current: store.serializeDocument(document) }
+      );
+    }
+
+    const before = {
+      title: document.title,
+      content: document.content,
+      isGovernance: document.isGovernance,
+    };
+    const updated = store.updateDocument(document.id, proposal.proposed, {
+      author: proposal.author,
+      restoredFrom: proposal.restoredFrom ?? null,
+      proposalId: proposal.id,
+    });
+    const decided = store.decideProposal(proposal.id, {
+      status: "approved",
+      reviewer,
+      note: body?.note,
+      appliedVersion: updated.metadata.version,
+    });
+    recordDecision(
+      decided,
+      actor,
+      `${reviewer} approved ${decided.author}'s change; applied as version ${updated.metadata.version}`,
+      { before, after: proposal.proposed }
+    );
+    return decided;
+  });
+
+  router.post("/api/proposals/:id/reject", ({ params, body, actor }) => {
+    const proposal = findPending(params.id);
+    const reviewer = requireReviewer(body);
+    const decided = store.decideProposal(proposal.id, {
+      status: "rejected",
+      reviewer,
+      note: body?.note,
+    });
+    recordDecision(
+      decided,
+      actor,
+      `${reviewer} rejected ${decided.author}'s ${
+        decided.kind === "structure"
+          ? `proposal to ${describe(decided)}`
+          : decided.kind === "capability"
+            ? `proposal to add ${decided.addedTools.join(", ")} to MCP server "${decided.serverName}"`
+            : "change"
+      }${body?.note ? `: ${body.note}` : ""}`
+    );
+    return decided;
+  });
+}
@@ -0,0 +1,98 @@
+import { badRequest, conflict, eventStream, notFound, respond } from "../router.js";
+
+const FINISHED = ["succeeded", "failed", "cancelled"];
+
+const readAfter = (value) => {
+  const after = Number(value ?? 0);
+  if (!Number.isInteger(after) || after < 0) {
+    throw badRequest("after must be a non-negative integer");
+  }
+  return after;
+};
+
+export function registerRunRoutes(router, store, runner) {
+  const requireRun = (id) => {
+    const run = store.getRun(id);
+    if (!run) {
+      throw notFound(`Run ${id} not found`);
+    }
+    return run;
+  };
+
+  router.get("/api/programs/:id/runs", ({ params }) => {
+    if (!store.findProgram(params.id)) {
+      throw notFound(`Program ${params.id} not found`);
+    }
+    return store.listRuns(params.id);
+  });
+
+  // `failAt` (a step id) is a mock-only hook for exercising the failure path
+  router.post("/api/programs/:id/runs", ({ params, body, actor }) => {
+    const program = store.findProgram(params.id);
+    if (!program) {
+      throw notFound(`Program ${params.id} not found`);
+    }
+    if (program.status === "archived") {
+      throw conflict("Archived programs cannot be run", "PROGRAM_ARCHIVED");
+    }
+    if (program.steps.length === 0) {
+      throw badRequest("Program has no steps to run", "PROGRAM_EMPTY");
+    }
+    const run = store.createRun(program, { actor });
+    store.recordAudit({
+      actor,
+      action: "program.run",
+      mode: "automatic",
+      target: { type: "program", id: program.id, name: program.name },
+      scope: { nodeId: program.nodeId },
+      summary: `Started run #${run.number} of "${program.name}" (version ${program.version})`,
+    });
+    runner.start(run.id, { failAt: body?.failAt ?? null });
+    return respond(201, run);
+  });
+
+  router.get("/api/runs/:id", ({ params }) => requireRun(params.id));
+
+  // Polling fallback for clients that cannot hold an event stream open
+  router.get("/api/runs/:id/logs", ({ params, query }) => {
+    const run = requireRun(params.id);
+    return { run, items: store.listRunLogs(params.id, readAfter(query.after)) };
+  });
+
+  // Server-sent events: a `snapshot` (run + log lines after `after`), then `log`
+  // and `run` events as the run progresses, and `end` once it has finished
+  router.get("/api/runs/:id/events", ({ params, query }) => {
+    const run = requireRun(params.id);
+    const after = readAfter(query.after);
+    return eventStream(({ send, close }) => {
+      send("snapshot", { run, items: store.listRunLogs(params.id, after) });
+      if (FINISHED.includes(run.status)) {
+        send("end", run);
+        close();
+        return null;
+      }
+      return runner.subscribe(params.id, (event, data) => {
+        send(event, data, event === "log" ? data.seq : undefined);
+        if (event === "end") close();
+      });
+    });
+  });
+
+  router.post("/api/runs/:id/cancel", ({ params, actor }) => {
+    const run = requireRun(params.id);
+    if (FINISHED.includes(run.status)) {
+      throw conflict(`Run #${run.number} already finished (${run.status})`, "RUN_FINISHED");
+    }
+    const program = store.findProgram(run.programId);
+    runner.cancel(params.id, { actor });
+    store.recordAudit({
+      actor,
+      action: "program.cancel",
+      mode: "automatic",
+      target: { type: "program", id: run.programId, name: program?.name ?? run.programId },
+      scope: { nodeId: run.nodeId },
+      summary: `Cancelled run #${run.number}${program ? ` of "${program.name}"` : ""}`,
+    });
+    return store.getRun(params.id);
+  });
+}
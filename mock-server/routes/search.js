@@ -0,0 +1,21 @@
+import { badRequest } from "../router.js";
+import { globalSearch, searchTerms } from "../search.js";
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+export function registerSearchRoutes(router, store) {
+  // `limit` applies per group: workspaces, nodes and documents
+  router.get("/api/search", ({ query }) => {
+    const text = typeof query.q === "string" ? query.q.trim() : "";
+    if (!text) {
+      throw badRequest("q is required");
+    }
+    const terms = searchTerms(text);
+    if (terms.length === 0) {
+      throw badRequest("The query has no searchable words", "EMPTY_QUERY");
+    }
+    const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    return { query: text, terms, ...globalSearch(store, text, limit) };
+  });
+}
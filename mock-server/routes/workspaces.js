@@ -0,0 +1,41 @@
+import { badRequest, forbidden, notFound, respond } from "../router.js";
+
+export function registerWorkspaceRoutes(router, store) {
+  router.get("/api/tenants", () => store.listTenants());
+
+  router.get("/api/workspaces", () => store.listWorkspaces());
+
+  router.post("/api/workspaces", ({ body, actor }) => {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!body?.tenantId || !name) {
+      throw badRequest("tenantId and name are required");
+    }
+    if (!store.findTenant(body.tenantId)) {
+      throw badRequest(`Unknown tenant ${body.tenantId}`, "UNKNOWN_TENANT");
+    }
+    const workspace = store.createWorkspace({ tenantId: body.tenantId, name });
+    store.recordAudit({
+      actor,
+      action: "workspace.create",
+      mode: "automatic",
+      target: { type: "workspace", id: workspace.id, name: workspace.name },
+      scope: { workspaceId: workspace.id },
+      summary: `Created workspace "${workspace.name}"`,
+      after: { name: workspace.name },
+    });
+    return respond(201, workspace);
+  });
+
+  // Renames and deletes are governed: they only happen by approving a proposal
+  const governedOnly = ({ params }) => {
+    if (!store.findWorkspace(params.id)) {
+      throw notFound(`Workspace ${params.id} not found`);
+    }
+    throw forbidden(
+      "Renaming or deleting a workspace requires an approved proposal",
+      "GOVERNED_CHANGE_REQUIRED"
+    );
+  };
+  router.patch("/api/workspaces/:id", governedOnly);
+  router.delete("/api/workspaces/:id", governedOnly);
+}
@@ -0,0 +1,174 @@
+// Simulated Program Runner for the mock Core API.
+// A run walks its steps one at a time on a timer, writing log lines to the
+// store and publishing them to subscribers (the SSE route). Nothing is really
+// executed; a step fails only when asked to via `failAt`.
+
+const slugify = (text) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "output";
+
+// What a successful run leaves behind; sizes are derived from the run so they stay stable
+const artifactsFor = (program, run, logBytes) => [
+  { id: `${run.id}-log`, name: `run-${run.number}.log`, kind: "log", bytes: logBytes },
+  ...(program.type === "generator"
+    ? [
+        {
+          id: `${run.id}-output`,
+          name: `${slugify(program.name)}.md`,
+          kind: "document",
+          bytes: 512 * program.steps.length,
+        },
+      ]
+    : []),
+  {
+    id: `${run.id}-report`,
+    name: "run-report.json",
+    kind: "report",
+    bytes: 128 + 64 * run.steps.length,
+  },
+];
+
+/**
+ * @param {ReturnType<import("./store.js").createStore>} store
+ * @param {object} [options]
+ * @param {number} [options.stepDelay] ms each step takes
+ */
+export function createRunner(store, { stepDelay = 800 } = {}) {
+  // runId -> pending timer
+  const timers = new Map();
+  // runId -> Set<(event, data) => void>
+  const listeners = new Map();
+
+  const publish = (runId, event, data) => {
+    (listeners.get(runId) ?? new Set()).forEach((listener) => listener(event, data));
+  };
+
+  const log = (runId, entry) => {
+    const line = store.appendRunLog(runId, entry);
+    if (line) publish(runId, "log", line);
+  };
+
+  const update = (runId, patch) => {
+    const run = store.updateRun(runId, patch);
+    if (run) publish(runId, "run", run);
+    return run;
+  };
+
+  const schedule = (runId, fn) => {
+    timers.set(
+      runId,
+      setTimeout(() => {
+        timers.delete(runId);
+        fn();
+      }, stepDelay)
+    );
+  };
+
+  const finish = (runId, patch) => {
+    const run = update(runId, { ...patch, finishedAt: new Date().toISOString() });
+    publish(runId, "end", run);
+    listeners.delete(runId);
+  };
+
+  const runStep = (runId, index, { failAt }) => {
+    const run = store.findRun(runId);
+    if (!run || run.status !== "running") return;
+    const step = run.steps[index];
+
+    if (!step) {
+      const program = store.findProgram(run.programId);
+      const logBytes = run.logs.reduce((sum, entry) => sum + entry.message.length + 1, 0);
+      log(runId, { message: `Run #${run.number} succeeded` });
+      finish(runId, {
+        status: "succeeded",
+        artifacts: program ? artifactsFor(program, run, logBytes) : [],
+      });
+      return;
+    }
+
+    const startedAt = new Date().toISOString();
+    store.updateRunStep(runId, step.id, { status: "running", startedAt });
+    update(runId, {});
+    log(runId, { stepId: step.id, message: `Step ${index + 1}: ${step.name}` });
+    const module = step.moduleId ? store.findModule(step.moduleId) : null;
+    if (module) {
+      log(runId, {
+        stepId: step.id,
+        message: `Using ${module.kind} module "${module.name}" v${module.version}`,
+      });
+    }
+
+    schedule(runId, () => {
+      const finishedAt = new Date().toISOString();
+      if (step.id === failAt) {
+        store.updateRunStep(runId, step.id, { status: "failed", finishedAt });
+        run.steps
+          .slice(index + 1)
+          .forEach((rest) => store.updateRunStep(runId, rest.id, { status: "skipped" }));
+        log(runId, { stepId: step.id, level: "error", message: `Step ${index + 1} failed` });
+        finish(runId, { status: "failed", error: `Step "${step.name}" failed` });
+        return;
+      }
+      store.updateRunStep(runId, step.id, { status: "succeeded", finishedAt });
+      log(runId, {
+        stepId: step.id,
+        message: `Step ${index + 1} finished in ${Date.parse(finishedAt) - Date.parse(startedAt)}ms`,
+      });
+      runStep(runId, index + 1, { failAt });
+    });
+  };
+
+  return {
+    /**
+     * Starts a queued run on the next tick.
+     * @param {string} runId
+     * @param {object} [options]
+     * @param {string} [options.failAt] step id to fail, for exercising the failure path
+     */
+    start(runId, { failAt = null } = {}) {
+      const run = store.findRun(runId);
+      if (!run) return;
+      setTimeout(() => {
+        // Cancelled (or removed) before it got going
+        if (store.findRun(runId)?.status !== "queued") return;
+        update(runId, { status: "running", startedAt: new Date().toISOString() });
+        log(runId, {
+          message: `Run #${run.number} started by ${run.actor} (program version ${run.programVersion})`,
+        });
+        runStep(runId, 0, { failAt });
+      }, 0);
+    },
+
+    cancel(runId, { actor }) {
+      const run = store.findRun(runId);
+      if (!run) return;
+      clearTimeout(timers.get(runId));
+      timers.delete(runId);
+      run.steps
+        .filter((step) => step.status === "pending" || step.status === "running")
+        .forEach((step) => store.updateRunStep(runId, step.id, { status: "skipped" }));
+      log(runId, { level: "warn", message: `Run #${run.number} cancelled by ${actor}` });
+      finish(runId, { status: "cancelled" });
+    },
+
+    // Returns an unsubscribe function
+    subscribe(runId, listener) {
+      if (!listeners.has(runId)) listeners.set(runId, new Set());
+      listeners.get(runId).add(listener);
+      return () => listeners.get(runId)?.delete(listener);
+    },
+
+    // Stops every active run without finishing it (reset / shutdown)
+    stop() {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      listeners.forEach((set, runId) => {
+        const run = store.getRun(runId);
+        set.forEach((listener) => listener("end", run));
+      });
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,122 @@
+// Global search on the mock Core API: workspace and node names, document
+// titles and content. Every query word has to start a word somewhere in the
+// entity (so "gov" finds "Governance"); titles outrank content, and document
+// hits carry a snippet around the first matching line.
+
+const SNIPPET_CHARS = 160;
+
+const words = (text) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export const searchTerms = (query) => [...new Set(words(query))];
+
+// How many of `terms` start a word in `text`
+const countPrefixMatches = (text, terms) => {
+  const present = words(text);
+  return terms.filter((term) => present.some((word) => word.startsWith(term))).length;
+};
+
+const matchesAll = (text, terms) => countPrefixMatches(text, terms) === terms.length;
+
+/**
+ * The line with the most matching terms, trimmed to about SNIPPET_CHARS around
+ * the first match. Returns null when no line matches.
+ */
+const snippetOf = (content, terms) => {
+  let best = null;
+  content.split("\n").forEach((text, index) => {
+    const score = countPrefixMatches(text, terms);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { text: text.trim().replace(/^#{1,6}\s+/, ""), line: index + 1, score };
+    }
+  });
+  if (!best) return null;
+  const lower = best.text.toLowerCase();
+  const first = Math.min(
+    ...terms
+      .map((term) => lower.search(new RegExp(`(?<![\\p{L}\\p{N}])${term}`, "u")))
+      .filter((at) => at >= 0)
+  );
+  const start = Math.max(0, first - SNIPPET_CHARS / 4);
+  const end = Math.min(best.text.length, start + SNIPPET_CHARS);
+  return {
+    text: `${start > 0 ? "…" : ""}${best.text.slice(start, end)}${end < best.text.length ? "…" : ""}`,
+    line: best.line,
+  };
+};
+
+/**
+ * Searches the store's workspaces, nodes and documents. Each group is ranked
+ * on its own and cut to `limit`; `total` counts every hit before the cut.
+ */
+export const globalSearch = (store, query, limit) => {
+  const terms = searchTerms(query);
+  const byScore = (a, b) => b.score - a.score || a.hit.title.localeCompare(b.hit.title);
+  const finish = (ranked) => ({
+    total: ranked.length,
+    hits: ranked
+      .sort(byScore)
+      .slice(0, limit)
+      .map(({ hit }) => hit),
+  });
+
+  const workspaces = store
+    .listWorkspaces()
+    .filter((workspace) => matchesAll(workspace.name, terms))
+    .map((workspace) => ({
+      score: 1,
+      hit: {
+        type: "workspace",
+        id: workspace.id,
+        title: workspace.name,
+        context: "Workspace",
+        snippet: null,
+        line: null,
+        nodeId: null,
+      },
+    }));
+
+  const nodes = store
+    .listNodes()
+    .filter((node) => matchesAll(node.name, terms))
+    .map((node) => ({
+      score: 1,
+      hit: {
+        type: "node",
+        id: node.id,
+        title: node.name,
+        context: store.findWorkspace(node.workspaceId)?.name ?? "",
+        snippet: null,
+        line: null,
+        nodeId: node.id,
+      },
+    }));
+
+  const documents = store
+    .listDocuments()
+    .filter((document) => matchesAll(`${document.title}\n${document.content ?? ""}`, terms))
+    .map((document) => {
+      const node = store.findNode(document.metadata.nodeId);
+      const workspace = node ? store.findWorkspace(node.workspaceId) : null;
+      const inTitle = countPrefixMatches(document.title, terms);
+      const snippet = snippetOf(document.content ?? "", terms);
+      return {
+        score: inTitle * 3 + (snippet ? 1 : 0),
+        hit: {
+          type: "document",
+          id: document.id,
+          title: document.title,
+          context: [workspace?.name, node?.name].filter(Boolean).join(" / "),
+          snippet: snippet?.text ?? null,
+          line: snippet?.line ?? null,
+          nodeId: document.metadata.nodeId,
+          isGovernance: !!document.isGovernance,
+        },
+      };
+    });
+
+  return {
+    workspaces: finish(workspaces),
+    nodes: finish(nodes),
+    documents: finish(documents),
+  };
+};
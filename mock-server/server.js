@@ -0,0 +1,191 @@
+// Mock Core API (continuum-core stand-in) for offline development and tests.
+//
+//   import { createMockCoreServer, loadSeed } from "./mock-server/server.js";
+//   const mock = createMockCoreServer({ seed: loadSeed() });
+//   await mock.listen(0); // random port, see mock.url
+//   ...
+//   await mock.close();
+
+import http from "node:http";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { createRouter, HttpError, respond } from "./router.js";
+import { createStore } from "./store.js";
+import { createRunner } from "./runner.js";
+import { registerWorkspaceRoutes } from "./routes/workspaces.js";
+import { registerNodeRoutes } from "./routes/nodes.js";
+import { registerDocumentRoutes } from "./routes/documents.js";
+import { registerProgramRoutes } from "./routes/programs.js";
+import { registerModuleRoutes } from "./routes/modules.js";
+import { registerIntegrationRoutes } from "./routes/integrations.js";
+import { registerMcpServerRoutes } from "./routes/mcpServers.js";
+import { registerKnowledgeStoreRoutes } from "./routes/knowledgeStores.js";
+import { registerSearchRoutes } from "./routes/search.js";
+import { registerRunRoutes } from "./routes/runs.js";
+import { registerProposalRoutes } from "./routes/proposals.js";
+import { registerAuditRoutes } from "./routes/audit.js";
+
+export const DEFAULT_SEED_PATH = fileURLToPath(new URL("./seed.json", import.meta.url));
+
+export function loadSeed(path = DEFAULT_SEED_PATH) {
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, X-Continuum-Actor, Mcp-Session-Id, MCP-Protocol-Version",
+  // Lets the MCP Inspector read the session an initialize opened
+  "Access-Control-Expose-Headers": "Mcp-Session-Id",
+};
+
+const readJsonBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      if (!raw) return resolve(undefined);
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON", "INVALID_JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+// Serves an `eventStream()` result; returns a function that ends the stream
+const openEventStream = (req, res, open) => {
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  let cleanup = null;
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    cleanup?.();
+    res.end();
+  };
+  const send = (event, data, id) => {
+    if (closed) return;
+    res.write(`${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  req.on("close", close);
+  cleanup = open({ send, close }) ?? null;
+  if (closed) cleanup?.();
+  return close;
+};
+
+/**
+ * @param {object} [options]
+ * @param {object} [options.seed] fixture shaped like seed.json
+ * @param {boolean} [options.nodeDetailRoute] set false to 404 every GET /api/nodes/:id
+ * @param {number} [options.latency] artificial delay in ms before each response
+ * @param {number} [options.runStepDelay] how long each simulated program run step takes, in ms
+ */
+export function createMockCoreServer({
+  seed = loadSeed(),
+  nodeDetailRoute = true,
+  latency = 0,
+  runStepDelay = 800,
+} = {}) {
+  const store = createStore(seed);
+  const runner = createRunner(store, { stepDelay: runStepDelay });
+  const router = createRouter();
+  // Open event streams, ended on close so the server can shut down
+  const streams = new Set();
+
+  registerWorkspaceRoutes(router, store);
+  registerNodeRoutes(router, store, { nodeDetailRoute });
+  registerDocumentRoutes(router, store);
+  registerProgramRoutes(router, store);
+  registerModuleRoutes(router, store);
+  registerIntegrationRoutes(router, store);
+  registerMcpServerRoutes(router, store);
+  registerKnowledgeStoreRoutes(router, store);
+  registerSearchRoutes(router, store);
+  registerRunRoutes(router, store, runner);
+  registerProposalRoutes(router, store);
+  registerAuditRoutes(router, store);
+
+  // Test hook: restore the fixture (or load a new one) between cases
+  router.post("/__mock/reset", ({ body }) => {
+    runner.stop();
+    store.reset(body && typeof body === "object" ? body : seed);
+    return respond(204, undefined);
+  });
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (latency > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latency));
+      }
+      const body = await readJsonBody(req);
+      const query = Object.fromEntries(url.searchParams);
+      // Recorded on audit events; the app sends its display name with every request
+      const actor = String(req.headers["x-continuum-actor"] ?? "").trim() || "Unknown";
+      const result = await router.handle(req.method ?? "GET", url.pathname, {
+        query,
+        body,
+        actor,
+      });
+      if (result.stream) {
+        const close = openEventStream(req, res, result.stream);
+        streams.add(close);
+        res.on("close", () => streams.delete(close));
+        return;
+      }
+      sendJson(res, result.status, result.body);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message, code: err.code, ...err.details });
+        return;
+      }
+      console.error("[mock-core] Unhandled error", err);
+      sendJson(res, 500, { error: "Internal mock server error", code: "INTERNAL" });
+    }
+  });
+
+  return {
+    server,
+    store,
+    url: null,
+
+    listen(port = 8080, host = "127.0.0.1") {
+      return new Promise((resolve) => {
+        server.listen(port, host, () => {
+          const address = server.address();
+          this.url = `http://${host}:${address.port}`;
+          resolve(this.url);
+        });
+      });
+    },
+
+    close() {
+      runner.stop();
+      streams.forEach((close) => close());
+      return new Promise((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
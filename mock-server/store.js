@@ -0,0 +1,1124 @@
+// In-memory data store for the mock Core API.
+// Records are kept flat (foreign keys only); serializers attach the nested
+// `tenant`, `workspace`, `_count` and `metadata` shapes the real Core API returns.
+
+import { randomUUID } from "node:crypto";
+
+const clone = (value) => JSON.parse(JSON.stringify(value));
+
+export function createStore(seed) {
+  let db = clone(seed);
+
+  const now = () => new Date().toISOString();
+  const newId = (prefix) => `${prefix}-${randomUUID()}`;
+
+  const findTenant = (id) => db.tenants.find((t) => t.id === id) ?? null;
+  const findWorkspace = (id) => db.workspaces.find((w) => w.id === id) ?? null;
+  const findNode = (id) => db.nodes.find((n) => n.id === id) ?? null;
+  const findDocument = (id) => db.documents.find((d) => d.id === id) ?? null;
+  const findProgram = (id) => (db.programs ?? []).find((p) => p.id === id) ?? null;
+  const findModule = (id) => (db.modules ?? []).find((m) => m.id === id) ?? null;
+  const findProposal = (id) => (db.proposals ?? []).find((p) => p.id === id) ?? null;
+  const findRun = (id) => (db.runs ?? []).find((r) => r.id === id) ?? null;
+  const findIntegration = (id) => (db.integrations ?? []).find((i) => i.id === id) ?? null;
+  const findMcpServer = (id) => (db.mcpServers ?? []).find((s) => s.id === id) ?? null;
+  const findKnowledgeStore = (id) => (db.knowledgeStores ?? []).find((k) => k.id === id) ?? null;
+
+  const countFor = (collection, key, id) =>
+    (db[collection] ?? []).filter((item) => item[key] === id).length;
+
+  // ---------- Serializers ----------
+
+  const serializeWorkspace = (workspace) => {
+    const tenant = findTenant(workspace.tenantId);
+    return {
+      ...workspace,
+      tenant: tenant ? { id: tenant.id, name: tenant.name } : null,
+      _count: {
+        nodes: countFor("nodes", "workspaceId", workspace.id),
+      },
+    };
+  };
+
+  const serializeNode = (node) => {
+    const workspace = findWorkspace(node.workspaceId);
+    const tenant = workspace ? findTenant(workspace.tenantId) : null;
+    return {
+      ...node,
+      workspace: workspace
+        ? {
+            id: workspace.id,
+            name: workspace.name,
+            tenant: tenant ? { id: tenant.id, name: tenant.name } : undefined,
+          }
+        : null,
+      _count: {
+        programs: countFor("programs", "nodeId", node.id),
+        modules: countFor("modules", "nodeId", node.id),
+        documents: countFor("documents", "nodeId", node.id),
+        integrations: countFor("integrations", "nodeId", node.id),
+      },
+    };
+  };
+
+  const serializeDocument = (document) => {
+    const { nodeId, version, createdAt, ...rest } = document;
+    const node = findNode(nodeId);
+    return {
+      ...rest,
+      metadata: {
+        version,
+        nodeId,
+        nodeName: node?.name ?? "",
+        createdAt,
+      },
+    };
+  };
+
+  // `usedBy` is the reverse index: every program with a step that references the module
+  const serializeModule = (module) => {
+    const node = findNode(module.nodeId);
+    return {
+      ...module,
+      node: node ? { id: node.id, name: node.name, workspaceId: node.workspaceId } : null,
+      usedBy: (db.programs ?? [])
+        .filter((program) => program.steps.some((step) => step.moduleId === module.id))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((program) => ({
+          id: program.id,
+          name: program.name,
+          nodeId: program.nodeId,
+          status: program.status,
+        })),
+    };
+  };
+
+  // Secret values never leave the store; `secretsSet` names the ones that have a value
+  const serializeIntegration = (integration) => {
+    const { secrets, ...rest } = integration;
+    return {
+      ...rest,
+      secretsSet: Object.keys(secrets ?? {}).filter((key) => secrets[key]),
+    };
+  };
+
+  // `modules` lists the distinct modules the steps reference, in step order
+  const serializeProgram = (program) => {
+    const node = findNode(program.nodeId);
+    const moduleIds = [...new Set(program.steps.map((s) => s.moduleId).filter(Boolean))];
+    return {
+      ...program,
+      node: node ? { id: node.id, name: node.name, workspaceId: node.workspaceId } : null,
+      modules: moduleIds.map((id) => {
+        const module = findModule(id);
+        return { id, name: module?.name ?? id, kind: module?.kind ?? null };
+      }),
+    };
+  };
+
+  // Logs are served separately (and streamed), so runs only carry their count
+  const serializeRun = ({ logs, ...run }) => ({
+    ...run,
+    logCount: logs.length,
+  });
+
+  const serializeMcpServer = (server) => {
+    const node = findNode(server.nodeId);
+    return {
+      ...server,
+      node: node ? { id: node.id, name: node.name, workspaceId: node.workspaceId } : null,
+    };
+  };
+
+  // A member's index status: `failed` when the last rebuild could not index it,
+  // `pending` before its first rebuild, `stale` when a document changed since
+  const memberStatus = (member, document) => {
+    if (member.error) return "failed";
+    if (!member.lastRefreshedAt) return "pending";
+    if (document && member.indexedVersion !== document.version) return "stale";
+    return "indexed";
+  };
+
+  const serializeKnowledgeStore = (store) => {
+    const workspace = findWorkspace(store.workspaceId);
+    const node = store.nodeId ? findNode(store.nodeId) : null;
+    const members = store.members.map((member) => {
+      if (member.kind !== "document") {
+        return { ...member, status: memberStatus(member, null) };
+      }
+      const document = findDocument(member.documentId);
+      return {
+        ...member,
+        label: document?.title ?? member.documentId,
+        documentVersion: document?.version ?? null,
+        nodeId: document?.nodeId ?? null,
+        status: memberStatus(member, document),
+      };
+    });
+    const counts = { indexed: 0, pending: 0, stale: 0, failed: 0 };
+    members.forEach((member) => {
+      counts[member.status] += 1;
+    });
+    return {
+      ...store,
+      scope: {
+        type: store.nodeId ? "node" : "workspace",
+        workspaceId: store.workspaceId,
+        workspaceName: workspace?.name ?? "",
+        nodeId: store.nodeId,
+        nodeName: node?.name ?? null,
+      },
+      members,
+      counts,
+    };
+  };
+
+  // Structural proposals keep the target's scope so they still group after a delete
+  const serializeProposal = (proposal) => {
+    if (proposal.kind === "capability") {
+      const server = findMcpServer(proposal.serverId);
+      const node = findNode(proposal.nodeId);
+      return {
+        ...proposal,
+        serverName: server?.name ?? proposal.current.name,
+        nodeName: node?.name ?? "",
+      };
+    }
+    if (proposal.kind === "structure") {
+      const workspace = findWorkspace(proposal.workspaceId);
+      const node = proposal.nodeId ? findNode(proposal.nodeId) : null;
+      return {
+        ...proposal,
+        workspaceName: workspace?.name ?? "",
+        nodeName: node?.name ?? (proposal.target.type === "node" ? proposal.target.name : ""),
+      };
+    }
+    const document = findDocument(proposal.documentId);
+    const node = document ? findNode(document.nodeId) : null;
+    return {
+      ...proposal,
+      documentTitle: document?.title ?? proposal.current.title,
+      nodeId: document?.nodeId ?? "",
+      nodeName: node?.name ?? "",
+    };
+  };
+
+  // Every write to a document appends a full snapshot, so any two versions can be diffed
+  const recordVersion = (document, { author, restoredFrom = null, proposalId = null }) => {
+    db.documentVersions = [
+      ...(db.documentVersions ?? []),
+      {
+        documentId: document.id,
+        version: document.version,
+        title: document.title,
+        content: document.content ?? "",
+        isGovernance: document.isGovernance,
+        author,
+        createdAt: document.updatedAt,
+        restoredFrom,
+        proposalId,
+      },
+    ];
+  };
+
+  // What a rename or delete of a workspace / node reaches, from the same counts as `_count`
+  const impactOf = ({ type, id }) => {
+    if (type === "program") return { nodes: 0, documents: 0, programs: 1 };
+    if (type === "integration") return { nodes: 0, documents: 0, programs: 0 };
+    const nodeIds =
+      type === "workspace"
+        ? db.nodes.filter((n) => n.workspaceId === id).map((n) => n.id)
+        : [id];
+    const sum = (collection) =>
+      nodeIds.reduce((total, nodeId) => total + countFor(collection, "nodeId", nodeId), 0);
+    return {
+      nodes: type === "workspace" ? nodeIds.length : 0,
+      documents: sum("documents"),
+      programs: sum("programs"),
+    };
+  };
+
+  const recordProgramVersion = (program, { author, restoredFrom = null }) => {
+    const { id, version, updatedAt, name, type, status, description, steps } = program;
+    db.programVersions = [
+      ...(db.programVersions ?? []),
+      {
+        programId: id,
+        version,
+        ...clone({ name, type, status, description, steps }),
+        author,
+        createdAt: updatedAt,
+        restoredFrom,
+      },
+    ];
+  };
+
+  const recordMcpServerVersion = (server, { author, proposalId = null }) => {
+    const { id, version, updatedAt, name, description, tools } = server;
+    db.mcpServerVersions = [
+      ...(db.mcpServerVersions ?? []),
+      {
+        serverId: id,
+        version,
+        ...clone({ name, description, tools }),
+        author,
+        createdAt: updatedAt,
+        proposalId,
+      },
+    ];
+  };
+
+  const byUpdatedDesc = (a, b) => b.updatedAt.localeCompare(a.updatedAt);
+  const byCreatedDesc = (a, b) => b.createdAt.localeCompare(a.createdAt);
+
+  // ---------- Audit helpers ----------
+
+  // Content is summarised rather than copied so events stay small
+  const describeValue = (field, value) => {
+    if (field === "steps") return `${(value ?? []).length} steps`;
+    if (field === "tools") return (value ?? []).map((tool) => tool.name).join(", ") || "none";
+    if (field !== "content") return value ?? null;
+    // Tolerates stored values that aren't strings rather than failing the write
+    const text = value == null ? "" : String(value);
+    return text ? `${text.split("\n").length} lines` : "empty";
+  };
+
+  const diffFields = (before = {}, after = {}) =>
+    Object.keys(after)
+      .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map((field) => ({
+        field,
+        before: describeValue(field, before[field]),
+        after: describeValue(field, after[field]),
+      }));
+
+  const scopeFor = ({ workspaceId = null, nodeId = null, documentId = null }) => {
+    const document = documentId ? findDocument(documentId) : null;
+    const resolvedNodeId = nodeId ?? document?.nodeId ?? null;
+    const node = resolvedNodeId ? findNode(resolvedNodeId) : null;
+    return {
+      workspaceId: workspaceId ?? node?.workspaceId ?? null,
+      nodeId: resolvedNodeId,
+      documentId,
+    };
+  };
+
+  return {
+    now,
+    newId,
+    findTenant,
+    findWorkspace,
+    findNode,
+    findDocument,
+    findProgram,
+    findModule,
+    findIntegration,
+    findMcpServer,
+    findKnowledgeStore,
+    findProposal,
+    serializeWorkspace,
+    serializeNode,
+    serializeDocument,
+    serializeProgram,
+    serializeModule,
+    serializeKnowledgeStore,
+    serializeIntegration,
+    serializeMcpServer,
+    serializeProposal,
+    impactOf,
+
+    get db() {
+      return db;
+    },
+
+    reset(nextSeed = seed) {
+      db = clone(nextSeed);
+    },
+
+    // ---------- Tenants ----------
+
+    listTenants() {
+      return db.tenants;
+    },
+
+    // ---------- Workspaces ----------
+
+    listWorkspaces() {
+      return db.workspaces.map(serializeWorkspace);
+    },
+
+    createWorkspace({ tenantId, name }) {
+      const timestamp = now();
+      const workspace = {
+        id: newId("ws"),
+        tenantId,
+        name,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.workspaces.push(workspace);
+      return serializeWorkspace(workspace);
+    },
+
+    renameWorkspace(id, name) {
+      const workspace = findWorkspace(id);
+      if (!workspace) return null;
+      Object.assign(workspace, { name, updatedAt: now() });
+      return serializeWorkspace(workspace);
+    },
+
+    // Removes the workspace and everything under it; returns the removed node and document ids
+    deleteWorkspace(id) {
+      const nodeIds = db.nodes.filter((n) => n.workspaceId === id).map((n) => n.id);
+      const removed = {
+        workspaceIds: [id],
+        nodeIds: [],
+        documentIds: [],
+        programIds: [],
+        integrationIds: [],
+        mcpServerIds: [],
+      };
+      nodeIds.forEach((nodeId) => {
+        const { documentIds, programIds, integrationIds, mcpServerIds } = this.deleteNode(nodeId);
+        removed.nodeIds.push(nodeId);
+        removed.documentIds.push(...documentIds);
+        removed.programIds.push(...programIds);
+        removed.integrationIds.push(...integrationIds);
+        removed.mcpServerIds.push(...mcpServerIds);
+      });
+      db.workspaces = db.workspaces.filter((w) => w.id !== id);
+      db.knowledgeStores = (db.knowledgeStores ?? []).filter((k) => k.workspaceId !== id);
+      return removed;
+    },
+
+    // ---------- Nodes ----------
+
+    listNodes({ workspaceId } = {}) {
+      return db.nodes
+        .filter((n) => !workspaceId || n.workspaceId === workspaceId)
+        .map(serializeNode);
+    },
+
+    getNode(id) {
+      const node = findNode(id);
+      return node ? serializeNode(node) : null;
+    },
+
+    createNode({ workspaceId, name }) {
+      const timestamp = now();
+      const node = {
+        id: newId("node"),
+        workspaceId,
+        name,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.nodes.push(node);
+      return serializeNode(node);
+    },
+
+    renameNode(id, name) {
+      const node = findNode(id);
+      if (!node) return null;
+      Object.assign(node, { name, updatedAt: now() });
+      return serializeNode(node);
+    },
+
+    deleteNode(id) {
+      const documentIds = db.documents.filter((d) => d.nodeId === id).map((d) => d.id);
+      const programIds = (db.programs ?? []).filter((p) => p.nodeId === id).map((p) => p.id);
+      db.nodes = db.nodes.filter((n) => n.id !== id);
+      db.documents = db.documents.filter((d) => d.nodeId !== id);
+      db.documentVersions = (db.documentVersions ?? []).filter(
+        (v) => !documentIds.includes(v.documentId)
+      );
+      programIds.forEach((programId) => this.deleteProgram(programId));
+      const integrationIds = (db.integrations ?? [])
+        .filter((i) => i.nodeId === id)
+        .map((i) => i.id);
+      const mcpServerIds = (db.mcpServers ?? []).filter((s) => s.nodeId === id).map((s) => s.id);
+      db.mcpServerVersions = (db.mcpServerVersions ?? []).filter(
+        (v) => !mcpServerIds.includes(v.serverId)
+      );
+      ["modules", "integrations", "mcpServers", "knowledgeStores"].forEach((collection) => {
+        db[collection] = (db[collection] ?? []).filter((item) => item.nodeId !== id);
+      });
+      // Workspace-wide stores outlive the node but lose its documents
+      (db.knowledgeStores ?? []).forEach((store) => {
+        store.members = store.members.filter(
+          (member) => member.kind !== "document" || !documentIds.includes(member.documentId)
+        );
+      });
+      return { nodeIds: [id], documentIds, programIds, integrationIds, mcpServerIds };
+    },
+
+    // ---------- Documents ----------
+
+    listDocuments({ nodeId } = {}) {
+      return db.documents
+        .filter((d) => !nodeId || d.nodeId === nodeId)
+        .sort(byUpdatedDesc)
+        .map(serializeDocument);
+    },
+
+    // One page of the documents table; ties keep the most recently updated first
+    pageDocuments({
+      nodeId,
+      governance,
+      ragReady,
+      type,
+      sort = "updatedAt",
+      order = "desc",
+      page = 1,
+      pageSize = 25,
+    } = {}) {
+      const direction = order === "asc" ? 1 : -1;
+      const compare =
+        sort === "title"
+          ? (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: "base" })
+          : (a, b) => a[sort].localeCompare(b[sort]);
+      const matches = db.documents
+        .filter(
+          (d) =>
+            (!nodeId || d.nodeId === nodeId) &&
+            (governance === undefined || Boolean(d.isGovernance) === governance) &&
+            (ragReady === undefined || Boolean(d.ragReady) === ragReady) &&
+            (!type || d.type === type)
+        )
+        .sort((a, b) => direction * compare(a, b) || byUpdatedDesc(a, b));
+      const start = (page - 1) * pageSize;
+      return {
+        items: matches.slice(start, start + pageSize).map(serializeDocument),
+        total: matches.length,
+        page,
+        pageSize,
+      };
+    },
+
+    // Counts and the latest edits without shipping every document's content
+    documentSummary({ limit = 5 } = {}) {
+      const { documents } = db;
+      return {
+        total: documents.length,
+        governance: documents.filter((d) => d.isGovernance).length,
+        ragReady: documents.filter((d) => d.ragReady).length,
+        types: [...new Set(documents.map((d) => d.type))].sort(),
+        recent: [...documents]
+          .sort(byUpdatedDesc)
+          .slice(0, limit)
+          .map((document) => {
+            const summary = serializeDocument(document);
+            delete summary.content;
+            return summary;
+          }),
+      };
+    },
+
+    getDocument(id) {
+      const document = findDocument(id);
+      return document ? serializeDocument(document) : null;
+    },
+
+    createDocument({ nodeId, title, content, isGovernance, author }) {
+      const timestamp = now();
+      const document = {
+        id: newId("doc"),
+        nodeId,
+        title,
+        type: "markdown",
+        source: "continuum",
+        content: content ?? "",
+        ragReady: false,
+        ragIndex: null,
+        isGovernance: Boolean(isGovernance),
+        version: "1",
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.documents.push(document);
+      recordVersion(document, { author });
+      return serializeDocument(document);
+    },
+
+    // Applies a patch, bumps `version` and snapshots the result; callers check the version first.
+    // `meta` carries the version's author plus `restoredFrom` / `proposalId` when relevant.
+    // A text change leaves the retrieval index behind, so the document stops being RAG-ready.
+    updateDocument(id, patch, meta = {}) {
+      const document = findDocument(id);
+      if (!document) return null;
+      const textChanged =
+        (patch.title !== undefined && patch.title !== document.title) ||
+        (patch.content !== undefined && patch.content !== document.content);
+      Object.assign(document, patch, {
+        version: String(Number(document.version) + 1),
+        updatedAt: now(),
+      });
+      if (textChanged) document.ragReady = false;
+      recordVersion(document, { author: meta.author ?? "Unknown", ...meta });
+      return serializeDocument(document);
+    },
+
+    // Records a (re)index of the current text. Not an edit: no version, no updatedAt.
+    markRagIndexed(id, { chunkCount }) {
+      const document = findDocument(id);
+      if (!document) return null;
+      document.ragReady = true;
+      document.ragIndex = { version: document.version, indexedAt: now(), chunkCount };
+      return serializeDocument(document);
+    },
+
+    listDocumentVersions(documentId) {
+      return (db.documentVersions ?? [])
+        .filter((v) => v.documentId === documentId)
+        .sort((a, b) => Number(b.version) - Number(a.version));
+    },
+
+    // ---------- Programs ----------
+
+    listPrograms({ nodeId } = {}) {
+      return (db.programs ?? [])
+        .filter((p) => !nodeId || p.nodeId === nodeId)
+        .sort(byUpdatedDesc)
+        .map(serializeProgram);
+    },
+
+    getProgram(id) {
+      const program = findProgram(id);
+      return program ? serializeProgram(program) : null;
+    },
+
+    createProgram({ nodeId, name, type, status, description, steps, author }) {
+      const timestamp = now();
+      const program = {
+        id: newId("prog"),
+        nodeId,
+        name,
+        type,
+        status,
+        description,
+        steps,
+        version: "1",
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.programs = [...(db.programs ?? []), program];
+      recordProgramVersion(program, { author });
+      return serializeProgram(program);
+    },
+
+    // Same contract as updateDocument: callers check `version`, every write is a new version
+    updateProgram(id, patch, meta = {}) {
+      const program = findProgram(id);
+      if (!program) return null;
+      Object.assign(program, patch, {
+        version: String(Number(program.version) + 1),
+        updatedAt: now(),
+      });
+      recordProgramVersion(program, { author: meta.author ?? "Unknown", ...meta });
+      return serializeProgram(program);
+    },
+
+    listProgramVersions(programId) {
+      return (db.programVersions ?? [])
+        .filter((v) => v.programId === programId)
+        .sort((a, b) => Number(b.version) - Number(a.version));
+    },
+
+    deleteProgram(id) {
+      db.programs = (db.programs ?? []).filter((p) => p.id !== id);
+      db.programVersions = (db.programVersions ?? []).filter((v) => v.programId !== id);
+      db.runs = (db.runs ?? []).filter((r) => r.programId !== id);
+      return { programIds: [id] };
+    },
+
+    // ---------- Program runs ----------
+
+    findRun,
+
+    listRuns(programId) {
+      return (db.runs ?? [])
+        .filter((r) => r.programId === programId)
+        .sort((a, b) => b.number - a.number)
+        .map(serializeRun);
+    },
+
+    getRun(id) {
+      const run = findRun(id);
+      return run ? serializeRun(run) : null;
+    },
+
+    // Snapshots the program's steps so later edits don't rewrite the run
+    createRun(program, { actor }) {
+      const previous = (db.runs ?? []).filter((r) => r.programId === program.id);
+      const run = {
+        id: newId("run"),
+        programId: program.id,
+        nodeId: program.nodeId,
+        number: previous.reduce((max, r) => Math.max(max, r.number), 0) + 1,
+        programVersion: program.version,
+        status: "queued",
+        actor,
+        createdAt: now(),
+        startedAt: null,
+        finishedAt: null,
+        steps: program.steps.map((step) => ({
+          id: step.id,
+          name: step.name,
+          moduleId: step.moduleId,
+          status: "pending",
+          startedAt: null,
+          finishedAt: null,
+        })),
+        artifacts: [],
+        error: null,
+        logs: [],
+      };
+      db.runs = [...(db.runs ?? []), run];
+      return serializeRun(run);
+    },
+
+    updateRun(id, patch) {
+      const run = findRun(id);
+      if (!run) return null;
+      Object.assign(run, patch);
+      return serializeRun(run);
+    },
+
+    updateRunStep(id, stepId, patch) {
+      const step = findRun(id)?.steps.find((s) => s.id === stepId);
+      if (step) Object.assign(step, patch);
+    },
+
+    appendRunLog(id, { stepId = null, level = "info", message }) {
+      const run = findRun(id);
+      if (!run) return null;
+      const entry = { seq: run.logs.length + 1, at: now(), stepId, level, message };
+      run.logs.push(entry);
+      return entry;
+    },
+
+    // Log lines after sequence number `after`, for polling and stream resumption
+    listRunLogs(id, after = 0) {
+      return (findRun(id)?.logs ?? []).filter((entry) => entry.seq > after);
+    },
+
+    // ---------- Modules ----------
+
+    listModules({ workspaceId, nodeId, kind } = {}) {
+      return (db.modules ?? [])
+        .filter(
+          (m) =>
+            (!workspaceId || findNode(m.nodeId)?.workspaceId === workspaceId) &&
+            (!nodeId || m.nodeId === nodeId) &&
+            (!kind || m.kind === kind)
+        )
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(serializeModule);
+    },
+
+    getModule(id) {
+      const module = findModule(id);
+      return module ? serializeModule(module) : null;
+    },
+
+    // Bumps `version`; programs always run the module's latest version
+    updateModule(id, patch) {
+      const module = findModule(id);
+      if (!module) return null;
+      Object.assign(module, patch, {
+        version: String(Number(module.version) + 1),
+        updatedAt: now(),
+      });
+      return serializeModule(module);
+    },
+
+    // ---------- Integrations ----------
+
+    listIntegrations({ nodeId } = {}) {
+      return (db.integrations ?? [])
+        .filter((i) => !nodeId || i.nodeId === nodeId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(serializeIntegration);
+    },
+
+    getIntegration(id) {
+      const integration = findIntegration(id);
+      return integration ? serializeIntegration(integration) : null;
+    },
+
+    createIntegration({ nodeId, kind, name, config, secrets }) {
+      const timestamp = now();
+      const integration = {
+        id: newId("int"),
+        nodeId,
+        kind,
+        name,
+        config,
+        secrets,
+        health: { status: "unknown", message: null, latencyMs: null, checkedAt: null },
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.integrations = [...(db.integrations ?? []), integration];
+      return serializeIntegration(integration);
+    },
+
+    // Secrets are merged, so an edit only replaces the ones it sends. Changing
+    // the connection (not just the name) makes the last health check meaningless.
+    updateIntegration(id, { name, config, secrets }) {
+      const integration = findIntegration(id);
+      if (!integration) return null;
+      const reconnected =
+        (config !== undefined && JSON.stringify(config) !== JSON.stringify(integration.config)) ||
+        Object.keys(secrets ?? {}).length > 0;
+      if (name !== undefined) integration.name = name;
+      if (config !== undefined) integration.config = config;
+      integration.secrets = { ...integration.secrets, ...secrets };
+      if (reconnected) {
+        integration.health = { status: "unknown", message: null, latencyMs: null, checkedAt: null };
+      }
+      integration.updatedAt = now();
+      return serializeIntegration(integration);
+    },
+
+    setIntegrationHealth(id, health) {
+      const integration = findIntegration(id);
+      if (!integration) return null;
+      integration.health = { ...health, checkedAt: now() };
+      return serializeIntegration(integration);
+    },
+
+    deleteIntegration(id) {
+      db.integrations = (db.integrations ?? []).filter((i) => i.id !== id);
+      return { integrationIds: [id] };
+    },
+
+    // ---------- MCP servers ----------
+
+    listMcpServers({ nodeId } = {}) {
+      return (db.mcpServers ?? [])
+        .filter((s) => !nodeId || s.nodeId === nodeId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(serializeMcpServer);
+    },
+
+    getMcpServer(id) {
+      const server = findMcpServer(id);
+      return server ? serializeMcpServer(server) : null;
+    },
+
+    createMcpServer({ nodeId, templateId, name, description, tools, author }) {
+      const timestamp = now();
+      const server = {
+        id: newId("mcp"),
+        nodeId,
+        templateId,
+        name,
+        description,
+        tools: clone(tools),
+        version: "1",
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.mcpServers = [...(db.mcpServers ?? []), server];
+      recordMcpServerVersion(server, { author });
+      return serializeMcpServer(server);
+    },
+
+    // Callers check `version` and capability changes; every write is a new version
+    updateMcpServer(id, patch, meta = {}) {
+      const server = findMcpServer(id);
+      if (!server) return null;
+      Object.assign(server, patch, {
+        version: String(Number(server.version) + 1),
+        updatedAt: now(),
+      });
+      recordMcpServerVersion(server, { author: meta.author ?? "Unknown", ...meta });
+      return serializeMcpServer(server);
+    },
+
+    listMcpServerVersions(serverId) {
+      return (db.mcpServerVersions ?? [])
+        .filter((v) => v.serverId === serverId)
+        .sort((a, b) => Number(b.version) - Number(a.version));
+    },
+
+    // ---------- Change proposals ----------
+
+    listProposals({ nodeId, documentId, serverId, status } = {}) {
+      return (db.proposals ?? [])
+        .map(serializeProposal)
+        .filter(
+          (p) =>
+            (!nodeId || p.nodeId === nodeId) &&
+            (!documentId || p.documentId === documentId) &&
+            (!serverId || p.serverId === serverId) &&
+            (!status || p.status === status)
+        )
+        .sort(byCreatedDesc);
+    },
+
+    createProposal({ documentId, baseVersion, author, rationale, proposed, restoredFrom = null }) {
+      const document = findDocument(documentId);
+      const proposal = {
+        id: newId("prop"),
+        kind: "document",
+        documentId,
+        status: "pending",
+        author,
+        rationale,
+        baseVersion,
+        current: {
+          title: document.title,
+          content: document.content ?? "",
+          isGovernance: document.isGovernance,
+        },
+        proposed,
+        restoredFrom,
+        createdAt: now(),
+        decidedAt: null,
+        decidedBy: null,
+        decisionNote: null,
+        appliedVersion: null,
+      };
+      db.proposals = [...(db.proposals ?? []), proposal];
+      return serializeProposal(proposal);
+    },
+
+    // Rename / delete of a workspace or node, or delete of a program or
+    // integration. `target.name` is the name the proposer saw, so approval can
+    // tell whether the target changed since.
+    createStructuralProposal({ operation, target, proposedName = null, author, rationale }) {
+      const scope = scopeFor(
+        target.type === "workspace"
+          ? { workspaceId: target.id }
+          : {
+              nodeId:
+                target.type === "node"
+                  ? target.id
+                  : target.type === "program"
+                    ? findProgram(target.id)?.nodeId
+                    : findIntegration(target.id)?.nodeId,
+            }
+      );
+      const proposal = {
+        id: newId("prop"),
+        kind: "structure",
+        operation,
+        target,
+        workspaceId: scope.workspaceId,
+        nodeId: scope.nodeId ?? "",
+        proposedName,
+        impact: impactOf(target),
+        status: "pending",
+        author,
+        rationale,
+        createdAt: now(),
+        decidedAt: null,
+        decidedBy: null,
+        decisionNote: null,
+      };
+      db.proposals = [...(db.proposals ?? []), proposal];
+      return serializeProposal(proposal);
+    },
+
+    // New MCP tools. `current` is the server as the proposer saw it, at `baseVersion`.
+    createCapabilityProposal({ serverId, baseVersion, proposed, addedTools, author, rationale }) {
+      const server = findMcpServer(serverId);
+      const scope = scopeFor({ nodeId: server.nodeId });
+      const proposal = {
+        id: newId("prop"),
+        kind: "capability",
+        serverId,
+        workspaceId: scope.workspaceId,
+        nodeId: scope.nodeId,
+        baseVersion,
+        current: clone({ name: server.name, description: server.description, tools: server.tools }),
+        proposed,
+        addedTools,
+        status: "pending",
+        author,
+        rationale,
+        createdAt: now(),
+        decidedAt: null,
+        decidedBy: null,
+        decisionNote: null,
+        appliedVersion: null,
+      };
+      db.proposals = [...(db.proposals ?? []), proposal];
+      return serializeProposal(proposal);
+    },
+
+    decideProposal(id, { status, reviewer, note, appliedVersion = null }) {
+      const proposal = findProposal(id);
+      Object.assign(proposal, {
+        status,
+        decidedAt: now(),
+        decidedBy: reviewer,
+        decisionNote: note ?? null,
+        ...(proposal.kind !== "structure" ? { appliedVersion } : {}),
+      });
+      return serializeProposal(proposal);
+    },
+
+    // Pending proposals against deleted nodes / documents can never apply, so they are closed
+    closeOrphanedProposals(
+      {
+        workspaceIds = [],
+        nodeIds = [],
+        documentIds = [],
+        programIds = [],
+        integrationIds = [],
+        mcpServerIds = [],
+      },
+      { reviewer, note }
+    ) {
+      const removedTargets = {
+        workspace: workspaceIds,
+        node: nodeIds,
+        program: programIds,
+        integration: integrationIds,
+      };
+      const orphaned = (p) =>
+        p.kind === "structure"
+          ? removedTargets[p.target.type].includes(p.target.id)
+          : p.kind === "capability"
+            ? mcpServerIds.includes(p.serverId)
+            : documentIds.includes(p.documentId);
+      return (db.proposals ?? [])
+        .filter((p) => p.status === "pending" && orphaned(p))
+        .map((p) => this.decideProposal(p.id, { status: "rejected", reviewer, note }));
+    },
+
+    // ---------- Knowledge stores ----------
+
+    listKnowledgeStores({ workspaceId, nodeId } = {}) {
+      return (db.knowledgeStores ?? [])
+        .filter((k) => !workspaceId || k.workspaceId === workspaceId)
+        .filter((k) => !nodeId || k.nodeId === nodeId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(serializeKnowledgeStore);
+    },
+
+    getKnowledgeStore(id) {
+      const store = findKnowledgeStore(id);
+      return store ? serializeKnowledgeStore(store) : null;
+    },
+
+    createKnowledgeStore({ workspaceId, nodeId = null, name, description, purpose }) {
+      const timestamp = now();
+      const store = {
+        id: newId("ks"),
+        workspaceId,
+        nodeId,
+        name,
+        description,
+        purpose,
+        members: [],
+        lastRebuildAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.knowledgeStores = [...(db.knowledgeStores ?? []), store];
+      return serializeKnowledgeStore(store);
+    },
+
+    // `member` is `{ kind: "document", documentId }` or `{ kind: "source", label, uri }`
+    addKnowledgeStoreMember(id, member, { author }) {
+      const store = findKnowledgeStore(id);
+      if (!store) return null;
+      const timestamp = now();
+      store.members.push({
+        id: newId("ksm"),
+        ...member,
+        addedBy: author,
+        addedAt: timestamp,
+        indexedVersion: null,
+        lastRefreshedAt: null,
+        chunkCount: null,
+        error: null,
+      });
+      store.updatedAt = timestamp;
+      return serializeKnowledgeStore(store);
+    },
+
+    removeKnowledgeStoreMember(id, memberId) {
+      const store = findKnowledgeStore(id);
+      if (!store) return null;
+      store.members = store.members.filter((member) => member.id !== memberId);
+      store.updatedAt = now();
+      return serializeKnowledgeStore(store);
+    },
+
+    // `indexMember(member)` returns `{ indexedVersion, chunkCount, error }` for each member
+    rebuildKnowledgeStore(id, indexMember) {
+      const store = findKnowledgeStore(id);
+      if (!store) return null;
+      const timestamp = now();
+      store.members.forEach((member) => {
+        Object.assign(member, indexMember(member), { lastRefreshedAt: timestamp });
+      });
+      store.lastRebuildAt = timestamp;
+      return serializeKnowledgeStore(store);
+    },
+
+    // ---------- Audit log ----------
+
+    /**
+     * @param {object} event
+     * @param {string} event.actor
+     * @param {string} event.action e.g. "node.create", "proposal.approve"
+     * @param {"automatic" | "governed"} event.mode
+     * @param {{ type: string, id: string, name: string }} event.target
+     * @param {object} event.scope any of workspaceId / nodeId / documentId
+     * @param {string} event.summary
+     * @param {object} [event.before] snapshot fields before the change
+     * @param {object} [event.after] snapshot fields after the change
+     */
+    recordAudit({ actor, action, mode, target, scope, summary, before, after }) {
+      const event = {
+        id: newId("evt"),
+        at: now(),
+        actor,
+        action,
+        mode,
+        target,
+        ...scopeFor(scope),
+        summary,
+        changes: after ? diffFields(before, after) : [],
+      };
+      db.audit = [...(db.audit ?? []), event];
+      return event;
+    },
+
+    listAudit({
+      workspaceId,
+      nodeId,
+      documentId,
+      action,
+      mode,
+      actor,
+      page = 1,
+      pageSize = 20,
+    } = {}) {
+      const matches = (db.audit ?? [])
+        .filter(
+          (e) =>
+            (!workspaceId || e.workspaceId === workspaceId) &&
+            (!nodeId || e.nodeId === nodeId) &&
+            (!documentId || e.documentId === documentId) &&
+            (!action || e.action === action) &&
+            (!mode || e.mode === mode) &&
+            (!actor || e.actor.toLowerCase().includes(actor.toLowerCase()))
+        )
+        .sort((a, b) => b.at.localeCompare(a.at));
+      const start = (page - 1) * pageSize;
+      return {
+        items: matches.slice(start, start + pageSize),
+        total: matches.length,
+        page,
+        pageSize,
+      };
+    },
+  };
+}
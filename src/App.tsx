@@ -1,5 +1,13 @@
 import React, { useEffect, useState } from "react";
-import { Routes, Route, Navigate, useLocation, Link } from "react-router-dom";
+import {
+  Routes,
+  Route,
+  Navigate,
+  useLocation,
+  useNavigate,
+  matchPath,
+  Link,
+} from "react-router-dom";
 import {
   AppShell,
   Container,
@@ -19,6 +27,11 @@ import {
   IconBook,
   IconFileText,
   IconInfoCircle,
+  IconGitPullRequest,
+  IconHistory,
+  IconPuzzle,
+  IconDatabase,
+  IconFlask,
 } from "@tabler/icons-react";
 import GlossaryPage from "./pages/GlossaryPage";
 import OverviewPage from "./pages/OverviewPage";
@@ -26,47 +39,26 @@ import AboutPage from "./pages/AboutPage";
 import WorkspacesPage from "./pages/WorkspacesPage";
 import NodesPage from "./pages/NodesPage";
 import NodeDetailPage from "./pages/NodeDetailPage";
+import ProgramDetailPage from "./pages/ProgramDetailPage";
+import ProgramRunnerPage from "./pages/ProgramRunnerPage";
+import ModuleLibraryPage from "./pages/ModuleLibraryPage";
+import McpServerDetailPage from "./pages/McpServerDetailPage";
+import KnowledgeStoresPage from "./pages/KnowledgeStoresPage";
+import KnowledgeStoreDetailPage from "./pages/KnowledgeStoreDetailPage";
+import RetrievalPlaygroundPage from "./pages/RetrievalPlaygroundPage";
 import SettingsPage from "./pages/SettingsPage";
 import DocumentsPage from "./pages/DocumentsPage";
+import DocumentDetailPage from "./pages/DocumentDetailPage";
+import ProposalsPage from "./pages/ProposalsPage";
+import AuditLogPage from "./pages/AuditLogPage";
 import EditorSpikePage from "./pages/EditorSpikePage";
+import GlobalSearch from "./components/GlobalSearch";
 import PageFrame from "./layout/PageFrame";
 import ContentRoot from "./layout/ContentRoot";
 import { FontSizeProvider } from "./context/FontSizeContext";
-
-// ---------- Types ----------
-
-type Workspace = {
-  id: string;
-  tenantId: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-  tenant: {
-    id: string;
-    name: string;
-  };
-  _count: {
-    nodes: number;
-  };
-};
-
-type Node = {
-  id: string;
-  name: string;
-  workspaceId: string;
-  createdAt: string;
-  updatedAt: string;
-  workspace: {
-    id: string;
-    name: string;
-  };
-  _count: {
-    programs: number;
-    modules: number;
-    documents: number;
-    integrations: number;
-  };
-};
+import { useCoreApi } from "./context/CoreApiContext";
+import { useNodes, useWorkspaces } from "./api/queries";
+import type { Workspace } from "./api/types";
 
 // ---------- Palettes ----------
 
@@ -154,9 +146,6 @@ const PALETTE_OPTIONS: { value: PaletteKey; label: string }[] = Object.keys(
   label: key,
 }));
 
-const API_BASE =
-  import.meta.env.VITE_API_BASE || "http://localhost:8080";
-
 // ---------- Vocabulary Map ----------
 
 const TERMS = {
@@ -169,73 +158,58 @@ const TERMS = {
 
 const App: React.FC = () => {
   const location = useLocation();
+  const api = useCoreApi();
+  const API_BASE = api.baseUrl;
   const [paletteKey, setPaletteKey] =
     useState<PaletteKey>("Regal Navy & Gold");
   const palette = PALETTES[paletteKey];
 
-  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
-  const [workspacesLoading, setWorkspacesLoading] = useState(false);
-  const [workspacesError, setWorkspacesError] = useState<string | null>(null);
-
-  const [selectedWorkspace, setSelectedWorkspace] = useState<Workspace | null>(
-    null
-  );
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [nodesLoading, setNodesLoading] = useState(false);
-  const [nodesError, setNodesError] = useState<string | null>(null);
-
-  const fetchWorkspaces = async () => {
-    try {
-      setWorkspacesLoading(true);
-      setWorkspacesError(null);
-
-      const res = await fetch(`${API_BASE}/api/workspaces`);
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      const data = (await res.json()) as Workspace[];
-      setWorkspaces(data);
-    } catch (err: any) {
-      console.error("Error loading workspaces", err);
-      setWorkspacesError(err?.message ?? "Failed to load workspaces");
-    } finally {
-      setWorkspacesLoading(false);
-    }
-  };
-
-  const fetchNodes = async (workspaceId: string) => {
-    try {
-      setNodesLoading(true);
-      setNodesError(null);
-
-      const res = await fetch(
-        `${API_BASE}/api/nodes?workspaceId=${encodeURIComponent(workspaceId)}`
-      );
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      const data = (await res.json()) as Node[];
-      setNodes(data);
-    } catch (err: any) {
-      console.error("Error loading nodes", err);
-      setNodesError(err?.message ?? "Failed to load nodes");
-    } finally {
-      setNodesLoading(false);
-    }
-  };
-
-  // Fetch workspaces on mount
+  const {
+    data: workspaces = [],
+    isLoading: workspacesLoading,
+    error: workspacesError,
+  } = useWorkspaces();
+
+  // The Workspaces page selects a workspace by path (/workspaces/:workspaceId);
+  // other pages such as the Overview keep the last one selected there
+  const navigate = useNavigate();
+  const workspaceMatch = matchPath("/workspaces/:workspaceId", location.pathname);
+  const routeWorkspaceId = workspaceMatch?.params.workspaceId ?? null;
+  const onWorkspacesPage = location.pathname === "/workspaces" || !!workspaceMatch;
+  const [lastWorkspaceId, setLastWorkspaceId] = useState<string | null>(null);
   useEffect(() => {
-    fetchWorkspaces();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  const handleWorkspaceClick = async (workspace: Workspace) => {
-    console.log("Clicked workspace", workspace.id, workspace.name);
-    setSelectedWorkspace(workspace);
-    setNodes([]);
-    setNodesError(null);
-    await fetchNodes(workspace.id);
+    if (onWorkspacesPage) setLastWorkspaceId(routeWorkspaceId);
+  }, [onWorkspacesPage, routeWorkspaceId]);
+  const selectedWorkspaceId = onWorkspacesPage ? routeWorkspaceId : lastWorkspaceId;
+  // Found in the list each render, so approved renames show and deletes deselect
+  const selectedWorkspace =
+    workspaces.find((workspace) => workspace.id === selectedWorkspaceId) ?? null;
+  const {
+    data: nodes = [],
+    isLoading: nodesLoading,
+    error: nodesError,
+  } = useNodes(selectedWorkspace?.id, { enabled: !!selectedWorkspace });
+
+  // Older links used /workspaces?workspaceId=; a deleted workspace falls back to the list
+  const workspaceParam = new URLSearchParams(location.search).get("workspaceId");
+  useEffect(() => {
+    if (location.pathname === "/workspaces" && workspaceParam) {
+      navigate(`/workspaces/${encodeURIComponent(workspaceParam)}`, { replace: true });
+    } else if (routeWorkspaceId && !workspacesLoading && !workspacesError && !selectedWorkspace) {
+      navigate("/workspaces", { replace: true });
+    }
+  }, [
+    location.pathname,
+    workspaceParam,
+    routeWorkspaceId,
+    workspacesLoading,
+    workspacesError,
+    selectedWorkspace,
+    navigate,
+  ]);
+
+  const handleWorkspaceClick = (workspace: Workspace) => {
+    navigate(`/workspaces/${encodeURIComponent(workspace.id)}`);
   };
 
   return (
@@ -288,6 +262,8 @@ const App: React.FC = () => {
               </Stack>
             </Group>
 
+            <GlobalSearch palette={palette} />
+
             <Group gap="md" align="center">
               <Text size="sm" c={palette.textSoft}>
                 Palette
@@ -426,12 +402,12 @@ const App: React.FC = () => {
               leftSection={<IconBox size={18} color={palette.textSoft} />}
               component={Link}
               to="/workspaces"
-              active={location.pathname === "/workspaces"}
+              active={onWorkspacesPage}
               styles={{
                 root: {
                   borderRadius: 8,
                   backgroundColor:
-                    location.pathname === "/workspaces"
+                    onWorkspacesPage
                       ? palette.surface
                       : "transparent",
                 },
@@ -476,6 +452,111 @@ const App: React.FC = () => {
             />
           </div>
 
+          <div
+            style={{
+              borderRadius: 8,
+              transition: "background-color 0.2s ease",
+            }}
+            onMouseEnter={(e) => {
+              if (location.pathname !== "/modules") {
+                e.currentTarget.style.backgroundColor = palette.header;
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            <NavLink
+              label="Modules"
+              description="Reusable program parts"
+              leftSection={<IconPuzzle size={18} color={palette.textSoft} />}
+              component={Link}
+              to="/modules"
+              active={location.pathname === "/modules"}
+              styles={{
+                root: {
+                  borderRadius: 8,
+                  backgroundColor:
+                    location.pathname === "/modules"
+                      ? palette.surface
+                      : "transparent",
+                },
+                label: { color: palette.text },
+                description: { color: palette.textSoft },
+              }}
+            />
+          </div>
+
+          <div
+            style={{
+              borderRadius: 8,
+              transition: "background-color 0.2s ease",
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith("/knowledge-stores")) {
+                e.currentTarget.style.backgroundColor = palette.header;
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            <NavLink
+              label="Knowledge Stores"
+              description="Indexed sources for RAG"
+              leftSection={<IconDatabase size={18} color={palette.textSoft} />}
+              component={Link}
+              to="/knowledge-stores"
+              active={location.pathname.startsWith("/knowledge-stores")}
+              styles={{
+                root: {
+                  borderRadius: 8,
+                  backgroundColor:
+                    location.pathname.startsWith("/knowledge-stores")
+                      ? palette.surface
+                      : "transparent",
+                },
+                label: { color: palette.text },
+                description: { color: palette.textSoft },
+              }}
+            />
+          </div>
+
+          <div
+            style={{
+              borderRadius: 8,
+              transition: "background-color 0.2s ease",
+            }}
+            onMouseEnter={(e) => {
+              if (location.pathname !== "/retrieval") {
+                e.currentTarget.style.backgroundColor = palette.header;
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            <NavLink
+              label="Retrieval Playground"
+              description="Test what RAG returns"
+              leftSection={<IconFlask size={18} color={palette.textSoft} />}
+              component={Link}
+              to="/retrieval"
+              active={location.pathname === "/retrieval"}
+              styles={{
+                root: {
+                  borderRadius: 8,
+                  backgroundColor:
+                    location.pathname === "/retrieval"
+                      ? palette.surface
+                      : "transparent",
+                },
+                label: { color: palette.text },
+                description: { color: palette.textSoft },
+              }}
+            />
+          </div>
+
           <div
             style={{
               borderRadius: 8,
@@ -517,7 +598,7 @@ const App: React.FC = () => {
               transition: "background-color 0.2s ease",
             }}
             onMouseEnter={(e) => {
-              if (location.pathname !== "/documents") {
+              if (!location.pathname.startsWith("/documents")) {
                 e.currentTarget.style.backgroundColor = palette.header;
               }
             }}
@@ -531,12 +612,82 @@ const App: React.FC = () => {
               leftSection={<IconFileText size={18} color={palette.textSoft} />}
               component={Link}
               to="/documents"
-              active={location.pathname === "/documents"}
+              active={location.pathname.startsWith("/documents")}
+              styles={{
+                root: {
+                  borderRadius: 8,
+                  backgroundColor:
+                    location.pathname.startsWith("/documents")
+                      ? palette.surface
+                      : "transparent",
+                },
+                label: { color: palette.text },
+                description: { color: palette.textSoft },
+              }}
+            />
+          </div>
+
+          <div
+            style={{
+              borderRadius: 8,
+              transition: "background-color 0.2s ease",
+            }}
+            onMouseEnter={(e) => {
+              if (location.pathname !== "/proposals") {
+                e.currentTarget.style.backgroundColor = palette.header;
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            <NavLink
+              label="Proposals"
+              description="Governed change review"
+              leftSection={<IconGitPullRequest size={18} color={palette.textSoft} />}
+              component={Link}
+              to="/proposals"
+              active={location.pathname === "/proposals"}
               styles={{
                 root: {
                   borderRadius: 8,
                   backgroundColor:
-                    location.pathname === "/documents"
+                    location.pathname === "/proposals"
+                      ? palette.surface
+                      : "transparent",
+                },
+                label: { color: palette.text },
+                description: { color: palette.textSoft },
+              }}
+            />
+          </div>
+
+          <div
+            style={{
+              borderRadius: 8,
+              transition: "background-color 0.2s ease",
+            }}
+            onMouseEnter={(e) => {
+              if (location.pathname !== "/audit") {
+                e.currentTarget.style.backgroundColor = palette.header;
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            <NavLink
+              label="Audit Log"
+              description="Recorded changes"
+              leftSection={<IconHistory size={18} color={palette.textSoft} />}
+              component={Link}
+              to="/audit"
+              active={location.pathname === "/audit"}
+              styles={{
+                root: {
+                  borderRadius: 8,
+                  backgroundColor:
+                    location.pathname === "/audit"
                       ? palette.surface
                       : "transparent",
                 },
@@ -598,14 +749,13 @@ const App: React.FC = () => {
                     selectedWorkspace={selectedWorkspace}
                     nodes={nodes}
                     palette={palette}
-                    API_BASE={API_BASE}
                   />
                 </PageFrame>
               </Container>
             }
           />
           <Route
-            path="/workspaces"
+            path="/workspaces/:workspaceId?"
             element={
               <Container size="xl" py="lg">
                 <PageFrame>
@@ -639,8 +789,6 @@ const App: React.FC = () => {
                       nodesLoading={nodesLoading}
                       nodesError={nodesError}
                       onWorkspaceClick={handleWorkspaceClick}
-                      onRefreshWorkspaces={fetchWorkspaces}
-                      onRefreshNodes={selectedWorkspace ? () => fetchNodes(selectedWorkspace.id) : undefined}
                       palette={palette}
                       TERMS={TERMS}
                       API_BASE={API_BASE}
@@ -692,6 +840,76 @@ const App: React.FC = () => {
               </Container>
             }
           />
+          <Route
+            path="/nodes/:nodeId/programs/:programId"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <ProgramDetailPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/nodes/:nodeId/programs/:programId/runs"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <ProgramRunnerPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/nodes/:nodeId/mcp-servers/:serverId"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <McpServerDetailPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/modules"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <ModuleLibraryPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/knowledge-stores"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <KnowledgeStoresPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/knowledge-stores/:storeId"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <KnowledgeStoreDetailPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/retrieval"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <RetrievalPlaygroundPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
           <Route
             path="/settings"
             element={
@@ -712,6 +930,36 @@ const App: React.FC = () => {
               </Container>
             }
           />
+          <Route
+            path="/documents/:documentId"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <DocumentDetailPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/proposals"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <ProposalsPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
+          <Route
+            path="/audit"
+            element={
+              <Container size="xl" py="lg">
+                <PageFrame>
+                  <AuditLogPage palette={palette} />
+                </PageFrame>
+              </Container>
+            }
+          />
           <Route
             path="/editor-spike"
             element={
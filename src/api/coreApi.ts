@@ -0,0 +1,362 @@
+import type {
+  AddKnowledgeMemberInput,
+  AuditEvent,
+  AuditQuery,
+  CapabilityChangeProposal,
+  ChangeProposal,
+  CreateCapabilityProposalInput,
+  CreateDocumentInput,
+  CreateIntegrationInput,
+  CreateKnowledgeStoreInput,
+  CreateMcpServerInput,
+  CreateProposalInput,
+  CreateNodeInput,
+  CreateProgramInput,
+  CreateStructuralProposalInput,
+  CreateWorkspaceInput,
+  Document,
+  DocumentChangeProposal,
+  DocumentPageQuery,
+  DocumentSummary,
+  DocumentVersion,
+  Integration,
+  IntegrationKindInfo,
+  KnowledgeQuery,
+  KnowledgeStore,
+  McpServer,
+  McpServerVersion,
+  McpTemplate,
+  Module,
+  ModuleQuery,
+  Node,
+  Page,
+  Program,
+  ProgramRun,
+  ProgramVersion,
+  ProposalDecisionInput,
+  ProposalStatus,
+  RagReadiness,
+  RetrievalResult,
+  SearchResults,
+  RunLogPage,
+  StructuralChangeProposal,
+  UpdateIntegrationInput,
+  UpdateMcpServerInput,
+  UpdateModuleInput,
+  UpdateProgramInput,
+  Workspace,
+} from "./types";
+
+export const DEFAULT_API_BASE =
+  import.meta.env.VITE_API_BASE || "http://localhost:8080";
+
+/**
+ * Error thrown for any non-2xx response from the Core API.
+ * `message` prefers the server's `error` / `message` field and falls back to `HTTP <status>`.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly body: unknown;
+
+  constructor(status: number, message: string, code: string | null, body: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.body = body;
+  }
+}
+
+export const VERSION_CONFLICT = "VERSION_CONFLICT";
+export const GOVERNED_CHANGE_REQUIRED = "GOVERNED_CHANGE_REQUIRED";
+
+/**
+ * True when an update was rejected because the document (or program) moved on
+ * since it was loaded. The error body then carries the server's `current` copy.
+ */
+export const isVersionConflict = <T = Document>(
+  err: unknown
+): err is ApiError & { body: { current: T } } =>
+  err instanceof ApiError && err.status === 409 && err.code === VERSION_CONFLICT;
+
+type Query = Record<string, string | number | boolean | null | undefined>;
+
+type RequestOptions = {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  query?: Query;
+  body?: unknown;
+};
+
+export type CoreApiOptions = {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  // Display name sent as `X-Continuum-Actor` so the Core API can attribute audit events
+  getActor?: () => string | null;
+};
+
+const buildQueryString = (query?: Query): string => {
+  if (!query) return "";
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+};
+
+const parseBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const toApiError = (status: number, body: unknown): ApiError => {
+  const data = (body && typeof body === "object" ? body : {}) as {
+    error?: unknown;
+    message?: unknown;
+    code?: unknown;
+  };
+  const message =
+    (typeof data.error === "string" && data.error) ||
+    (typeof data.message === "string" && data.message) ||
+    `HTTP ${status}`;
+  const code = typeof data.code === "string" ? data.code : null;
+  return new ApiError(status, message, code, body);
+};
+
+/**
+ * Creates a typed client for Continuum Core.
+ * All surfaces go through this so errors and URLs are handled identically.
+ */
+export function createCoreApi({
+  baseUrl = DEFAULT_API_BASE,
+  fetch: fetchImpl = (...args) => fetch(...args),
+  getActor,
+}: CoreApiOptions = {}) {
+  const request = async <T>(
+    path: string,
+    { method = "GET", query, body }: RequestOptions = {}
+  ): Promise<T> => {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    const actor = method !== "GET" ? getActor?.() : null;
+    if (actor) headers["X-Continuum-Actor"] = actor;
+
+    const res = await fetchImpl(`${baseUrl}${path}${buildQueryString(query)}`, {
+      method,
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await parseBody(res);
+    if (!res.ok) {
+      throw toApiError(res.status, data);
+    }
+    return data as T;
+  };
+
+  return {
+    baseUrl,
+    request,
+
+    workspaces: {
+      list: () => request<Workspace[]>("/api/workspaces"),
+      create: (input: CreateWorkspaceInput) =>
+        request<Workspace>("/api/workspaces", { method: "POST", body: input }),
+    },
+
+    nodes: {
+      list: (params: { workspaceId?: string | null } = {}) =>
+        request<Node[]>("/api/nodes", { query: params }),
+      get: (id: string) =>
+        request<Node>(`/api/nodes/${encodeURIComponent(id)}`),
+      create: (input: CreateNodeInput) =>
+        request<Node>("/api/nodes", { method: "POST", body: input }),
+    },
+
+    documents: {
+      list: (params: { nodeId?: string | null } = {}) =>
+        request<Document[]>("/api/documents", { query: params }),
+      page: (params: DocumentPageQuery = {}) =>
+        request<Page<Document>>("/api/documents/page", { query: params }),
+      summary: (params: { limit?: number } = {}) =>
+        request<DocumentSummary>("/api/documents/summary", { query: params }),
+      get: (id: string) =>
+        request<Document>(`/api/documents/${encodeURIComponent(id)}`),
+      create: (input: CreateDocumentInput) =>
+        request<Document>("/api/documents", { method: "POST", body: input }),
+      versions: (id: string) =>
+        request<DocumentVersion[]>(`/api/documents/${encodeURIComponent(id)}/versions`),
+      // Chunking preview and readiness issues for retrieval
+      rag: (id: string) => request<RagReadiness>(`/api/documents/${encodeURIComponent(id)}/rag`),
+      // Rebuilds the document's retrieval index; 409 RAG_NOT_READY lists blocking `issues`
+      refreshRag: (id: string, input: { version: string }) =>
+        request<Document>(`/api/documents/${encodeURIComponent(id)}/rag/refresh`, {
+          method: "POST",
+          body: input,
+        }),
+    },
+
+    programs: {
+      list: (params: { nodeId?: string | null } = {}) =>
+        request<Program[]>("/api/programs", { query: params }),
+      get: (id: string) => request<Program>(`/api/programs/${encodeURIComponent(id)}`),
+      create: (input: CreateProgramInput) =>
+        request<Program>("/api/programs", { method: "POST", body: input }),
+      update: (id: string, input: UpdateProgramInput) =>
+        request<Program>(`/api/programs/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          body: input,
+        }),
+      versions: (id: string) =>
+        request<ProgramVersion[]>(`/api/programs/${encodeURIComponent(id)}/versions`),
+      runs: (id: string) =>
+        request<ProgramRun[]>(`/api/programs/${encodeURIComponent(id)}/runs`),
+      run: (id: string) =>
+        request<ProgramRun>(`/api/programs/${encodeURIComponent(id)}/runs`, {
+          method: "POST",
+          body: {},
+        }),
+    },
+
+    runs: {
+      get: (id: string) => request<ProgramRun>(`/api/runs/${encodeURIComponent(id)}`),
+      // Polling fallback: log lines after sequence number `after`
+      logs: (id: string, after = 0) =>
+        request<RunLogPage>(`/api/runs/${encodeURIComponent(id)}/logs`, { query: { after } }),
+      cancel: (id: string) =>
+        request<ProgramRun>(`/api/runs/${encodeURIComponent(id)}/cancel`, { method: "POST" }),
+      // Server-sent events URL (`snapshot`, `log`, `run`, `end`) for EventSource
+      eventsUrl: (id: string, after = 0) =>
+        `${baseUrl}/api/runs/${encodeURIComponent(id)}/events${buildQueryString({ after })}`,
+    },
+
+    modules: {
+      list: (params: ModuleQuery = {}) => request<Module[]>("/api/modules", { query: params }),
+      get: (id: string) => request<Module>(`/api/modules/${encodeURIComponent(id)}`),
+      update: (id: string, input: UpdateModuleInput) =>
+        request<Module>(`/api/modules/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          body: input,
+        }),
+    },
+
+    integrations: {
+      catalog: () => request<IntegrationKindInfo[]>("/api/integrations/catalog"),
+      list: (params: { nodeId?: string | null } = {}) =>
+        request<Integration[]>("/api/integrations", { query: params }),
+      create: (input: CreateIntegrationInput) =>
+        request<Integration>("/api/integrations", { method: "POST", body: input }),
+      update: (id: string, input: UpdateIntegrationInput) =>
+        request<Integration>(`/api/integrations/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          body: input,
+        }),
+      // Runs a connection check and returns the integration with its new `health`
+      test: (id: string) =>
+        request<Integration>(`/api/integrations/${encodeURIComponent(id)}/test`, {
+          method: "POST",
+        }),
+    },
+
+    mcp: {
+      templates: () => request<McpTemplate[]>("/api/mcp/templates"),
+    },
+
+    mcpServers: {
+      list: (params: { nodeId?: string | null } = {}) =>
+        request<McpServer[]>("/api/mcp-servers", { query: params }),
+      get: (id: string) => request<McpServer>(`/api/mcp-servers/${encodeURIComponent(id)}`),
+      create: (input: CreateMcpServerInput) =>
+        request<McpServer>("/api/mcp-servers", { method: "POST", body: input }),
+      update: (id: string, input: UpdateMcpServerInput) =>
+        request<McpServer>(`/api/mcp-servers/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          body: input,
+        }),
+      versions: (id: string) =>
+        request<McpServerVersion[]>(`/api/mcp-servers/${encodeURIComponent(id)}/versions`),
+      // JSON-RPC endpoint MCP clients talk to; the inspector posts raw messages here
+      rpcUrl: (id: string) => `${baseUrl}/api/mcp-servers/${encodeURIComponent(id)}/rpc`,
+    },
+
+    knowledgeStores: {
+      list: (params: { workspaceId?: string | null; nodeId?: string | null } = {}) =>
+        request<KnowledgeStore[]>("/api/knowledge-stores", { query: params }),
+      get: (id: string) =>
+        request<KnowledgeStore>(`/api/knowledge-stores/${encodeURIComponent(id)}`),
+      create: (input: CreateKnowledgeStoreInput) =>
+        request<KnowledgeStore>("/api/knowledge-stores", { method: "POST", body: input }),
+      addMember: (id: string, input: AddKnowledgeMemberInput) =>
+        request<KnowledgeStore>(`/api/knowledge-stores/${encodeURIComponent(id)}/members`, {
+          method: "POST",
+          body: input,
+        }),
+      removeMember: (id: string, memberId: string) =>
+        request<KnowledgeStore>(
+          `/api/knowledge-stores/${encodeURIComponent(id)}/members/${encodeURIComponent(memberId)}`,
+          { method: "DELETE" }
+        ),
+      // Re-indexes every member; failures are reported per member, not thrown
+      rebuild: (id: string) =>
+        request<KnowledgeStore>(`/api/knowledge-stores/${encodeURIComponent(id)}/rebuild`, {
+          method: "POST",
+        }),
+      query: (id: string, params: KnowledgeQuery) =>
+        request<RetrievalResult>(`/api/knowledge-stores/${encodeURIComponent(id)}/query`, {
+          query: params,
+        }),
+    },
+
+    // Workspace and node names, document titles and content; `limit` is per group
+    search: (params: { q: string; limit?: number }) =>
+      request<SearchResults>("/api/search", { query: params }),
+
+    proposals: {
+      list: (
+        params: {
+          nodeId?: string | null;
+          documentId?: string | null;
+          serverId?: string | null;
+          status?: ProposalStatus | null;
+        } = {}
+      ) => request<ChangeProposal[]>("/api/proposals", { query: params }),
+      create: (input: CreateProposalInput) =>
+        request<DocumentChangeProposal>("/api/proposals", { method: "POST", body: input }),
+      createStructural: (input: CreateStructuralProposalInput) =>
+        request<StructuralChangeProposal>("/api/proposals", {
+          method: "POST",
+          body: { kind: "structure", ...input },
+        }),
+      createCapability: (input: CreateCapabilityProposalInput) =>
+        request<CapabilityChangeProposal>("/api/proposals", {
+          method: "POST",
+          body: { kind: "capability", ...input },
+        }),
+      approve: (id: string, input: ProposalDecisionInput) =>
+        request<ChangeProposal>(`/api/proposals/${encodeURIComponent(id)}/approve`, {
+          method: "POST",
+          body: input,
+        }),
+      reject: (id: string, input: ProposalDecisionInput) =>
+        request<ChangeProposal>(`/api/proposals/${encodeURIComponent(id)}/reject`, {
+          method: "POST",
+          body: input,
+        }),
+    },
+
+    audit: {
+      list: (params: AuditQuery = {}) =>
+        request<Page<AuditEvent>>("/api/audit", { query: params }),
+    },
+  };
+}
+
+export type CoreApi = ReturnType<typeof createCoreApi>;
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { jsonRpcMessageOf, sendJsonRpc } from "./jsonRpc";
+
+const stubFetch = (response: Response) => {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+const sentHeaders = (fetchMock: ReturnType<typeof vi.fn>) =>
+  fetchMock.mock.calls[0][1].headers as Record<string, string>;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("sendJsonRpc", () => {
+  it("returns the session an initialize response opened", async () => {
+    const fetchMock = stubFetch(
+      new Response('{"jsonrpc":"2.0","id":1,"result":{}}', {
+        headers: { "Content-Type": "application/json", "Mcp-Session-Id": "abc" },
+      })
+    );
+
+    const exchange = await sendJsonRpc("http://mcp.test/rpc", {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+    });
+
+    expect(exchange.sessionId).toBe("abc");
+    expect(sentHeaders(fetchMock)).not.toHaveProperty("Mcp-Session-Id");
+    expect(sentHeaders(fetchMock)).not.toHaveProperty("MCP-Protocol-Version");
+  });
+
+  it("carries the session and protocol version on later requests", async () => {
+    const fetchMock = stubFetch(new Response(null, { status: 202 }));
+
+    await sendJsonRpc(
+      "http://mcp.test/rpc",
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { sessionId: "abc", protocolVersion: "2025-06-18" }
+    );
+
+    expect(sentHeaders(fetchMock)).toMatchObject({
+      "Mcp-Session-Id": "abc",
+      "MCP-Protocol-Version": "2025-06-18",
+    });
+  });
+});
+
+describe("jsonRpcMessageOf", () => {
+  it("reads plain JSON and event-stream bodies alike", () => {
+    expect(jsonRpcMessageOf('{"jsonrpc":"2.0","id":1,"result":{"ok":true}}')?.result).toEqual({
+      ok: true,
+    });
+    const stream = 'event: message\ndata: {"jsonrpc":"2.0","id":2,"result":{"ok":true}}\n\n';
+    expect(jsonRpcMessageOf(stream)?.id).toBe(2);
+    expect(jsonRpcMessageOf("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+export type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+/** One request and what came back, kept raw so the inspector can show it verbatim. */
+export type JsonRpcExchange = {
+  id: string;
+  url: string;
+  request: JsonRpcRequest;
+  sentAt: string;
+  durationMs: number;
+  // null when the request never got a response (network error, CORS)
+  status: number | null;
+  contentType: string | null;
+  body: string;
+  error: string | null;
+  // The `Mcp-Session-Id` the server assigned, if it sent one
+  sessionId: string | null;
+};
+
+/**
+ * What an `initialize` handshake agreed on. Every later request to the same
+ * endpoint carries both as headers, as Streamable HTTP servers require.
+ */
+export type McpSession = {
+  // null when the server doesn't track sessions
+  sessionId: string | null;
+  protocolVersion: string;
+};
+
+let exchangeCount = 0;
+
+/**
+ * The JSON-RPC message in a response body, whether it came back as plain JSON
+ * or as a `text/event-stream`, where it is the last `data:` event that parses.
+ */
+export function jsonRpcMessageOf(body: string): Record<string, any> | null {
+  try {
+    return JSON.parse(body);
+  } catch {
+    // Not plain JSON; try it as an event stream
+  }
+  let message: Record<string, any> | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (!line.startsWith("data:")) continue;
+    try {
+      message = JSON.parse(line.slice(5));
+    } catch {
+      // A partial or non-JSON event; keep the last good one
+    }
+  }
+  return message;
+}
+
+/**
+ * Posts one JSON-RPC message to an MCP endpoint. Unlike the Core API client
+ * this never throws on an HTTP or JSON-RPC error: the point is to see exactly
+ * what the server said, so everything is returned as received.
+ */
+export async function sendJsonRpc(
+  url: string,
+  request: JsonRpcRequest,
+  session: McpSession | null = null
+): Promise<JsonRpcExchange> {
+  const sentAt = new Date().toISOString();
+  const started = performance.now();
+  const base = { id: `rpc-${++exchangeCount}`, url, request, sentAt };
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(session ? { "MCP-Protocol-Version": session.protocolVersion } : {}),
+        ...(session?.sessionId ? { "Mcp-Session-Id": session.sessionId } : {}),
+      },
+      body: JSON.stringify(request),
+    });
+    const body = await res.text();
+    return {
+      ...base,
+      durationMs: Math.round(performance.now() - started),
+      status: res.status,
+      contentType: res.headers.get("Content-Type"),
+      body,
+      error: null,
+      sessionId: res.headers.get("Mcp-Session-Id"),
+    };
+  } catch (err: any) {
+    return {
+      ...base,
+      durationMs: Math.round(performance.now() - started),
+      status: null,
+      contentType: null,
+      body: "",
+      error: err?.message ?? String(err),
+      sessionId: null,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  GOVERNANCE_MATRIX,
+  type GovernanceRule,
+  type GovernedAction,
+} from "../content/governanceMatrix";
+
+export type PolicyOutcome = "apply-now" | "requires-approval" | "blocked";
+
+export type PolicyDecision = {
+  action: GovernedAction;
+  outcome: PolicyOutcome;
+  rule: GovernanceRule | null;
+  strict: boolean;
+  loggingRequired: boolean;
+  reason: string;
+};
+
+export class PolicyError extends Error {
+  decision: PolicyDecision;
+
+  constructor(decision: PolicyDecision) {
+    super(decision.reason);
+    this.name = "PolicyError";
+    this.decision = decision;
+  }
+}
+
+export const findRule = (action: GovernedAction) =>
+  GOVERNANCE_MATRIX.find((rule) => rule.actions.includes(action)) ?? null;
+
+/**
+ * Routes an action through the governance matrix. Actions without a rule,
+ * or with a rule that neither allows them automatically nor offers an
+ * approval path, are blocked.
+ */
+export function evaluatePolicy(action: GovernedAction): PolicyDecision {
+  const rule = findRule(action);
+  if (!rule) {
+    return {
+      action,
+      outcome: "blocked",
+      rule: null,
+      strict: false,
+      loggingRequired: true,
+      reason: `No governance rule covers "${action}"`,
+    };
+  }
+
+  const base = {
+    action,
+    rule,
+    strict: rule.approval === "strict",
+    loggingRequired: rule.loggingRequired,
+  };
+
+  if (rule.allowedAutomatically) {
+    return { ...base, outcome: "apply-now", reason: `${rule.asset} is allowed automatically` };
+  }
+  if (rule.approval !== "none") {
+    return {
+      ...base,
+      outcome: "requires-approval",
+      reason: `${rule.asset} requires ${rule.approval === "strict" ? "strict " : ""}approval`,
+    };
+  }
+  return { ...base, outcome: "blocked", reason: `${rule.asset} is not permitted` };
+}
+
+/**
+ * Throws unless the action may be applied immediately. Mutation hooks call
+ * this so nothing reaches the Core API without passing the matrix.
+ */
+export function assertApplyNow(action: GovernedAction) {
+  const decision = evaluatePolicy(action);
+  if (decision.outcome !== "apply-now") {
+    throw new PolicyError(decision);
+  }
+  return decision;
+}
+
+// Touching the governance flag in either direction is a governance change
+export const documentEditAction = (
+  wasGovernance: boolean | undefined,
+  isGovernance: boolean | undefined = wasGovernance
+): GovernedAction => (wasGovernance || isGovernance ? "governance.edit" : "document.edit");
@@ -0,0 +1,837 @@
+import { useCallback } from "react";
+import { useCoreApi } from "../context/CoreApiContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { ApiError } from "./coreApi";
+import { assertApplyNow } from "./policy";
+import { useQuery } from "./useQuery";
+import type {
+  AddKnowledgeMemberInput,
+  AuditQuery,
+  CreateCapabilityProposalInput,
+  CreateDocumentInput,
+  CreateIntegrationInput,
+  CreateKnowledgeStoreInput,
+  CreateMcpServerInput,
+  CreateNodeInput,
+  CreateProgramInput,
+  CreateProposalInput,
+  CreateStructuralProposalInput,
+  CreateWorkspaceInput,
+  Document,
+  DocumentPageQuery,
+  Integration,
+  KnowledgeQuery,
+  McpServer,
+  Module,
+  ModuleQuery,
+  Program,
+  ProgramRun,
+  ProposalDecisionInput,
+  ProposalStatus,
+  UpdateIntegrationInput,
+  UpdateMcpServerInput,
+  UpdateModuleInput,
+  UpdateProgramInput,
+} from "./types";
+
+// ---------- Keys ----------
+
+export const queryKeys = {
+  workspaces: () => ["workspaces"] as const,
+  nodes: (workspaceId?: string | null) =>
+    ["nodes", "list", { workspaceId: workspaceId ?? null }] as const,
+  node: (id: string) => ["nodes", "detail", id] as const,
+  documents: (nodeId?: string | null) =>
+    ["documents", "list", { nodeId: nodeId ?? null }] as const,
+  documentPage: (params: DocumentPageQuery = {}) =>
+    [
+      "documents",
+      "page",
+      {
+        nodeId: params.nodeId ?? null,
+        governance: params.governance ?? null,
+        ragReady: params.ragReady ?? null,
+        type: params.type ?? null,
+        sort: params.sort ?? null,
+        order: params.order ?? null,
+        page: params.page ?? 1,
+        pageSize: params.pageSize ?? null,
+      },
+    ] as const,
+  documentSummary: (limit: number) => ["documents", "summary", limit] as const,
+  document: (id: string) => ["documents", "detail", id] as const,
+  documentVersions: (id: string) => ["documents", "versions", id] as const,
+  documentRag: (id: string) => ["documents", "rag", id] as const,
+  programs: (nodeId?: string | null) =>
+    ["programs", "list", { nodeId: nodeId ?? null }] as const,
+  program: (id: string) => ["programs", "detail", id] as const,
+  programVersions: (id: string) => ["programs", "versions", id] as const,
+  programRuns: (id: string) => ["programs", "runs", id] as const,
+  modules: (params: ModuleQuery = {}) =>
+    [
+      "modules",
+      "list",
+      {
+        workspaceId: params.workspaceId ?? null,
+        nodeId: params.nodeId ?? null,
+        kind: params.kind ?? null,
+      },
+    ] as const,
+  integrationCatalog: () => ["integrations", "catalog"] as const,
+  integrations: (nodeId?: string | null) =>
+    ["integrations", "list", { nodeId: nodeId ?? null }] as const,
+  mcpTemplates: () => ["mcpServers", "templates"] as const,
+  mcpServers: (nodeId?: string | null) =>
+    ["mcpServers", "list", { nodeId: nodeId ?? null }] as const,
+  mcpServer: (id: string) => ["mcpServers", "detail", id] as const,
+  mcpServerVersions: (id: string) => ["mcpServers", "versions", id] as const,
+  knowledgeStores: (params: { workspaceId?: string | null; nodeId?: string | null } = {}) =>
+    [
+      "knowledgeStores",
+      "list",
+      { workspaceId: params.workspaceId ?? null, nodeId: params.nodeId ?? null },
+    ] as const,
+  knowledgeStore: (id: string) => ["knowledgeStores", "detail", id] as const,
+  knowledgeQuery: (id: string, params: KnowledgeQuery) =>
+    [
+      "knowledgeStores",
+      "query",
+      id,
+      {
+        q: params.q,
+        nodeId: params.nodeId ?? null,
+        governance: params.governance ?? null,
+        limit: params.limit ?? null,
+      },
+    ] as const,
+  proposals: (params: ProposalParams = {}) =>
+    [
+      "proposals",
+      "list",
+      {
+        nodeId: params.nodeId ?? null,
+        documentId: params.documentId ?? null,
+        serverId: params.serverId ?? null,
+        status: params.status ?? null,
+      },
+    ] as const,
+  search: (q: string) => ["search", q] as const,
+  audit: (params: AuditQuery = {}) =>
+    [
+      "audit",
+      {
+        workspaceId: params.workspaceId ?? null,
+        nodeId: params.nodeId ?? null,
+        documentId: params.documentId ?? null,
+        action: params.action ?? null,
+        mode: params.mode ?? null,
+        actor: params.actor ?? null,
+        page: params.page ?? 1,
+        pageSize: params.pageSize ?? null,
+      },
+    ] as const,
+};
+
+type ProposalParams = {
+  nodeId?: string | null;
+  documentId?: string | null;
+  serverId?: string | null;
+  status?: ProposalStatus | null;
+};
+
+// ---------- Queries ----------
+
+export function useWorkspaces() {
+  const api = useCoreApi();
+  return useQuery(queryKeys.workspaces(), () => api.workspaces.list());
+}
+
+export function useNodes(
+  workspaceId?: string | null,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.nodes(workspaceId),
+    () => api.nodes.list({ workspaceId }),
+    options
+  );
+}
+
+export function useNode(nodeId: string | undefined) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.node(nodeId ?? ""),
+    async () => {
+      try {
+        return await api.nodes.get(nodeId!);
+      } catch (err) {
+        if (!(err instanceof ApiError) || err.status !== 404) {
+          throw err;
+        }
+        // If endpoint doesn't exist, fetch all nodes and find the one we need
+        const allNodes = await api.nodes.list();
+        const foundNode = allNodes.find((n) => n.id === nodeId);
+        if (!foundNode) {
+          throw new Error("Node not found");
+        }
+        return foundNode;
+      }
+    },
+    { enabled: !!nodeId }
+  );
+}
+
+export function useDocuments(
+  nodeId?: string | null,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.documents(nodeId),
+    () => api.documents.list({ nodeId }),
+    options
+  );
+}
+
+export function useDocumentPage(
+  params: DocumentPageQuery = {},
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(queryKeys.documentPage(params), () => api.documents.page(params), options);
+}
+
+export function useDocumentSummary(limit = 5, options: { enabled?: boolean } = {}) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.documentSummary(limit),
+    () => api.documents.summary({ limit }),
+    options
+  );
+}
+
+export function useDocument(
+  documentId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.document(documentId ?? ""),
+    () => api.documents.get(documentId as string),
+    { ...options, enabled: !!documentId && options.enabled !== false }
+  );
+}
+
+export function useDocumentVersions(
+  documentId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.documentVersions(documentId ?? ""),
+    () => api.documents.versions(documentId as string),
+    { ...options, enabled: !!documentId && options.enabled !== false }
+  );
+}
+
+export function usePrograms(
+  nodeId?: string | null,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.programs(nodeId),
+    () => api.programs.list({ nodeId }),
+    options
+  );
+}
+
+export function useProgram(
+  programId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.program(programId ?? ""),
+    () => api.programs.get(programId as string),
+    { ...options, enabled: !!programId && options.enabled !== false }
+  );
+}
+
+export function useProgramVersions(
+  programId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.programVersions(programId ?? ""),
+    () => api.programs.versions(programId as string),
+    { ...options, enabled: !!programId && options.enabled !== false }
+  );
+}
+
+export function useProgramRuns(
+  programId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.programRuns(programId ?? ""),
+    () => api.programs.runs(programId as string),
+    { ...options, enabled: !!programId && options.enabled !== false }
+  );
+}
+
+export function useModules(
+  params: ModuleQuery = {},
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(queryKeys.modules(params), () => api.modules.list(params), options);
+}
+
+// The catalog is static for the lifetime of the Core API
+export function useIntegrationCatalog(options: { enabled?: boolean } = {}) {
+  const api = useCoreApi();
+  return useQuery(queryKeys.integrationCatalog(), () => api.integrations.catalog(), options);
+}
+
+export function useIntegrations(
+  nodeId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.integrations(nodeId),
+    () => api.integrations.list({ nodeId }),
+    options
+  );
+}
+
+// Templates are static for the lifetime of the Core API
+export function useMcpTemplates(options: { enabled?: boolean } = {}) {
+  const api = useCoreApi();
+  return useQuery(queryKeys.mcpTemplates(), () => api.mcp.templates(), options);
+}
+
+export function useMcpServers(
+  nodeId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.mcpServers(nodeId),
+    () => api.mcpServers.list({ nodeId }),
+    options
+  );
+}
+
+export function useMcpServer(
+  serverId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.mcpServer(serverId ?? ""),
+    () => api.mcpServers.get(serverId as string),
+    { ...options, enabled: !!serverId && options.enabled !== false }
+  );
+}
+
+export function useKnowledgeStores(
+  params: { workspaceId?: string | null; nodeId?: string | null } = {},
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.knowledgeStores(params),
+    () => api.knowledgeStores.list(params),
+    options
+  );
+}
+
+export function useKnowledgeStore(
+  storeId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.knowledgeStore(storeId ?? ""),
+    () => api.knowledgeStores.get(storeId as string),
+    { ...options, enabled: !!storeId && options.enabled !== false }
+  );
+}
+
+// Ranked chunks for a playground query; disabled until there is a query to run
+export function useKnowledgeQuery(
+  storeId: string | null | undefined,
+  params: KnowledgeQuery,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.knowledgeQuery(storeId ?? "", params),
+    () => api.knowledgeStores.query(storeId as string, params),
+    { ...options, enabled: !!storeId && !!params.q.trim() && options.enabled !== false }
+  );
+}
+
+export function useMcpServerVersions(
+  serverId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.mcpServerVersions(serverId ?? ""),
+    () => api.mcpServers.versions(serverId as string),
+    { ...options, enabled: !!serverId && options.enabled !== false }
+  );
+}
+
+export function useProposals(
+  params: ProposalParams = {},
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.proposals(params),
+    () => api.proposals.list(params),
+    options
+  );
+}
+
+// Global search; disabled until the query has a word to match
+export function useSearch(q: string, options: { enabled?: boolean } = {}) {
+  const api = useCoreApi();
+  const query = q.trim();
+  return useQuery(queryKeys.search(query), () => api.search({ q: query }), {
+    ...options,
+    enabled: /[\p{L}\p{N}]/u.test(query) && options.enabled !== false,
+  });
+}
+
+export function useAuditLog(params: AuditQuery = {}, options: { enabled?: boolean } = {}) {
+  const api = useCoreApi();
+  return useQuery(queryKeys.audit(params), () => api.audit.list(params), options);
+}
+
+// ---------- Mutations ----------
+// Each mutation passes the governance policy before calling the Core API, then
+// invalidates the keys whose data (including `_count`) it changes. The Core API
+// records an audit event for every write, so `["audit"]` is always invalidated.
+
+export function useCreateWorkspace() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateWorkspaceInput) => {
+      assertApplyNow("workspace.create");
+      const workspace = await api.workspaces.create(input);
+      await Promise.all([cache.invalidate(["workspaces"]), cache.invalidate(["audit"])]);
+      return workspace;
+    },
+    [api, cache]
+  );
+}
+
+export function useCreateNode() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateNodeInput) => {
+      assertApplyNow("node.create");
+      const node = await api.nodes.create(input);
+      await Promise.all([
+        cache.invalidate(["nodes"]),
+        cache.invalidate(["workspaces"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return node;
+    },
+    [api, cache]
+  );
+}
+
+export function useDocumentRag(
+  documentId: string | null | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  const api = useCoreApi();
+  return useQuery(
+    queryKeys.documentRag(documentId ?? ""),
+    () => api.documents.rag(documentId as string),
+    { ...options, enabled: !!documentId && options.enabled !== false }
+  );
+}
+
+export function useCreateDocument() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateDocumentInput) => {
+      assertApplyNow("document.create");
+      const document = await api.documents.create(input);
+      await Promise.all([
+        cache.invalidate(["documents"]),
+        cache.invalidate(queryKeys.node(input.nodeId)),
+        cache.invalidate(["nodes", "list"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return document;
+    },
+    [api, cache]
+  );
+}
+
+// Marks a document RAG-ready by (re)indexing its current text; never edits it
+export function useRefreshRag() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (current: Document) => {
+      assertApplyNow("rag.refresh");
+      const document = await api.documents.refreshRag(current.id, {
+        version: current.metadata?.version ?? "",
+      });
+      cache.setQueryData(queryKeys.document(current.id), document);
+      await Promise.all([
+        cache.invalidate(["documents", "list"]),
+        cache.invalidate(["documents", "page"]),
+        cache.invalidate(["documents", "summary"]),
+        cache.invalidate(queryKeys.documentRag(current.id)),
+        cache.invalidate(["audit"]),
+      ]);
+      return document;
+    },
+    [api, cache]
+  );
+}
+
+export function useCreateProgram() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateProgramInput) => {
+      assertApplyNow("program.create");
+      const program = await api.programs.create(input);
+      await Promise.all([
+        cache.invalidate(["programs", "list"]),
+        cache.invalidate(queryKeys.node(input.nodeId)),
+        cache.invalidate(["nodes", "list"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return program;
+    },
+    [api, cache]
+  );
+}
+
+export function useUpdateProgram() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (current: Program, input: UpdateProgramInput) => {
+      assertApplyNow("program.edit");
+      const program = await api.programs.update(current.id, input);
+      cache.setQueryData(queryKeys.program(current.id), program);
+      await Promise.all([
+        cache.invalidate(["programs", "list"]),
+        cache.invalidate(queryKeys.programVersions(current.id)),
+        cache.invalidate(["audit"]),
+      ]);
+      return program;
+    },
+    [api, cache]
+  );
+}
+
+// Programs list the names and kinds of the modules they use, so they are refreshed too
+export function useUpdateModule() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (current: Module, input: UpdateModuleInput) => {
+      assertApplyNow("module.edit");
+      const module = await api.modules.update(current.id, input);
+      await Promise.all([
+        cache.invalidate(["modules"]),
+        cache.invalidate(["programs", "list"]),
+        cache.invalidate(["programs", "detail"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return module;
+    },
+    [api, cache]
+  );
+}
+
+export function useStartRun() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (programId: string) => {
+      assertApplyNow("program.run");
+      const run = await api.programs.run(programId);
+      await Promise.all([
+        cache.invalidate(queryKeys.programRuns(programId)),
+        cache.invalidate(["audit"]),
+      ]);
+      return run;
+    },
+    [api, cache]
+  );
+}
+
+export function useCancelRun() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (run: ProgramRun) => {
+      assertApplyNow("program.cancel");
+      const cancelled = await api.runs.cancel(run.id);
+      await Promise.all([
+        cache.invalidate(queryKeys.programRuns(run.programId)),
+        cache.invalidate(["audit"]),
+      ]);
+      return cancelled;
+    },
+    [api, cache]
+  );
+}
+
+export function useCreateIntegration() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateIntegrationInput) => {
+      assertApplyNow("integration.create");
+      const integration = await api.integrations.create(input);
+      await Promise.all([
+        cache.invalidate(["integrations", "list"]),
+        cache.invalidate(queryKeys.node(input.nodeId)),
+        cache.invalidate(["nodes", "list"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return integration;
+    },
+    [api, cache]
+  );
+}
+
+export function useUpdateIntegration() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (current: Integration, input: UpdateIntegrationInput) => {
+      assertApplyNow("integration.edit");
+      const integration = await api.integrations.update(current.id, input);
+      await Promise.all([
+        cache.invalidate(["integrations", "list"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return integration;
+    },
+    [api, cache]
+  );
+}
+
+// A connection test only refreshes `health`, which is telemetry rather than a
+// governed change, so it skips the policy check and writes no audit event
+export function useTestIntegration() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (integration: Integration) => {
+      const tested = await api.integrations.test(integration.id);
+      await cache.invalidate(["integrations", "list"]);
+      return tested;
+    },
+    [api, cache]
+  );
+}
+
+export function useCreateMcpServer() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateMcpServerInput) => {
+      assertApplyNow("mcp.createFromTemplate");
+      const server = await api.mcpServers.create(input);
+      await Promise.all([cache.invalidate(["mcpServers", "list"]), cache.invalidate(["audit"])]);
+      return server;
+    },
+    [api, cache]
+  );
+}
+
+// Edits that add tools are refused with 403; submit them with useCreateCapabilityProposal
+export function useUpdateMcpServer() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (current: McpServer, input: UpdateMcpServerInput) => {
+      assertApplyNow("mcp.edit");
+      const server = await api.mcpServers.update(current.id, input);
+      await Promise.all([cache.invalidate(["mcpServers"]), cache.invalidate(["audit"])]);
+      return server;
+    },
+    [api, cache]
+  );
+}
+
+export function useCreateKnowledgeStore() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateKnowledgeStoreInput) => {
+      assertApplyNow("knowledge.create");
+      const store = await api.knowledgeStores.create(input);
+      await Promise.all([
+        cache.invalidate(["knowledgeStores", "list"]),
+        cache.invalidate(["audit"]),
+      ]);
+      return store;
+    },
+    [api, cache]
+  );
+}
+
+export function useAddKnowledgeMember() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (storeId: string, input: AddKnowledgeMemberInput) => {
+      assertApplyNow("knowledge.edit");
+      const store = await api.knowledgeStores.addMember(storeId, input);
+      cache.setQueryData(queryKeys.knowledgeStore(storeId), store);
+      await Promise.all([
+        cache.invalidate(["knowledgeStores", "list"]),
+        cache.invalidate(["knowledgeStores", "query", storeId]),
+        cache.invalidate(["audit"]),
+      ]);
+      return store;
+    },
+    [api, cache]
+  );
+}
+
+export function useRemoveKnowledgeMember() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (storeId: string, memberId: string) => {
+      assertApplyNow("knowledge.edit");
+      const store = await api.knowledgeStores.removeMember(storeId, memberId);
+      cache.setQueryData(queryKeys.knowledgeStore(storeId), store);
+      await Promise.all([
+        cache.invalidate(["knowledgeStores", "list"]),
+        cache.invalidate(["knowledgeStores", "query", storeId]),
+        cache.invalidate(["audit"]),
+      ]);
+      return store;
+    },
+    [api, cache]
+  );
+}
+
+export function useRebuildKnowledgeStore() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (storeId: string) => {
+      assertApplyNow("knowledge.rebuild");
+      const store = await api.knowledgeStores.rebuild(storeId);
+      cache.setQueryData(queryKeys.knowledgeStore(storeId), store);
+      await Promise.all([
+        cache.invalidate(["knowledgeStores", "list"]),
+        cache.invalidate(["knowledgeStores", "query", storeId]),
+        cache.invalidate(["audit"]),
+      ]);
+      return store;
+    },
+    [api, cache]
+  );
+}
+
+export function useCreateProposal() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateProposalInput) => {
+      const proposal = await api.proposals.create(input);
+      await Promise.all([cache.invalidate(["proposals"]), cache.invalidate(["audit"])]);
+      return proposal;
+    },
+    [api, cache]
+  );
+}
+
+// Renames and deletes never apply directly; they wait as proposals until approved
+export function useCreateStructuralProposal() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateStructuralProposalInput) => {
+      const proposal = await api.proposals.createStructural(input);
+      await Promise.all([cache.invalidate(["proposals"]), cache.invalidate(["audit"])]);
+      return proposal;
+    },
+    [api, cache]
+  );
+}
+
+// New MCP tools wait as a proposal until approved
+export function useCreateCapabilityProposal() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (input: CreateCapabilityProposalInput) => {
+      const proposal = await api.proposals.createCapability(input);
+      await Promise.all([cache.invalidate(["proposals"]), cache.invalidate(["audit"])]);
+      return proposal;
+    },
+    [api, cache]
+  );
+}
+
+export function useDecideProposal() {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  return useCallback(
+    async (id: string, decision: "approve" | "reject", input: ProposalDecisionInput) => {
+      const proposal =
+        decision === "approve"
+          ? await api.proposals.approve(id, input)
+          : await api.proposals.reject(id, input);
+      // Approval writes the document or MCP server, renames / deletes a
+      // workspace or node (and everything under it, modules and integrations
+      // included), or deletes a program or integration, so those go stale too;
+      // knowledge stores report their documents' index status
+      const applied =
+        decision !== "approve"
+          ? []
+          : proposal.kind === "structure"
+            ? [
+                ["workspaces"],
+                ["nodes"],
+                ["documents"],
+                ["programs"],
+                ["modules"],
+                ["integrations", "list"],
+                ["mcpServers"],
+                ["knowledgeStores"],
+              ]
+            : proposal.kind === "capability"
+              ? [["mcpServers"]]
+              : [["documents"], ["knowledgeStores"]];
+      await Promise.all([
+        cache.invalidate(["proposals"]),
+        cache.invalidate(["audit"]),
+        ...applied.map((key) => cache.invalidate(key)),
+      ]);
+      return proposal;
+    },
+    [api, cache]
+  );
+}
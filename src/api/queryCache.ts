@@ -0,0 +1,183 @@
+// Client-side query cache shared by every surface.
+// Entries are keyed by resource + params (e.g. ["documents", "list", { nodeId }]).
+// In-flight requests are de-duplicated, cached data is served immediately and
+// stale entries are revalidated in the background.
+
+export type QueryKey = readonly unknown[];
+
+export type QueryState<T = unknown> = {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+};
+
+type Entry = {
+  key: QueryKey;
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+  stale: boolean;
+};
+
+type FetchOptions = {
+  force?: boolean;
+  staleTime?: number;
+};
+
+export const DEFAULT_STALE_TIME = 5_000;
+
+export const IDLE_QUERY_STATE: QueryState = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+};
+
+/**
+ * Stable string form of a key. Object params are sorted and undefined values
+ * dropped so `{ nodeId: undefined }` and `{}` share an entry.
+ */
+export const hashKey = (key: QueryKey): string =>
+  JSON.stringify(key, (_, value) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, k) => {
+          if (value[k] !== undefined) acc[k] = value[k];
+          return acc;
+        }, {});
+    }
+    return value;
+  });
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length &&
+  prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+export function createQueryCache() {
+  const entries = new Map<string, Entry>();
+
+  const getEntry = (key: QueryKey): Entry => {
+    const hash = hashKey(key);
+    let entry = entries.get(hash);
+    if (!entry) {
+      entry = {
+        key,
+        state: IDLE_QUERY_STATE,
+        promise: null,
+        fetcher: null,
+        listeners: new Set(),
+        stale: false,
+      };
+      entries.set(hash, entry);
+    }
+    return entry;
+  };
+
+  const setState = (entry: Entry, patch: Partial<QueryState>) => {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const fetchQuery = <T>(
+    key: QueryKey,
+    fetcher: () => Promise<T>,
+    { force = false, staleTime = DEFAULT_STALE_TIME }: FetchOptions = {}
+  ): Promise<T> => {
+    const entry = getEntry(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise && !force) {
+      return entry.promise as Promise<T>;
+    }
+
+    const isFresh =
+      !entry.stale &&
+      entry.state.updatedAt > 0 &&
+      Date.now() - entry.state.updatedAt < staleTime;
+    if (!force && isFresh) {
+      return Promise.resolve(entry.state.data as T);
+    }
+
+    // A forced fetch supersedes any in-flight request; only the latest one may write.
+    const promise: Promise<T> = fetcher().then(
+      (data) => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          entry.stale = false;
+          setState(entry, {
+            data,
+            error: null,
+            updatedAt: Date.now(),
+            isFetching: false,
+          });
+        }
+        return data;
+      },
+      (error) => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          setState(entry, { error, isFetching: false });
+        }
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    setState(entry, { isFetching: true });
+    return promise;
+  };
+
+  /**
+   * Marks every entry under `prefix` stale and refetches the ones a surface
+   * is currently showing. Inactive entries refetch on their next mount.
+   */
+  const invalidate = async (prefix: QueryKey): Promise<void> => {
+    const refetches: Promise<unknown>[] = [];
+    entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      entry.stale = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        refetches.push(
+          fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => undefined)
+        );
+      }
+    });
+    await Promise.all(refetches);
+  };
+
+  const revalidateActive = () => {
+    entries.forEach((entry) => {
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        fetchQuery(entry.key, entry.fetcher).catch(() => undefined);
+      }
+    });
+  };
+
+  const subscribe = (key: QueryKey, listener: () => void) => {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  };
+
+  const getState = <T>(key: QueryKey): QueryState<T> =>
+    getEntry(key).state as QueryState<T>;
+
+  const setQueryData = <T>(key: QueryKey, data: T) => {
+    setState(getEntry(key), { data, error: null, updatedAt: Date.now() });
+  };
+
+  return {
+    fetchQuery,
+    invalidate,
+    revalidateActive,
+    subscribe,
+    getState,
+    setQueryData,
+  };
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
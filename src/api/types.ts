@@ -0,0 +1,747 @@
+// Shared shapes returned by Continuum Core (continuum-core).
+// Keep these in sync with the Prisma models exposed by the Core API.
+
+export type Tenant = {
+  id: string;
+  name: string;
+};
+
+export type Workspace = {
+  id: string;
+  tenantId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  tenant: Tenant;
+  _count: {
+    nodes: number;
+  };
+};
+
+export type Node = {
+  id: string;
+  name: string;
+  workspaceId: string;
+  createdAt: string;
+  updatedAt: string;
+  workspace: {
+    id: string;
+    name: string;
+    tenant?: Tenant;
+  };
+  _count: {
+    programs: number;
+    modules: number;
+    documents: number;
+    integrations: number;
+  };
+};
+
+export type DocumentMetadata = {
+  version: string;
+  nodeId: string;
+  nodeName: string;
+  createdAt: string;
+};
+
+// The last retrieval index build; `version` is the document version it was built from
+export type RagIndex = {
+  version: string;
+  indexedAt: string;
+  chunkCount: number;
+};
+
+export type Document = {
+  id: string;
+  title: string;
+  type: string;
+  source: string;
+  updatedAt: string;
+  ragReady?: boolean;
+  ragIndex?: RagIndex | null;
+  isGovernance?: boolean;
+  content?: string;
+  metadata?: DocumentMetadata;
+};
+
+export type DocumentSort = "title" | "updatedAt" | "createdAt";
+
+// Filters and sort for one page of the documents table; unset filters match everything
+export type DocumentPageQuery = {
+  nodeId?: string | null;
+  governance?: boolean | null;
+  ragReady?: boolean | null;
+  type?: string | null;
+  sort?: DocumentSort;
+  order?: "asc" | "desc";
+  page?: number;
+  pageSize?: number;
+};
+
+// Counts plus the latest edits, for views that don't need every document.
+// `recent` documents come without their content.
+export type DocumentSummary = {
+  total: number;
+  governance: number;
+  ragReady: number;
+  types: string[];
+  recent: Document[];
+};
+
+export type RagChunk = {
+  index: number;
+  // Heading trail above the chunk, outermost first; embedded with the text
+  headings: string[];
+  startLine: number;
+  endLine: number;
+  text: string;
+  tokens: number;
+};
+
+export type RagIssue = {
+  code: "MISSING_TITLE" | "EMPTY_CONTENT" | "OVERSIZED_SECTION" | "NO_HEADINGS";
+  // Errors block indexing; warnings don't
+  severity: "error" | "warning";
+  message: string;
+  line?: number;
+};
+
+export type RagReadiness = {
+  documentId: string;
+  version: string;
+  // Indexed from the current version
+  ready: boolean;
+  index: RagIndex | null;
+  chunks: RagChunk[];
+  totalTokens: number;
+  issues: RagIssue[];
+  limits: { chunkTokens: number; sectionTokens: number };
+};
+
+// ---------- Inputs ----------
+
+export type CreateWorkspaceInput = {
+  tenantId: string;
+  name: string;
+};
+
+export type CreateNodeInput = {
+  workspaceId: string;
+  name: string;
+};
+
+export type CreateDocumentInput = {
+  nodeId: string;
+  title: string;
+  content: string | null;
+  isGovernance: boolean;
+};
+
+export type DocumentVersion = {
+  documentId: string;
+  version: string;
+  title: string;
+  content: string;
+  isGovernance: boolean;
+  author: string;
+  createdAt: string;
+  // Set when this version re-applied an earlier one
+  restoredFrom: string | null;
+  // Set when this version was applied by approving a change proposal
+  proposalId: string | null;
+};
+
+// ---------- Programs ----------
+
+export type ProgramType =
+  | "workflow"
+  | "automation"
+  | "agent"
+  | "generator"
+  | "build-plan"
+  | "runbook";
+
+export type ProgramStatus = "draft" | "active" | "paused" | "archived";
+
+export type ProgramStep = {
+  id: string;
+  name: string;
+  // Module the step runs, if any
+  moduleId: string | null;
+  instructions: string;
+};
+
+// The editable part of a program; versions snapshot exactly this
+export type ProgramDefinition = {
+  name: string;
+  type: ProgramType;
+  status: ProgramStatus;
+  description: string;
+  steps: ProgramStep[];
+};
+
+export type Program = ProgramDefinition & {
+  id: string;
+  nodeId: string;
+  version: string;
+  createdAt: string;
+  updatedAt: string;
+  node: { id: string; name: string; workspaceId: string } | null;
+  // Distinct modules referenced by the steps, in step order
+  modules: { id: string; name: string; kind: ModuleKind | null }[];
+};
+
+export type ProgramVersion = ProgramDefinition & {
+  programId: string;
+  version: string;
+  author: string;
+  createdAt: string;
+  restoredFrom: string | null;
+};
+
+export type CreateProgramInput = Omit<ProgramDefinition, "status"> & {
+  nodeId: string;
+  status?: ProgramStatus;
+};
+
+export type UpdateProgramInput = Partial<ProgramDefinition> & {
+  // Program `version` the edit was based on; the server rejects stale versions with 409
+  version: string;
+  restoredFrom?: string;
+};
+
+// ---------- Program runs ----------
+
+export type RunStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type RunStepStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+export type RunStep = {
+  id: string;
+  name: string;
+  moduleId: string | null;
+  status: RunStepStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type RunArtifact = {
+  id: string;
+  name: string;
+  kind: "log" | "document" | "report";
+  bytes: number;
+};
+
+export type ProgramRun = {
+  id: string;
+  programId: string;
+  nodeId: string;
+  // Per-program sequence number, shown as "Run #n"
+  number: number;
+  // Program version the run executed
+  programVersion: string;
+  status: RunStatus;
+  actor: string;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Snapshot of the program's steps when the run started
+  steps: RunStep[];
+  artifacts: RunArtifact[];
+  error: string | null;
+  logCount: number;
+};
+
+export type RunLogLine = {
+  // 1-based, increasing; resume streams and polling with `after`
+  seq: number;
+  at: string;
+  stepId: string | null;
+  level: "info" | "warn" | "error";
+  message: string;
+};
+
+export type RunLogPage = {
+  run: ProgramRun;
+  items: RunLogLine[];
+};
+
+// ---------- Modules ----------
+
+export type ModuleKind = "template" | "prompt" | "schema" | "validation" | "connector";
+
+export type Module = {
+  id: string;
+  nodeId: string;
+  name: string;
+  kind: ModuleKind;
+  description: string;
+  content: string;
+  version: string;
+  createdAt: string;
+  updatedAt: string;
+  node: { id: string; name: string; workspaceId: string } | null;
+  // Programs with a step that uses this module
+  usedBy: ModuleUsage[];
+};
+
+export type ModuleQuery = {
+  workspaceId?: string | null;
+  nodeId?: string | null;
+  kind?: ModuleKind | null;
+};
+
+export type ModuleUsage = {
+  id: string;
+  name: string;
+  nodeId: string;
+  status: ProgramStatus;
+};
+
+export type UpdateModuleInput = {
+  name?: string;
+  kind?: ModuleKind;
+  description?: string;
+  content?: string;
+  // Module `version` the edit was based on; the server rejects stale versions with 409
+  version: string;
+};
+
+// ---------- Integrations ----------
+
+export type IntegrationKind =
+  | "github"
+  | "slite"
+  | "google-drive"
+  | "slack"
+  | "n8n"
+  | "railway"
+  | "http";
+
+export type IntegrationField = {
+  key: string;
+  label: string;
+  // "secret" values are write-only: sent on save, never returned
+  type: "text" | "url" | "select" | "secret";
+  required: boolean;
+  help?: string;
+  placeholder?: string;
+  options?: string[];
+};
+
+// One entry of `GET /api/integrations/catalog`
+export type IntegrationKindInfo = {
+  kind: IntegrationKind;
+  label: string;
+  description: string;
+  fields: IntegrationField[];
+};
+
+export type IntegrationHealthStatus = "unknown" | "healthy" | "degraded" | "failing";
+
+export type IntegrationHealth = {
+  status: IntegrationHealthStatus;
+  message: string | null;
+  latencyMs: number | null;
+  checkedAt: string | null;
+};
+
+export type Integration = {
+  id: string;
+  nodeId: string;
+  kind: IntegrationKind;
+  name: string;
+  // Non-secret config values, keyed by field
+  config: Record<string, string>;
+  // Keys of the secret fields that have a stored value
+  secretsSet: string[];
+  health: IntegrationHealth;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateIntegrationInput = {
+  nodeId: string;
+  kind: IntegrationKind;
+  name: string;
+  config: Record<string, string>;
+  secrets: Record<string, string>;
+};
+
+// Secrets left out (or empty) keep their stored value
+export type UpdateIntegrationInput = {
+  name?: string;
+  config?: Record<string, string>;
+  secrets?: Record<string, string>;
+};
+
+// ---------- MCP servers ----------
+
+// A JSON Schema fragment; tool input schemas are objects at the root
+export type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+};
+
+export type McpTool = {
+  // Lowercase letters, digits and underscores, starting with a letter
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+};
+
+// One entry of `GET /api/mcp/templates`; templates are pre-approved tool sets
+export type McpTemplate = {
+  id: string;
+  label: string;
+  description: string;
+  tools: McpTool[];
+};
+
+export type McpServer = {
+  id: string;
+  nodeId: string;
+  templateId: string;
+  name: string;
+  description: string;
+  tools: McpTool[];
+  version: string;
+  createdAt: string;
+  updatedAt: string;
+  node: { id: string; name: string; workspaceId: string } | null;
+};
+
+export type McpServerSnapshot = {
+  name: string;
+  description: string;
+  tools: McpTool[];
+};
+
+export type McpServerVersion = McpServerSnapshot & {
+  serverId: string;
+  version: string;
+  author: string;
+  createdAt: string;
+  // Capability proposal this version was applied from, if any
+  proposalId: string | null;
+};
+
+export type CreateMcpServerInput = {
+  nodeId: string;
+  templateId: string;
+  name: string;
+  description?: string;
+};
+
+// Must not add tools: the server answers 403 GOVERNED_CHANGE_REQUIRED with `addedTools`
+export type UpdateMcpServerInput = {
+  name?: string;
+  description?: string;
+  tools?: McpTool[];
+  // Server `version` the edit was based on; the server rejects stale versions with 409
+  version: string;
+};
+
+// ---------- Knowledge stores ----------
+
+export type KnowledgeStorePurpose = "rag" | "validation" | "governance";
+
+// `stale`: the document changed since it was indexed; `failed`: the last rebuild couldn't index it
+export type KnowledgeMemberStatus = "indexed" | "pending" | "stale" | "failed";
+
+type KnowledgeMemberBase = {
+  id: string;
+  label: string;
+  addedBy: string;
+  addedAt: string;
+  status: KnowledgeMemberStatus;
+  // Set by the last rebuild that reached this member
+  lastRefreshedAt: string | null;
+  chunkCount: number | null;
+  error: string | null;
+};
+
+export type KnowledgeDocumentMember = KnowledgeMemberBase & {
+  kind: "document";
+  documentId: string;
+  nodeId: string | null;
+  documentVersion: string | null;
+  indexedVersion: string | null;
+};
+
+export type KnowledgeSourceMember = KnowledgeMemberBase & {
+  kind: "source";
+  uri: string;
+};
+
+export type KnowledgeStoreMember = KnowledgeDocumentMember | KnowledgeSourceMember;
+
+export type KnowledgeStore = {
+  id: string;
+  workspaceId: string;
+  // Null for a store that spans the whole workspace
+  nodeId: string | null;
+  name: string;
+  description: string;
+  purpose: KnowledgeStorePurpose;
+  members: KnowledgeStoreMember[];
+  lastRebuildAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  scope: {
+    type: "workspace" | "node";
+    workspaceId: string;
+    workspaceName: string;
+    nodeId: string | null;
+    nodeName: string | null;
+  };
+  counts: Record<KnowledgeMemberStatus, number>;
+};
+
+export type CreateKnowledgeStoreInput = {
+  workspaceId: string;
+  nodeId?: string | null;
+  name: string;
+  description?: string;
+  purpose: KnowledgeStorePurpose;
+};
+
+export type AddKnowledgeMemberInput =
+  | { kind: "document"; documentId: string }
+  | { kind: "source"; label: string; uri: string };
+
+export type KnowledgeQuery = {
+  q: string;
+  nodeId?: string | null;
+  // Keep only governance documents, or leave them out
+  governance?: "only" | "exclude" | null;
+  limit?: number;
+};
+
+export type RetrievalHit = {
+  memberId: string;
+  documentId: string;
+  title: string;
+  nodeId: string;
+  nodeName: string;
+  isGovernance: boolean;
+  // The document changed since the store was rebuilt; the hit reflects the current text
+  stale: boolean;
+  chunk: RagChunk;
+  // Lexical (BM25) relevance; only comparable within one query
+  score: number;
+  matchedTerms: string[];
+};
+
+export type RetrievalResult = {
+  storeId: string;
+  query: string;
+  terms: string[];
+  results: RetrievalHit[];
+  searched: { documents: number; chunks: number };
+  // Members the query couldn't reach, with why
+  skipped: { memberId: string; label: string; reason: string }[];
+};
+
+// ---------- Search ----------
+
+export type SearchHitType = "workspace" | "node" | "document";
+
+export type SearchHit = {
+  type: SearchHitType;
+  id: string;
+  title: string;
+  // Where the hit lives: "Workspace" for workspaces, the workspace for nodes,
+  // "Workspace / Node" for documents
+  context: string;
+  // Document hits: the best matching line of content and its line number
+  snippet: string | null;
+  line: number | null;
+  nodeId: string | null;
+  isGovernance?: boolean;
+};
+
+export type SearchGroup = {
+  // Every match, including those cut by the per-group limit
+  total: number;
+  hits: SearchHit[];
+};
+
+export type SearchResults = {
+  query: string;
+  terms: string[];
+  workspaces: SearchGroup;
+  nodes: SearchGroup;
+  documents: SearchGroup;
+};
+
+// ---------- Governed changes ----------
+
+export type ProposalStatus = "pending" | "approved" | "rejected";
+
+export type DocumentSnapshot = {
+  title: string;
+  content: string;
+  isGovernance: boolean;
+};
+
+type ProposalBase = {
+  id: string;
+  // Node the proposal belongs to; empty for workspace-level proposals
+  nodeId: string;
+  nodeName: string;
+  status: ProposalStatus;
+  author: string;
+  rationale: string;
+  createdAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  decisionNote: string | null;
+};
+
+export type DocumentChangeProposal = ProposalBase & {
+  kind: "document";
+  documentId: string;
+  documentTitle: string;
+  // Document version the proposal was drafted against
+  baseVersion: string;
+  // Document as it was when proposed, and the requested change
+  current: DocumentSnapshot;
+  proposed: DocumentSnapshot;
+  restoredFrom: string | null;
+  // Version written when the proposal was approved
+  appliedVersion: string | null;
+};
+
+export type StructuralOperation = "rename" | "delete";
+
+export type StructuralTargetType = "workspace" | "node" | "program" | "integration";
+
+// What a rename or delete reaches; `nodes` is 0 below workspace level, a program
+// counts itself and an integration reaches nothing else
+export type StructuralImpact = {
+  nodes: number;
+  documents: number;
+  programs: number;
+};
+
+export type StructuralChangeProposal = ProposalBase & {
+  kind: "structure";
+  operation: StructuralOperation;
+  // `name` is the name when proposed; approval fails if it has changed since
+  target: { type: StructuralTargetType; id: string; name: string };
+  workspaceId: string;
+  workspaceName: string;
+  proposedName: string | null;
+  impact: StructuralImpact;
+};
+
+// New tools on an MCP server; removing or editing tools applies directly
+export type CapabilityChangeProposal = ProposalBase & {
+  kind: "capability";
+  serverId: string;
+  serverName: string;
+  workspaceId: string;
+  // Server version the proposal was drafted against
+  baseVersion: string;
+  current: McpServerSnapshot;
+  proposed: McpServerSnapshot;
+  // Names of the tools in `proposed` that `current` doesn't have
+  addedTools: string[];
+  appliedVersion: string | null;
+};
+
+export type ChangeProposal =
+  | DocumentChangeProposal
+  | StructuralChangeProposal
+  | CapabilityChangeProposal;
+
+export type CreateProposalInput = {
+  documentId: string;
+  baseVersion: string;
+  author: string;
+  rationale: string;
+  proposed: DocumentSnapshot;
+  restoredFrom?: string;
+};
+
+export type CreateStructuralProposalInput = {
+  operation: StructuralOperation;
+  targetType: StructuralTargetType;
+  targetId: string;
+  // Required for a rename
+  proposedName?: string;
+  author: string;
+  rationale: string;
+};
+
+export type CreateCapabilityProposalInput = {
+  serverId: string;
+  baseVersion: string;
+  proposed: McpServerSnapshot;
+  author: string;
+  rationale: string;
+};
+
+export type ProposalDecisionInput = {
+  reviewer: string;
+  note?: string;
+};
+
+// ---------- Audit log ----------
+
+export type AuditMode = "automatic" | "governed";
+
+export type AuditTargetType =
+  | "workspace"
+  | "node"
+  | "document"
+  | "program"
+  | "module"
+  | "integration"
+  | "mcpServer"
+  | "knowledgeStore";
+
+export type AuditChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type AuditEvent = {
+  id: string;
+  at: string;
+  actor: string;
+  // e.g. "node.create", "document.edit", "proposal.approve"
+  action: string;
+  mode: AuditMode;
+  target: { type: AuditTargetType; id: string; name: string };
+  workspaceId: string | null;
+  nodeId: string | null;
+  documentId: string | null;
+  summary: string;
+  changes: AuditChange[];
+};
+
+export type AuditQuery = {
+  workspaceId?: string | null;
+  nodeId?: string | null;
+  documentId?: string | null;
+  action?: string | null;
+  mode?: AuditMode | null;
+  actor?: string | null;
+  page?: number;
+  pageSize?: number;
+};
+
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
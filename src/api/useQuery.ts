@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { hashKey, IDLE_QUERY_STATE, QueryKey, QueryState } from "./queryCache";
+
+type UseQueryOptions = {
+  enabled?: boolean;
+  staleTime?: number;
+};
+
+export type UseQueryResult<T> = {
+  data: T | undefined;
+  error: string | null;
+  isLoading: boolean;
+  isFetching: boolean;
+  refetch: () => Promise<T | undefined>;
+};
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Subscribes a component to a cache entry and fetches it on mount.
+ * Cached data is returned immediately while a stale entry revalidates.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const cache = useQueryCache();
+  const hash = hashKey(key);
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      enabled ? cache.subscribe(key, listener) : noopUnsubscribe,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, hash, enabled]
+  );
+
+  const getSnapshot = useCallback(
+    () => (enabled ? cache.getState<T>(key) : (IDLE_QUERY_STATE as QueryState<T>)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, hash, enabled]
+  );
+
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    cache
+      .fetchQuery(key, () => fetcherRef.current(), { staleTime })
+      .catch(() => undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cache, hash, enabled, staleTime]);
+
+  const refetch = useCallback(async () => {
+    if (!enabled) return undefined;
+    return cache.fetchQuery(key, () => fetcherRef.current(), { force: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cache, hash, enabled]);
+
+  const error = state.error
+    ? (state.error as { message?: string })?.message ?? "Request failed"
+    : null;
+
+  return {
+    data: state.data,
+    error,
+    isLoading: enabled && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
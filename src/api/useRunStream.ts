@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useCoreApi } from "../context/CoreApiContext";
+import { useQueryCache } from "../context/QueryCacheContext";
+import { queryKeys } from "./queries";
+import type { ProgramRun, RunLogLine, RunLogPage, RunStatus } from "./types";
+
+export type RunTransport = "stream" | "polling";
+
+export type RunStreamState = {
+  run: ProgramRun | null;
+  logs: RunLogLine[];
+  // How updates are arriving; null until the first response
+  transport: RunTransport | null;
+  error: string | null;
+};
+
+const POLL_INTERVAL = 1000;
+
+const FINISHED_STATUSES: RunStatus[] = ["succeeded", "failed", "cancelled"];
+
+export const isRunFinished = (status: RunStatus) => FINISHED_STATUSES.includes(status);
+
+const INITIAL_STATE: RunStreamState = { run: null, logs: [], transport: null, error: null };
+
+/**
+ * Follows one program run: its status, steps and log lines. Listens on the
+ * Core API event stream and falls back to polling `/logs` when EventSource is
+ * unavailable or the stream drops; either way lines are resumed by `seq`, so
+ * none are repeated or lost. The run history is refreshed once the run ends.
+ */
+export function useRunStream(runId: string | null): RunStreamState {
+  const api = useCoreApi();
+  const cache = useQueryCache();
+  const [state, setState] = useState<RunStreamState>(INITIAL_STATE);
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    if (!runId) return;
+
+    let active = true;
+    let after = 0;
+    let finished = false;
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const applyLogs = (items: RunLogLine[]) => {
+      const fresh = items.filter((line) => line.seq > after);
+      if (fresh.length === 0) return;
+      after = fresh[fresh.length - 1].seq;
+      setState((prev) => ({ ...prev, logs: [...prev.logs, ...fresh] }));
+    };
+
+    const applyRun = (run: ProgramRun) => {
+      setState((prev) => ({ ...prev, run, error: null }));
+      if (!finished && isRunFinished(run.status)) {
+        finished = true;
+        cache.invalidate(queryKeys.programRuns(run.programId));
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const page = await api.runs.logs(runId, after);
+        if (!active) return;
+        applyLogs(page.items);
+        applyRun(page.run);
+        if (!finished) timer = setTimeout(poll, POLL_INTERVAL);
+      } catch (err: any) {
+        if (!active) return;
+        setState((prev) => ({ ...prev, error: err?.message ?? "Failed to load run" }));
+        timer = setTimeout(poll, POLL_INTERVAL * 3);
+      }
+    };
+
+    const startPolling = () => {
+      setState((prev) => ({ ...prev, transport: "polling" }));
+      poll();
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      source = new EventSource(api.runs.eventsUrl(runId, after));
+      setState((prev) => ({ ...prev, transport: "stream" }));
+
+      source.addEventListener("snapshot", (event) => {
+        const page: RunLogPage = JSON.parse((event as MessageEvent).data);
+        applyLogs(page.items);
+        applyRun(page.run);
+      });
+      source.addEventListener("log", (event) => {
+        applyLogs([JSON.parse((event as MessageEvent).data)]);
+      });
+      source.addEventListener("run", (event) => {
+        applyRun(JSON.parse((event as MessageEvent).data));
+      });
+      source.addEventListener("end", (event) => {
+        applyRun(JSON.parse((event as MessageEvent).data));
+        source?.close();
+      });
+      // The browser would reconnect on its own; polling resumes from `after` instead
+      source.onerror = () => {
+        source?.close();
+        if (active && !finished) startPolling();
+      };
+    }
+
+    return () => {
+      active = false;
+      source?.close();
+      clearTimeout(timer);
+    };
+  }, [api, cache, runId]);
+
+  return state;
+}
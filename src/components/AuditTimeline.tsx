@@ -0,0 +1,119 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Badge, Group, Stack, Text, Timeline } from "@mantine/core";
+import { IconPoint, IconShieldCheck } from "@tabler/icons-react";
+import type { AuditChange, AuditEvent } from "../api/types";
+
+type AuditTimelineProps = {
+  events: AuditEvent[];
+  palette: any;
+  // Entity history tabs already know the target, so they hide the link
+  showTarget?: boolean;
+};
+
+const targetPath = ({ target: { type, id }, nodeId }: AuditEvent) => {
+  switch (type) {
+    case "workspace":
+      return `/workspaces/${encodeURIComponent(id)}`;
+    case "node":
+      return `/nodes/${encodeURIComponent(id)}`;
+    case "document":
+      return `/documents?doc=${encodeURIComponent(id)}`;
+    case "program":
+      // Program events are always scoped to the program's node
+      return `/nodes/${encodeURIComponent(nodeId ?? "")}/programs/${encodeURIComponent(id)}`;
+    case "module":
+      return `/modules?module=${encodeURIComponent(id)}`;
+    case "integration":
+      // Integrations are listed on their node
+      return `/nodes/${encodeURIComponent(nodeId ?? "")}`;
+    case "mcpServer":
+      return `/nodes/${encodeURIComponent(nodeId ?? "")}/mcp-servers/${encodeURIComponent(id)}`;
+    case "knowledgeStore":
+      return `/knowledge-stores/${encodeURIComponent(id)}`;
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+};
+
+const formatChange = ({ field, before, after }: AuditChange) =>
+  before === null || before === undefined
+    ? `${field}: ${formatValue(after)}`
+    : `${field}: ${formatValue(before)} → ${formatValue(after)}`;
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * Timeline of audit events, newest first as returned by `/api/audit`.
+ */
+export default function AuditTimeline({
+  events,
+  palette,
+  showTarget = true,
+}: AuditTimelineProps) {
+  return (
+    <Timeline bulletSize={22} lineWidth={2} color="gray">
+      {events.map((event) => (
+        <Timeline.Item
+          key={event.id}
+          bullet={
+            event.mode === "governed" ? (
+              <IconShieldCheck size={14} />
+            ) : (
+              <IconPoint size={14} />
+            )
+          }
+          color={event.mode === "governed" ? "yellow" : "blue"}
+          title={
+            <Group gap="xs" wrap="wrap">
+              <Text size="sm" fw={600} c={palette.text}>
+                {event.summary}
+              </Text>
+              <Badge
+                color={event.mode === "governed" ? "yellow" : "blue"}
+                variant="light"
+                size="xs"
+              >
+                {event.mode === "governed" ? "Governed" : "Automatic"}
+              </Badge>
+            </Group>
+          }
+        >
+          <Stack gap={2}>
+            <Text size="xs" c={palette.textSoft}>
+              {event.actor} · {event.action} · {formatDateTime(event.at)}
+            </Text>
+            {showTarget && (
+              <Text size="xs">
+                <Link to={targetPath(event)} style={{ color: palette.accent }}>
+                  {event.target.type}: {event.target.name}
+                </Link>
+              </Text>
+            )}
+            {event.changes.map((change) => (
+              <Text
+                key={change.field}
+                size="xs"
+                c={palette.textSoft}
+                style={{ fontFamily: "monospace", wordBreak: "break-word" }}
+              >
+                {formatChange(change)}
+              </Text>
+            ))}
+          </Stack>
+        </Timeline.Item>
+      ))}
+    </Timeline>
+  );
+}
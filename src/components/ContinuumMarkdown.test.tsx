@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { MemoryRouter } from "react-router-dom";
+import ContinuumMarkdown from "./ContinuumMarkdown";
+import { documentOutline } from "../content/documentOutline";
+import { renderWithMantine, testPalette } from "../test/render";
+
+const CONTENT = [
+  "# Setup guide",
+  "",
+  "Install",
+  "=======",
+  "",
+  "- ## Listed",
+  "",
+  "> ### Quoted",
+  "",
+  "```",
+  "# Not a heading",
+  "```",
+  "",
+  "## Setup guide",
+].join("\n");
+
+describe("ContinuumMarkdown", () => {
+  it("gives every rendered heading the anchor the outline links to", () => {
+    const { container } = renderWithMantine(
+      <MemoryRouter>
+        <ContinuumMarkdown content={CONTENT} palette={testPalette} anchorLinks />
+      </MemoryRouter>
+    );
+    const rendered = Array.from(container.querySelectorAll("h1, h2, h3, h4, h5, h6"));
+
+    expect(rendered.map((heading) => heading.id)).toEqual(
+      documentOutline(CONTENT).map((heading) => heading.slug)
+    );
+    expect(rendered.map((heading) => heading.id)).toEqual([
+      "setup-guide",
+      "install",
+      "listed",
+      "quoted",
+      "setup-guide-1",
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import React, { useMemo } from "react";
+import { TypographyStylesProvider } from "@mantine/core";
+import ReactMarkdown, { type Components, type ExtraProps } from "react-markdown";
+import { Link } from "react-router-dom";
+import remarkGfm from "remark-gfm";
+import GlossaryTerm from "./GlossaryTerm";
+import { documentOutline } from "../content/documentOutline";
+import remarkGlossary from "../content/remarkGlossary";
+
+type ContinuumMarkdownProps = {
+  content: string;
+  palette: any;
+  // Source line of a heading to mark, e.g. the section a deep link opened at
+  highlightLine?: number | null;
+  // Show a "#" link beside each heading for copying its anchor
+  anchorLinks?: boolean;
+  // Leave glossary terms in headings unmarked
+  skipHeadings?: boolean;
+};
+
+const HEADING_TAGS = ["h1", "h2", "h3", "h4", "h5", "h6"] as const;
+
+/**
+ * Renders markdown in the app's reading style, with GitHub-flavoured tables
+ * and task lists. Glossary terms in prose are explained inline; text in code
+ * and links never is. Headings get their outline anchor as `id` and their
+ * source line as `data-line`, so links can scroll to a section either way.
+ */
+export default function ContinuumMarkdown({
+  content,
+  palette,
+  highlightLine = null,
+  anchorLinks = false,
+  skipHeadings = false,
+}: ContinuumMarkdownProps) {
+  const slugs = useMemo(
+    () => new Map(documentOutline(content).map((heading) => [heading.line, heading.slug])),
+    [content]
+  );
+
+  const headingComponents = Object.fromEntries(
+    HEADING_TAGS.map((Tag) => [
+      Tag,
+      ({ node, children, ...props }: React.ComponentProps<typeof Tag> & ExtraProps) => {
+        const line = node?.position?.start.line;
+        const slug = line ? slugs.get(line) : undefined;
+        return (
+          <Tag
+            {...props}
+            id={slug}
+            data-line={line}
+            style={{
+              // Clear the app header when scrolled to
+              scrollMarginTop: 80,
+              ...(line === highlightLine
+                ? { borderLeft: `3px solid ${palette.accent}`, paddingLeft: 8 }
+                : {}),
+            }}
+          >
+            {children}
+            {anchorLinks && slug && (
+              <Link
+                to={`#${slug}`}
+                aria-label="Link to this section"
+                data-print="hide"
+                style={{
+                  marginLeft: 8,
+                  color: palette.textSoft,
+                  textDecoration: "none",
+                  fontSize: "0.75em",
+                }}
+              >
+                #
+              </Link>
+            )}
+          </Tag>
+        );
+      },
+    ])
+  ) as Partial<Components>;
+
+  const cellStyle = {
+    border: `1px solid ${palette.border}`,
+    padding: "6px 10px",
+  };
+
+  return (
+    <TypographyStylesProvider>
+      <div
+        style={{
+          color: palette.textSoft,
+          fontSize: "0.875rem",
+          lineHeight: 1.6,
+        }}
+      >
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm, [remarkGlossary, { skipHeadings }]]}
+          components={{
+            ...headingComponents,
+            // Glossary terms, as marked by remarkGlossary
+            span: ({ node, children, ...props }) => {
+              const term = node?.properties?.dataGlossaryTerm;
+              return typeof term === "string" ? (
+                <GlossaryTerm term={term} palette={palette}>
+                  {children}
+                </GlossaryTerm>
+              ) : (
+                <span {...props}>{children}</span>
+              );
+            },
+            code: ({ children, ...props }) => (
+              <code
+                {...props}
+                style={{
+                  fontFamily: "monospace",
+                  backgroundColor: palette.surface,
+                  padding: "2px 4px",
+                  borderRadius: "3px",
+                  fontSize: "0.875em",
+                }}
+              >
+                {children}
+              </code>
+            ),
+            pre: ({ children, ...props }) => (
+              <pre
+                {...props}
+                style={{
+                  fontFamily: "monospace",
+                  backgroundColor: palette.surface,
+                  padding: "12px",
+                  borderRadius: "4px",
+                  overflowX: "auto",
+                  fontSize: "0.875em",
+                  lineHeight: 1.5,
+                }}
+              >
+                {children}
+              </pre>
+            ),
+            // Wide tables scroll on their own rather than widening the page
+            table: ({ node, children, ...props }) => (
+              <div style={{ overflowX: "auto" }}>
+                <table {...props} style={{ borderCollapse: "collapse", width: "100%" }}>
+                  {children}
+                </table>
+              </div>
+            ),
+            th: ({ node, children, style, ...props }) => (
+              <th
+                {...props}
+                style={{
+                  ...style,
+                  ...cellStyle,
+                  backgroundColor: palette.header,
+                  color: palette.text,
+                }}
+              >
+                {children}
+              </th>
+            ),
+            td: ({ node, children, style, ...props }) => (
+              <td {...props} style={{ ...style, ...cellStyle }}>
+                {children}
+              </td>
+            ),
+            // Task list items show their checkbox in place of a bullet
+            li: ({ node, children, className, ...props }) => (
+              <li
+                {...props}
+                className={className}
+                style={className?.includes("task-list-item") ? { listStyle: "none" } : undefined}
+              >
+                {children}
+              </li>
+            ),
+            input: ({ node, ...props }) => (
+              <input {...props} style={{ accentColor: palette.accent, marginRight: 6 }} />
+            ),
+          }}
+        >
+          {content}
+        </ReactMarkdown>
+      </div>
+    </TypographyStylesProvider>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { Table } from "@mantine/core";
+import classes from "./DataTable.module.css";
+
+export type DataTableColumn<T> = {
+  key: string;
+  header: React.ReactNode;
+  // Any CSS width; the layout is fixed, so columns without one share what's left
+  width?: number | string;
+  align?: "left" | "center" | "right";
+  render: (row: T) => React.ReactNode;
+};
+
+type DataTableProps<T> = {
+  rows: T[];
+  columns: DataTableColumn<T>[];
+  getRowId: (row: T) => string;
+  palette: any;
+  // Accessible name for the table
+  label: string;
+  // Click, or Enter / Space on the keyboard-active row
+  onRowClick?: (row: T) => void;
+  // Highlighted by id, so it survives scrolling, sorting and refetches
+  selectedId?: string | null;
+  rowHeight?: number;
+  maxHeight?: number;
+};
+
+type DataTableRowProps<T> = {
+  row: T;
+  id: string;
+  // 1-based position among all rows, header included, for assistive tech
+  rowIndex: number;
+  columns: DataTableColumn<T>[];
+  active: boolean;
+  selected: boolean;
+  onRowClick?: (row: T) => void;
+};
+
+// Rows rendered above and below the viewport so fast scrolling doesn't flash blank
+const OVERSCAN = 6;
+
+const alignClass = (align: DataTableColumn<unknown>["align"]) =>
+  align === "center" ? classes.center : align === "right" ? classes.right : "";
+
+function DataTableRowImpl<T>({
+  row,
+  id,
+  rowIndex,
+  columns,
+  active,
+  selected,
+  onRowClick,
+}: DataTableRowProps<T>) {
+  return (
+    <Table.Tr
+      id={id}
+      role="row"
+      aria-rowindex={rowIndex}
+      className={classes.row}
+      data-active={active || undefined}
+      data-selected={selected || undefined}
+      data-clickable={onRowClick ? true : undefined}
+      aria-selected={selected}
+      onClick={onRowClick ? () => onRowClick(row) : undefined}
+    >
+      {columns.map((column) => (
+        <Table.Td
+          key={column.key}
+          role="gridcell"
+          className={`${classes.td} ${alignClass(column.align)}`}
+        >
+          {column.render(row)}
+        </Table.Td>
+      ))}
+    </Table.Tr>
+  );
+}
+
+// Scrolling only re-renders the rows entering the window, not the ones already shown
+const DataTableRow = React.memo(DataTableRowImpl) as typeof DataTableRowImpl;
+
+/**
+ * A table that only renders the rows in view, so lists with thousands of
+ * entries scroll smoothly. The header stays put while the body scrolls. Rows
+ * have a fixed height, and cells are cut to one line.
+ *
+ * Focus the table to move through rows with the arrow keys, Page Up / Down and
+ * Home / End; Enter or Space opens the active row. The focusable viewport is
+ * the ARIA grid, so screen readers announce the active row as it moves.
+ */
+export default function DataTable<T>({
+  rows,
+  columns,
+  getRowId,
+  palette,
+  label,
+  onRowClick,
+  selectedId = null,
+  rowHeight = 40,
+  maxHeight = 520,
+}: DataTableProps<T>) {
+  const idPrefix = useId();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const activeIndex = activeId ? rows.findIndex((row) => getRowId(row) === activeId) : -1;
+  const pageRows = Math.max(1, Math.floor(maxHeight / rowHeight) - 1);
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + maxHeight) / rowHeight) + OVERSCAN);
+  const rowDomId = (id: string) => `${idPrefix}-${id}`;
+
+  // Scrolls just enough to show the row below the sticky header
+  const scrollToIndex = (index: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const top = index * rowHeight;
+    const bottom = top + 2 * rowHeight;
+    if (top < viewport.scrollTop) {
+      viewport.scrollTop = top;
+    } else if (bottom > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = bottom - viewport.clientHeight;
+    }
+  };
+
+  // Bring the selected row into view when it changes, e.g. after navigating back
+  const hasRows = rows.length > 0;
+  useEffect(() => {
+    if (!selectedId || !hasRows) return;
+    const index = rows.findIndex((row) => getRowId(row) === selectedId);
+    if (index >= 0) scrollToIndex(index);
+    // Only on selection changes; following refetches would fight the user's scrolling
+  }, [selectedId, hasRows]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys pressed in a cell's own controls (menus, buttons) are theirs
+    if (e.target !== e.currentTarget || rows.length === 0) return;
+    let next: number;
+    switch (e.key) {
+      case "ArrowDown":
+        next = activeIndex + 1;
+        break;
+      case "ArrowUp":
+        next = activeIndex - 1;
+        break;
+      case "PageDown":
+        next = activeIndex + pageRows;
+        break;
+      case "PageUp":
+        next = activeIndex - pageRows;
+        break;
+      case "Home":
+        next = 0;
+        break;
+      case "End":
+        next = rows.length - 1;
+        break;
+      case "Enter":
+      case " ":
+        if (activeIndex >= 0 && onRowClick) {
+          e.preventDefault();
+          onRowClick(rows[activeIndex]);
+        }
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    const index = Math.min(rows.length - 1, Math.max(0, next));
+    setActiveId(getRowId(rows[index]));
+    scrollToIndex(index);
+  };
+
+  return (
+    <div
+      ref={viewportRef}
+      className={classes.viewport}
+      tabIndex={0}
+      role="grid"
+      aria-label={label}
+      aria-rowcount={rows.length + 1}
+      aria-activedescendant={activeIndex >= 0 ? rowDomId(activeId as string) : undefined}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onKeyDown={handleKeyDown}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setActiveId(null);
+      }}
+      style={
+        {
+          maxHeight,
+          "--dt-row-height": `${rowHeight}px`,
+          "--dt-header": palette.header,
+          "--dt-text": palette.text,
+          "--dt-text-soft": palette.textSoft,
+          "--dt-accent": palette.accent,
+        } as React.CSSProperties
+      }
+    >
+      <Table
+        className={classes.table}
+        layout="fixed"
+        stickyHeader
+        withTableBorder
+        withColumnBorders
+        borderColor={palette.border}
+        verticalSpacing={0}
+        horizontalSpacing="md"
+        // Only layout: the viewport above is the grid, and rows and cells carry their own roles
+        role="presentation"
+      >
+        <colgroup>
+          {columns.map((column) => (
+            <col key={column.key} style={column.width ? { width: column.width } : undefined} />
+          ))}
+        </colgroup>
+        <Table.Thead role="rowgroup">
+          <Table.Tr role="row" aria-rowindex={1}>
+            {columns.map((column) => (
+              <Table.Th
+                key={column.key}
+                role="columnheader"
+                className={`${classes.th} ${alignClass(column.align)}`}
+              >
+                {column.header}
+              </Table.Th>
+            ))}
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody role="rowgroup">
+          {start > 0 && (
+            <tr className={classes.spacer} aria-hidden style={{ height: start * rowHeight }}>
+              <td colSpan={columns.length} />
+            </tr>
+          )}
+          {rows.slice(start, end).map((row, offset) => {
+            const id = getRowId(row);
+            return (
+              <DataTableRow
+                key={id}
+                row={row}
+                id={rowDomId(id)}
+                rowIndex={start + offset + 2}
+                columns={columns}
+                active={id === activeId}
+                selected={id === selectedId}
+                onRowClick={onRowClick}
+              />
+            );
+          })}
+          {end < rows.length && (
+            <tr
+              className={classes.spacer}
+              aria-hidden
+              style={{ height: (rows.length - end) * rowHeight }}
+            >
+              <td colSpan={columns.length} />
+            </tr>
+          )}
+        </Table.Tbody>
+      </Table>
+    </div>
+  );
+}
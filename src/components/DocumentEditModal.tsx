@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Group,
+  Modal,
+  Paper,
+  SimpleGrid,
+  Stack,
+  Text,
+  Textarea,
+  TextInput,
+} from "@mantine/core";
+import MarkdownEditor from "./MarkdownEditor";
+import { isVersionConflict } from "../api/coreApi";
+import { documentEditAction, evaluatePolicy } from "../api/policy";
+import { useCreateProposal } from "../api/queries";
+import type { ChangeProposal, Document } from "../api/types";
+import { useActor } from "../context/ActorContext";
+
+type DocumentEditModalProps = {
+  opened: boolean;
+  document: Document | null;
+  palette: any;
+  onClose: () => void;
+  onProposed?: (proposal: ChangeProposal) => void;
+};
+
+/**
+ * Drafts a change to a document against the `metadata.version` it was loaded
+ * at. Every document edit is governed, so the draft is submitted as a change
+ * proposal with a rationale and applied once approved. A version conflict
+ * shows the server copy next to the draft; the user must explicitly pick one,
+ * so nothing is silently overwritten.
+ */
+export default function DocumentEditModal({
+  opened,
+  document,
+  palette,
+  onClose,
+  onProposed,
+}: DocumentEditModalProps) {
+  const createProposal = useCreateProposal();
+  const { actorName } = useActor();
+
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [isGovernance, setIsGovernance] = useState(false);
+  const [baseVersion, setBaseVersion] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<Document | null>(null);
+
+  // Reset the form from the document each time the modal opens
+  useEffect(() => {
+    if (!opened || !document) return;
+    setTitle(document.title);
+    setContent(document.content ?? "");
+    setIsGovernance(Boolean(document.isGovernance));
+    setBaseVersion(document.metadata?.version ?? "");
+    setRationale("");
+    setError(null);
+    setConflict(null);
+  }, [opened, document]);
+
+  const decision = evaluatePolicy(documentEditAction(document?.isGovernance, isGovernance));
+  const blocked = decision.outcome === "blocked";
+
+  const propose = async (version: string) => {
+    if (!document || !title.trim() || !rationale.trim()) {
+      setError("Title and rationale are required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const proposal = await createProposal({
+        documentId: document.id,
+        baseVersion: version,
+        author: actorName,
+        rationale: rationale.trim(),
+        proposed: {
+          title: title.trim(),
+          content,
+          isGovernance,
+        },
+      });
+      setConflict(null);
+      onProposed?.(proposal);
+      onClose();
+    } catch (err: any) {
+      if (isVersionConflict(err)) {
+        setConflict(err.body.current);
+        return;
+      }
+      console.error("Error submitting proposal", err);
+      setError(err?.message ?? "Failed to submit proposal");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUseServerVersion = () => {
+    if (!conflict) return;
+    setTitle(conflict.title);
+    setContent(conflict.content ?? "");
+    setIsGovernance(Boolean(conflict.isGovernance));
+    setBaseVersion(conflict.metadata?.version ?? "");
+    setConflict(null);
+  };
+
+  const handleOverwrite = () => {
+    if (!conflict) return;
+    const serverVersion = conflict.metadata?.version ?? "";
+    setBaseVersion(serverVersion);
+    propose(serverVersion);
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.header,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+  };
+
+  const previewBox = (label: string, previewTitle: string, previewContent: string) => (
+    <Stack gap="xs">
+      <Text size="sm" fw={600} c={palette.text}>
+        {label}
+      </Text>
+      <Paper
+        p="sm"
+        radius="md"
+        style={{
+          backgroundColor: palette.background,
+          border: `1px solid ${palette.border}`,
+          maxHeight: "320px",
+          overflowY: "auto",
+        }}
+      >
+        <Text size="sm" fw={600} c={palette.text} mb="xs">
+          {previewTitle}
+        </Text>
+        <Text
+          size="xs"
+          c={palette.textSoft}
+          style={{ fontFamily: "monospace", whiteSpace: "pre-wrap", wordBreak: "break-word" }}
+        >
+          {previewContent || "No content"}
+        </Text>
+      </Paper>
+    </Stack>
+  );
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Propose Change"
+      size={conflict ? "xl" : "lg"}
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {error && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {conflict ? (
+          <>
+            <Alert
+              color="yellow"
+              title="Version conflict"
+              styles={{
+                root: {
+                  backgroundColor: palette.surface,
+                },
+              }}
+            >
+              This document was updated to version {conflict.metadata?.version} after
+              you opened version {baseVersion}. Choose which copy to keep.
+            </Alert>
+
+            <SimpleGrid cols={{ base: 1, md: 2 }} spacing="md">
+              {previewBox(
+                `Server (version ${conflict.metadata?.version ?? "—"})`,
+                conflict.title,
+                conflict.content ?? ""
+              )}
+              {previewBox("Your draft", title, content)}
+            </SimpleGrid>
+
+            <Group justify="flex-end" gap="xs">
+              <Button
+                variant="subtle"
+                onClick={handleUseServerVersion}
+                disabled={saving}
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Use server version
+              </Button>
+              <Button
+                onClick={handleOverwrite}
+                loading={saving}
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Propose my draft anyway
+              </Button>
+            </Group>
+          </>
+        ) : (
+          <>
+            <TextInput
+              label="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+              disabled={saving}
+              styles={inputStyles}
+            />
+
+            <MarkdownEditor
+              label="Content"
+              placeholder="Markdown supported"
+              value={content}
+              onChange={setContent}
+              palette={palette}
+              disabled={saving}
+              minHeight={320}
+            />
+
+            <Checkbox
+              label="Governance document (governed change required)"
+              checked={isGovernance}
+              onChange={(e) => setIsGovernance(e.currentTarget.checked)}
+              disabled={saving}
+              styles={{
+                label: {
+                  color: palette.text,
+                },
+              }}
+            />
+
+            <Textarea
+              label="Rationale"
+              description="Why this change is needed. Reviewers see it next to the diff."
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              minRows={3}
+              autosize
+              required
+              disabled={saving}
+              styles={inputStyles}
+            />
+
+            <Text size="xs" c={blocked ? "red.3" : palette.textSoft}>
+              {blocked
+                ? decision.reason
+                : `${decision.reason}. Proposing against version ${baseVersion || "—"} as ${actorName}; the document changes once the proposal is approved.`}
+            </Text>
+
+            <Group justify="flex-end" gap="xs">
+              <Button
+                variant="subtle"
+                onClick={onClose}
+                disabled={saving}
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={() => propose(baseVersion)}
+                disabled={!title.trim() || !rationale.trim() || blocked || saving}
+                loading={saving}
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Submit for approval
+              </Button>
+            </Group>
+          </>
+        )}
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  Progress,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { IconRefresh } from "@tabler/icons-react";
+import { isVersionConflict } from "../api/coreApi";
+import { evaluatePolicy } from "../api/policy";
+import { useDocumentRag, useRefreshRag } from "../api/queries";
+import type { Document } from "../api/types";
+
+type DocumentRagPanelProps = {
+  document: Document;
+  palette: any;
+  onIndexed?: (document: Document) => void;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * Whether a document is ready for retrieval and what indexing it would produce:
+ * the chunks with their heading trail and token estimate, and the issues that
+ * block indexing. Indexing is an embedding refresh, so it applies immediately
+ * and never changes the document's text.
+ */
+export default function DocumentRagPanel({ document, palette, onIndexed }: DocumentRagPanelProps) {
+  const { data: readiness, isLoading, error } = useDocumentRag(document.id);
+  const refreshRag = useRefreshRag();
+  const [indexing, setIndexing] = useState(false);
+  const [indexError, setIndexError] = useState<string | null>(null);
+
+  const decision = evaluatePolicy("rag.refresh");
+
+  if (isLoading) {
+    return (
+      <Group gap="xs">
+        <Loader size="sm" />
+        <Text size="sm" c={palette.textSoft}>
+          Chunking document...
+        </Text>
+      </Group>
+    );
+  }
+
+  if (error || !readiness) {
+    return (
+      <Text size="sm" c="red.3">
+        {error || "Readiness is unavailable"}
+      </Text>
+    );
+  }
+
+  const blocking = readiness.issues.filter((issue) => issue.severity === "error");
+  const stale = !readiness.ready && readiness.index !== null;
+
+  const handleIndex = async () => {
+    try {
+      setIndexing(true);
+      setIndexError(null);
+      const updated = await refreshRag(document);
+      onIndexed?.(updated);
+    } catch (err: any) {
+      if (isVersionConflict(err)) {
+        setIndexError(
+          `The document moved to version ${err.body.current?.metadata?.version} while this was open. Reopen it to index the latest text.`
+        );
+        return;
+      }
+      console.error("Error indexing document", err);
+      setIndexError(err?.message ?? "Failed to index document");
+    } finally {
+      setIndexing(false);
+    }
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper
+        p="sm"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="xs">
+          <Group justify="space-between" align="flex-start">
+            <Stack gap={4}>
+              <Group gap="xs">
+                <Badge
+                  color={readiness.ready ? "green" : stale ? "orange" : "gray"}
+                  variant="filled"
+                  size="sm"
+                >
+                  {readiness.ready ? "Ready" : stale ? "Stale" : "Not indexed"}
+                </Badge>
+                <Text size="sm" c={palette.text}>
+                  {readiness.chunks.length} {readiness.chunks.length === 1 ? "chunk" : "chunks"} · ~
+                  {readiness.totalTokens} tokens
+                </Text>
+              </Group>
+              <Text size="xs" c={palette.textSoft}>
+                {readiness.index
+                  ? `Indexed from version ${readiness.index.version} on ${formatDateTime(readiness.index.indexedAt)}${stale ? `; the document is now at version ${readiness.version}` : ""}`
+                  : "Never indexed for retrieval"}
+              </Text>
+            </Stack>
+            <Button
+              leftSection={<IconRefresh size={14} />}
+              onClick={handleIndex}
+              loading={indexing}
+              disabled={blocking.length > 0 || decision.outcome === "blocked"}
+              size="xs"
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              {readiness.index ? "Reindex" : "Mark ready"}
+            </Button>
+          </Group>
+          <Text size="xs" c={palette.textSoft}>
+            {decision.reason}. Indexing rebuilds the chunks below without changing the text, and is
+            logged.
+          </Text>
+        </Stack>
+      </Paper>
+
+      {indexError && (
+        <Alert
+          color="red"
+          title="Error"
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {indexError}
+        </Alert>
+      )}
+
+      {readiness.issues.length > 0 && (
+        <Stack gap={4}>
+          <Text size="sm" fw={600} c={palette.text}>
+            {blocking.length > 0 ? "Blocking indexing" : "Issues"}
+          </Text>
+          {readiness.issues.map((issue) => (
+            <Group
+              key={`${issue.code}-${issue.line ?? 0}`}
+              gap="xs"
+              wrap="nowrap"
+              align="flex-start"
+            >
+              <Badge
+                color={issue.severity === "error" ? "red" : "yellow"}
+                variant="light"
+                size="xs"
+                style={{ flexShrink: 0 }}
+              >
+                {issue.severity}
+              </Badge>
+              <Text size="xs" c={palette.text}>
+                {issue.message}
+                {issue.line ? ` (line ${issue.line})` : ""}
+              </Text>
+            </Group>
+          ))}
+        </Stack>
+      )}
+
+      {readiness.chunks.length > 0 && (
+        <Stack gap="xs">
+          <Text size="sm" fw={600} c={palette.text}>
+            Chunk preview
+          </Text>
+          <Text size="xs" c={palette.textSoft}>
+            Chunks break at headings and blank lines, up to about {readiness.limits.chunkTokens}{" "}
+            tokens each. The heading trail is embedded with every chunk.
+          </Text>
+          {readiness.chunks.map((chunk) => (
+            <Paper
+              key={chunk.index}
+              p="xs"
+              radius="md"
+              style={{
+                backgroundColor: palette.surface,
+                border: `1px solid ${palette.border}`,
+              }}
+            >
+              <Stack gap={6}>
+                <Group justify="space-between" gap="xs">
+                  <Text size="xs" fw={600} c={palette.text}>
+                    Chunk {chunk.index + 1} · lines {chunk.startLine}–{chunk.endLine}
+                  </Text>
+                  <Text size="xs" c={palette.textSoft}>
+                    ~{chunk.tokens} tokens
+                  </Text>
+                </Group>
+                <Progress
+                  value={Math.min(100, (chunk.tokens / readiness.limits.chunkTokens) * 100)}
+                  color={chunk.tokens > readiness.limits.chunkTokens ? "orange" : "blue"}
+                  size="xs"
+                />
+                {chunk.headings.length > 0 && (
+                  <Group gap={4}>
+                    {chunk.headings.map((heading, index) => (
+                      <Badge
+                        key={`${index}-${heading}`}
+                        color="violet"
+                        variant="light"
+                        size="xs"
+                        style={{ textTransform: "none" }}
+                      >
+                        {heading}
+                      </Badge>
+                    ))}
+                  </Group>
+                )}
+                <Box
+                  component="pre"
+                  style={{
+                    margin: 0,
+                    maxHeight: 180,
+                    overflow: "auto",
+                    fontFamily: "monospace",
+                    fontSize: 11,
+                    lineHeight: 1.5,
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-word",
+                    color: palette.textSoft,
+                  }}
+                >
+                  {chunk.text}
+                </Box>
+              </Stack>
+            </Paper>
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,378 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Modal,
+  Paper,
+  SegmentedControl,
+  Select,
+  Stack,
+  Text,
+  Textarea,
+} from "@mantine/core";
+import { IconArrowBackUp } from "@tabler/icons-react";
+import TextDiff from "./TextDiff";
+import { isVersionConflict } from "../api/coreApi";
+import { documentEditAction, evaluatePolicy } from "../api/policy";
+import { useCreateProposal, useDocumentVersions } from "../api/queries";
+import type { Document, DocumentVersion } from "../api/types";
+import { useActor } from "../context/ActorContext";
+
+type DocumentVersionHistoryProps = {
+  document: Document;
+  palette: any;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * Lists every stored version of a document, diffs any two of them and restores
+ * an earlier one. Like any edit, a restore is a change proposal that writes
+ * the old version back once approved.
+ */
+export default function DocumentVersionHistory({
+  document,
+  palette,
+}: DocumentVersionHistoryProps) {
+  const { data: versions = [], isLoading, error } = useDocumentVersions(document.id);
+  const createProposal = useCreateProposal();
+  const { actorName } = useActor();
+
+  const [fromVersion, setFromVersion] = useState<string | null>(null);
+  const [toVersion, setToVersion] = useState<string | null>(null);
+  const [mode, setMode] = useState<"inline" | "split">("inline");
+
+  const [restoreTarget, setRestoreTarget] = useState<DocumentVersion | null>(null);
+  const [rationale, setRationale] = useState("");
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (versions.length === 0) return;
+    setToVersion(versions[0].version);
+    setFromVersion(versions[1]?.version ?? versions[0].version);
+  }, [versions]);
+
+  const currentVersion = document.metadata?.version ?? versions[0]?.version ?? "";
+  const from = versions.find((v) => v.version === fromVersion) ?? null;
+  const to = versions.find((v) => v.version === toVersion) ?? null;
+
+  const versionOptions = versions.map((v) => ({
+    value: v.version,
+    label: `Version ${v.version} · ${v.author}`,
+  }));
+
+  const restoreDecision = restoreTarget
+    ? evaluatePolicy(documentEditAction(document.isGovernance, restoreTarget.isGovernance))
+    : null;
+
+  const openRestore = (version: DocumentVersion) => {
+    setRestoreTarget(version);
+    setRationale(`Restore version ${version.version}`);
+    setRestoreError(null);
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    const snapshot = {
+      title: restoreTarget.title,
+      content: restoreTarget.content,
+      isGovernance: restoreTarget.isGovernance,
+    };
+
+    try {
+      setRestoring(true);
+      setRestoreError(null);
+      await createProposal({
+        documentId: document.id,
+        baseVersion: currentVersion,
+        author: actorName,
+        rationale: rationale.trim(),
+        proposed: snapshot,
+        restoredFrom: restoreTarget.version,
+      });
+      setNotice(
+        `Restore of version ${restoreTarget.version} submitted for approval. The document changes once it is approved.`
+      );
+      setRestoreTarget(null);
+    } catch (err: any) {
+      if (isVersionConflict(err)) {
+        setRestoreError(
+          `The document moved to version ${err.body.current?.metadata?.version} while you were viewing it. Reopen it and try again.`
+        );
+        return;
+      }
+      console.error("Error restoring version", err);
+      setRestoreError(err?.message ?? "Failed to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Group gap="xs">
+        <Loader size="sm" />
+        <Text size="sm" c={palette.textSoft}>
+          Loading versions...
+        </Text>
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Text size="sm" c="red.3">
+        {error}
+      </Text>
+    );
+  }
+
+  const selectStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      {notice && (
+        <Alert
+          color="green"
+          withCloseButton
+          onClose={() => setNotice(null)}
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {notice}
+        </Alert>
+      )}
+
+      {versions.length > 1 && (
+        <Stack gap="xs">
+          <Group grow>
+            <Select
+              label="From"
+              value={fromVersion}
+              onChange={setFromVersion}
+              data={versionOptions}
+              allowDeselect={false}
+              styles={selectStyles}
+            />
+            <Select
+              label="To"
+              value={toVersion}
+              onChange={setToVersion}
+              data={versionOptions}
+              allowDeselect={false}
+              styles={selectStyles}
+            />
+          </Group>
+          <SegmentedControl
+            size="xs"
+            value={mode}
+            onChange={(value) => setMode(value as "inline" | "split")}
+            data={[
+              { value: "inline", label: "Inline" },
+              { value: "split", label: "Side by side" },
+            ]}
+          />
+          {from && to && from.title !== to.title && (
+            <Text size="xs" c={palette.textSoft}>
+              Title: <s>{from.title}</s> → {to.title}
+            </Text>
+          )}
+          {from && to && from.isGovernance !== to.isGovernance && (
+            <Text size="xs" c="yellow.4">
+              Governance flag {to.isGovernance ? "set" : "cleared"}
+            </Text>
+          )}
+          {from && to && (
+            <TextDiff
+              before={from.content}
+              after={to.content}
+              palette={palette}
+              mode={mode}
+              maxHeight={360}
+            />
+          )}
+        </Stack>
+      )}
+
+      <Stack gap="xs">
+        {versions.map((version) => {
+          const isCurrent = version.version === currentVersion;
+          return (
+            <Paper
+              key={version.version}
+              p="xs"
+              radius="md"
+              style={{
+                backgroundColor: palette.background,
+                border: `1px solid ${palette.border}`,
+              }}
+            >
+              <Group justify="space-between" wrap="nowrap">
+                <Stack gap={2}>
+                  <Group gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Version {version.version}
+                    </Text>
+                    {isCurrent && (
+                      <Badge color="green" variant="light" size="xs">
+                        Current
+                      </Badge>
+                    )}
+                    {version.restoredFrom && (
+                      <Badge color="gray" variant="light" size="xs">
+                        Restored from {version.restoredFrom}
+                      </Badge>
+                    )}
+                    {version.proposalId && (
+                      <Badge color="yellow" variant="light" size="xs">
+                        Approved proposal
+                      </Badge>
+                    )}
+                  </Group>
+                  <Text size="xs" c={palette.textSoft}>
+                    {version.author} · {formatDateTime(version.createdAt)}
+                  </Text>
+                </Stack>
+                {!isCurrent && (
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    leftSection={<IconArrowBackUp size={14} />}
+                    onClick={() => openRestore(version)}
+                    styles={{
+                      root: {
+                        color: palette.text,
+                      },
+                    }}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </Group>
+            </Paper>
+          );
+        })}
+      </Stack>
+
+      <Modal
+        opened={restoreTarget !== null}
+        onClose={() => setRestoreTarget(null)}
+        title={restoreTarget ? `Restore version ${restoreTarget.version}` : ""}
+        styles={{
+          content: {
+            backgroundColor: palette.surface,
+            color: palette.text,
+          },
+          header: {
+            backgroundColor: palette.header,
+            color: palette.text,
+          },
+        }}
+      >
+        {restoreTarget && restoreDecision && (
+          <Stack gap="md">
+            {restoreError && (
+              <Alert
+                color="red"
+                title="Error"
+                styles={{
+                  root: {
+                    backgroundColor: palette.surface,
+                  },
+                }}
+              >
+                {restoreError}
+              </Alert>
+            )}
+
+            <Text size="sm" c={palette.textSoft}>
+              {restoreDecision.outcome === "blocked"
+                ? restoreDecision.reason
+                : `${restoreDecision.reason}. Restoring submits a change proposal against version ${currentVersion}.`}
+            </Text>
+
+            <TextDiff
+              before={document.content ?? ""}
+              after={restoreTarget.content}
+              palette={palette}
+              maxHeight={240}
+            />
+
+            <Textarea
+              label="Rationale"
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              minRows={2}
+              autosize
+              required
+              disabled={restoring}
+              styles={{
+                input: {
+                  backgroundColor: palette.header,
+                  borderColor: palette.border,
+                  color: palette.text,
+                },
+              }}
+            />
+
+            <Group justify="flex-end" gap="xs">
+              <Button
+                variant="subtle"
+                onClick={() => setRestoreTarget(null)}
+                disabled={restoring}
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRestore}
+                loading={restoring}
+                disabled={restoreDecision.outcome === "blocked" || !rationale.trim()}
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Submit for approval
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+    </Stack>
+  );
+}
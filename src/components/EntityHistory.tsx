@@ -0,0 +1,72 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Group, Loader, Pagination, Stack, Text } from "@mantine/core";
+import AuditTimeline from "./AuditTimeline";
+import { useAuditLog } from "../api/queries";
+
+type EntityHistoryProps = {
+  nodeId?: string;
+  documentId?: string;
+  palette: any;
+  pageSize?: number;
+};
+
+/**
+ * Audit events scoped to one node (including its documents) or one document.
+ */
+export default function EntityHistory({
+  nodeId,
+  documentId,
+  palette,
+  pageSize = 10,
+}: EntityHistoryProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, error } = useAuditLog({ nodeId, documentId, page, pageSize });
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const fullLogPath = `/audit?${new URLSearchParams(
+    documentId ? { documentId } : { nodeId: nodeId ?? "" }
+  )}`;
+
+  if (isLoading) {
+    return (
+      <Group gap="xs">
+        <Loader size="sm" />
+        <Text size="sm" c={palette.textSoft}>
+          Loading history...
+        </Text>
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Text size="sm" c="red.3">
+        {error}
+      </Text>
+    );
+  }
+
+  if (!data || data.items.length === 0) {
+    return (
+      <Text size="sm" c={palette.textSoft}>
+        No recorded changes yet.
+      </Text>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <AuditTimeline events={data.items} palette={palette} showTarget={!documentId} />
+      <Group justify="space-between">
+        {totalPages > 1 ? (
+          <Pagination size="sm" total={totalPages} value={page} onChange={setPage} />
+        ) : (
+          <span />
+        )}
+        <Text size="xs" component={Link} to={fullLogPath} c={palette.accent}>
+          Open in audit log
+        </Text>
+      </Group>
+    </Stack>
+  );
+}
@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Badge,
+  Group,
+  Kbd,
+  Loader,
+  Modal,
+  Stack,
+  Text,
+  TextInput,
+  UnstyledButton,
+} from "@mantine/core";
+import { useDebouncedValue, useHotkeys, useOs } from "@mantine/hooks";
+import { IconBox, IconFileText, IconLayoutGrid, IconSearch } from "@tabler/icons-react";
+import HighlightedText from "./HighlightedText";
+import { useSearch } from "../api/queries";
+import type { SearchHit, SearchHitType } from "../api/types";
+
+type GlobalSearchProps = {
+  palette: any;
+};
+
+const GROUPS: { key: "workspaces" | "nodes" | "documents"; label: string }[] = [
+  { key: "workspaces", label: "Workspaces" },
+  { key: "nodes", label: "Nodes" },
+  { key: "documents", label: "Documents" },
+];
+
+const HIT_ICONS: Record<SearchHitType, typeof IconBox> = {
+  workspace: IconLayoutGrid,
+  node: IconBox,
+  document: IconFileText,
+};
+
+// Documents open in the drawer at the matching line's section
+const hitPath = (hit: SearchHit) => {
+  switch (hit.type) {
+    case "workspace":
+      return `/workspaces/${encodeURIComponent(hit.id)}`;
+    case "node":
+      return `/nodes/${encodeURIComponent(hit.id)}`;
+    case "document":
+      return `/documents?doc=${encodeURIComponent(hit.id)}${hit.line ? `&line=${hit.line}` : ""}`;
+  }
+};
+
+/**
+ * The header search box and its Ctrl/Cmd+K palette. Searches workspace and
+ * node names and document titles and content as you type, grouped by type;
+ * arrow keys move through the results and Enter opens one.
+ */
+export default function GlobalSearch({ palette }: GlobalSearchProps) {
+  const navigate = useNavigate();
+  const os = useOs();
+  const [opened, setOpened] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery] = useDebouncedValue(query, 200);
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { data: results, isFetching, error } = useSearch(debouncedQuery, { enabled: opened });
+
+  // Works from inside inputs and editors too, like other apps' palettes
+  useHotkeys([["mod+K", () => setOpened(true)]], [], true);
+
+  const hits = results ? GROUPS.flatMap((group) => results[group.key].hits) : [];
+
+  useEffect(() => setActive(0), [results]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const close = () => {
+    setOpened(false);
+    setQuery("");
+  };
+
+  const open = (hit: SearchHit) => {
+    close();
+    navigate(hitPath(hit));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (hits.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((index) => (index + 1) % hits.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((index) => (index - 1 + hits.length) % hits.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      open(hits[active] ?? hits[0]);
+    }
+  };
+
+  const modKey = os === "macos" || os === "ios" ? "⌘" : "Ctrl";
+  const terms = results?.terms ?? [];
+  let offset = 0;
+
+  return (
+    <>
+      <UnstyledButton
+        onClick={() => setOpened(true)}
+        aria-label="Search"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 8,
+          width: 280,
+          padding: "6px 10px",
+          borderRadius: 8,
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+          color: palette.textSoft,
+        }}
+      >
+        <IconSearch size={16} />
+        <Text size="sm" c={palette.textSoft} style={{ flex: 1 }}>
+          Search
+        </Text>
+        <Group gap={2}>
+          <Kbd size="xs">{modKey}</Kbd>
+          <Kbd size="xs">K</Kbd>
+        </Group>
+      </UnstyledButton>
+
+      <Modal
+        opened={opened}
+        onClose={close}
+        withCloseButton={false}
+        size="lg"
+        yOffset="10vh"
+        padding={0}
+        styles={{
+          content: {
+            backgroundColor: palette.surface,
+            color: palette.text,
+            border: `1px solid ${palette.border}`,
+          },
+        }}
+      >
+        <TextInput
+          data-autofocus
+          placeholder="Search workspaces, nodes and documents"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          leftSection={<IconSearch size={18} />}
+          rightSection={isFetching ? <Loader size="xs" /> : null}
+          size="md"
+          styles={{
+            input: {
+              backgroundColor: palette.surface,
+              border: "none",
+              borderBottom: `1px solid ${palette.border}`,
+              borderRadius: 0,
+              color: palette.text,
+            },
+          }}
+        />
+
+        <Stack ref={listRef} gap="xs" p="sm" mah="55vh" style={{ overflowY: "auto" }}>
+          {!debouncedQuery.trim() && (
+            <Text size="sm" c={palette.textSoft}>
+              Type a workspace, node or document name, or words from a document.
+            </Text>
+          )}
+
+          {error && (
+            <Text size="sm" c="red.3">
+              {error}
+            </Text>
+          )}
+
+          {results && hits.length === 0 && (
+            <Text size="sm" c={palette.textSoft}>
+              Nothing matches "{results.query}".
+            </Text>
+          )}
+
+          {results &&
+            GROUPS.map((group) => {
+              const { hits: groupHits, total } = results[group.key];
+              const start = offset;
+              offset += groupHits.length;
+              if (groupHits.length === 0) return null;
+              return (
+                <Stack key={group.key} gap={2}>
+                  <Group gap="xs">
+                    <Text
+                      size="xs"
+                      fw={600}
+                      c={palette.textSoft}
+                      style={{ letterSpacing: 1, textTransform: "uppercase" }}
+                    >
+                      {group.label}
+                    </Text>
+                    {total > groupHits.length && (
+                      <Text size="xs" c={palette.textSoft}>
+                        {groupHits.length} of {total}
+                      </Text>
+                    )}
+                  </Group>
+                  {groupHits.map((hit, index) => {
+                    const position = start + index;
+                    const Icon = HIT_ICONS[hit.type];
+                    return (
+                      <UnstyledButton
+                        key={`${hit.type}-${hit.id}`}
+                        data-index={position}
+                        onClick={() => open(hit)}
+                        onMouseEnter={() => setActive(position)}
+                        style={{
+                          padding: "6px 8px",
+                          borderRadius: 6,
+                          backgroundColor: position === active ? palette.header : "transparent",
+                        }}
+                      >
+                        <Group gap="sm" wrap="nowrap" align="flex-start">
+                          <Icon
+                            size={18}
+                            color={palette.textSoft}
+                            style={{ flexShrink: 0, marginTop: 2 }}
+                          />
+                          <Stack gap={2} style={{ minWidth: 0 }}>
+                            <Group gap="xs">
+                              <Text size="sm" fw={500} c={palette.text}>
+                                <HighlightedText
+                                  text={hit.title}
+                                  terms={terms}
+                                  palette={palette}
+                                  prefix
+                                />
+                              </Text>
+                              {hit.isGovernance && (
+                                <Badge color="grape" variant="light" size="xs">
+                                  Governance
+                                </Badge>
+                              )}
+                            </Group>
+                            <Text size="xs" c={palette.textSoft}>
+                              {hit.context}
+                            </Text>
+                            {hit.snippet && (
+                              <Text size="xs" c={palette.textSoft} lineClamp={2}>
+                                <HighlightedText
+                                  text={hit.snippet}
+                                  terms={terms}
+                                  palette={palette}
+                                  prefix
+                                />
+                              </Text>
+                            )}
+                          </Stack>
+                        </Group>
+                      </UnstyledButton>
+                    );
+                  })}
+                </Stack>
+              );
+            })}
+        </Stack>
+
+        <Group gap="md" px="sm" py={6} style={{ borderTop: `1px solid ${palette.border}` }}>
+          <Text size="xs" c={palette.textSoft}>
+            <Kbd size="xs">↑</Kbd> <Kbd size="xs">↓</Kbd> to move
+          </Text>
+          <Text size="xs" c={palette.textSoft}>
+            <Kbd size="xs">Enter</Kbd> to open
+          </Text>
+          <Text size="xs" c={palette.textSoft}>
+            <Kbd size="xs">Esc</Kbd> to close
+          </Text>
+        </Group>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+import React from "react";
+import { highlightSegments } from "../content/retrieval";
+
+type HighlightedTextProps = {
+  text: string;
+  terms: string[];
+  palette: any;
+  // Match the start of longer words too, as global search does
+  prefix?: boolean;
+};
+
+// Renders `text` with the query terms it contains marked in the accent colour
+export default function HighlightedText({
+  text,
+  terms,
+  palette,
+  prefix = false,
+}: HighlightedTextProps) {
+  return (
+    <>
+      {highlightSegments(text, terms, { prefix }).map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            style={{
+              backgroundColor: palette.accent,
+              color: palette.background,
+              borderRadius: 2,
+            }}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
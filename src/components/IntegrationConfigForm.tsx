@@ -0,0 +1,99 @@
+import React from "react";
+import { PasswordInput, Select, Stack, TextInput } from "@mantine/core";
+import type { IntegrationField } from "../api/types";
+
+type IntegrationConfigFormProps = {
+  fields: IntegrationField[];
+  config: Record<string, string>;
+  // New secret values typed in this session; stored ones are never loaded
+  secrets: Record<string, string>;
+  // Secret fields that already have a stored value
+  secretsSet: string[];
+  onConfigChange: (config: Record<string, string>) => void;
+  onSecretsChange: (secrets: Record<string, string>) => void;
+  palette: any;
+  disabled?: boolean;
+};
+
+/**
+ * Renders an integration kind's config schema. Secret inputs start empty even
+ * when a value is stored; leaving them empty keeps the stored secret.
+ */
+export default function IntegrationConfigForm({
+  fields,
+  config,
+  secrets,
+  secretsSet,
+  onConfigChange,
+  onSecretsChange,
+  palette,
+  disabled = false,
+}: IntegrationConfigFormProps) {
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.header,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    description: {
+      color: palette.textSoft,
+    },
+  };
+
+  return (
+    <Stack gap="sm">
+      {fields.map((field) => {
+        if (field.type === "secret") {
+          const stored = secretsSet.includes(field.key);
+          return (
+            <PasswordInput
+              key={field.key}
+              label={field.label}
+              description={field.help}
+              placeholder={stored ? "Saved (leave empty to keep)" : field.placeholder}
+              value={secrets[field.key] ?? ""}
+              onChange={(e) => onSecretsChange({ ...secrets, [field.key]: e.target.value })}
+              required={field.required && !stored}
+              disabled={disabled}
+              autoComplete="new-password"
+              styles={inputStyles}
+            />
+          );
+        }
+        if (field.type === "select") {
+          return (
+            <Select
+              key={field.key}
+              label={field.label}
+              description={field.help}
+              value={config[field.key] || null}
+              onChange={(value) => onConfigChange({ ...config, [field.key]: value ?? "" })}
+              data={field.options ?? []}
+              required={field.required}
+              clearable={!field.required}
+              disabled={disabled}
+              styles={inputStyles}
+            />
+          );
+        }
+        return (
+          <TextInput
+            key={field.key}
+            type={field.type === "url" ? "url" : "text"}
+            label={field.label}
+            description={field.help}
+            placeholder={field.placeholder}
+            value={config[field.key] ?? ""}
+            onChange={(e) => onConfigChange({ ...config, [field.key]: e.target.value })}
+            required={field.required}
+            disabled={disabled}
+            styles={inputStyles}
+          />
+        );
+      })}
+    </Stack>
+  );
+}
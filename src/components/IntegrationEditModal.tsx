@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Group,
+  Loader,
+  Modal,
+  Paper,
+  SimpleGrid,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { IconArrowLeft } from "@tabler/icons-react";
+import IntegrationConfigForm from "./IntegrationConfigForm";
+import { useCreateIntegration, useIntegrationCatalog, useUpdateIntegration } from "../api/queries";
+import type { Integration, IntegrationKindInfo } from "../api/types";
+
+type IntegrationEditModalProps = {
+  opened: boolean;
+  nodeId: string;
+  // Integration to reconfigure; null picks a kind from the catalog and connects a new one
+  integration: Integration | null;
+  palette: any;
+  onClose: () => void;
+  onSaved?: (integration: Integration) => void;
+};
+
+// Stable fallback so the reset effect below doesn't rerun on every render
+const NO_KINDS: IntegrationKindInfo[] = [];
+
+/**
+ * Connects a new integration from the catalog, or reconfigures an existing
+ * one. The form is driven by the kind's config schema; secrets are only ever
+ * sent, and a stored secret stays as it is unless a new value is typed.
+ */
+export default function IntegrationEditModal({
+  opened,
+  nodeId,
+  integration,
+  palette,
+  onClose,
+  onSaved,
+}: IntegrationEditModalProps) {
+  const {
+    data: catalog = NO_KINDS,
+    isLoading: catalogLoading,
+    error: catalogError,
+  } = useIntegrationCatalog({ enabled: opened });
+  const createIntegration = useCreateIntegration();
+  const updateIntegration = useUpdateIntegration();
+
+  const [kind, setKind] = useState<IntegrationKindInfo | null>(null);
+  const [name, setName] = useState("");
+  const [config, setConfig] = useState<Record<string, string>>({});
+  const [secrets, setSecrets] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the modal opens (and once the catalog arrives)
+  useEffect(() => {
+    if (!opened) return;
+    setKind(
+      integration ? (catalog.find((entry) => entry.kind === integration.kind) ?? null) : null
+    );
+    setName(integration?.name ?? "");
+    setConfig(integration?.config ?? {});
+    setSecrets({});
+    setError(null);
+  }, [opened, integration, catalog]);
+
+  const pickKind = (entry: IntegrationKindInfo) => {
+    setKind(entry);
+    setName(entry.label);
+    setConfig({});
+    setSecrets({});
+    setError(null);
+  };
+
+  const validate = (entry: IntegrationKindInfo) => {
+    if (!name.trim()) return "Name is required";
+    const missing = entry.fields.find((field) =>
+      field.type === "secret"
+        ? field.required &&
+          !secrets[field.key]?.trim() &&
+          !integration?.secretsSet.includes(field.key)
+        : field.required && !config[field.key]?.trim()
+    );
+    return missing ? `${missing.label} is required` : null;
+  };
+
+  const handleSave = async () => {
+    if (!kind) return;
+    const invalid = validate(kind);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    // Only send secrets that were typed; empty ones keep the stored value
+    const typedSecrets = Object.fromEntries(
+      Object.entries(secrets).filter(([, value]) => value.trim())
+    );
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = integration
+        ? await updateIntegration(integration, {
+            name: name.trim(),
+            config,
+            secrets: typedSecrets,
+          })
+        : await createIntegration({
+            nodeId,
+            kind: kind.kind,
+            name: name.trim(),
+            config,
+            secrets: typedSecrets,
+          });
+      setSecrets({});
+      onSaved?.(saved);
+      onClose();
+    } catch (err: any) {
+      console.error("Error saving integration", err);
+      setError(err?.message ?? "Failed to save integration");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={
+        integration
+          ? `Configure ${integration.name}`
+          : kind
+            ? `Connect ${kind.label}`
+            : "Add Integration"
+      }
+      size="lg"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {(error || catalogError) && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error || catalogError}
+          </Alert>
+        )}
+
+        {catalogLoading && (
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm" c={palette.textSoft}>
+              Loading integration catalog...
+            </Text>
+          </Group>
+        )}
+
+        {!catalogLoading && !kind && !integration && (
+          <>
+            <Text size="xs" c={palette.textSoft}>
+              Pick the system to connect. Each kind asks for the settings and credentials it needs.
+            </Text>
+            <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+              {catalog.map((entry) => (
+                <Paper
+                  key={entry.kind}
+                  p="sm"
+                  radius="md"
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => pickKind(entry)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      pickKind(entry);
+                    }
+                  }}
+                  style={{
+                    cursor: "pointer",
+                    backgroundColor: palette.header,
+                    border: `1px solid ${palette.border}`,
+                  }}
+                >
+                  <Stack gap={4}>
+                    <Text fw={600} size="sm" c={palette.text}>
+                      {entry.label}
+                    </Text>
+                    <Text size="xs" c={palette.textSoft}>
+                      {entry.description}
+                    </Text>
+                  </Stack>
+                </Paper>
+              ))}
+            </SimpleGrid>
+          </>
+        )}
+
+        {kind && (
+          <>
+            {!integration && (
+              <Group>
+                <Button
+                  leftSection={<IconArrowLeft size={14} />}
+                  onClick={() => setKind(null)}
+                  size="xs"
+                  variant="subtle"
+                  disabled={saving}
+                  styles={{
+                    root: {
+                      color: palette.text,
+                    },
+                  }}
+                >
+                  All integrations
+                </Button>
+              </Group>
+            )}
+
+            <Text size="xs" c={palette.textSoft}>
+              {kind.description}
+            </Text>
+
+            <TextInput
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              disabled={saving}
+              styles={{
+                input: {
+                  backgroundColor: palette.header,
+                  borderColor: palette.border,
+                  color: palette.text,
+                },
+                label: {
+                  color: palette.text,
+                },
+              }}
+            />
+
+            <IntegrationConfigForm
+              fields={kind.fields}
+              config={config}
+              secrets={secrets}
+              secretsSet={integration?.secretsSet ?? []}
+              onConfigChange={setConfig}
+              onSecretsChange={setSecrets}
+              palette={palette}
+              disabled={saving}
+            />
+
+            <Text size="xs" c={palette.textSoft}>
+              Secrets are write-only: Continuum stores them but never shows them again. Saving is
+              applied immediately and logged without secret values.
+            </Text>
+          </>
+        )}
+
+        <Group justify="flex-end" gap="xs">
+          <Button
+            variant="subtle"
+            onClick={onClose}
+            disabled={saving}
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Cancel
+          </Button>
+          {kind && (
+            <Button
+              onClick={handleSave}
+              loading={saving}
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              {integration ? "Save" : "Connect"}
+            </Button>
+          )}
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
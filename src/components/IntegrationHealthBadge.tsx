@@ -0,0 +1,38 @@
+import React from "react";
+import { Badge, Tooltip } from "@mantine/core";
+import type { IntegrationHealth, IntegrationHealthStatus } from "../api/types";
+
+const HEALTH_COLORS: Record<IntegrationHealthStatus, string> = {
+  unknown: "gray",
+  healthy: "green",
+  degraded: "yellow",
+  failing: "red",
+};
+
+const HEALTH_LABELS: Record<IntegrationHealthStatus, string> = {
+  unknown: "Not tested",
+  healthy: "Healthy",
+  degraded: "Degraded",
+  failing: "Failing",
+};
+
+const describe = ({ message, latencyMs, checkedAt }: IntegrationHealth) =>
+  checkedAt
+    ? [
+        message,
+        latencyMs !== null ? `${latencyMs}ms` : null,
+        `checked ${new Date(checkedAt).toLocaleString()}`,
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    : "Run a connection test to check this integration";
+
+export default function IntegrationHealthBadge({ health }: { health: IntegrationHealth }) {
+  return (
+    <Tooltip label={describe(health)} multiline maw={320}>
+      <Badge color={HEALTH_COLORS[health.status]} variant="light" size="sm">
+        {HEALTH_LABELS[health.status]}
+      </Badge>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Group,
+  Modal,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { useCreateKnowledgeStore, useNodes, useWorkspaces } from "../api/queries";
+import { KNOWLEDGE_PURPOSES } from "../content/knowledgeStores";
+import type { KnowledgeStore, KnowledgeStorePurpose } from "../api/types";
+
+type KnowledgeStoreCreateModalProps = {
+  opened: boolean;
+  palette: any;
+  // Preselects the workspace the list is filtered to
+  workspaceId?: string | null;
+  onClose: () => void;
+  onCreated?: (store: KnowledgeStore) => void;
+};
+
+/**
+ * Creates an empty knowledge store scoped to a workspace, or to one node in it.
+ * Members are added on the store's page; the scope decides which documents
+ * can join.
+ */
+export default function KnowledgeStoreCreateModal({
+  opened,
+  palette,
+  workspaceId: initialWorkspaceId,
+  onClose,
+  onCreated,
+}: KnowledgeStoreCreateModalProps) {
+  const { data: workspaces = [] } = useWorkspaces();
+  const createKnowledgeStore = useCreateKnowledgeStore();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [purpose, setPurpose] = useState<KnowledgeStorePurpose>("rag");
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [nodeId, setNodeId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: nodes = [], isLoading: nodesLoading } = useNodes(workspaceId, {
+    enabled: opened && !!workspaceId,
+  });
+
+  useEffect(() => {
+    if (!opened) return;
+    setName("");
+    setDescription("");
+    setPurpose("rag");
+    setWorkspaceId(initialWorkspaceId ?? null);
+    setNodeId(null);
+    setError(null);
+  }, [opened]);
+
+  const handleCreate = async () => {
+    if (!workspaceId || !name.trim()) {
+      setError("Pick a workspace and enter a name");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      const store = await createKnowledgeStore({
+        workspaceId,
+        nodeId,
+        name: name.trim(),
+        description: description.trim(),
+        purpose,
+      });
+      onCreated?.(store);
+      onClose();
+    } catch (err: any) {
+      console.error("Error creating knowledge store", err);
+      setError(err?.message ?? "Failed to create knowledge store");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.header,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    description: {
+      color: palette.textSoft,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="New Knowledge Store"
+      size="lg"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {error && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <TextInput
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          disabled={saving}
+          styles={inputStyles}
+        />
+
+        <Textarea
+          label="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          autosize
+          minRows={2}
+          disabled={saving}
+          styles={inputStyles}
+        />
+
+        <Select
+          label="Purpose"
+          description={KNOWLEDGE_PURPOSES.find((entry) => entry.value === purpose)?.description}
+          value={purpose}
+          onChange={(value) => value && setPurpose(value as KnowledgeStorePurpose)}
+          data={KNOWLEDGE_PURPOSES.map((entry) => ({ value: entry.value, label: entry.label }))}
+          allowDeselect={false}
+          disabled={saving}
+          styles={inputStyles}
+        />
+
+        <Group grow align="flex-start">
+          <Select
+            label="Workspace"
+            value={workspaceId}
+            onChange={(value) => {
+              setWorkspaceId(value);
+              setNodeId(null);
+            }}
+            data={workspaces.map((workspace) => ({ value: workspace.id, label: workspace.name }))}
+            required
+            disabled={saving}
+            styles={inputStyles}
+          />
+          <Select
+            label="Node"
+            description="Leave empty to span the whole workspace"
+            value={nodeId ?? ""}
+            onChange={(value) => setNodeId(value || null)}
+            data={[
+              { value: "", label: "Whole workspace" },
+              ...nodes.map((node) => ({ value: node.id, label: node.name })),
+            ]}
+            disabled={saving || !workspaceId || nodesLoading}
+            styles={inputStyles}
+          />
+        </Group>
+
+        <Text size="xs" c={palette.textSoft}>
+          A store only points at its members, so creating one applies immediately and is logged.
+          Documents keep their own governance.
+        </Text>
+
+        <Group justify="flex-end" gap="xs">
+          <Button
+            variant="subtle"
+            onClick={onClose}
+            disabled={saving}
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            loading={saving}
+            disabled={!workspaceId || !name.trim()}
+            styles={{
+              root: {
+                backgroundColor: palette.accent,
+                color: palette.background,
+              },
+            }}
+          >
+            Create
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
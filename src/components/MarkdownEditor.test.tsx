@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { act, fireEvent, screen } from "@testing-library/react";
+import MarkdownEditor from "./MarkdownEditor";
+import { renderWithMantine, testPalette } from "../test/render";
+
+// Markdown MDXEditor would rewrite when it normalises: `*` bullets, `__` strong,
+// a setext heading, a fence without a language and a table with loose spacing
+const SOURCE = [
+  "Setup guide",
+  "===========",
+  "",
+  "* first item",
+  "* __second__ item",
+  "",
+  "```",
+  "plain fenced text",
+  "```",
+  "",
+  "|a|b|",
+  "|-|-|",
+  "|1|2|",
+  "",
+].join("\n");
+
+// Lets MDXEditor finish its initial import, which happens after the first render
+const settle = () => act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+function Harness({ onChange }: { onChange: (value: string) => void }) {
+  const [value, setValue] = useState(SOURCE);
+  return (
+    <MarkdownEditor
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next);
+      }}
+      palette={testPalette}
+      label="Content"
+    />
+  );
+}
+
+const switchMode = (label: string) => fireEvent.click(screen.getByText(label));
+
+describe("MarkdownEditor round-trip", () => {
+  it("leaves untouched markdown byte-for-byte unchanged when opened in the editor", async () => {
+    const onChange = vi.fn();
+    renderWithMantine(<Harness onChange={onChange} />);
+    await settle();
+
+    expect(screen.getByText("first item")).toBeTruthy();
+    expect(onChange).not.toHaveBeenCalled();
+
+    switchMode("Source");
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe(SOURCE);
+  });
+
+  it("keeps source edits exactly as typed across a trip through the editor", async () => {
+    const onChange = vi.fn();
+    renderWithMantine(<Harness onChange={onChange} />);
+    await settle();
+
+    switchMode("Source");
+    const edited = `${SOURCE}* third item\n`;
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: edited } });
+    expect(onChange).toHaveBeenLastCalledWith(edited);
+
+    switchMode("Editor");
+    await settle();
+    switchMode("Source");
+
+    expect((screen.getByRole("textbox") as HTMLTextAreaElement).value).toBe(edited);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Box,
+  Group,
+  SegmentedControl,
+  Text,
+  Textarea,
+} from "@mantine/core";
+import {
+  MDXEditor,
+  type MDXEditorMethods,
+  headingsPlugin,
+  listsPlugin,
+  quotePlugin,
+  linkPlugin,
+  linkDialogPlugin,
+  tablePlugin,
+  thematicBreakPlugin,
+  codeBlockPlugin,
+  codeMirrorPlugin,
+  markdownShortcutPlugin,
+  toolbarPlugin,
+  UndoRedo,
+  BoldItalicUnderlineToggles,
+  CodeToggle,
+  CreateLink,
+  InsertTable,
+  ListsToggle,
+  BlockTypeSelect,
+  InsertCodeBlock,
+} from "@mdxeditor/editor";
+import "@mdxeditor/editor/style.css";
+import ContinuumMarkdown from "./ContinuumMarkdown";
+import classes from "./MarkdownEditor.module.css";
+
+type EditorMode = "rich" | "source" | "preview";
+
+type MarkdownEditorProps = {
+  value: string;
+  onChange: (value: string) => void;
+  palette: any;
+  label?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  minHeight?: number;
+};
+
+// "" keeps fences without a language editable instead of flagging them
+const CODE_BLOCK_LANGUAGES = {
+  "": "Plain text",
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+  python: "Python",
+  bash: "Bash",
+  json: "JSON",
+  yaml: "YAML",
+  sql: "SQL",
+  markdown: "Markdown",
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter((w) => w.length > 0).length;
+
+/**
+ * Markdown editor built on MDXEditor (see docs/editor-spike.md), with a raw
+ * source mode and a rendered preview. `value` is always the markdown string,
+ * so switching modes never rewrites what the user typed in source mode.
+ */
+export default function MarkdownEditor({
+  value,
+  onChange,
+  palette,
+  label,
+  placeholder,
+  disabled = false,
+  minHeight = 240,
+}: MarkdownEditorProps) {
+  const [mode, setMode] = useState<EditorMode>("rich");
+  const editorRef = useRef<MDXEditorMethods>(null);
+  // Last markdown the editor itself reported, to tell parent resets from echoes
+  const lastEmitted = useRef(value);
+
+  useEffect(() => {
+    if (value === lastEmitted.current) return;
+    lastEmitted.current = value;
+    editorRef.current?.setMarkdown(value);
+  }, [value]);
+
+  const emit = (markdown: string) => {
+    lastEmitted.current = markdown;
+    onChange(markdown);
+  };
+
+  const themeVars = {
+    "--me-background": palette.background,
+    "--me-surface": palette.surface,
+    "--me-header": palette.header,
+    "--me-border": palette.border,
+    "--me-text": palette.text,
+    "--me-text-soft": palette.textSoft,
+    "--me-accent": palette.accent,
+    "--me-min-height": `${minHeight}px`,
+  } as React.CSSProperties;
+
+  return (
+    <Box style={themeVars}>
+      <Group justify="space-between" mb={6}>
+        <Text size="sm" fw={500} c={palette.text}>
+          {label}
+        </Text>
+        <SegmentedControl
+          size="xs"
+          value={mode}
+          onChange={(next) => setMode(next as EditorMode)}
+          data={[
+            { value: "rich", label: "Editor" },
+            { value: "source", label: "Source" },
+            { value: "preview", label: "Preview" },
+          ]}
+        />
+      </Group>
+
+      <Box
+        style={{
+          border: `1px solid ${palette.border}`,
+          borderRadius: "8px",
+          overflow: "hidden",
+          backgroundColor: palette.background,
+        }}
+      >
+        {mode === "rich" && (
+          <MDXEditor
+            ref={editorRef}
+            markdown={value}
+            // Skip the parser's normalisation pass so untouched markdown round-trips as-is
+            onChange={(markdown, initialMarkdownNormalize) => {
+              if (!initialMarkdownNormalize) emit(markdown);
+            }}
+            className={classes.root}
+            contentEditableClassName={classes.content}
+            placeholder={placeholder}
+            readOnly={disabled}
+            plugins={[
+              headingsPlugin(),
+              listsPlugin(),
+              quotePlugin(),
+              linkPlugin(),
+              linkDialogPlugin(),
+              tablePlugin(),
+              thematicBreakPlugin(),
+              codeBlockPlugin({ defaultCodeBlockLanguage: "" }),
+              codeMirrorPlugin({ codeBlockLanguages: CODE_BLOCK_LANGUAGES }),
+              markdownShortcutPlugin(),
+              toolbarPlugin({
+                toolbarContents: () => (
+                  <>
+                    <UndoRedo />
+                    <BoldItalicUnderlineToggles />
+                    <CodeToggle />
+                    <CreateLink />
+                    <InsertTable />
+                    <ListsToggle />
+                    <BlockTypeSelect />
+                    <InsertCodeBlock />
+                  </>
+                ),
+              }),
+            ]}
+          />
+        )}
+
+        {mode === "source" && (
+          <Textarea
+            value={value}
+            onChange={(e) => emit(e.target.value)}
+            placeholder={placeholder}
+            disabled={disabled}
+            autosize
+            minRows={Math.max(4, Math.round(minHeight / 24))}
+            variant="unstyled"
+            styles={{
+              input: {
+                color: palette.text,
+                fontFamily: "var(--font-mono)",
+                padding: "12px 16px",
+              },
+            }}
+          />
+        )}
+
+        {mode === "preview" && (
+          <Box p="md" style={{ minHeight }}>
+            {value.trim() ? (
+              <ContinuumMarkdown content={value} palette={palette} />
+            ) : (
+              <Text size="xs" c={palette.textSoft} style={{ fontStyle: "italic" }}>
+                Nothing to preview
+              </Text>
+            )}
+          </Box>
+        )}
+      </Box>
+
+      <Text size="xs" c={palette.textSoft} mt={4}>
+        Characters: {value.length} | Words: {countWords(value)}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,379 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Group,
+  Paper,
+  SegmentedControl,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { IconSend } from "@tabler/icons-react";
+import { useCoreApi } from "../context/CoreApiContext";
+import {
+  jsonRpcMessageOf,
+  sendJsonRpc,
+  type JsonRpcExchange,
+  type JsonRpcRequest,
+  type McpSession,
+} from "../api/jsonRpc";
+import { MCP_PROTOCOL_VERSION, inputSchemaIssues, sampleArguments } from "../content/mcpTools";
+import type { McpServer } from "../api/types";
+
+type McpInspectorProps = {
+  server: McpServer;
+  palette: any;
+};
+
+type InspectorMethod = "initialize" | "tools/list" | "tools/call";
+
+// Older exchanges drop off so a long session doesn't grow without bound
+const MAX_EXCHANGES = 20;
+
+const prettyBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+// The JSON-RPC error in a response body, if it parses and has one
+const rpcErrorOf = (body: string): { code: number; message: string } | null =>
+  jsonRpcMessageOf(body)?.error ?? null;
+
+/**
+ * Checks each saved tool's input schema and sends sample JSON-RPC requests to
+ * the server's endpoint, or any other MCP endpoint, showing the raw exchange.
+ * `initialize` runs the full handshake, and later requests to that endpoint
+ * carry the session it opened. Calls only read; the mock endpoint simulates
+ * anything that would act.
+ */
+export default function McpInspector({ server, palette }: McpInspectorProps) {
+  const api = useCoreApi();
+  const [url, setUrl] = useState(() => api.mcpServers.rpcUrl(server.id));
+  const [method, setMethod] = useState<InspectorMethod>("tools/list");
+  const [toolName, setToolName] = useState<string | null>(server.tools[0]?.name ?? null);
+  const [argsText, setArgsText] = useState("{}");
+  const [pretty, setPretty] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [exchanges, setExchanges] = useState<JsonRpcExchange[]>([]);
+  const [session, setSession] = useState<(McpSession & { url: string }) | null>(null);
+  const nextId = useRef(1);
+
+  const endpoint = url.trim();
+  // A session belongs to the endpoint that opened it
+  const activeSession = session?.url === endpoint ? session : null;
+
+  const tool = server.tools.find((candidate) => candidate.name === toolName) ?? null;
+
+  // Prefill placeholders for the selected tool's required arguments; a refetch
+  // of the same version keeps whatever was typed
+  useEffect(() => {
+    if (!tool && server.tools.length > 0) {
+      setToolName(server.tools[0].name);
+      return;
+    }
+    setArgsText(JSON.stringify(sampleArguments(tool?.inputSchema), null, 2));
+  }, [toolName, server.version]);
+
+  let args: Record<string, unknown> | null = null;
+  let argsError: string | null = null;
+  if (method === "tools/call") {
+    try {
+      args = JSON.parse(argsText);
+    } catch (err: any) {
+      argsError = `Arguments are not valid JSON: ${err?.message ?? err}`;
+    }
+  }
+
+  const params: Record<string, unknown> | undefined =
+    method === "initialize"
+      ? {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: "continuum-inspector", version: "1" },
+        }
+      : method === "tools/call"
+        ? { name: toolName, arguments: args ?? {} }
+        : undefined;
+  const preview: JsonRpcRequest = {
+    jsonrpc: "2.0",
+    id: nextId.current,
+    method,
+    ...(params ? { params } : {}),
+  };
+
+  const handleSend = async () => {
+    nextId.current += 1;
+    setSending(true);
+    const sent: JsonRpcExchange[] = [];
+    if (method === "initialize") {
+      // A new handshake replaces whatever session the endpoint had
+      const exchange = await sendJsonRpc(endpoint, preview);
+      sent.push(exchange);
+      const result =
+        exchange.status !== null && exchange.status < 300
+          ? jsonRpcMessageOf(exchange.body)?.result
+          : null;
+      if (result) {
+        const opened = {
+          url: endpoint,
+          sessionId: exchange.sessionId,
+          protocolVersion: result.protocolVersion ?? MCP_PROTOCOL_VERSION,
+        };
+        setSession(opened);
+        // The server waits for this before treating the session as ready
+        sent.push(
+          await sendJsonRpc(
+            endpoint,
+            { jsonrpc: "2.0", method: "notifications/initialized" },
+            opened
+          )
+        );
+      } else {
+        setSession(null);
+      }
+    } else {
+      const exchange = await sendJsonRpc(endpoint, preview, activeSession);
+      sent.push(exchange);
+      // A 404 on a session means the server ended it; initialize starts a new one
+      if (exchange.status === 404 && activeSession?.sessionId) setSession(null);
+    }
+    setExchanges((prev) => [...sent.reverse(), ...prev].slice(0, MAX_EXCHANGES));
+    setSending(false);
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  const codeStyle: React.CSSProperties = {
+    margin: 0,
+    maxHeight: 320,
+    overflow: "auto",
+    backgroundColor: palette.background,
+    border: `1px solid ${palette.border}`,
+    borderRadius: 8,
+    padding: 12,
+    fontFamily: "monospace",
+    fontSize: 12,
+    lineHeight: 1.5,
+    color: palette.text,
+    whiteSpace: "pre-wrap",
+    wordBreak: "break-word",
+  };
+
+  return (
+    <Stack gap="md">
+      <Stack gap="xs">
+        <Text size="sm" fw={600} c={palette.text}>
+          Input schemas
+        </Text>
+        {server.tools.length === 0 && (
+          <Text size="sm" c={palette.textSoft}>
+            This server has no tools.
+          </Text>
+        )}
+        {server.tools.map((entry) => {
+          const issues = inputSchemaIssues(entry.inputSchema);
+          return (
+            <Group key={entry.name} gap="xs" align="flex-start" wrap="nowrap">
+              <Badge
+                color={issues.length > 0 ? "red" : "green"}
+                variant="light"
+                size="sm"
+                style={{ flexShrink: 0 }}
+              >
+                {issues.length > 0 ? "Invalid" : "Valid"}
+              </Badge>
+              <Stack gap={2}>
+                <Text size="sm" ff="monospace" c={palette.text}>
+                  {entry.name}
+                </Text>
+                {issues.map((issue) => (
+                  <Text key={issue} size="xs" c="red.3">
+                    {issue}
+                  </Text>
+                ))}
+              </Stack>
+            </Group>
+          );
+        })}
+      </Stack>
+
+      <Paper
+        p="sm"
+        radius="md"
+        style={{
+          backgroundColor: palette.header,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="sm">
+          <TextInput
+            label="Endpoint"
+            description="Defaults to this server's endpoint on the Core API; point it at any locally running MCP server."
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            styles={{ ...inputStyles, description: { color: palette.textSoft } }}
+          />
+          <Text size="xs" c={palette.textSoft}>
+            {activeSession
+              ? `Session ${activeSession.sessionId ?? "not tracked by this server"} · protocol ${activeSession.protocolVersion}`
+              : "Not initialized. Servers that track sessions reject other requests until initialize succeeds."}
+          </Text>
+
+          <SegmentedControl
+            size="xs"
+            value={method}
+            onChange={(next) => setMethod(next as InspectorMethod)}
+            data={["initialize", "tools/list", "tools/call"]}
+          />
+
+          {method === "tools/call" && (
+            <>
+              <Select
+                label="Tool"
+                value={toolName}
+                onChange={setToolName}
+                data={server.tools.map((entry) => entry.name)}
+                allowDeselect={false}
+                styles={inputStyles}
+              />
+              <Textarea
+                label="Arguments"
+                value={argsText}
+                onChange={(e) => setArgsText(e.target.value)}
+                autosize
+                minRows={3}
+                maxRows={12}
+                spellCheck={false}
+                error={argsError}
+                styles={{
+                  ...inputStyles,
+                  input: {
+                    ...inputStyles.input,
+                    fontFamily: "var(--mantine-font-family-monospace)",
+                    fontSize: 12,
+                  },
+                }}
+              />
+            </>
+          )}
+
+          <Text size="xs" c={palette.textSoft}>
+            Request
+          </Text>
+          <Box component="pre" style={codeStyle}>
+            {JSON.stringify(preview, null, 2)}
+          </Box>
+
+          <Group justify="flex-end">
+            <Button
+              onClick={handleSend}
+              loading={sending}
+              leftSection={<IconSend size={14} />}
+              disabled={!endpoint || !!argsError || (method === "tools/call" && !toolName)}
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              Send
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      {exchanges.length > 0 && (
+        <Stack gap="xs">
+          <Group justify="space-between">
+            <Text size="sm" fw={600} c={palette.text}>
+              Responses
+            </Text>
+            <Switch
+              size="xs"
+              label="Pretty-print"
+              checked={pretty}
+              onChange={(e) => setPretty(e.currentTarget.checked)}
+              styles={{ label: { color: palette.text } }}
+            />
+          </Group>
+          {exchanges.map((exchange) => {
+            const rpcError = exchange.body ? rpcErrorOf(exchange.body) : null;
+            const httpOk = exchange.status !== null && exchange.status < 300;
+            return (
+              <Paper
+                key={exchange.id}
+                p="sm"
+                radius="md"
+                style={{
+                  backgroundColor: palette.background,
+                  border: `1px solid ${palette.border}`,
+                }}
+              >
+                <Stack gap="xs">
+                  <Group gap="xs">
+                    <Text size="sm" ff="monospace" fw={600} c={palette.text}>
+                      {exchange.request.method}
+                      {exchange.request.method === "tools/call"
+                        ? ` ${exchange.request.params?.name}`
+                        : ""}
+                    </Text>
+                    <Badge color={httpOk ? "green" : "red"} variant="light" size="sm">
+                      {exchange.status ?? "No response"}
+                    </Badge>
+                    {rpcError && (
+                      <Badge color="red" variant="light" size="sm">
+                        JSON-RPC {rpcError.code}
+                      </Badge>
+                    )}
+                    <Text size="xs" c={palette.textSoft}>
+                      {exchange.durationMs} ms · {new Date(exchange.sentAt).toLocaleTimeString()}
+                      {exchange.contentType ? ` · ${exchange.contentType}` : ""}
+                    </Text>
+                  </Group>
+                  {exchange.error ? (
+                    <Text size="xs" c="red.3">
+                      {exchange.error}. Check the endpoint is running and allows cross-origin
+                      requests with the MCP session headers.
+                    </Text>
+                  ) : (
+                    <Box component="pre" style={codeStyle}>
+                      {exchange.body
+                        ? pretty
+                          ? prettyBody(exchange.body)
+                          : exchange.body
+                        : "(empty body)"}
+                    </Box>
+                  )}
+                </Stack>
+              </Paper>
+            );
+          })}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CopyButton,
+  Group,
+  Modal,
+  SegmentedControl,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { IconCheck, IconCopy, IconDownload } from "@tabler/icons-react";
+import { useCoreApi } from "../context/CoreApiContext";
+import {
+  buildClientConfig,
+  buildManifest,
+  inputSchemaIssues,
+  serverSlug,
+} from "../content/mcpTools";
+import type { McpServer } from "../api/types";
+
+type McpManifestExportModalProps = {
+  opened: boolean;
+  server: McpServer;
+  palette: any;
+  onClose: () => void;
+};
+
+type ExportFormat = "manifest" | "config";
+
+/**
+ * Exports an MCP server as JSON other tools can consume: the manifest describes
+ * the server and every tool schema, the client config is the `mcpServers` entry
+ * an MCP client needs to connect to this server's endpoint.
+ */
+export default function McpManifestExportModal({
+  opened,
+  server,
+  palette,
+  onClose,
+}: McpManifestExportModalProps) {
+  const api = useCoreApi();
+  const [format, setFormat] = useState<ExportFormat>("manifest");
+
+  const url = api.mcpServers.rpcUrl(server.id);
+  const value = format === "manifest" ? buildManifest(server, url) : buildClientConfig(server, url);
+  const json = JSON.stringify(value, null, 2);
+  const fileName = `${serverSlug(server)}.${format === "manifest" ? "mcp" : "mcp-config"}.json`;
+  const invalidTools = server.tools.filter(
+    (tool) => inputSchemaIssues(tool.inputSchema).length > 0
+  );
+
+  const download = () => {
+    const blobUrl = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = blobUrl;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(blobUrl);
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={`Export ${server.name}`}
+      size="xl"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {invalidTools.length > 0 && (
+          <Alert
+            color="orange"
+            title="Some input schemas have problems"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            Clients may reject {invalidTools.map((tool) => tool.name).join(", ")}. Check them in the
+            Inspector tab before sharing this file.
+          </Alert>
+        )}
+
+        <SegmentedControl
+          size="xs"
+          value={format}
+          onChange={(next) => setFormat(next as ExportFormat)}
+          data={[
+            { value: "manifest", label: "Server manifest" },
+            { value: "config", label: "Client config" },
+          ]}
+        />
+
+        <Text size="xs" c={palette.textSoft}>
+          {format === "manifest"
+            ? `Version ${server.version} with ${server.tools.length} ${server.tools.length === 1 ? "tool" : "tools"}, served over streamable HTTP at the endpoint below.`
+            : "Merge this into the mcpServers section of an MCP client's configuration."}
+        </Text>
+
+        <Box
+          component="pre"
+          style={{
+            margin: 0,
+            maxHeight: 420,
+            overflow: "auto",
+            backgroundColor: palette.background,
+            border: `1px solid ${palette.border}`,
+            borderRadius: 8,
+            padding: 12,
+            fontFamily: "monospace",
+            fontSize: 12,
+            lineHeight: 1.5,
+            color: palette.text,
+          }}
+        >
+          {json}
+        </Box>
+
+        <Group justify="space-between" gap="xs">
+          <Text size="xs" c={palette.textSoft} ff="monospace">
+            {url}
+          </Text>
+          <Group gap="xs">
+            <CopyButton value={json}>
+              {({ copied, copy }) => (
+                <Button
+                  variant="subtle"
+                  onClick={copy}
+                  leftSection={copied ? <IconCheck size={14} /> : <IconCopy size={14} />}
+                  styles={{
+                    root: {
+                      color: palette.text,
+                    },
+                  }}
+                >
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              )}
+            </CopyButton>
+            <Button
+              onClick={download}
+              leftSection={<IconDownload size={14} />}
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              Download {fileName}
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Group,
+  Loader,
+  Modal,
+  Paper,
+  SimpleGrid,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { useCreateMcpServer, useMcpTemplates } from "../api/queries";
+import type { McpServer, McpTemplate } from "../api/types";
+
+type McpServerCreateModalProps = {
+  opened: boolean;
+  nodeId: string;
+  palette: any;
+  onClose: () => void;
+  onCreated?: (server: McpServer) => void;
+};
+
+/**
+ * Creates an MCP server on a node from one of the pre-approved templates. The
+ * template fixes the starting tools; later edits happen on the server's page.
+ */
+export default function McpServerCreateModal({
+  opened,
+  nodeId,
+  palette,
+  onClose,
+  onCreated,
+}: McpServerCreateModalProps) {
+  const {
+    data: templates = [],
+    isLoading: templatesLoading,
+    error: templatesError,
+  } = useMcpTemplates({ enabled: opened });
+  const createMcpServer = useCreateMcpServer();
+
+  const [template, setTemplate] = useState<McpTemplate | null>(null);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setTemplate(null);
+    setName("");
+    setError(null);
+  }, [opened]);
+
+  const pickTemplate = (entry: McpTemplate) => {
+    setTemplate(entry);
+    if (!name.trim()) setName(entry.label);
+  };
+
+  const handleCreate = async () => {
+    if (!template || !name.trim()) {
+      setError("Pick a template and enter a name");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      const server = await createMcpServer({ nodeId, templateId: template.id, name: name.trim() });
+      onCreated?.(server);
+      onClose();
+    } catch (err: any) {
+      console.error("Error creating MCP server", err);
+      setError(err?.message ?? "Failed to create MCP server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="New MCP Server"
+      size="lg"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {(error || templatesError) && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error || templatesError}
+          </Alert>
+        )}
+
+        {templatesLoading ? (
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm" c={palette.textSoft}>
+              Loading templates...
+            </Text>
+          </Group>
+        ) : (
+          <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+            {templates.map((entry) => {
+              const selected = template?.id === entry.id;
+              return (
+                <Paper
+                  key={entry.id}
+                  p="sm"
+                  radius="md"
+                  role="button"
+                  tabIndex={0}
+                  aria-pressed={selected}
+                  onClick={() => pickTemplate(entry)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      pickTemplate(entry);
+                    }
+                  }}
+                  style={{
+                    cursor: "pointer",
+                    backgroundColor: palette.header,
+                    border: `1px solid ${selected ? palette.accent : palette.border}`,
+                  }}
+                >
+                  <Stack gap={4}>
+                    <Text fw={600} size="sm" c={palette.text}>
+                      {entry.label}
+                    </Text>
+                    <Text size="xs" c={palette.textSoft}>
+                      {entry.description}
+                    </Text>
+                    <Text size="xs" c={palette.textSoft} ff="monospace">
+                      {entry.tools.map((tool) => tool.name).join(", ") || "no tools"}
+                    </Text>
+                  </Stack>
+                </Paper>
+              );
+            })}
+          </SimpleGrid>
+        )}
+
+        <TextInput
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          disabled={saving}
+          styles={{
+            input: {
+              backgroundColor: palette.header,
+              borderColor: palette.border,
+              color: palette.text,
+            },
+            label: {
+              color: palette.text,
+            },
+          }}
+        />
+
+        <Text size="xs" c={palette.textSoft}>
+          Templates are pre-approved, so the server is created immediately and logged. Adding tools
+          later is a capability change that needs approval.
+        </Text>
+
+        <Group justify="flex-end" gap="xs">
+          <Button
+            variant="subtle"
+            onClick={onClose}
+            disabled={saving}
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            loading={saving}
+            disabled={!template || !name.trim()}
+            styles={{
+              root: {
+                backgroundColor: palette.accent,
+                color: palette.background,
+              },
+            }}
+          >
+            Create
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from "react";
+import { Badge, Group, Loader, Paper, SegmentedControl, Select, Stack, Text } from "@mantine/core";
+import TextDiff from "./TextDiff";
+import { useMcpServerVersions } from "../api/queries";
+import { addedTools, formatTools } from "../content/mcpTools";
+import type { McpServer, McpServerVersion } from "../api/types";
+
+type McpServerVersionHistoryProps = {
+  server: McpServer;
+  palette: any;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatVersion = (version: McpServerVersion) =>
+  [`# ${version.name}`, version.description, "", formatTools(version.tools)].join("\n");
+
+/**
+ * Lists every stored version of an MCP server and diffs any two tool sets.
+ * Versions that added tools were applied from an approved capability change.
+ */
+export default function McpServerVersionHistory({ server, palette }: McpServerVersionHistoryProps) {
+  const { data: versions = [], isLoading, error } = useMcpServerVersions(server.id);
+
+  const [fromVersion, setFromVersion] = useState<string | null>(null);
+  const [toVersion, setToVersion] = useState<string | null>(null);
+  const [mode, setMode] = useState<"inline" | "split">("inline");
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (versions.length === 0) return;
+    setToVersion(versions[0].version);
+    setFromVersion(versions[1]?.version ?? versions[0].version);
+  }, [versions]);
+
+  const from = versions.find((v) => v.version === fromVersion) ?? null;
+  const to = versions.find((v) => v.version === toVersion) ?? null;
+
+  const versionOptions = versions.map((v) => ({
+    value: v.version,
+    label: `Version ${v.version} · ${v.author}`,
+  }));
+
+  if (isLoading) {
+    return (
+      <Group gap="xs">
+        <Loader size="sm" />
+        <Text size="sm" c={palette.textSoft}>
+          Loading versions...
+        </Text>
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Text size="sm" c="red.3">
+        {error}
+      </Text>
+    );
+  }
+
+  const selectStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      {versions.length > 1 && (
+        <Stack gap="xs">
+          <Group grow>
+            <Select
+              label="From"
+              value={fromVersion}
+              onChange={setFromVersion}
+              data={versionOptions}
+              allowDeselect={false}
+              styles={selectStyles}
+            />
+            <Select
+              label="To"
+              value={toVersion}
+              onChange={setToVersion}
+              data={versionOptions}
+              allowDeselect={false}
+              styles={selectStyles}
+            />
+          </Group>
+          <SegmentedControl
+            size="xs"
+            value={mode}
+            onChange={(value) => setMode(value as "inline" | "split")}
+            data={[
+              { value: "inline", label: "Inline" },
+              { value: "split", label: "Side by side" },
+            ]}
+          />
+          {from && to && (
+            <TextDiff
+              before={formatVersion(from)}
+              after={formatVersion(to)}
+              palette={palette}
+              mode={mode}
+              maxHeight={360}
+            />
+          )}
+        </Stack>
+      )}
+
+      <Stack gap="xs">
+        {versions.map((version, index) => {
+          const previous = versions[index + 1];
+          const added = previous ? addedTools(previous.tools, version.tools) : [];
+          return (
+            <Paper
+              key={version.version}
+              p="xs"
+              radius="md"
+              style={{
+                backgroundColor: palette.background,
+                border: `1px solid ${palette.border}`,
+              }}
+            >
+              <Stack gap={2}>
+                <Group gap="xs">
+                  <Text size="sm" fw={600} c={palette.text}>
+                    Version {version.version}
+                  </Text>
+                  {version.version === server.version && (
+                    <Badge color="green" variant="light" size="xs">
+                      Current
+                    </Badge>
+                  )}
+                  {added.length > 0 && (
+                    <Badge color="orange" variant="light" size="xs">
+                      Added {added.join(", ")}
+                    </Badge>
+                  )}
+                  {version.proposalId && (
+                    <Badge color="blue" variant="light" size="xs">
+                      Approved capability change
+                    </Badge>
+                  )}
+                </Group>
+                <Text size="xs" c={palette.textSoft}>
+                  {version.author} · {formatDateTime(version.createdAt)} · {version.tools.length}{" "}
+                  {version.tools.length === 1 ? "tool" : "tools"}
+                </Text>
+              </Stack>
+            </Paper>
+          );
+        })}
+      </Stack>
+    </Stack>
+  );
+}
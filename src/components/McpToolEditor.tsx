@@ -0,0 +1,197 @@
+import React from "react";
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Group,
+  Paper,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+  Tooltip,
+} from "@mantine/core";
+import { IconPlus, IconTrash } from "@tabler/icons-react";
+import {
+  draftIssues,
+  emptyDraft,
+  parseSchema,
+  schemaProperties,
+  type McpToolDraft,
+} from "../content/mcpTools";
+
+type McpToolEditorProps = {
+  drafts: McpToolDraft[];
+  onChange: (drafts: McpToolDraft[]) => void;
+  // Tool names the saved server already has; anything else is flagged as new
+  savedNames: string[];
+  palette: any;
+  disabled?: boolean;
+};
+
+/**
+ * Edits an MCP server's tool definitions: name, description and a JSON input
+ * schema per tool. Problems are shown as you type; the arguments the schema
+ * declares are summarised under it once it parses.
+ */
+export default function McpToolEditor({
+  drafts,
+  onChange,
+  savedNames,
+  palette,
+  disabled = false,
+}: McpToolEditorProps) {
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+  };
+
+  const update = (key: string, patch: Partial<McpToolDraft>) =>
+    onChange(drafts.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft)));
+
+  const addTool = () => onChange([...drafts, emptyDraft()]);
+
+  return (
+    <Stack gap="sm">
+      {drafts.length === 0 && (
+        <Text size="sm" c={palette.textSoft}>
+          This server has no tools. Adding one is a capability change and goes through review.
+        </Text>
+      )}
+
+      {drafts.map((draft) => {
+        const otherNames = drafts
+          .filter((other) => other.key !== draft.key)
+          .map((other) => other.name.trim());
+        const issues = draftIssues(draft, otherNames);
+        const properties = schemaProperties(parseSchema(draft.schemaText).schema);
+        const isNew = draft.name.trim() !== "" && !savedNames.includes(draft.name.trim());
+
+        return (
+          <Paper
+            key={draft.key}
+            p="sm"
+            radius="md"
+            style={{
+              backgroundColor: palette.header,
+              border: `1px solid ${isNew ? "var(--mantine-color-orange-8)" : palette.border}`,
+            }}
+          >
+            <Stack gap="xs">
+              <Group gap="xs" align="flex-end" wrap="nowrap">
+                <TextInput
+                  label="Name"
+                  value={draft.name}
+                  onChange={(e) => update(draft.key, { name: e.target.value })}
+                  placeholder="search_documents"
+                  disabled={disabled}
+                  styles={inputStyles}
+                  style={{ flex: 1 }}
+                />
+                {isNew && (
+                  <Badge color="orange" variant="light" size="sm" mb={6}>
+                    New tool
+                  </Badge>
+                )}
+                <Tooltip label="Remove tool">
+                  <ActionIcon
+                    variant="subtle"
+                    color="red"
+                    mb={4}
+                    onClick={() => onChange(drafts.filter((other) => other.key !== draft.key))}
+                    disabled={disabled}
+                    aria-label={`Remove ${draft.name || "tool"}`}
+                  >
+                    <IconTrash size={16} />
+                  </ActionIcon>
+                </Tooltip>
+              </Group>
+
+              <TextInput
+                label="Description"
+                value={draft.description}
+                onChange={(e) => update(draft.key, { description: e.target.value })}
+                placeholder="What the tool does, for the model deciding whether to call it"
+                disabled={disabled}
+                styles={inputStyles}
+              />
+
+              <Textarea
+                label="Input schema (JSON Schema)"
+                value={draft.schemaText}
+                onChange={(e) => update(draft.key, { schemaText: e.target.value })}
+                autosize
+                minRows={4}
+                maxRows={16}
+                spellCheck={false}
+                disabled={disabled}
+                styles={{
+                  ...inputStyles,
+                  input: {
+                    ...inputStyles.input,
+                    fontFamily: "var(--mantine-font-family-monospace)",
+                    fontSize: 12,
+                  },
+                }}
+              />
+
+              {properties.length > 0 && (
+                <Group gap={6}>
+                  <Text size="xs" c={palette.textSoft}>
+                    Arguments:
+                  </Text>
+                  {properties.map((property) => (
+                    <Tooltip
+                      key={property.name}
+                      label={property.description || "No description"}
+                      withinPortal
+                    >
+                      <Badge
+                        color={property.required ? "blue" : "gray"}
+                        variant="light"
+                        size="sm"
+                        style={{ textTransform: "none" }}
+                      >
+                        {property.name}: {property.type}
+                        {property.required ? " *" : ""}
+                      </Badge>
+                    </Tooltip>
+                  ))}
+                </Group>
+              )}
+
+              {issues.map((issue) => (
+                <Text key={issue} size="xs" c="red.3">
+                  {issue}
+                </Text>
+              ))}
+            </Stack>
+          </Paper>
+        );
+      })}
+
+      <Group>
+        <Button
+          leftSection={<IconPlus size={14} />}
+          onClick={addTool}
+          size="xs"
+          variant="subtle"
+          disabled={disabled}
+          styles={{
+            root: {
+              color: palette.text,
+            },
+          }}
+        >
+          Add tool
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
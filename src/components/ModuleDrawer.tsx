@@ -0,0 +1,153 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Badge, Box, Button, Drawer, Group, Stack, Text } from "@mantine/core";
+import { IconPencil } from "@tabler/icons-react";
+import { moduleKind, WIDELY_USED_MODULE_THRESHOLD } from "../content/moduleKinds";
+import { programStatus } from "../content/programTemplates";
+import type { Module } from "../api/types";
+
+type ModuleDrawerProps = {
+  module: Module | null;
+  palette: any;
+  onClose: () => void;
+  onEdit: (module: Module) => void;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+/**
+ * Read-only view of one module: its content and the programs that use it.
+ */
+export default function ModuleDrawer({ module, palette, onClose, onEdit }: ModuleDrawerProps) {
+  const kind = module ? moduleKind(module.kind) : null;
+
+  return (
+    <Drawer
+      opened={module !== null}
+      onClose={onClose}
+      title={module?.name}
+      position="right"
+      size="lg"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.surface,
+          borderBottom: `1px solid ${palette.border}`,
+        },
+        body: {
+          backgroundColor: palette.background,
+        },
+      }}
+    >
+      {module && kind && (
+        <Stack gap="md" pt="md">
+          <Group justify="space-between" align="center">
+            <Group gap="xs">
+              <Badge color={kind.color} variant="light" size="sm">
+                {kind.label}
+              </Badge>
+              <Text size="xs" c={palette.textSoft}>
+                Version {module.version} · updated {formatDate(module.updatedAt)}
+              </Text>
+            </Group>
+            <Button
+              leftSection={<IconPencil size={16} />}
+              onClick={() => onEdit(module)}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Edit
+            </Button>
+          </Group>
+
+          {module.node && (
+            <Text size="sm" c={palette.textSoft}>
+              Lives on{" "}
+              <Link to={`/nodes/${module.node.id}`} style={{ color: palette.accent }}>
+                {module.node.name}
+              </Link>
+            </Text>
+          )}
+
+          {module.description && (
+            <Text size="sm" c={palette.text}>
+              {module.description}
+            </Text>
+          )}
+
+          <Stack gap="xs">
+            <Text fw={600} size="sm" c={palette.text}>
+              Content
+            </Text>
+            <Box
+              component="pre"
+              style={{
+                margin: 0,
+                padding: 12,
+                backgroundColor: palette.surface,
+                border: `1px solid ${palette.border}`,
+                borderRadius: 8,
+                fontSize: 12,
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+                color: palette.text,
+              }}
+            >
+              {module.content || "—"}
+            </Box>
+          </Stack>
+
+          <Stack gap="xs">
+            <Group gap="xs">
+              <Text fw={600} size="sm" c={palette.text}>
+                Used by
+              </Text>
+              <Badge
+                color={module.usedBy.length >= WIDELY_USED_MODULE_THRESHOLD ? "orange" : "gray"}
+                variant="light"
+                size="sm"
+              >
+                {module.usedBy.length}
+              </Badge>
+            </Group>
+            {module.usedBy.length === 0 ? (
+              <Text size="sm" c={palette.textSoft}>
+                No program uses this module yet.
+              </Text>
+            ) : (
+              module.usedBy.map((program) => {
+                const status = programStatus(program.status);
+                return (
+                  <Group key={program.id} gap="xs">
+                    <Link
+                      to={`/nodes/${program.nodeId}/programs/${program.id}`}
+                      style={{ color: palette.accent, fontSize: 14 }}
+                    >
+                      {program.name}
+                    </Link>
+                    <Badge color={status.color} variant="light" size="xs">
+                      {status.label}
+                    </Badge>
+                  </Group>
+                );
+              })
+            )}
+          </Stack>
+        </Stack>
+      )}
+    </Drawer>
+  );
+}
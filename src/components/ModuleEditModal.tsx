@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Group,
+  Modal,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { IconAlertTriangle } from "@tabler/icons-react";
+import { isVersionConflict } from "../api/coreApi";
+import { useUpdateModule } from "../api/queries";
+import { MODULE_KINDS, WIDELY_USED_MODULE_THRESHOLD } from "../content/moduleKinds";
+import type { Module, ModuleKind } from "../api/types";
+
+type ModuleEditModalProps = {
+  opened: boolean;
+  module: Module | null;
+  palette: any;
+  onClose: () => void;
+  onSaved?: (module: Module) => void;
+};
+
+type ModuleDraft = {
+  name: string;
+  kind: ModuleKind;
+  description: string;
+  content: string;
+};
+
+const draftOf = (module: Module | null): ModuleDraft => ({
+  name: module?.name ?? "",
+  kind: module?.kind ?? "template",
+  description: module?.description ?? "",
+  content: module?.content ?? "",
+});
+
+const programCount = (count: number) => `${count} program${count === 1 ? "" : "s"}`;
+
+/**
+ * Edits a module against the `version` it was loaded at. Programs always use
+ * a module's latest version, so the modal names the programs an edit reaches
+ * and, past WIDELY_USED_MODULE_THRESHOLD, asks for an explicit acknowledgement.
+ */
+export default function ModuleEditModal({
+  opened,
+  module,
+  palette,
+  onClose,
+  onSaved,
+}: ModuleEditModalProps) {
+  const updateModule = useUpdateModule();
+
+  const [draft, setDraft] = useState<ModuleDraft>(draftOf(null));
+  const [baseVersion, setBaseVersion] = useState("");
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<Module | null>(null);
+
+  // Reset the form each time the modal opens
+  useEffect(() => {
+    if (!opened) return;
+    setDraft(draftOf(module));
+    setBaseVersion(module?.version ?? "");
+    setAcknowledged(false);
+    setError(null);
+    setConflict(null);
+  }, [opened, module]);
+
+  const usedBy = (conflict ?? module)?.usedBy ?? [];
+  const widelyUsed = usedBy.length >= WIDELY_USED_MODULE_THRESHOLD;
+
+  const save = async (version: string) => {
+    if (!module) return;
+    if (!draft.name.trim()) {
+      setError("Name is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = await updateModule(module, {
+        ...draft,
+        name: draft.name.trim(),
+        version,
+      });
+      setConflict(null);
+      onSaved?.(saved);
+      onClose();
+    } catch (err: any) {
+      if (isVersionConflict<Module>(err)) {
+        setConflict(err.body.current);
+        return;
+      }
+      console.error("Error saving module", err);
+      setError(err?.message ?? "Failed to save module");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadLatest = () => {
+    if (!conflict) return;
+    setDraft(draftOf(conflict));
+    setBaseVersion(conflict.version);
+    setConflict(null);
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.header,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={module ? `Edit ${module.name}` : "Edit module"}
+      size="lg"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {error && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {conflict && (
+          <Alert
+            color="yellow"
+            title="This module changed while you were editing"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            <Stack gap="xs">
+              <Text size="sm">
+                It is now at version {conflict.version} (you started from version {baseVersion}).
+                Load the latest copy and redo your changes, or save yours on top of it.
+              </Text>
+              <Group gap="xs">
+                <Button size="xs" variant="outline" onClick={loadLatest} disabled={saving}>
+                  Load latest
+                </Button>
+                <Button
+                  size="xs"
+                  color="yellow"
+                  onClick={() => save(conflict.version)}
+                  loading={saving}
+                  disabled={widelyUsed && !acknowledged}
+                >
+                  Overwrite with mine
+                </Button>
+              </Group>
+            </Stack>
+          </Alert>
+        )}
+
+        {widelyUsed ? (
+          <Alert
+            color="orange"
+            icon={<IconAlertTriangle size={16} />}
+            title={`Used by ${programCount(usedBy.length)}`}
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            <Stack gap="xs">
+              <Text size="sm">
+                Every run of {usedBy.map((program) => program.name).join(", ")} picks up this change
+                as soon as it is saved.
+              </Text>
+              <Checkbox
+                label={`I understand this changes ${programCount(usedBy.length)}`}
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.currentTarget.checked)}
+                disabled={saving}
+              />
+            </Stack>
+          </Alert>
+        ) : (
+          <Text size="xs" c={palette.textSoft}>
+            {usedBy.length === 0
+              ? "No program uses this module yet."
+              : `Also changes ${usedBy.map((program) => program.name).join(", ")}.`}
+          </Text>
+        )}
+
+        <TextInput
+          label="Name"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          required
+          disabled={saving}
+          styles={inputStyles}
+        />
+
+        <Select
+          label="Kind"
+          value={draft.kind}
+          onChange={(value) => value && setDraft({ ...draft, kind: value as ModuleKind })}
+          data={MODULE_KINDS.map((kind) => ({ value: kind.value, label: kind.label }))}
+          allowDeselect={false}
+          disabled={saving}
+          styles={inputStyles}
+        />
+
+        <Textarea
+          label="Description"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          autosize
+          minRows={2}
+          disabled={saving}
+          styles={inputStyles}
+        />
+
+        <Textarea
+          label="Content"
+          value={draft.content}
+          onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+          autosize
+          minRows={6}
+          maxRows={18}
+          disabled={saving}
+          styles={{
+            ...inputStyles,
+            input: { ...inputStyles.input, fontFamily: "monospace", fontSize: 12 },
+          }}
+        />
+
+        <Text size="xs" c={palette.textSoft}>
+          Editing version {baseVersion}; saving records version {Number(baseVersion) + 1}.
+        </Text>
+
+        <Group justify="flex-end" gap="xs">
+          <Button
+            variant="subtle"
+            onClick={onClose}
+            disabled={saving}
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => save(baseVersion)}
+            loading={saving && !conflict}
+            disabled={saving || conflict !== null || (widelyUsed && !acknowledged)}
+            styles={{
+              root: {
+                backgroundColor: palette.accent,
+                color: palette.background,
+              },
+            }}
+          >
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,129 @@
+import React from "react";
+import { Badge, Stack, Table, Text, Tooltip } from "@mantine/core";
+import { moduleKind, WIDELY_USED_MODULE_THRESHOLD } from "../content/moduleKinds";
+import type { Module } from "../api/types";
+
+type ModuleTableProps = {
+  modules: Module[];
+  palette: any;
+  onSelect: (module: Module) => void;
+  // The Module Library spans nodes; a node's own section leaves the column out
+  showNode?: boolean;
+  // Leave the kind column out when the rows are already grouped by kind
+  showKind?: boolean;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function ModuleTable({
+  modules,
+  palette,
+  onSelect,
+  showNode = true,
+  showKind = true,
+}: ModuleTableProps) {
+  return (
+    <Table
+      striped
+      highlightOnHover
+      styles={{
+        table: {
+          backgroundColor: palette.surface,
+        },
+        thead: {
+          backgroundColor: palette.header,
+        },
+        th: {
+          color: palette.text,
+          fontWeight: 600,
+        },
+        td: {
+          color: palette.text,
+        },
+      }}
+    >
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th>Name</Table.Th>
+          {showKind && <Table.Th>Kind</Table.Th>}
+          {showNode && <Table.Th>Node</Table.Th>}
+          <Table.Th>Version</Table.Th>
+          <Table.Th>Used by</Table.Th>
+          <Table.Th>Updated</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody>
+        {modules.map((module) => {
+          const kind = moduleKind(module.kind);
+          const usage = module.usedBy.length;
+          return (
+            <Table.Tr
+              key={module.id}
+              onClick={() => onSelect(module)}
+              style={{ cursor: "pointer" }}
+            >
+              <Table.Td>
+                <Stack gap={2}>
+                  <Text size="sm" fw={500} c={palette.text}>
+                    {module.name}
+                  </Text>
+                  {module.description && (
+                    <Text size="xs" c={palette.textSoft} lineClamp={1}>
+                      {module.description}
+                    </Text>
+                  )}
+                </Stack>
+              </Table.Td>
+              {showKind && (
+                <Table.Td>
+                  <Badge color={kind.color} variant="light" size="sm">
+                    {kind.label}
+                  </Badge>
+                </Table.Td>
+              )}
+              {showNode && (
+                <Table.Td>
+                  <Text size="sm" c={palette.textSoft}>
+                    {module.node?.name ?? module.nodeId}
+                  </Text>
+                </Table.Td>
+              )}
+              <Table.Td>
+                <Text size="sm" c={palette.textSoft}>
+                  {module.version}
+                </Text>
+              </Table.Td>
+              <Table.Td>
+                {usage === 0 ? (
+                  <Text size="xs" c={palette.textSoft}>
+                    Unused
+                  </Text>
+                ) : (
+                  <Tooltip label={module.usedBy.map((program) => program.name).join(", ")}>
+                    <Badge
+                      color={usage >= WIDELY_USED_MODULE_THRESHOLD ? "orange" : "gray"}
+                      variant="light"
+                      size="sm"
+                    >
+                      {usage} program{usage === 1 ? "" : "s"}
+                    </Badge>
+                  </Tooltip>
+                )}
+              </Table.Td>
+              <Table.Td>
+                <Text size="sm" c={palette.textSoft}>
+                  {formatDate(module.updatedAt)}
+                </Text>
+              </Table.Td>
+            </Table.Tr>
+          );
+        })}
+      </Table.Tbody>
+    </Table>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from "react";
+import { Alert, Button, Group, Modal, Stack, Text } from "@mantine/core";
+import ProgramForm from "./ProgramForm";
+import { isVersionConflict } from "../api/coreApi";
+import { useCreateProgram, useModules, useUpdateProgram } from "../api/queries";
+import { programTemplate, templateSteps } from "../content/programTemplates";
+import type { Program, ProgramDefinition, ProgramType } from "../api/types";
+
+type ProgramEditModalProps = {
+  opened: boolean;
+  nodeId: string;
+  // Program to edit; null creates a new one on `nodeId`
+  program: Program | null;
+  palette: any;
+  onClose: () => void;
+  onSaved?: (program: Program) => void;
+};
+
+const definitionOf = (program: Program): ProgramDefinition => ({
+  name: program.name,
+  type: program.type,
+  status: program.status,
+  description: program.description,
+  steps: program.steps,
+});
+
+const blankDefinition = (type: ProgramType = "workflow"): ProgramDefinition => ({
+  name: "",
+  type,
+  status: "draft",
+  description: programTemplate(type).description,
+  steps: templateSteps(type),
+});
+
+/**
+ * Creates a program from a type template, or edits one against the `version`
+ * it was loaded at. A version conflict offers the latest copy or an explicit
+ * overwrite, so nothing is silently lost.
+ */
+export default function ProgramEditModal({
+  opened,
+  nodeId,
+  program,
+  palette,
+  onClose,
+  onSaved,
+}: ProgramEditModalProps) {
+  const createProgram = useCreateProgram();
+  const updateProgram = useUpdateProgram();
+  const { data: modules = [] } = useModules({}, { enabled: opened });
+
+  const [definition, setDefinition] = useState<ProgramDefinition>(blankDefinition());
+  const [baseVersion, setBaseVersion] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<Program | null>(null);
+
+  // Reset the form each time the modal opens
+  useEffect(() => {
+    if (!opened) return;
+    setDefinition(program ? definitionOf(program) : blankDefinition());
+    setBaseVersion(program?.version ?? "");
+    setError(null);
+    setConflict(null);
+  }, [opened, program]);
+
+  // While creating, switching type swaps in that type's template unless the steps were edited
+  const handleTypeChange = (type: ProgramType) => {
+    const untouched =
+      JSON.stringify(definition.steps) === JSON.stringify(templateSteps(definition.type)) &&
+      definition.description === programTemplate(definition.type).description;
+    setDefinition(
+      untouched
+        ? { ...definition, type, steps: templateSteps(type), description: programTemplate(type).description }
+        : { ...definition, type }
+    );
+  };
+
+  const validate = () => {
+    if (!definition.name.trim()) return "Name is required";
+    if (definition.steps.some((step) => !step.name.trim())) return "Every step needs a name";
+    return null;
+  };
+
+  const save = async (version: string) => {
+    const invalid = validate();
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    const input = {
+      ...definition,
+      name: definition.name.trim(),
+      steps: definition.steps.map((step) => ({ ...step, name: step.name.trim() })),
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = program
+        ? await updateProgram(program, { ...input, version })
+        : await createProgram({ ...input, nodeId });
+      setConflict(null);
+      onSaved?.(saved);
+      onClose();
+    } catch (err: any) {
+      if (isVersionConflict<Program>(err)) {
+        setConflict(err.body.current);
+        return;
+      }
+      console.error("Error saving program", err);
+      setError(err?.message ?? "Failed to save program");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadLatest = () => {
+    if (!conflict) return;
+    setDefinition(definitionOf(conflict));
+    setBaseVersion(conflict.version);
+    setConflict(null);
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={program ? `Edit ${program.name}` : "Create Program"}
+      size="lg"
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      <Stack gap="md">
+        {error && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {conflict && (
+          <Alert
+            color="yellow"
+            title="This program changed while you were editing"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            <Stack gap="xs">
+              <Text size="sm">
+                It is now at version {conflict.version} (you started from version {baseVersion}).
+                Load the latest copy and redo your changes, or save yours on top of it.
+              </Text>
+              <Group gap="xs">
+                <Button size="xs" variant="outline" onClick={loadLatest} disabled={saving}>
+                  Load latest
+                </Button>
+                <Button
+                  size="xs"
+                  color="yellow"
+                  onClick={() => save(conflict.version)}
+                  loading={saving}
+                >
+                  Overwrite with mine
+                </Button>
+              </Group>
+            </Stack>
+          </Alert>
+        )}
+
+        {!program && (
+          <Text size="xs" c={palette.textSoft}>
+            Pick a type to start from its template; you can change every step before creating.
+          </Text>
+        )}
+
+        <ProgramForm
+          value={definition}
+          onChange={setDefinition}
+          modules={modules}
+          palette={palette}
+          disabled={saving}
+          onTypeChange={program ? undefined : handleTypeChange}
+        />
+
+        <Text size="xs" c={palette.textSoft}>
+          {program
+            ? `Editing version ${baseVersion}; saving records version ${Number(baseVersion) + 1}.`
+            : "Creating and editing programs is applied immediately and logged."}
+        </Text>
+
+        <Group justify="flex-end" gap="xs">
+          <Button
+            variant="subtle"
+            onClick={onClose}
+            disabled={saving}
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => save(baseVersion)}
+            loading={saving && !conflict}
+            disabled={saving || conflict !== null}
+            styles={{
+              root: {
+                backgroundColor: palette.accent,
+                color: palette.background,
+              },
+            }}
+          >
+            {program ? "Save" : "Create"}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
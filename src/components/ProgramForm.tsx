@@ -0,0 +1,249 @@
+import React from "react";
+import {
+  ActionIcon,
+  Button,
+  Group,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { IconArrowDown, IconArrowUp, IconPlus, IconTrash } from "@tabler/icons-react";
+import { PROGRAM_STATUSES, PROGRAM_TEMPLATES } from "../content/programTemplates";
+import type {
+  Module,
+  ProgramDefinition,
+  ProgramStatus,
+  ProgramStep,
+  ProgramType,
+} from "../api/types";
+
+type ProgramFormProps = {
+  value: ProgramDefinition;
+  onChange: (value: ProgramDefinition) => void;
+  // Modules a step can use
+  modules: Module[];
+  palette: any;
+  disabled?: boolean;
+  // Called instead of a plain type change, e.g. to also apply the type's template
+  onTypeChange?: (type: ProgramType) => void;
+};
+
+// Next `step-N` id that is not taken, so reordering never produces duplicates
+const nextStepId = (steps: ProgramStep[]) => {
+  const taken = new Set(steps.map((step) => step.id));
+  let n = steps.length + 1;
+  while (taken.has(`step-${n}`)) n++;
+  return `step-${n}`;
+};
+
+/**
+ * Controlled editor for a program definition: name, type, status, description
+ * and the ordered steps, each optionally backed by a module.
+ */
+export default function ProgramForm({
+  value,
+  onChange,
+  modules,
+  palette,
+  disabled = false,
+  onTypeChange,
+}: ProgramFormProps) {
+  const update = (patch: Partial<ProgramDefinition>) => onChange({ ...value, ...patch });
+
+  const updateStep = (index: number, patch: Partial<ProgramStep>) =>
+    update({
+      steps: value.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    });
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const steps = [...value.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    update({ steps });
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.header,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  const moduleOptions = [
+    { value: "", label: "No module" },
+    ...modules.map((module) => ({
+      value: module.id,
+      label: `${module.name} (${module.kind})`,
+    })),
+  ];
+
+  return (
+    <Stack gap="md">
+      <TextInput
+        label="Name"
+        value={value.name}
+        onChange={(e) => update({ name: e.target.value })}
+        required
+        disabled={disabled}
+        styles={inputStyles}
+      />
+
+      <Group grow>
+        <Select
+          label="Type"
+          value={value.type}
+          onChange={(next) => {
+            if (!next) return;
+            if (onTypeChange) onTypeChange(next as ProgramType);
+            else update({ type: next as ProgramType });
+          }}
+          data={PROGRAM_TEMPLATES.map((template) => ({
+            value: template.type,
+            label: template.label,
+          }))}
+          allowDeselect={false}
+          disabled={disabled}
+          styles={inputStyles}
+        />
+        <Select
+          label="Status"
+          value={value.status}
+          onChange={(next) => next && update({ status: next as ProgramStatus })}
+          data={PROGRAM_STATUSES.map(({ value: status, label }) => ({ value: status, label }))}
+          allowDeselect={false}
+          disabled={disabled}
+          styles={inputStyles}
+        />
+      </Group>
+
+      <Textarea
+        label="Description"
+        value={value.description}
+        onChange={(e) => update({ description: e.target.value })}
+        minRows={2}
+        autosize
+        disabled={disabled}
+        styles={inputStyles}
+      />
+
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text size="sm" fw={500} c={palette.text}>
+            Steps
+          </Text>
+          <Button
+            size="xs"
+            variant="subtle"
+            leftSection={<IconPlus size={14} />}
+            onClick={() =>
+              update({
+                steps: [
+                  ...value.steps,
+                  { id: nextStepId(value.steps), name: "", moduleId: null, instructions: "" },
+                ],
+              })
+            }
+            disabled={disabled}
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Add step
+          </Button>
+        </Group>
+
+        {value.steps.length === 0 && (
+          <Text size="xs" c={palette.textSoft}>
+            No steps yet.
+          </Text>
+        )}
+
+        {value.steps.map((step, index) => (
+          <Paper
+            key={step.id}
+            p="sm"
+            radius="md"
+            style={{
+              backgroundColor: palette.background,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <Stack gap="xs">
+              <Group gap="xs" wrap="nowrap" align="flex-end">
+                <Text size="sm" fw={600} c={palette.textSoft} pb={6}>
+                  {index + 1}.
+                </Text>
+                <TextInput
+                  placeholder="Step name"
+                  value={step.name}
+                  onChange={(e) => updateStep(index, { name: e.target.value })}
+                  disabled={disabled}
+                  style={{ flex: 1 }}
+                  styles={inputStyles}
+                />
+                <Select
+                  value={step.moduleId ?? ""}
+                  onChange={(next) => updateStep(index, { moduleId: next || null })}
+                  data={moduleOptions}
+                  searchable
+                  disabled={disabled}
+                  style={{ flex: 1 }}
+                  styles={inputStyles}
+                />
+                <ActionIcon
+                  variant="subtle"
+                  aria-label="Move step up"
+                  onClick={() => moveStep(index, -1)}
+                  disabled={disabled || index === 0}
+                  mb={4}
+                >
+                  <IconArrowUp size={14} />
+                </ActionIcon>
+                <ActionIcon
+                  variant="subtle"
+                  aria-label="Move step down"
+                  onClick={() => moveStep(index, 1)}
+                  disabled={disabled || index === value.steps.length - 1}
+                  mb={4}
+                >
+                  <IconArrowDown size={14} />
+                </ActionIcon>
+                <ActionIcon
+                  variant="subtle"
+                  color="red"
+                  aria-label="Remove step"
+                  onClick={() => update({ steps: value.steps.filter((_, i) => i !== index) })}
+                  disabled={disabled}
+                  mb={4}
+                >
+                  <IconTrash size={14} />
+                </ActionIcon>
+              </Group>
+              <Textarea
+                placeholder="Instructions"
+                value={step.instructions}
+                onChange={(e) => updateStep(index, { instructions: e.target.value })}
+                minRows={1}
+                autosize
+                disabled={disabled}
+                styles={inputStyles}
+              />
+            </Stack>
+          </Paper>
+        ))}
+      </Stack>
+    </Stack>
+  );
+}
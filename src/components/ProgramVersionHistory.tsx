@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Modal,
+  Paper,
+  SegmentedControl,
+  Select,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { IconArrowBackUp } from "@tabler/icons-react";
+import TextDiff from "./TextDiff";
+import { isVersionConflict } from "../api/coreApi";
+import { useModules, useProgramVersions, useUpdateProgram } from "../api/queries";
+import { formatProgramDefinition } from "../content/programTemplates";
+import type { Program, ProgramVersion } from "../api/types";
+
+type ProgramVersionHistoryProps = {
+  program: Program;
+  palette: any;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * Lists every stored version of a program, diffs any two definitions and
+ * restores an earlier one as a new version. Program edits apply immediately,
+ * so a restore never goes through a proposal.
+ */
+export default function ProgramVersionHistory({ program, palette }: ProgramVersionHistoryProps) {
+  const { data: versions = [], isLoading, error } = useProgramVersions(program.id);
+  const { data: modules = [] } = useModules();
+  const updateProgram = useUpdateProgram();
+
+  const [fromVersion, setFromVersion] = useState<string | null>(null);
+  const [toVersion, setToVersion] = useState<string | null>(null);
+  const [mode, setMode] = useState<"inline" | "split">("inline");
+
+  const [restoreTarget, setRestoreTarget] = useState<ProgramVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (versions.length === 0) return;
+    setToVersion(versions[0].version);
+    setFromVersion(versions[1]?.version ?? versions[0].version);
+  }, [versions]);
+
+  const moduleName = (id: string) => modules.find((module) => module.id === id)?.name ?? id;
+  const format = (definition: Program | ProgramVersion) =>
+    formatProgramDefinition(definition, moduleName);
+
+  const from = versions.find((v) => v.version === fromVersion) ?? null;
+  const to = versions.find((v) => v.version === toVersion) ?? null;
+
+  const versionOptions = versions.map((v) => ({
+    value: v.version,
+    label: `Version ${v.version} · ${v.author}`,
+  }));
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    try {
+      setRestoring(true);
+      setRestoreError(null);
+      const updated = await updateProgram(program, {
+        name: restoreTarget.name,
+        type: restoreTarget.type,
+        status: restoreTarget.status,
+        description: restoreTarget.description,
+        steps: restoreTarget.steps,
+        version: program.version,
+        restoredFrom: restoreTarget.version,
+      });
+      setNotice(`Restored version ${restoreTarget.version} as version ${updated.version}.`);
+      setRestoreTarget(null);
+    } catch (err: any) {
+      if (isVersionConflict<Program>(err)) {
+        setRestoreError(
+          `The program moved to version ${err.body.current?.version} while you were viewing it. Reload and try again.`
+        );
+        return;
+      }
+      console.error("Error restoring program version", err);
+      setRestoreError(err?.message ?? "Failed to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Group gap="xs">
+        <Loader size="sm" />
+        <Text size="sm" c={palette.textSoft}>
+          Loading versions...
+        </Text>
+      </Group>
+    );
+  }
+
+  if (error) {
+    return (
+      <Text size="sm" c="red.3">
+        {error}
+      </Text>
+    );
+  }
+
+  const selectStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      {notice && (
+        <Alert
+          color="green"
+          withCloseButton
+          onClose={() => setNotice(null)}
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {notice}
+        </Alert>
+      )}
+
+      {versions.length > 1 && (
+        <Stack gap="xs">
+          <Group grow>
+            <Select
+              label="From"
+              value={fromVersion}
+              onChange={setFromVersion}
+              data={versionOptions}
+              allowDeselect={false}
+              styles={selectStyles}
+            />
+            <Select
+              label="To"
+              value={toVersion}
+              onChange={setToVersion}
+              data={versionOptions}
+              allowDeselect={false}
+              styles={selectStyles}
+            />
+          </Group>
+          <SegmentedControl
+            size="xs"
+            value={mode}
+            onChange={(value) => setMode(value as "inline" | "split")}
+            data={[
+              { value: "inline", label: "Inline" },
+              { value: "split", label: "Side by side" },
+            ]}
+          />
+          {from && to && (
+            <TextDiff
+              before={format(from)}
+              after={format(to)}
+              palette={palette}
+              mode={mode}
+              maxHeight={360}
+            />
+          )}
+        </Stack>
+      )}
+
+      <Stack gap="xs">
+        {versions.map((version) => {
+          const isCurrent = version.version === program.version;
+          return (
+            <Paper
+              key={version.version}
+              p="xs"
+              radius="md"
+              style={{
+                backgroundColor: palette.background,
+                border: `1px solid ${palette.border}`,
+              }}
+            >
+              <Group justify="space-between" wrap="nowrap">
+                <Stack gap={2}>
+                  <Group gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Version {version.version}
+                    </Text>
+                    {isCurrent && (
+                      <Badge color="green" variant="light" size="xs">
+                        Current
+                      </Badge>
+                    )}
+                    {version.restoredFrom && (
+                      <Badge color="gray" variant="light" size="xs">
+                        Restored from {version.restoredFrom}
+                      </Badge>
+                    )}
+                  </Group>
+                  <Text size="xs" c={palette.textSoft}>
+                    {version.author} · {formatDateTime(version.createdAt)} · {version.steps.length}{" "}
+                    {version.steps.length === 1 ? "step" : "steps"}
+                  </Text>
+                </Stack>
+                {!isCurrent && (
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    leftSection={<IconArrowBackUp size={14} />}
+                    onClick={() => {
+                      setRestoreTarget(version);
+                      setRestoreError(null);
+                    }}
+                    styles={{
+                      root: {
+                        color: palette.text,
+                      },
+                    }}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </Group>
+            </Paper>
+          );
+        })}
+      </Stack>
+
+      <Modal
+        opened={restoreTarget !== null}
+        onClose={() => setRestoreTarget(null)}
+        title={restoreTarget ? `Restore version ${restoreTarget.version}` : ""}
+        size="lg"
+        styles={{
+          content: {
+            backgroundColor: palette.surface,
+            color: palette.text,
+          },
+          header: {
+            backgroundColor: palette.header,
+            color: palette.text,
+          },
+        }}
+      >
+        {restoreTarget && (
+          <Stack gap="md">
+            {restoreError && (
+              <Alert
+                color="red"
+                title="Error"
+                styles={{
+                  root: {
+                    backgroundColor: palette.surface,
+                  },
+                }}
+              >
+                {restoreError}
+              </Alert>
+            )}
+
+            <Text size="sm" c={palette.textSoft}>
+              Version {restoreTarget.version} will be written as a new version on top of version{" "}
+              {program.version}.
+            </Text>
+
+            <TextDiff
+              before={format(program)}
+              after={format(restoreTarget)}
+              palette={palette}
+              maxHeight={240}
+            />
+
+            <Group justify="flex-end" gap="xs">
+              <Button
+                variant="subtle"
+                onClick={() => setRestoreTarget(null)}
+                disabled={restoring}
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRestore}
+                loading={restoring}
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Restore
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+    </Stack>
+  );
+}
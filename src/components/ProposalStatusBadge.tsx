@@ -0,0 +1,23 @@
+import React from "react";
+import { Badge } from "@mantine/core";
+import type { ProposalStatus } from "../api/types";
+
+const STATUS_COLORS: Record<ProposalStatus, string> = {
+  pending: "yellow",
+  approved: "green",
+  rejected: "red",
+};
+
+const STATUS_LABELS: Record<ProposalStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export default function ProposalStatusBadge({ status }: { status: ProposalStatus }) {
+  return (
+    <Badge color={STATUS_COLORS[status]} variant="filled" size="sm">
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Text } from "@mantine/core";
+import type { RunLogLine } from "../api/types";
+
+type RunLogConsoleProps = {
+  logs: RunLogLine[];
+  palette: any;
+  maxHeight?: number;
+};
+
+const LEVEL_COLORS: Record<RunLogLine["level"], string | null> = {
+  info: null,
+  warn: "var(--mantine-color-yellow-4)",
+  error: "var(--mantine-color-red-4)",
+};
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString("en-US", {
+    hour12: false,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+/**
+ * Monospace log output that keeps the newest line in view, unless the reader
+ * has scrolled up to look at earlier output.
+ */
+export default function RunLogConsole({ logs, palette, maxHeight = 320 }: RunLogConsoleProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [following, setFollowing] = useState(true);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport && following) viewport.scrollTop = viewport.scrollHeight;
+  }, [logs, following]);
+
+  const handleScroll = () => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    setFollowing(viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 24);
+  };
+
+  return (
+    <Box
+      ref={viewportRef}
+      onScroll={handleScroll}
+      style={{
+        maxHeight,
+        overflow: "auto",
+        backgroundColor: palette.background,
+        border: `1px solid ${palette.border}`,
+        borderRadius: 8,
+        padding: "8px 0",
+        fontFamily: "monospace",
+        fontSize: 12,
+        lineHeight: 1.6,
+      }}
+    >
+      {logs.length === 0 ? (
+        <Text size="xs" c={palette.textSoft} px="sm" style={{ fontFamily: "inherit" }}>
+          Waiting for output…
+        </Text>
+      ) : (
+        logs.map((line) => (
+          <div
+            key={line.seq}
+            style={{
+              padding: "0 12px",
+              whiteSpace: "pre-wrap",
+              wordBreak: "break-word",
+              color: LEVEL_COLORS[line.level] ?? palette.text,
+            }}
+          >
+            <span style={{ color: palette.textSoft }}>{formatTime(line.at)} </span>
+            {line.message}
+          </div>
+        ))
+      )}
+    </Box>
+  );
+}
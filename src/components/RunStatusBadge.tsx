@@ -0,0 +1,27 @@
+import React from "react";
+import { Badge } from "@mantine/core";
+import type { RunStatus } from "../api/types";
+
+const STATUS_COLORS: Record<RunStatus, string> = {
+  queued: "gray",
+  running: "blue",
+  succeeded: "green",
+  failed: "red",
+  cancelled: "yellow",
+};
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  succeeded: "Succeeded",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export default function RunStatusBadge({ status }: { status: RunStatus }) {
+  return (
+    <Badge color={STATUS_COLORS[status]} variant="filled" size="sm">
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Alert,
+  Button,
+  Group,
+  Loader,
+  Modal,
+  Paper,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { evaluatePolicy } from "../api/policy";
+import { useCreateStructuralProposal, useNodes } from "../api/queries";
+import type { GovernedAction } from "../content/governanceMatrix";
+import type {
+  Integration,
+  Node,
+  Program,
+  StructuralChangeProposal,
+  StructuralImpact,
+  StructuralOperation,
+  Workspace,
+} from "../api/types";
+import { useActor } from "../context/ActorContext";
+
+export type StructuralChangeRequest =
+  | { operation: StructuralOperation; type: "workspace"; workspace: Workspace }
+  | { operation: StructuralOperation; type: "node"; node: Node }
+  // Programs and integrations are renamed through a normal edit; only deleting one is governed
+  | { operation: "delete"; type: "program"; program: Program }
+  | { operation: "delete"; type: "integration"; integration: Integration };
+
+type StructuralChangeModalProps = {
+  // The modal is open while a request is set
+  request: StructuralChangeRequest | null;
+  palette: any;
+  onClose: () => void;
+  onSubmitted?: (proposal: StructuralChangeProposal) => void;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const targetOf = (request: StructuralChangeRequest) =>
+  request.type === "workspace"
+    ? request.workspace
+    : request.type === "node"
+      ? request.node
+      : request.type === "program"
+        ? request.program
+        : request.integration;
+
+/**
+ * Proposes renaming or deleting a workspace or node, or deleting a program or
+ * disconnecting an integration.
+ * Shows what the change reaches (from `_count`), asks for the current name to
+ * be typed back, and submits a proposal; nothing changes until a reviewer
+ * approves it.
+ */
+export default function StructuralChangeModal({
+  request,
+  palette,
+  onClose,
+  onSubmitted,
+}: StructuralChangeModalProps) {
+  const createStructuralProposal = useCreateStructuralProposal();
+  const { actorName } = useActor();
+
+  const [proposedName, setProposedName] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState<StructuralChangeProposal | null>(null);
+
+  const workspaceId = request?.type === "workspace" ? request.workspace.id : null;
+  // A workspace's documents and programs are counted on its nodes
+  const { data: workspaceNodes = [], isLoading: impactLoading } = useNodes(workspaceId, {
+    enabled: !!workspaceId,
+  });
+
+  // Reset the form each time a new request opens the modal
+  useEffect(() => {
+    if (!request) return;
+    setProposedName(targetOf(request).name);
+    setRationale("");
+    setConfirmation("");
+    setError(null);
+    setSubmitted(null);
+  }, [request]);
+
+  if (!request) return null;
+
+  const { operation, type } = request;
+  const { id: targetId, name: targetName } = targetOf(request);
+  const decision = evaluatePolicy(`${type}.${operation}` as GovernedAction);
+  const blocked = decision.outcome === "blocked";
+
+  const impact: StructuralImpact =
+    type === "workspace"
+      ? {
+          nodes: request.workspace._count.nodes,
+          documents: workspaceNodes.reduce((sum, node) => sum + node._count.documents, 0),
+          programs: workspaceNodes.reduce((sum, node) => sum + node._count.programs, 0),
+        }
+      : type === "node"
+        ? {
+            nodes: 0,
+            documents: request.node._count.documents,
+            programs: request.node._count.programs,
+          }
+        : { nodes: 0, documents: 0, programs: type === "program" ? 1 : 0 };
+
+  const nameChanged = proposedName.trim() !== "" && proposedName.trim() !== targetName;
+  const canSubmit =
+    !blocked &&
+    rationale.trim() !== "" &&
+    confirmation === targetName &&
+    (operation === "delete" || nameChanged);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    try {
+      setSubmitting(true);
+      setError(null);
+      const proposal = await createStructuralProposal({
+        operation,
+        targetType: type,
+        targetId,
+        proposedName: operation === "rename" ? proposedName.trim() : undefined,
+        author: actorName,
+        rationale: rationale.trim(),
+      });
+      setSubmitted(proposal);
+      onSubmitted?.(proposal);
+    } catch (err: any) {
+      console.error("Error submitting proposal", err);
+      setError(err?.message ?? "Failed to submit proposal");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.header,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+  };
+
+  const impactLines =
+    type === "program"
+      ? [`${targetName} and its version history`]
+      : type === "integration"
+        ? [`${targetName} and its stored secrets`]
+        : [
+            type === "workspace" ? plural(impact.nodes, "node") : null,
+            plural(impact.documents, "document"),
+            plural(impact.programs, "program"),
+          ].filter(Boolean);
+
+  return (
+    <Modal
+      opened
+      onClose={onClose}
+      title={`${operation === "rename" ? "Rename" : "Delete"} ${type} "${targetName}"`}
+      styles={{
+        content: {
+          backgroundColor: palette.surface,
+          color: palette.text,
+        },
+        header: {
+          backgroundColor: palette.header,
+          color: palette.text,
+        },
+      }}
+    >
+      {submitted ? (
+        <Stack gap="md">
+          <Alert
+            color="green"
+            title="Submitted for approval"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {`The ${type} ${operation === "rename" ? "keeps its current name" : "stays in place"} until a reviewer approves the proposal.`}
+          </Alert>
+          <Group justify="flex-end" gap="xs">
+            <Button
+              component={Link}
+              to="/proposals"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Open proposals
+            </Button>
+            <Button
+              onClick={onClose}
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              Done
+            </Button>
+          </Group>
+        </Stack>
+      ) : (
+        <Stack gap="md">
+          {error && (
+            <Alert
+              color="red"
+              title="Error"
+              styles={{
+                root: {
+                  backgroundColor: palette.surface,
+                },
+              }}
+            >
+              {error}
+            </Alert>
+          )}
+
+          <Text size="sm" c={blocked ? "red.3" : palette.textSoft}>
+            {blocked
+              ? decision.reason
+              : `${decision.reason}. This submits a proposal as ${actorName}; nothing changes until it is approved.`}
+          </Text>
+
+          <Paper
+            p="sm"
+            radius="md"
+            style={{
+              backgroundColor: palette.header,
+              border: `1px solid ${operation === "delete" ? "var(--mantine-color-red-8)" : palette.border}`,
+            }}
+          >
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                {operation === "delete"
+                  ? "Approving permanently removes:"
+                  : "Everything under it is shown under the new name:"}
+              </Text>
+              {impactLoading ? (
+                <Loader size="xs" />
+              ) : (
+                <Text size="sm" fw={600} c={palette.text}>
+                  {impactLines.join(" · ")}
+                </Text>
+              )}
+            </Stack>
+          </Paper>
+
+          {operation === "rename" && (
+            <TextInput
+              label="New name"
+              value={proposedName}
+              onChange={(e) => setProposedName(e.target.value)}
+              required
+              disabled={submitting || blocked}
+              styles={inputStyles}
+            />
+          )}
+
+          <Textarea
+            label="Rationale"
+            description="Why this change is needed. Reviewers see it with the proposal."
+            value={rationale}
+            onChange={(e) => setRationale(e.target.value)}
+            minRows={2}
+            autosize
+            required
+            disabled={submitting || blocked}
+            styles={inputStyles}
+          />
+
+          <TextInput
+            label={`Type "${targetName}" to confirm`}
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            disabled={submitting || blocked}
+            autoComplete="off"
+            styles={inputStyles}
+          />
+
+          <Group justify="flex-end" gap="xs">
+            <Button
+              variant="subtle"
+              onClick={onClose}
+              disabled={submitting}
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              loading={submitting}
+              disabled={!canSubmit}
+              color={operation === "delete" ? "red" : undefined}
+              styles={
+                operation === "delete"
+                  ? undefined
+                  : {
+                      root: {
+                        backgroundColor: palette.accent,
+                        color: palette.background,
+                      },
+                    }
+              }
+            >
+              Submit for approval
+            </Button>
+          </Group>
+        </Stack>
+      )}
+    </Modal>
+  );
+}
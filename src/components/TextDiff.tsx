@@ -0,0 +1,111 @@
+import React, { useMemo } from "react";
+import { Box, Group, Text } from "@mantine/core";
+import { diffLines, diffStats, splitDiffRows, type DiffLine } from "../utils/diff";
+
+type TextDiffProps = {
+  before: string;
+  after: string;
+  palette: any;
+  maxHeight?: number | string;
+  mode?: "inline" | "split";
+};
+
+const LINE_COLORS = {
+  same: "transparent",
+  added: "rgba(34, 197, 94, 0.18)",
+  removed: "rgba(239, 68, 68, 0.18)",
+};
+
+const LINE_PREFIX = {
+  same: " ",
+  added: "+",
+  removed: "-",
+};
+
+const cellStyle = (line: DiffLine | null, palette: any): React.CSSProperties => ({
+  backgroundColor: line ? LINE_COLORS[line.type] : "rgba(148, 163, 184, 0.08)",
+  color: line?.type === "same" ? palette.textSoft : palette.text,
+  whiteSpace: "pre-wrap",
+  wordBreak: "break-word",
+  padding: "0 8px",
+  minHeight: "1.5em",
+});
+
+/**
+ * Line diff between two markdown texts, inline or side by side.
+ */
+export default function TextDiff({
+  before,
+  after,
+  palette,
+  maxHeight = 320,
+  mode = "inline",
+}: TextDiffProps) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const rows = useMemo(() => (mode === "split" ? splitDiffRows(lines) : []), [lines, mode]);
+  const stats = diffStats(lines);
+
+  return (
+    <Box>
+      <Group gap="xs" mb={4}>
+        <Text size="xs" c="green.4">
+          +{stats.added}
+        </Text>
+        <Text size="xs" c="red.4">
+          −{stats.removed}
+        </Text>
+      </Group>
+      <Box
+        style={{
+          backgroundColor: palette.background,
+          border: `1px solid ${palette.border}`,
+          borderRadius: "4px",
+          maxHeight,
+          overflow: "auto",
+          fontFamily: "monospace",
+          fontSize: "0.75rem",
+          lineHeight: 1.5,
+        }}
+      >
+        {lines.length === 0 ? (
+          <Text size="xs" c={palette.textSoft} p="xs" style={{ fontStyle: "italic" }}>
+            No content
+          </Text>
+        ) : mode === "split" ? (
+          rows.map((row, index) => (
+            <div
+              key={index}
+              style={{
+                display: "grid",
+                gridTemplateColumns: "1fr 1fr",
+                borderBottom: `1px solid ${palette.border}22`,
+              }}
+            >
+              <div style={{ ...cellStyle(row.left, palette), borderRight: `1px solid ${palette.border}` }}>
+                {row.left ? `${LINE_PREFIX[row.left.type]} ${row.left.text}` : ""}
+              </div>
+              <div style={cellStyle(row.right, palette)}>
+                {row.right ? `${LINE_PREFIX[row.right.type]} ${row.right.text}` : ""}
+              </div>
+            </div>
+          ))
+        ) : (
+          lines.map((line, index) => (
+            <div
+              key={index}
+              style={{
+                backgroundColor: LINE_COLORS[line.type],
+                color: line.type === "same" ? palette.textSoft : palette.text,
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+                padding: "0 8px",
+              }}
+            >
+              {LINE_PREFIX[line.type]} {line.text}
+            </div>
+          ))
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { documentOutline, slugify } from "./documentOutline";
+
+describe("documentOutline", () => {
+  it("lists ATX and setext headings with their depth, text and source line", () => {
+    const outline = documentOutline(
+      ["# Setup guide", "", "Intro", "", "Install", "=======", "", "Usage", "---"].join("\n")
+    );
+    expect(outline).toEqual([
+      { depth: 1, text: "Setup guide", slug: "setup-guide", line: 1 },
+      { depth: 1, text: "Install", slug: "install", line: 5 },
+      { depth: 2, text: "Usage", slug: "usage", line: 8 },
+    ]);
+  });
+
+  it("finds headings nested in lists and blockquotes", () => {
+    const outline = documentOutline(["- ## In a list", "", "> ### In a quote"].join("\n"));
+    expect(outline.map(({ text, line }) => ({ text, line }))).toEqual([
+      { text: "In a list", line: 1 },
+      { text: "In a quote", line: 3 },
+    ]);
+  });
+
+  it("ignores headings in code blocks", () => {
+    const outline = documentOutline(
+      ["```", "# Not a heading", "```", "", "    # Indented"].join("\n")
+    );
+    expect(outline).toEqual([]);
+  });
+
+  it("uses the heading's plain text and numbers repeated anchors", () => {
+    const outline = documentOutline(
+      ["## The `Core` [API](https://example.com)", "## Notes", "## Notes", "## !!!"].join("\n")
+    );
+    expect(outline.map((heading) => heading.slug)).toEqual([
+      "the-core-api",
+      "notes",
+      "notes-1",
+      "section",
+    ]);
+  });
+});
+
+describe("slugify", () => {
+  it("keeps letters and digits in any script", () => {
+    expect(slugify("Überblick 2024: Ziele!")).toBe("überblick-2024-ziele");
+  });
+});
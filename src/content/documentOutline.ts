@@ -0,0 +1,55 @@
+// Heading outline and anchors for rendered documents. An anchor is the slug of
+// its heading's text, numbered when the same heading repeats, so links like
+// /documents/:id#slug keep working for as long as the heading text does.
+
+import type { Heading, Nodes } from "mdast";
+import { toString } from "mdast-util-to-string";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+
+export type OutlineHeading = {
+  depth: number;
+  text: string;
+  slug: string;
+  // 1-based source line, as react-markdown reports heading positions
+  line: number;
+};
+
+// Parsed the way ContinuumMarkdown parses, so every heading it renders has an
+// entry here, setext headings and headings inside lists or quotes included
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+const headings = (node: Nodes): Heading[] =>
+  node.type === "heading"
+    ? [node]
+    : "children" in node
+      ? (node.children as Nodes[]).flatMap(headings)
+      : [];
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-");
+
+/**
+ * The document's headings in order, with their anchors. Text in code blocks
+ * is never a heading.
+ */
+export const documentOutline = (content: string): OutlineHeading[] => {
+  const seen = new Map<string, number>();
+  return headings(parser.parse(content)).map((heading) => {
+    const text = toString(heading).trim();
+    const base = slugify(text) || "section";
+    const repeats = seen.get(base) ?? 0;
+    seen.set(base, repeats + 1);
+    return {
+      depth: heading.depth,
+      text,
+      slug: repeats ? `${base}-${repeats}` : base,
+      line: heading.position?.start.line ?? 0,
+    };
+  });
+};
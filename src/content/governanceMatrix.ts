@@ -0,0 +1,220 @@
+// Governance matrix (v2): the single definition of which changes may apply
+// automatically and which need approval. The Glossary renders this table and
+// `src/api/policy.ts` enforces it, so the two cannot drift apart. Adding or
+// loosening a row is a policy change: bump the version and list it under
+// "Changes from v1" in GLOSSARY.md.
+
+export type GovernedAction =
+  | "ui.palette"
+  | "derived.counts"
+  | "search.reindex"
+  | "rag.refresh"
+  | "knowledge.rebuild"
+  | "workspace.create"
+  | "workspace.rename"
+  | "workspace.delete"
+  | "node.create"
+  | "node.rename"
+  | "node.delete"
+  | "program.create"
+  | "program.edit"
+  | "program.delete"
+  | "program.run"
+  | "program.cancel"
+  | "module.edit"
+  | "integration.create"
+  | "integration.edit"
+  | "integration.delete"
+  | "document.create"
+  | "document.edit"
+  | "governance.edit"
+  | "schema.change"
+  | "mcp.createFromTemplate"
+  | "mcp.edit"
+  | "mcp.capabilityChange"
+  | "knowledge.create"
+  | "knowledge.edit";
+
+export type ApprovalLevel = "none" | "required" | "strict";
+
+export type GovernanceRule = {
+  asset: string;
+  actions: GovernedAction[];
+  allowedAutomatically: boolean;
+  approval: ApprovalLevel;
+  loggingRequired: boolean;
+  notes: string;
+};
+
+export const GOVERNANCE_MATRIX_VERSION = "v2";
+
+export const GOVERNANCE_MATRIX: GovernanceRule[] = [
+  {
+    asset: "UI theme / palette switching",
+    actions: ["ui.palette"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: false,
+    notes: "Local UI preference, not canon",
+  },
+  {
+    asset: "Derived counts (node counts, document counts)",
+    actions: ["derived.counts"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Log as telemetry, not canon",
+  },
+  {
+    asset: "Search index rebuild",
+    actions: ["search.reindex"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Deterministic, reversible",
+  },
+  {
+    asset: "RAG embedding refresh (no text change)",
+    actions: ["rag.refresh", "knowledge.rebuild"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Must not alter source content",
+  },
+  {
+    asset: "Create Workspace / Node",
+    actions: ["workspace.create", "node.create"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Logged as a creation event",
+  },
+  {
+    asset: "Rename Workspace / Node",
+    actions: ["workspace.rename", "node.rename"],
+    allowedAutomatically: false,
+    approval: "required",
+    loggingRequired: true,
+    notes: "Meaning-impacting",
+  },
+  {
+    asset: "Delete Workspace / Node",
+    actions: ["workspace.delete", "node.delete"],
+    allowedAutomatically: false,
+    approval: "required",
+    loggingRequired: true,
+    notes: "Destructive",
+  },
+  {
+    asset: "Create / edit Program",
+    actions: ["program.create", "program.edit"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Every edit is kept as a restorable version",
+  },
+  {
+    asset: "Run / cancel Program",
+    actions: ["program.run", "program.cancel"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Each run keeps its logs, step results and artifacts, cancelled or not",
+  },
+  {
+    asset: "Edit Module",
+    actions: ["module.edit"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Applies to every program that uses the module",
+  },
+  {
+    asset: "Delete Program",
+    actions: ["program.delete"],
+    allowedAutomatically: false,
+    approval: "required",
+    loggingRequired: true,
+    notes: "Destructive",
+  },
+  {
+    asset: "Connect / configure Integration",
+    actions: ["integration.create", "integration.edit"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Secrets are write-only and never logged",
+  },
+  {
+    asset: "Disconnect Integration",
+    actions: ["integration.delete"],
+    allowedAutomatically: false,
+    approval: "required",
+    loggingRequired: true,
+    notes: "Destructive; stored secrets are discarded",
+  },
+  {
+    asset: "Add Document",
+    actions: ["document.create"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Canonical ID must be assigned",
+  },
+  {
+    asset: "Edit Document (non-governance)",
+    actions: ["document.edit"],
+    allowedAutomatically: false,
+    approval: "required",
+    loggingRequired: true,
+    notes: "Content meaning can change",
+  },
+  {
+    asset: "Edit Governance / Canon docs",
+    actions: ["governance.edit"],
+    allowedAutomatically: false,
+    approval: "strict",
+    loggingRequired: true,
+    notes: "Highest protection tier",
+  },
+  {
+    asset: "Schema change / migrations",
+    actions: ["schema.change"],
+    allowedAutomatically: false,
+    approval: "strict",
+    loggingRequired: true,
+    notes: "Must be planned and reversible",
+  },
+  {
+    asset: "MCP server creation from template",
+    actions: ["mcp.createFromTemplate"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "If templates are pre-approved",
+  },
+  {
+    asset: "Edit MCP server (no new tools)",
+    actions: ["mcp.edit"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Editing or removing tools cannot expand power",
+  },
+  {
+    asset: "MCP server capability change",
+    actions: ["mcp.capabilityChange"],
+    allowedAutomatically: false,
+    approval: "required",
+    loggingRequired: true,
+    notes: "Any newly added tool; can expand system power",
+  },
+  {
+    asset: "Create Knowledge store / change its members",
+    actions: ["knowledge.create", "knowledge.edit"],
+    allowedAutomatically: true,
+    approval: "none",
+    loggingRequired: true,
+    notes: "Members keep their own governance; nothing is copied",
+  },
+];
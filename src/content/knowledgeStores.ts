@@ -0,0 +1,42 @@
+import type { KnowledgeMemberStatus, KnowledgeStorePurpose } from "../api/types";
+
+// Knowledge store purposes, in the order the create form offers them. Keep the
+// values in sync with PURPOSES in mock-server/routes/knowledgeStores.js.
+
+export type KnowledgePurposeInfo = {
+  value: KnowledgeStorePurpose;
+  label: string;
+  description: string;
+  color: string;
+};
+
+export const KNOWLEDGE_PURPOSES: KnowledgePurposeInfo[] = [
+  {
+    value: "rag",
+    label: "Retrieval",
+    description: "Context that programs and agents retrieve while they run.",
+    color: "blue",
+  },
+  {
+    value: "validation",
+    label: "Validation",
+    description: "Reference material outputs are checked against.",
+    color: "orange",
+  },
+  {
+    value: "governance",
+    label: "Governance",
+    description: "Policies and definitions that explain how changes are governed.",
+    color: "grape",
+  },
+];
+
+export const knowledgePurpose = (purpose: KnowledgeStorePurpose) =>
+  KNOWLEDGE_PURPOSES.find((entry) => entry.value === purpose) ?? KNOWLEDGE_PURPOSES[0];
+
+export const MEMBER_STATUS: Record<KnowledgeMemberStatus, { label: string; color: string }> = {
+  indexed: { label: "Indexed", color: "green" },
+  pending: { label: "Pending", color: "gray" },
+  stale: { label: "Stale", color: "orange" },
+  failed: { label: "Failed", color: "red" },
+};
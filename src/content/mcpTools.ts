@@ -0,0 +1,208 @@
+import type { JsonSchema, McpServer, McpTool } from "../api/types";
+
+// Client-side checks for MCP tool definitions, so the editor can flag problems
+// while typing. The server repeats them on save; keep the rules in sync with
+// mock-server/mcp.js.
+
+export const TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+const SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const propertyIssues = (schema: unknown, path: string): string[] => {
+  if (!isPlainObject(schema)) return [`${path} must be a schema object`];
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.type === undefined && !schema.enum) return [`${path} needs a type`];
+  const unknown = types.filter((type) => type !== undefined && !SCHEMA_TYPES.includes(type));
+  if (unknown.length > 0) return [`${path} has unknown type ${unknown.join(", ")}`];
+  if (types.includes("object") && schema.properties !== undefined) {
+    return objectIssues(schema, path);
+  }
+  if (types.includes("array") && schema.items !== undefined) {
+    return propertyIssues(schema.items, `${path}.items`);
+  }
+  return [];
+};
+
+const objectIssues = (schema: Record<string, unknown>, path: string): string[] => {
+  const properties = schema.properties ?? {};
+  if (!isPlainObject(properties)) return [`${path}.properties must be an object`];
+  const issues = Object.entries(properties).flatMap(([key, value]) =>
+    propertyIssues(value, `${path}.properties.${key}`)
+  );
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required)) {
+      issues.push(`${path}.required must be an array`);
+    } else {
+      schema.required
+        .filter((key) => !(key in properties))
+        .forEach((key) => issues.push(`${path}.required names unknown property "${key}"`));
+    }
+  }
+  return issues;
+};
+
+/** Problems with a tool's input schema; MCP tools take an object at the root. */
+export const inputSchemaIssues = (schema: unknown): string[] => {
+  if (!isPlainObject(schema) || schema.type !== "object") {
+    return ['inputSchema must be a JSON Schema with "type": "object"'];
+  }
+  return objectIssues(schema, "inputSchema");
+};
+
+// A tool as the editor holds it: the schema stays text until it parses
+export type McpToolDraft = {
+  key: string;
+  name: string;
+  description: string;
+  schemaText: string;
+};
+
+// Keys only tell drafts apart while editing; renaming a tool keeps its key
+let draftCount = 0;
+const draftKey = () => `tool-${++draftCount}`;
+
+export const toDraft = (tool: McpTool): McpToolDraft => ({
+  key: draftKey(),
+  name: tool.name,
+  description: tool.description,
+  schemaText: JSON.stringify(tool.inputSchema, null, 2),
+});
+
+export const emptyDraft = (): McpToolDraft => ({
+  key: draftKey(),
+  name: "",
+  description: "",
+  schemaText: JSON.stringify({ type: "object", properties: {}, required: [] }, null, 2),
+});
+
+export const parseSchema = (text: string): { schema: JsonSchema | null; error: string | null } => {
+  try {
+    return { schema: JSON.parse(text) as JsonSchema, error: null };
+  } catch (err: any) {
+    return { schema: null, error: `Input schema is not valid JSON: ${err?.message ?? err}` };
+  }
+};
+
+/** Everything wrong with one draft, given the names used by the other drafts. */
+export const draftIssues = (draft: McpToolDraft, otherNames: string[]): string[] => {
+  const issues: string[] = [];
+  const name = draft.name.trim();
+  if (!TOOL_NAME_PATTERN.test(name)) {
+    issues.push("Name must be lowercase letters, digits and underscores, starting with a letter");
+  } else if (otherNames.includes(name)) {
+    issues.push(`Another tool is already called "${name}"`);
+  }
+  if (!draft.description.trim()) issues.push("Description is required");
+  const { schema, error } = parseSchema(draft.schemaText);
+  return error ? [...issues, error] : [...issues, ...inputSchemaIssues(schema)];
+};
+
+// Only call once every draft is free of issues
+export const fromDrafts = (drafts: McpToolDraft[]): McpTool[] =>
+  drafts.map((draft) => ({
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    inputSchema: parseSchema(draft.schemaText).schema as JsonSchema,
+  }));
+
+// Tool names in `next` that `current` doesn't have: the capability change
+export const addedTools = (current: McpTool[], next: { name: string }[]): string[] => {
+  const existing = new Set(current.map((tool) => tool.name));
+  return next.map((tool) => tool.name.trim()).filter((name) => name && !existing.has(name));
+};
+
+export type SchemaProperty = {
+  name: string;
+  type: string;
+  required: boolean;
+  description: string;
+};
+
+// Top-level arguments of a tool, for the summary under the schema editor
+export const schemaProperties = (schema: JsonSchema | null): SchemaProperty[] => {
+  if (!schema || !isPlainObject(schema.properties)) return [];
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  return Object.entries(schema.properties).map(([name, property]) => ({
+    name,
+    type: Array.isArray(property?.type)
+      ? property.type.join(" | ")
+      : (property?.type ?? (property?.enum ? "enum" : "any")),
+    required: required.includes(name),
+    description: typeof property?.description === "string" ? property.description : "",
+  }));
+};
+
+/** Line-per-field text form of a tool list, for diffs between versions. */
+export const formatTools = (tools: McpTool[]): string =>
+  tools
+    .map((tool) =>
+      [`## ${tool.name}`, tool.description, "", JSON.stringify(tool.inputSchema, null, 2)].join(
+        "\n"
+      )
+    )
+    .join("\n\n");
+
+// Protocol revision the mock endpoint speaks; keep in sync with mock-server/mcpRuntime.js
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+// Client configs key servers by a short identifier rather than the display name
+export const serverSlug = (server: McpServer): string =>
+  server.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || server.id;
+
+/**
+ * The server definition as MCP clients and registries describe it: identity,
+ * the remote endpoint (streamable HTTP) and the full tool list with schemas.
+ */
+export const buildManifest = (server: McpServer, url: string) => ({
+  name: serverSlug(server),
+  title: server.name,
+  description: server.description,
+  version: server.version,
+  protocolVersion: MCP_PROTOCOL_VERSION,
+  capabilities: { tools: { listChanged: false } },
+  remotes: [{ type: "streamable-http", url }],
+  tools: server.tools,
+});
+
+/** The `mcpServers` block to paste into an MCP client's config file. */
+export const buildClientConfig = (server: McpServer, url: string) => ({
+  mcpServers: {
+    [serverSlug(server)]: { type: "http", url },
+  },
+});
+
+// Placeholder for one schema: the first enum option, the minimum, or an empty value
+const sampleValue = (schema: JsonSchema | undefined): unknown => {
+  if (!schema) return null;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return typeof schema.minimum === "number" ? schema.minimum : 0;
+    case "boolean":
+      return false;
+    case "array":
+      return [];
+    case "object":
+      return sampleArguments(schema);
+    default:
+      return null;
+  }
+};
+
+/** Arguments object with a placeholder for every required property, for `tools/call`. */
+export const sampleArguments = (schema: JsonSchema | null | undefined): Record<string, unknown> => {
+  const properties = schema?.properties;
+  if (!isPlainObject(properties)) return {};
+  const required = Array.isArray(schema?.required) ? schema.required : [];
+  return Object.fromEntries(required.map((name) => [name, sampleValue(properties[name])]));
+};
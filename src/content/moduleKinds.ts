@@ -0,0 +1,51 @@
+import type { ModuleKind } from "../api/types";
+
+// Module kinds from the glossary definition of a Module, in the order the
+// Module Library lists them. Keep the values in sync with MODULE_KINDS in
+// mock-server/routes/modules.js.
+
+export type ModuleKindInfo = {
+  value: ModuleKind;
+  label: string;
+  description: string;
+  color: string;
+};
+
+export const MODULE_KINDS: ModuleKindInfo[] = [
+  {
+    value: "template",
+    label: "Templates",
+    description: "Document and output skeletons that programs fill in.",
+    color: "blue",
+  },
+  {
+    value: "prompt",
+    label: "Prompt modules",
+    description: "Reusable instructions for agent and generator steps.",
+    color: "grape",
+  },
+  {
+    value: "schema",
+    label: "Schema fragments",
+    description: "JSON Schema pieces that describe the data a step reads or writes.",
+    color: "teal",
+  },
+  {
+    value: "validation",
+    label: "Validation rules",
+    description: "Checks a step applies before its output is accepted.",
+    color: "orange",
+  },
+  {
+    value: "connector",
+    label: "Connector wrappers",
+    description: "Access to an external system through a configured integration.",
+    color: "cyan",
+  },
+];
+
+// Editing a module shared by at least this many programs asks for an explicit acknowledgement
+export const WIDELY_USED_MODULE_THRESHOLD = 2;
+
+export const moduleKind = (kind: ModuleKind) =>
+  MODULE_KINDS.find((entry) => entry.value === kind) ?? MODULE_KINDS[0];
@@ -0,0 +1,117 @@
+import type {
+  ProgramDefinition,
+  ProgramStatus,
+  ProgramStep,
+  ProgramType,
+} from "../api/types";
+
+// Program types from the glossary definition of a Program. Each carries a
+// starter template so a new program begins with a sensible set of steps.
+// Keep the values in sync with PROGRAM_TYPES in mock-server/routes/programs.js.
+
+export type ProgramTemplate = {
+  type: ProgramType;
+  label: string;
+  description: string;
+  steps: Omit<ProgramStep, "id">[];
+};
+
+export const PROGRAM_TEMPLATES: ProgramTemplate[] = [
+  {
+    type: "workflow",
+    label: "Workflow",
+    description: "A sequence of human and automated steps with a clear hand-off between them.",
+    steps: [
+      { name: "Intake", moduleId: null, instructions: "Capture the request and its owner." },
+      { name: "Review", moduleId: null, instructions: "Check the request against the node's documents." },
+      { name: "Deliver", moduleId: null, instructions: "Produce the outcome and notify the requester." },
+    ],
+  },
+  {
+    type: "automation",
+    label: "Automation",
+    description: "Runs without a person in the loop whenever its trigger fires.",
+    steps: [
+      { name: "Trigger", moduleId: null, instructions: "Describe the event that starts a run." },
+      { name: "Validate input", moduleId: null, instructions: "Reject input that does not match the expected shape." },
+      { name: "Act", moduleId: null, instructions: "Perform the change and record the result." },
+    ],
+  },
+  {
+    type: "agent",
+    label: "Agent instruction set",
+    description: "Instructions and tools an agent follows for one responsibility.",
+    steps: [
+      { name: "Role", moduleId: null, instructions: "Who the agent is acting as and for whom." },
+      { name: "Tools", moduleId: null, instructions: "Which integrations and MCP servers it may call." },
+      { name: "Guardrails", moduleId: null, instructions: "What it must never do without approval." },
+    ],
+  },
+  {
+    type: "generator",
+    label: "Generator",
+    description: "Produces a document or artifact from sources and a template.",
+    steps: [
+      { name: "Collect sources", moduleId: null, instructions: "Gather the inputs the output is built from." },
+      { name: "Render", moduleId: null, instructions: "Fill the template from the collected sources." },
+      { name: "Publish", moduleId: null, instructions: "Store the result as a document on this node." },
+    ],
+  },
+  {
+    type: "build-plan",
+    label: "Build plan",
+    description: "The ordered work needed to ship a change, with checks between stages.",
+    steps: [
+      { name: "Plan", moduleId: null, instructions: "List the changes and who owns each." },
+      { name: "Build", moduleId: null, instructions: "Implement and test each change." },
+      { name: "Verify", moduleId: null, instructions: "Confirm the result against the plan before release." },
+    ],
+  },
+  {
+    type: "runbook",
+    label: "Runbook",
+    description: "What to do, in order, when a known situation happens.",
+    steps: [
+      { name: "Detect", moduleId: null, instructions: "How the situation shows up and who is paged." },
+      { name: "Mitigate", moduleId: null, instructions: "The fastest safe way to stop the impact." },
+      { name: "Follow up", moduleId: null, instructions: "Write up the timeline and the fixes to make." },
+    ],
+  },
+];
+
+export const PROGRAM_STATUSES: { value: ProgramStatus; label: string; color: string }[] = [
+  { value: "draft", label: "Draft", color: "gray" },
+  { value: "active", label: "Active", color: "green" },
+  { value: "paused", label: "Paused", color: "yellow" },
+  { value: "archived", label: "Archived", color: "dark" },
+];
+
+export const programTemplate = (type: ProgramType) =>
+  PROGRAM_TEMPLATES.find((template) => template.type === type) ?? PROGRAM_TEMPLATES[0];
+
+export const programStatus = (status: ProgramStatus) =>
+  PROGRAM_STATUSES.find((entry) => entry.value === status) ?? PROGRAM_STATUSES[0];
+
+// Copies a template's steps with ids, ready to use as a new program's definition
+export const templateSteps = (type: ProgramType): ProgramStep[] =>
+  programTemplate(type).steps.map((step, index) => ({ ...step, id: `step-${index + 1}` }));
+
+/**
+ * Plain-text rendering of a program definition, used to diff versions line by line.
+ */
+export const formatProgramDefinition = (
+  definition: ProgramDefinition,
+  moduleName: (id: string) => string = (id) => id
+) =>
+  [
+    `name: ${definition.name}`,
+    `type: ${definition.type}`,
+    `status: ${definition.status}`,
+    `description: ${definition.description}`,
+    "steps:",
+    ...definition.steps.flatMap((step, index) => [
+      `  ${index + 1}. ${step.name}`,
+      ...(step.moduleId ? [`     module: ${moduleName(step.moduleId)}`] : []),
+      ...step.instructions.split("\n").map((line) => `     ${line}`),
+    ]),
+  ].join("\n");
@@ -0,0 +1,69 @@
+// Remark plugin that marks glossary terms in markdown prose. Each match
+// becomes a `glossaryTerm` node rendered as <span data-glossary-term="…">,
+// which ContinuumMarkdown swaps for a GlossaryTerm tooltip. Text inside
+// links, code and raw HTML is left alone, and so are headings on request.
+
+import { GLOSSARY_DEFINITIONS } from "./glossary";
+
+// The slice of mdast this plugin reads; everything else passes through untouched
+type MarkdownNode = {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+};
+
+export type RemarkGlossaryOptions = {
+  // Leave heading text unmarked, e.g. where headings are link targets
+  skipHeadings?: boolean;
+};
+
+const SKIPPED_TYPES = new Set(["link", "linkReference", "inlineCode", "code", "html"]);
+
+// Longest terms first, so "knowledge store" wins over "store"
+const TERMS = Object.keys(GLOSSARY_DEFINITIONS).sort((a, b) => b.length - a.length);
+const TERM_PATTERN = new RegExp(
+  `\\b(${TERMS.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})\\b`,
+  "gi"
+);
+const TERM_KEYS = new Map(TERMS.map((term) => [term.toLowerCase(), term]));
+
+// The text split around its glossary terms, each match keeping its original casing
+const markTerms = (text: MarkdownNode): MarkdownNode[] => {
+  const value = text.value ?? "";
+  const nodes: MarkdownNode[] = [];
+  let last = 0;
+  for (const match of value.matchAll(TERM_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) nodes.push({ type: "text", value: value.slice(last, start) });
+    nodes.push({
+      type: "glossaryTerm",
+      children: [{ type: "text", value: match[0] }],
+      data: {
+        hName: "span",
+        hProperties: { dataGlossaryTerm: TERM_KEYS.get(match[0].toLowerCase()) },
+      },
+    });
+    last = start + match[0].length;
+  }
+  if (last === 0) return [text];
+  if (last < value.length) nodes.push({ type: "text", value: value.slice(last) });
+  return nodes;
+};
+
+const markChildren = (node: MarkdownNode, skipHeadings: boolean) => {
+  if (!node.children) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text") return markTerms(child);
+    if (!SKIPPED_TYPES.has(child.type) && !(skipHeadings && child.type === "heading")) {
+      markChildren(child, skipHeadings);
+    }
+    return [child];
+  });
+};
+
+export default function remarkGlossary({ skipHeadings = false }: RemarkGlossaryOptions = {}) {
+  return (tree: MarkdownNode) => {
+    markChildren(tree, skipHeadings);
+  };
+}
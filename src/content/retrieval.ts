@@ -0,0 +1,57 @@
+// Helpers for showing retrieved and searched text: marking the words a query
+// matched, and finding the section a line belongs to so a document can open at it.
+
+export type TextSegment = {
+  text: string;
+  match: boolean;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Splits `text` into plain and matching runs for the given terms, matched
+ * case-insensitively as whole words like the lexical ranker does. With
+ * `prefix`, a term also matches the start of a longer word, as global search
+ * matches.
+ */
+export const highlightSegments = (
+  text: string,
+  terms: string[],
+  { prefix = false }: { prefix?: boolean } = {}
+): TextSegment[] => {
+  const words = terms.filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return [{ text, match: false }];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${words.join("|")})${prefix ? "" : "(?![\\p{L}\\p{N}])"}`,
+    "giu"
+  );
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(pattern)) {
+    const start = found.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
+
+const HEADING = /^#{1,6}\s+\S/;
+const FENCE = /^(```|~~~)/;
+
+/**
+ * The line of the heading that opens the section containing `line` (both
+ * 1-based), or null when `line` comes before the first heading. Headings in
+ * fenced code blocks don't count, matching how documents are chunked.
+ */
+export const sectionHeadingLine = (content: string, line: number): number | null => {
+  let heading: number | null = null;
+  let inFence = false;
+  const lines = content.split("\n").slice(0, line);
+  lines.forEach((text, index) => {
+    if (FENCE.test(text.trim())) inFence = !inFence;
+    if (!inFence && HEADING.test(text)) heading = index + 1;
+  });
+  return heading;
+};
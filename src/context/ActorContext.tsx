@@ -0,0 +1,48 @@
+import React, { createContext, useContext, useState, ReactNode } from "react";
+
+// Name recorded as author / reviewer on governed changes.
+// Continuum v1 is single-owner, so this is a local preference rather than an identity.
+
+interface ActorContextType {
+  actorName: string;
+  setActorName: (value: string) => void;
+}
+
+const ActorContext = createContext<ActorContextType | undefined>(undefined);
+
+const STORAGE_KEY = "continuum.actorName";
+const DEFAULT_ACTOR = "Owner";
+
+export const ActorProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [actorName, setActorNameState] = useState<string>(() => {
+    try {
+      return localStorage.getItem(STORAGE_KEY) || DEFAULT_ACTOR;
+    } catch (e) {
+      console.error("Error reading actor name from localStorage:", e);
+      return DEFAULT_ACTOR;
+    }
+  });
+
+  const setActorName = (value: string) => {
+    setActorNameState(value);
+    try {
+      localStorage.setItem(STORAGE_KEY, value);
+    } catch (e) {
+      console.error("Error saving actor name to localStorage:", e);
+    }
+  };
+
+  return (
+    <ActorContext.Provider value={{ actorName: actorName.trim() || DEFAULT_ACTOR, setActorName }}>
+      {children}
+    </ActorContext.Provider>
+  );
+};
+
+export const useActor = (): ActorContextType => {
+  const context = useContext(ActorContext);
+  if (context === undefined) {
+    throw new Error("useActor must be used within an ActorProvider");
+  }
+  return context;
+};
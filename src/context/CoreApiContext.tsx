@@ -0,0 +1,35 @@
+import React, { createContext, useContext, useMemo, useRef, ReactNode } from "react";
+import { createCoreApi, CoreApi, DEFAULT_API_BASE } from "../api/coreApi";
+import { useActor } from "./ActorContext";
+
+const CoreApiContext = createContext<CoreApi | undefined>(undefined);
+
+interface CoreApiProviderProps {
+  baseUrl?: string;
+  children: ReactNode;
+}
+
+export const CoreApiProvider: React.FC<CoreApiProviderProps> = ({
+  baseUrl = DEFAULT_API_BASE,
+  children,
+}) => {
+  const { actorName } = useActor();
+  // Read through a ref so renaming the actor doesn't recreate the client
+  const actorRef = useRef(actorName);
+  actorRef.current = actorName;
+
+  const api = useMemo(
+    () => createCoreApi({ baseUrl, getActor: () => actorRef.current }),
+    [baseUrl]
+  );
+
+  return <CoreApiContext.Provider value={api}>{children}</CoreApiContext.Provider>;
+};
+
+export const useCoreApi = (): CoreApi => {
+  const context = useContext(CoreApiContext);
+  if (context === undefined) {
+    throw new Error("useCoreApi must be used within a CoreApiProvider");
+  }
+  return context;
+};
@@ -0,0 +1,27 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { createQueryCache, QueryCache } from "../api/queryCache";
+
+const QueryCacheContext = createContext<QueryCache | undefined>(undefined);
+
+export const QueryCacheProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [cache] = useState(() => createQueryCache());
+
+  // Revalidate whatever is on screen when the window regains focus
+  useEffect(() => {
+    const handleFocus = () => cache.revalidateActive();
+    window.addEventListener("focus", handleFocus);
+    return () => window.removeEventListener("focus", handleFocus);
+  }, [cache]);
+
+  return (
+    <QueryCacheContext.Provider value={cache}>{children}</QueryCacheContext.Provider>
+  );
+};
+
+export const useQueryCache = (): QueryCache => {
+  const context = useContext(QueryCacheContext);
+  if (context === undefined) {
+    throw new Error("useQueryCache must be used within a QueryCacheProvider");
+  }
+  return context;
+};
@@ -6,6 +6,9 @@ import "@mantine/core/styles.css";
 
 import { MantineProvider, createTheme } from "@mantine/core";
 import App from "./App.tsx";
+import { CoreApiProvider } from "./context/CoreApiContext";
+import { QueryCacheProvider } from "./context/QueryCacheContext";
+import { ActorProvider } from "./context/ActorContext";
 import "./index.css";
 
 // Typography theme configuration
@@ -55,7 +58,13 @@ ReactDOM.createRoot(document.getElementById("root")).render(
     <BrowserRouter>
       <MantineProvider theme={theme} defaultColorScheme="dark">
         <FontSizeInitializer />
-        <App />
+        <ActorProvider>
+          <CoreApiProvider>
+            <QueryCacheProvider>
+              <App />
+            </QueryCacheProvider>
+          </CoreApiProvider>
+        </ActorProvider>
       </MantineProvider>
     </BrowserRouter>
   </React.StrictMode>
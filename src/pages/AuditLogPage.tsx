@@ -0,0 +1,230 @@
+import React from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  Button,
+  Group,
+  Loader,
+  Pagination,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import AuditTimeline from "../components/AuditTimeline";
+import { useAuditLog, useNodes } from "../api/queries";
+import type { AuditMode } from "../api/types";
+
+type AuditLogPageProps = {
+  palette: any;
+};
+
+const PAGE_SIZE = 20;
+
+const ACTION_OPTIONS = [
+  { value: "", label: "All actions" },
+  { value: "workspace.create", label: "Create workspace" },
+  { value: "node.create", label: "Create node" },
+  { value: "document.create", label: "Add document" },
+  { value: "document.edit", label: "Edit document" },
+  { value: "rag.refresh", label: "Index document for RAG" },
+  { value: "program.create", label: "Create program" },
+  { value: "program.edit", label: "Edit program" },
+  { value: "module.edit", label: "Edit module" },
+  { value: "integration.create", label: "Connect integration" },
+  { value: "integration.edit", label: "Update integration" },
+  { value: "mcp.createFromTemplate", label: "Create MCP server" },
+  { value: "mcp.edit", label: "Edit MCP server" },
+  { value: "knowledge.create", label: "Create knowledge store" },
+  { value: "knowledge.edit", label: "Change knowledge store members" },
+  { value: "knowledge.rebuild", label: "Rebuild knowledge store" },
+  { value: "proposal.submit", label: "Submit proposal" },
+  { value: "proposal.approve", label: "Approve proposal" },
+  { value: "proposal.reject", label: "Reject proposal" },
+];
+
+const MODE_OPTIONS = [
+  { value: "", label: "Automatic and governed" },
+  { value: "automatic", label: "Automatic" },
+  { value: "governed", label: "Governed" },
+];
+
+// Filters live in the query string so events can be deep-linked, e.g. /audit?nodeId=…
+const FILTER_KEYS = ["action", "mode", "nodeId", "documentId", "workspaceId", "actor"];
+
+export default function AuditLogPage({ palette }: AuditLogPageProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: nodes = [], isLoading: nodesLoading } = useNodes();
+
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const filters = {
+    action: searchParams.get("action"),
+    mode: searchParams.get("mode") as AuditMode | null,
+    nodeId: searchParams.get("nodeId"),
+    documentId: searchParams.get("documentId"),
+    workspaceId: searchParams.get("workspaceId"),
+    actor: searchParams.get("actor"),
+  };
+  const { data, isLoading, error } = useAuditLog({ ...filters, page, pageSize: PAGE_SIZE });
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    // Any filter change starts from the first page
+    if (!("page" in changes)) next.delete("page");
+    setSearchParams(next);
+  };
+
+  const hasFilters = FILTER_KEYS.some((key) => searchParams.get(key));
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="xs">
+          <Text size="lg" fw={600} c={palette.text}>
+            Audit Log
+          </Text>
+          <Text size="xs" c={palette.textSoft}>
+            Every change the governance matrix marks as logged, newest first.
+          </Text>
+        </Stack>
+      </Paper>
+
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Group grow align="flex-end">
+            <Select
+              label="Action"
+              value={filters.action ?? ""}
+              onChange={(value) => updateParams({ action: value || null })}
+              data={ACTION_OPTIONS}
+              styles={inputStyles}
+            />
+            <Select
+              label="Mode"
+              value={filters.mode ?? ""}
+              onChange={(value) => updateParams({ mode: value || null })}
+              data={MODE_OPTIONS}
+              styles={inputStyles}
+            />
+            <Select
+              label="Node"
+              value={filters.nodeId ?? ""}
+              onChange={(value) => updateParams({ nodeId: value || null })}
+              data={[
+                { value: "", label: "All nodes" },
+                ...nodes.map((node) => ({ value: node.id, label: node.name })),
+              ]}
+              disabled={nodesLoading}
+              styles={inputStyles}
+            />
+            <TextInput
+              key={filters.actor ?? ""}
+              label="Actor"
+              placeholder="Any actor"
+              defaultValue={filters.actor ?? ""}
+              onBlur={(e) => updateParams({ actor: e.currentTarget.value.trim() || null })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  updateParams({ actor: e.currentTarget.value.trim() || null });
+                }
+              }}
+              styles={inputStyles}
+            />
+          </Group>
+
+          {hasFilters && (
+            <Group justify="space-between">
+              <Text size="xs" c={palette.textSoft}>
+                {filters.documentId && `Document ${filters.documentId} · `}
+                {filters.workspaceId && `Workspace ${filters.workspaceId} · `}
+                {data ? `${data.total} matching events` : ""}
+              </Text>
+              <Button
+                variant="subtle"
+                size="xs"
+                onClick={() => setSearchParams(new URLSearchParams())}
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Clear filters
+              </Button>
+            </Group>
+          )}
+
+          {isLoading && (
+            <Group gap="xs">
+              <Loader size="sm" />
+              <Text size="sm" c={palette.textSoft}>
+                Loading events...
+              </Text>
+            </Group>
+          )}
+
+          {error && (
+            <Text size="sm" c="red.3">
+              {error}
+            </Text>
+          )}
+
+          {!isLoading && !error && data && data.items.length === 0 && (
+            <Text size="sm" c={palette.textSoft}>
+              No events match these filters.
+            </Text>
+          )}
+
+          {data && data.items.length > 0 && (
+            <AuditTimeline events={data.items} palette={palette} />
+          )}
+
+          {totalPages > 1 && (
+            <Group justify="center">
+              <Pagination
+                total={totalPages}
+                value={page}
+                onChange={(value) => updateParams({ page: String(value) })}
+              />
+            </Group>
+          )}
+        </Stack>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import {
+  Anchor,
+  Badge,
+  Breadcrumbs,
+  Button,
+  Grid,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Text,
+  UnstyledButton,
+} from "@mantine/core";
+import { IconArrowLeft, IconEdit, IconLayoutSidebarRight, IconPrinter } from "@tabler/icons-react";
+import DocumentEditModal from "../components/DocumentEditModal";
+import ContinuumMarkdown from "../components/ContinuumMarkdown";
+import { useDocument, useNode } from "../api/queries";
+import { documentOutline } from "../content/documentOutline";
+
+type DocumentDetailPageProps = {
+  palette: any;
+};
+
+// Local helper to display owner name with transformation
+const displayOwnerName = (name: string | null | undefined): string => {
+  if (!name) return "Owner";
+  return name === "Continuum Systems" ? "Continuum" : name;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * A document on its own page: the rendered content with an outline of its
+ * headings, and its version, governance and RAG status alongside. Headings
+ * are addressable as /documents/:documentId#<anchor>. Printing leaves out
+ * the app chrome, the outline and the actions.
+ */
+export default function DocumentDetailPage({ palette }: DocumentDetailPageProps) {
+  const { documentId } = useParams<{ documentId: string }>();
+  const location = useLocation();
+  const { data: doc, isLoading, error } = useDocument(documentId);
+  const { data: node } = useNode(doc?.metadata?.nodeId);
+  const [editOpened, setEditOpened] = useState(false);
+
+  const content = doc?.content ?? "";
+  const outline = useMemo(() => documentOutline(content), [content]);
+  const topDepth = Math.min(6, ...outline.map((heading) => heading.depth));
+
+  // Anchors scroll once the content is on screen, and again on every outline click
+  const hasContent = content.length > 0;
+  useEffect(() => {
+    if (!hasContent || !location.hash) return;
+    const raw = location.hash.slice(1);
+    let anchor = raw;
+    try {
+      anchor = decodeURIComponent(raw);
+    } catch {
+      // A hand-edited or truncated link; look the anchor up as written
+    }
+    document.getElementById(anchor)?.scrollIntoView({ block: "start" });
+  }, [hasContent, location.hash]);
+
+  const cardStyle = {
+    backgroundColor: palette.surface,
+    border: `1px solid ${palette.border}`,
+  };
+
+  if (isLoading) {
+    return (
+      <Paper shadow="sm" p="md" radius="md" style={cardStyle}>
+        <Group gap="xs">
+          <Loader size="sm" />
+          <Text size="sm">Loading document…</Text>
+        </Group>
+      </Paper>
+    );
+  }
+
+  if (error || !doc) {
+    return (
+      <Paper shadow="sm" p="md" radius="md" style={cardStyle}>
+        <Stack gap="xs">
+          <Text size="sm" c="red.3">
+            {error || "Document not found"}
+          </Text>
+          <Button
+            component={Link}
+            to="/documents"
+            leftSection={<IconArrowLeft size={16} />}
+            size="sm"
+            variant="subtle"
+            styles={{
+              root: {
+                color: palette.text,
+              },
+            }}
+          >
+            Back to Documents
+          </Button>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  const version = doc.metadata?.version ?? "";
+  const indexedVersion = doc.ragIndex?.version ?? null;
+  const ragStatus = doc.ragReady
+    ? { label: "Ready", color: "green" }
+    : indexedVersion
+      ? { label: "Stale", color: "orange" }
+      : { label: "Not indexed", color: "gray" };
+
+  const crumbs = [
+    node?.workspace?.tenant && { label: displayOwnerName(node.workspace.tenant.name) },
+    node?.workspace && {
+      label: node.workspace.name,
+      to: `/workspaces/${encodeURIComponent(node.workspace.id)}`,
+    },
+    doc.metadata?.nodeId && {
+      label: node?.name ?? doc.metadata.nodeName,
+      to: `/documents?nodeId=${encodeURIComponent(doc.metadata.nodeId)}`,
+    },
+    { label: doc.title },
+  ].filter(Boolean) as { label: string; to?: string }[];
+
+  const metadataRows: { label: string; value: React.ReactNode }[] = [
+    { label: "Version", value: version },
+    {
+      label: "Governance",
+      value: (
+        <Badge color={doc.isGovernance ? "yellow" : "blue"} variant="filled" size="sm">
+          {doc.isGovernance ? "Governed" : "Standard"}
+        </Badge>
+      ),
+    },
+    {
+      label: "RAG",
+      value: (
+        <Stack gap={2} align="flex-end">
+          <Badge color={ragStatus.color} variant="filled" size="sm">
+            {ragStatus.label}
+          </Badge>
+          {doc.ragIndex && (
+            <Text size="xs" c={palette.textSoft}>
+              {doc.ragIndex.chunkCount} chunks from version {doc.ragIndex.version}
+            </Text>
+          )}
+        </Stack>
+      ),
+    },
+    { label: "Type", value: doc.type },
+    { label: "Updated", value: formatDateTime(doc.updatedAt) },
+    {
+      label: "Created",
+      value: doc.metadata?.createdAt ? formatDateTime(doc.metadata.createdAt) : "—",
+    },
+  ];
+
+  return (
+    <Stack gap="md">
+      <Paper shadow="sm" p="md" radius="md" style={cardStyle} data-print="document">
+        <Stack gap="xs">
+          <Breadcrumbs separator="/" styles={{ separator: { color: palette.textSoft } }}>
+            {crumbs.map((crumb) =>
+              crumb.to ? (
+                <Anchor
+                  key={crumb.label}
+                  component={Link}
+                  to={crumb.to}
+                  size="xs"
+                  c={palette.accent}
+                >
+                  {crumb.label}
+                </Anchor>
+              ) : (
+                <Text key={crumb.label} size="xs" c={palette.textSoft}>
+                  {crumb.label}
+                </Text>
+              )
+            )}
+          </Breadcrumbs>
+          <Group justify="space-between" align="flex-start">
+            <Group gap="xs">
+              <Text size="lg" fw={600} c={palette.text}>
+                {doc.title}
+              </Text>
+              {doc.isGovernance && (
+                <Badge color="yellow" variant="light" size="sm">
+                  Governance
+                </Badge>
+              )}
+            </Group>
+            <Group gap="xs" data-print="hide">
+              <Button
+                component={Link}
+                to={`/documents?doc=${encodeURIComponent(doc.id)}`}
+                leftSection={<IconLayoutSidebarRight size={16} />}
+                size="xs"
+                variant="subtle"
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Preview in list
+              </Button>
+              <Button
+                leftSection={<IconPrinter size={16} />}
+                onClick={() => window.print()}
+                size="xs"
+                variant="outline"
+                styles={{
+                  root: {
+                    borderColor: palette.border,
+                    color: palette.text,
+                  },
+                }}
+              >
+                Print
+              </Button>
+              <Button
+                leftSection={<IconEdit size={16} />}
+                onClick={() => setEditOpened(true)}
+                size="xs"
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Propose change
+              </Button>
+            </Group>
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Grid gutter="md">
+        <Grid.Col span={{ base: 12, md: 9 }}>
+          <Paper shadow="sm" p="lg" radius="md" style={cardStyle} data-print="document">
+            {content ? (
+              <ContinuumMarkdown content={content} palette={palette} anchorLinks skipHeadings />
+            ) : (
+              <Text size="sm" c={palette.textSoft} style={{ fontStyle: "italic" }}>
+                No content
+              </Text>
+            )}
+          </Paper>
+        </Grid.Col>
+
+        <Grid.Col span={{ base: 12, md: 3 }}>
+          <Stack gap="md" style={{ position: "sticky", top: 86 }}>
+            <Paper shadow="sm" p="md" radius="md" style={cardStyle} data-print="hide">
+              <Stack gap={4}>
+                <Text size="sm" fw={600} c={palette.text}>
+                  Outline
+                </Text>
+                {outline.length === 0 && (
+                  <Text size="xs" c={palette.textSoft}>
+                    No headings.
+                  </Text>
+                )}
+                {outline.map((heading) => (
+                  <UnstyledButton
+                    key={heading.slug}
+                    component={Link}
+                    to={`#${heading.slug}`}
+                    style={{
+                      paddingLeft: (heading.depth - topDepth) * 12,
+                      color:
+                        location.hash === `#${heading.slug}` ? palette.accent : palette.textSoft,
+                      fontSize: 13,
+                      lineHeight: 1.5,
+                    }}
+                  >
+                    {heading.text}
+                  </UnstyledButton>
+                ))}
+              </Stack>
+            </Paper>
+
+            <Paper shadow="sm" p="md" radius="md" style={cardStyle} data-print="document">
+              <Stack gap="xs">
+                <Text size="sm" fw={600} c={palette.text}>
+                  Details
+                </Text>
+                {metadataRows.map((row) => (
+                  <Group key={row.label} justify="space-between" align="flex-start" wrap="nowrap">
+                    <Text size="xs" c={palette.textSoft}>
+                      {row.label}
+                    </Text>
+                    {typeof row.value === "string" ? (
+                      <Text size="xs" c={palette.text} ta="right">
+                        {row.value}
+                      </Text>
+                    ) : (
+                      row.value
+                    )}
+                  </Group>
+                ))}
+              </Stack>
+            </Paper>
+          </Stack>
+        </Grid.Col>
+      </Grid>
+
+      <DocumentEditModal
+        opened={editOpened}
+        document={doc}
+        palette={palette}
+        onClose={() => setEditOpened(false)}
+      />
+    </Stack>
+  );
+}
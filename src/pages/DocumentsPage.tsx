@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useMemo } from "react";
+import React, { useEffect, useRef, useState, useMemo } from "react";
 import {
   Alert,
   Badge,
@@ -8,58 +8,154 @@ import {
   Group,
   Loader,
   Modal,
+  Pagination,
   Paper,
+  SegmentedControl,
   Select,
   Stack,
-  Table,
+  Tabs,
   Text,
-  Textarea,
   TextInput,
-  TypographyStylesProvider,
+  UnstyledButton,
 } from "@mantine/core";
-import { IconPlus } from "@tabler/icons-react";
-import ReactMarkdown from "react-markdown";
-import GlossaryTextWrapper from "../components/GlossaryTextWrapper";
-
-type Document = {
-  id: string;
-  title: string;
-  type: string;
-  source: string;
-  updatedAt: string;
-  ragReady?: boolean;
-  isGovernance?: boolean;
-  content?: string;
-  metadata?: {
-    version: string;
-    nodeId: string;
-    nodeName: string;
-    createdAt: string;
-  };
-};
-
-type Node = {
-  id: string;
-  name: string;
-  workspaceId: string;
-};
+import {
+  IconArrowsMaximize,
+  IconChevronDown,
+  IconChevronUp,
+  IconEdit,
+  IconHistory,
+  IconPlus,
+  IconSelector,
+  IconStack2,
+} from "@tabler/icons-react";
+import { Link, useSearchParams } from "react-router-dom";
+import DataTable, { type DataTableColumn } from "../components/DataTable";
+import ContinuumMarkdown from "../components/ContinuumMarkdown";
+import DocumentEditModal from "../components/DocumentEditModal";
+import EntityHistory from "../components/EntityHistory";
+import MarkdownEditor from "../components/MarkdownEditor";
+import DocumentVersionHistory from "../components/DocumentVersionHistory";
+import DocumentRagPanel from "../components/DocumentRagPanel";
+import ProposalStatusBadge from "../components/ProposalStatusBadge";
+import {
+  useCreateDocument,
+  useDocument,
+  useDocumentPage,
+  useDocumentSummary,
+  useNodes,
+  useProposals,
+} from "../api/queries";
+import { sectionHeadingLine } from "../content/retrieval";
+import type { Document, DocumentPageQuery, DocumentSort } from "../api/types";
 
 type DocumentsPageProps = {
   palette: any;
 };
 
+const PAGE_SIZE = 25;
+
+// Titles read A→Z; dates newest first
+const DEFAULT_ORDER: Record<DocumentSort, "asc" | "desc"> = {
+  title: "asc",
+  updatedAt: "desc",
+  createdAt: "desc",
+};
+
+const readFlag = (value: string | null) =>
+  value === "true" ? true : value === "false" ? false : null;
+
+// Hand-edited or stale links fall back to the default sort instead of a failing request
+const readSort = (value: string | null): DocumentSort =>
+  value !== null && Object.hasOwn(DEFAULT_ORDER, value) ? (value as DocumentSort) : "updatedAt";
+
+const readOrder = (value: string | null, sort: DocumentSort) =>
+  value === "asc" || value === "desc" ? value : DEFAULT_ORDER[sort];
+
 export default function DocumentsPage({ palette }: DocumentsPageProps) {
-  const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:8080";
-
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [nodesLoading, setNodesLoading] = useState(false);
-  const [nodesError, setNodesError] = useState<string | null>(null);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [documentsLoading, setDocumentsLoading] = useState(false);
-  const [documentsError, setDocumentsError] = useState<string | null>(null);
+  const {
+    data: nodes = [],
+    isLoading: nodesLoading,
+    error: nodesError,
+  } = useNodes();
+  // Filters, sort and page live in the query string so a view can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedNodeId = searchParams.get("nodeId");
+  const sort = readSort(searchParams.get("sort"));
+  const order = readOrder(searchParams.get("order"), sort);
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const pageQuery: DocumentPageQuery = {
+    nodeId: selectedNodeId,
+    governance: readFlag(searchParams.get("governance")),
+    ragReady: readFlag(searchParams.get("ragReady")),
+    type: searchParams.get("type"),
+    sort,
+    order,
+    page,
+    pageSize: PAGE_SIZE,
+  };
+  const {
+    data: documentPage,
+    isLoading: documentsLoading,
+    error: documentsError,
+  } = useDocumentPage(pageQuery);
+  const documents = documentPage?.items ?? [];
+  const totalPages = documentPage
+    ? Math.max(1, Math.ceil(documentPage.total / documentPage.pageSize))
+    : 1;
+  const firstRow = (page - 1) * PAGE_SIZE + 1;
+  const { data: summary } = useDocumentSummary();
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    // Any filter or sort change starts from the first page
+    if (!("page" in changes)) next.delete("page");
+    setSearchParams(next);
+  };
+
+  // Clicking the sorted column flips its order; another column starts at its default
+  const toggleSort = (field: DocumentSort) => {
+    const nextOrder =
+      field === sort ? (order === "asc" ? "desc" : "asc") : DEFAULT_ORDER[field];
+    updateParams({
+      sort: field === "updatedAt" ? null : field,
+      order: nextOrder === DEFAULT_ORDER[field] ? null : nextOrder,
+    });
+  };
+  const createDocument = useCreateDocument();
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
-  const [drawerOpened, setDrawerOpened] = useState(false);
+  const [editDocumentOpened, setEditDocumentOpened] = useState(false);
+  const [historyView, setHistoryView] = useState<"versions" | "activity">("versions");
+
+  // The open document is ?doc=<id>, so links, reloads and back/forward restore
+  // the drawer; retrieval results add &line=<n> to open it at that line's section
+  const linkedDocumentId = searchParams.get("doc");
+  const linkedLine = Number(searchParams.get("line")) || null;
+  const { data: linkedDocument } = useDocument(linkedDocumentId);
+  useEffect(() => {
+    if (linkedDocument) setSelectedDocument(linkedDocument);
+  }, [linkedDocument]);
+  const drawerOpened = !!linkedDocumentId && selectedDocument?.id === linkedDocumentId;
+
+  const { data: proposals = [], isLoading: proposalsLoading } = useProposals(
+    { documentId: selectedDocument?.id },
+    { enabled: drawerOpened }
+  );
+
+  // Approved proposals write the document elsewhere; follow the refreshed list
+  useEffect(() => {
+    if (!selectedDocument) return;
+    const fresh = documents.find((doc) => doc.id === selectedDocument.id);
+    if (
+      fresh &&
+      Number(fresh.metadata?.version) > Number(selectedDocument.metadata?.version)
+    ) {
+      setSelectedDocument(fresh);
+    }
+  }, [documents, selectedDocument]);
 
   // Create Document modal state
   const [createDocumentOpened, setCreateDocumentOpened] = useState(false);
@@ -70,60 +166,36 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
   const [creatingDocument, setCreatingDocument] = useState(false);
   const [documentCreateError, setDocumentCreateError] = useState<string | null>(null);
 
-  // Fetch all nodes on mount
+  const sectionLine =
+    linkedLine && selectedDocument?.id === linkedDocumentId && selectedDocument?.content
+      ? sectionHeadingLine(selectedDocument.content, linkedLine)
+      : null;
+  const contentRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
-    const fetchNodes = async () => {
-      try {
-        setNodesLoading(true);
-        setNodesError(null);
-        const res = await fetch(`${API_BASE}/api/nodes`);
-        if (!res.ok) {
-          throw new Error(`HTTP ${res.status}`);
-        }
-        const data = (await res.json()) as Node[];
-        setNodes(data);
-      } catch (err: any) {
-        console.error("Error loading nodes", err);
-        setNodesError(err?.message ?? "Failed to load nodes");
-      } finally {
-        setNodesLoading(false);
-      }
-    };
-
-    fetchNodes();
-  }, [API_BASE]);
-
-  // Fetch documents when node filter changes
-  const fetchDocuments = async () => {
-    try {
-      setDocumentsLoading(true);
-      setDocumentsError(null);
-
-      const url = selectedNodeId
-        ? `${API_BASE}/api/documents?nodeId=${encodeURIComponent(selectedNodeId)}`
-        : `${API_BASE}/api/documents`;
-
-      const res = await fetch(url);
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      const data = (await res.json()) as Document[];
-      setDocuments(data);
-    } catch (err: any) {
-      console.error("Error loading documents", err);
-      setDocumentsError(err?.message ?? "Failed to load documents");
-    } finally {
-      setDocumentsLoading(false);
-    }
+    if (!drawerOpened || !sectionLine) return;
+    // Wait for the drawer's open transition before scrolling inside it
+    const timer = window.setTimeout(() => {
+      contentRef.current
+        ?.querySelector(`[data-line="${sectionLine}"]`)
+        ?.scrollIntoView({ block: "start", behavior: "smooth" });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [drawerOpened, sectionLine]);
+
+  const handleDrawerClose = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete("doc");
+    next.delete("line");
+    setSearchParams(next, { replace: true });
   };
 
-  useEffect(() => {
-    fetchDocuments();
-  }, [selectedNodeId, API_BASE]);
-
+  // Opening a document is a history entry, so Back closes the drawer again
   const handleRowClick = (document: Document) => {
     setSelectedDocument(document);
-    setDrawerOpened(true);
+    const next = new URLSearchParams(searchParams);
+    next.set("doc", document.id);
+    next.delete("line");
+    setSearchParams(next);
   };
 
   const handleCreateDocument = async () => {
@@ -136,34 +208,21 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
       setCreatingDocument(true);
       setDocumentCreateError(null);
 
-      const res = await fetch(`${API_BASE}/api/documents`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          nodeId: createNodeId,
-          title: createTitle.trim(),
-          content: createContent.trim() || null,
-          isGovernance: createIsGovernance,
-        }),
+      // Invalidates cached document lists (current filter included)
+      await createDocument({
+        nodeId: createNodeId,
+        title: createTitle.trim(),
+        content: createContent.trim() || null,
+        isGovernance: createIsGovernance,
       });
 
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || `HTTP ${res.status}`);
-      }
-
-      // Success: close modal, clear form, refresh documents
+      // Success: close modal, clear form
       setCreateDocumentOpened(false);
       setCreateNodeId(null);
       setCreateTitle("");
       setCreateContent("");
       setCreateIsGovernance(false);
       setDocumentCreateError(null);
-
-      // Refresh documents list (preserves current filter)
-      await fetchDocuments();
     } catch (err: any) {
       console.error("Error creating document", err);
       setDocumentCreateError(err?.message ?? "Failed to create document");
@@ -185,6 +244,40 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
     label: node.name,
   }));
 
+  const filterStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  const sortHeader = (field: DocumentSort, label: string) => {
+    const SortIcon =
+      field !== sort ? IconSelector : order === "asc" ? IconChevronUp : IconChevronDown;
+    return (
+      <UnstyledButton
+        onClick={() => toggleSort(field)}
+        aria-label={`Sort by ${label.toLowerCase()}`}
+        style={{ color: "inherit", fontWeight: "inherit", fontSize: "inherit" }}
+      >
+        <Group gap={4} wrap="nowrap">
+          {label}
+          <SortIcon size={14} style={{ opacity: field === sort ? 1 : 0.5 }} />
+        </Group>
+      </UnstyledButton>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -193,6 +286,59 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
     });
   };
 
+  const columns: DataTableColumn<Document>[] = [
+    {
+      key: "title",
+      header: sortHeader("title", "Title"),
+      width: "25%",
+      render: (doc) => (
+        <Text size="sm" fw={500} truncate c={palette.text}>
+          {doc.title}
+        </Text>
+      ),
+    },
+    {
+      key: "node",
+      header: "Node",
+      width: "18%",
+      render: (doc) => doc.metadata?.nodeName || doc.source,
+    },
+    {
+      key: "governance",
+      header: "Governance",
+      width: "10%",
+      align: "center",
+      render: (doc) => (
+        <Badge color={doc.isGovernance ? "yellow" : "blue"} variant="filled" size="sm">
+          {doc.isGovernance ? "Governed" : "Standard"}
+        </Badge>
+      ),
+    },
+    {
+      key: "rag",
+      header: "RAG",
+      width: "10%",
+      align: "center",
+      render: (doc) => (
+        <Badge color={doc.ragReady ? "green" : "gray"} variant="filled" size="sm">
+          {doc.ragReady ? "Ready" : "No"}
+        </Badge>
+      ),
+    },
+    {
+      key: "updated",
+      header: sortHeader("updatedAt", "Updated"),
+      width: "18%",
+      render: (doc) => formatDate(doc.updatedAt),
+    },
+    {
+      key: "created",
+      header: sortHeader("createdAt", "Created"),
+      width: "19%",
+      render: (doc) => (doc.metadata?.createdAt ? formatDate(doc.metadata.createdAt) : "—"),
+    },
+  ];
+
   return (
     <Stack gap="md">
       <Paper
@@ -239,27 +385,59 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
         }}
       >
         <Stack gap="md">
-          <Select
-            label="Node"
-            placeholder="Select a node to filter"
-            value={selectedNodeId || ""}
-            onChange={(value) => setSelectedNodeId(value || null)}
-            data={nodeOptions}
-            disabled={nodesLoading}
-            styles={{
-              input: {
-                backgroundColor: palette.background,
-                borderColor: palette.border,
-                color: palette.text,
-              },
-              dropdown: {
-                backgroundColor: palette.surface,
-              },
-              option: {
-                color: palette.text,
-              },
-            }}
-          />
+          <Group grow align="flex-end">
+            <Select
+              label="Node"
+              placeholder="Select a node to filter"
+              value={selectedNodeId || ""}
+              onChange={(value) => updateParams({ nodeId: value || null })}
+              data={nodeOptions}
+              disabled={nodesLoading}
+              styles={filterStyles}
+            />
+            <Select
+              label="Governance"
+              value={searchParams.get("governance") ?? ""}
+              onChange={(value) => updateParams({ governance: value || null })}
+              data={[
+                { value: "", label: "All documents" },
+                { value: "true", label: "Governed" },
+                { value: "false", label: "Standard" },
+              ]}
+              styles={filterStyles}
+            />
+            <Select
+              label="RAG"
+              value={searchParams.get("ragReady") ?? ""}
+              onChange={(value) => updateParams({ ragReady: value || null })}
+              data={[
+                { value: "", label: "Any status" },
+                { value: "true", label: "Ready" },
+                { value: "false", label: "Not ready" },
+              ]}
+              styles={filterStyles}
+            />
+            <Select
+              label="Type"
+              value={searchParams.get("type") ?? ""}
+              onChange={(value) => updateParams({ type: value || null })}
+              data={[
+                { value: "", label: "All types" },
+                ...(summary?.types ?? []).map((type) => ({ value: type, label: type })),
+              ]}
+              styles={filterStyles}
+            />
+          </Group>
+
+          {documentPage && (
+            <Text size="xs" c={palette.textSoft}>
+              {summary && summary.total !== documentPage.total
+                ? `${documentPage.total} of ${summary.total} documents`
+                : `${documentPage.total} ${documentPage.total === 1 ? "document" : "documents"}`}
+              {totalPages > 1 &&
+                ` · showing ${firstRow}–${firstRow + documents.length - 1}`}
+            </Text>
+          )}
 
           {nodesLoading && (
             <Group gap="xs">
@@ -298,110 +476,25 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
           )}
 
           {!documentsLoading && !documentsError && documents.length > 0 && (
-            <Table
-              withTableBorder
-              withColumnBorders
-              style={{ tableLayout: "fixed", width: "100%" }}
-              styles={{
-                table: {
-                  backgroundColor: "transparent",
-                  tableLayout: "fixed",
-                  width: "100%",
-                },
-                thead: {
-                  "& tr th": {
-                    borderRight: `1px solid ${palette.border}`,
-                    borderBottom: `1px solid ${palette.border}`,
-                  },
-                },
-                tbody: {
-                  "& tr td": {
-                    borderRight: `1px solid ${palette.border}`,
-                    borderBottom: `1px solid ${palette.border}`,
-                    overflow: "hidden",
-                    textOverflow: "ellipsis",
-                  },
-                  "& tr:hover": {
-                    backgroundColor: "rgba(59, 130, 246, 0.1) !important",
-                    cursor: "pointer",
-                  },
-                },
-                th: {
-                  backgroundColor: palette.header,
-                  color: "#ffffff",
-                  borderColor: palette.border,
-                  fontWeight: 700,
-                  overflow: "hidden",
-                },
-                td: {
-                  borderColor: palette.border,
-                  color: "#ffffff",
-                  overflow: "hidden",
-                  textOverflow: "ellipsis",
-                },
-              }}
-            >
-              <Table.Thead>
-                <Table.Tr>
-                  <Table.Th style={{ width: "25%" }}>Title</Table.Th>
-                  <Table.Th style={{ width: "18%" }}>Node</Table.Th>
-                  <Table.Th style={{ width: "10%", textAlign: "center" }}>Governance</Table.Th>
-                  <Table.Th style={{ width: "10%", textAlign: "center" }}>RAG</Table.Th>
-                  <Table.Th style={{ width: "18%", whiteSpace: "nowrap" }}>Updated</Table.Th>
-                  <Table.Th style={{ width: "19%", whiteSpace: "nowrap" }}>Created</Table.Th>
-                </Table.Tr>
-              </Table.Thead>
-              <Table.Tbody>
-                {documents.map((doc) => (
-                  <Table.Tr
-                    key={doc.id}
-                    onClick={() => handleRowClick(doc)}
-                    style={{ cursor: "pointer" }}
-                  >
-                    <Table.Td style={{ width: "25%" }}>
-                      <Text size="sm" fw={500} lineClamp={1} c="#ffffff">
-                        {doc.title}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td style={{ width: "18%" }}>
-                      <Text size="sm" lineClamp={1} c="#ffffff">
-                        {doc.metadata?.nodeName || doc.source}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td style={{ width: "10%", textAlign: "center" }}>
-                      <Badge
-                        color={doc.isGovernance ? "yellow" : "blue"}
-                        variant="filled"
-                        size="sm"
-                      >
-                        {doc.isGovernance ? "Governed" : "Standard"}
-                      </Badge>
-                    </Table.Td>
-                    <Table.Td style={{ width: "10%", textAlign: "center" }}>
-                      <Badge
-                        color={doc.ragReady ? "green" : "gray"}
-                        variant="filled"
-                        size="sm"
-                      >
-                        {doc.ragReady ? "Ready" : "No"}
-                      </Badge>
-                    </Table.Td>
-                    <Table.Td style={{ width: "18%" }}>
-                      <Text size="xs" lineClamp={1} c="#ffffff">
-                        {formatDate(doc.updatedAt)}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td style={{ width: "19%" }}>
-                      <Text size="xs" lineClamp={1} c="#ffffff">
-                        {doc.metadata?.createdAt
-                          ? formatDate(doc.metadata.createdAt)
-                          : "—"}
-                      </Text>
-                    </Table.Td>
-                  </Table.Tr>
-                ))}
-              </Table.Tbody>
-            </Table>
+            <DataTable
+              rows={documents}
+              columns={columns}
+              getRowId={(doc) => doc.id}
+              onRowClick={handleRowClick}
+              selectedId={drawerOpened ? selectedDocument?.id : null}
+              label="Documents"
+              palette={palette}
+            />
+          )}
+
+          {totalPages > 1 && (
+            <Group justify="center">
+              <Pagination
+                total={totalPages}
+                value={page}
+                onChange={(value) => updateParams({ page: String(value) })}
+              />
+            </Group>
           )}
         </Stack>
       </Paper>
@@ -409,7 +502,7 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
       {/* Document Detail Drawer */}
       <Drawer
         opened={drawerOpened}
-        onClose={() => setDrawerOpened(false)}
+        onClose={handleDrawerClose}
         title={selectedDocument?.title}
         position="right"
         size="lg"
@@ -429,184 +522,217 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
       >
         {selectedDocument && (
           <Stack gap="md">
-            <Stack gap="xs">
-              <Text size="sm" fw={600} c={palette.text}>
-                Title
-              </Text>
-              <Text size="sm" c={palette.text}>
-                {selectedDocument.title}
-              </Text>
-            </Stack>
-
-            <Stack gap="xs">
-              <Text size="sm" fw={600} c={palette.text}>
-                Node
-              </Text>
-              <Text size="sm" c={palette.text}>
-                {selectedDocument.metadata?.nodeName || selectedDocument.source}
-              </Text>
-            </Stack>
-
-            <Stack gap="xs">
-              <Text size="sm" fw={600} c={palette.text}>
-                Version
-              </Text>
-              <Text size="sm" c={palette.text}>
-                {selectedDocument.metadata?.version || "—"}
-              </Text>
-            </Stack>
-
-            <Stack gap="xs">
-              <Text size="sm" fw={600} c={palette.text}>
-                Governance
-              </Text>
-              <Badge
-                color={selectedDocument.isGovernance ? "yellow" : "blue"}
-                variant="filled"
-                size="sm"
+            <Group justify="flex-end" gap="xs">
+              <Button
+                component={Link}
+                to={`/documents/${encodeURIComponent(selectedDocument.id)}`}
+                leftSection={<IconArrowsMaximize size={16} />}
+                size="xs"
+                variant="subtle"
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
               >
-                {selectedDocument.isGovernance ? "Governed" : "Standard"}
-              </Badge>
-            </Stack>
-
-            <Stack gap="xs">
-              <Text size="sm" fw={600} c={palette.text}>
-                Content
-              </Text>
-              <Paper
-                p="sm"
-                radius="md"
-                style={{
-                  backgroundColor: palette.background,
-                  border: `1px solid ${palette.border}`,
-                  maxHeight: "400px",
-                  overflowY: "auto",
+                Open page
+              </Button>
+              <Button
+                leftSection={<IconEdit size={16} />}
+                onClick={() => setEditDocumentOpened(true)}
+                size="xs"
+                variant="outline"
+                styles={{
+                  root: {
+                    borderColor: palette.border,
+                    color: palette.text,
+                  },
                 }}
               >
-                {selectedDocument.content ? (
-                  <TypographyStylesProvider>
-                    <div
+                Propose change
+              </Button>
+            </Group>
+
+            <Tabs
+              defaultValue="details"
+              styles={{
+                tab: {
+                  color: palette.text,
+                },
+              }}
+            >
+              <Tabs.List>
+                <Tabs.Tab value="details">Details</Tabs.Tab>
+                <Tabs.Tab value="rag" leftSection={<IconStack2 size={14} />}>
+                  RAG
+                </Tabs.Tab>
+                <Tabs.Tab value="history" leftSection={<IconHistory size={14} />}>
+                  History
+                </Tabs.Tab>
+              </Tabs.List>
+
+              <Tabs.Panel value="details" pt="md">
+                <Stack gap="md">
+                  <Stack gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Title
+                    </Text>
+                    <Text size="sm" c={palette.text}>
+                      {selectedDocument.title}
+                    </Text>
+                  </Stack>
+
+                  <Stack gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Node
+                    </Text>
+                    <Text size="sm" c={palette.text}>
+                      {selectedDocument.metadata?.nodeName || selectedDocument.source}
+                    </Text>
+                  </Stack>
+
+                  <Stack gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Version
+                    </Text>
+                    <Text size="sm" c={palette.text}>
+                      {selectedDocument.metadata?.version || "—"}
+                    </Text>
+                  </Stack>
+
+                  <Stack gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Governance
+                    </Text>
+                    <Badge
+                      color={selectedDocument.isGovernance ? "yellow" : "blue"}
+                      variant="filled"
+                      size="sm"
+                    >
+                      {selectedDocument.isGovernance ? "Governed" : "Standard"}
+                    </Badge>
+                  </Stack>
+
+                  {(proposalsLoading || proposals.length > 0) && (
+                    <Stack gap="xs">
+                      <Text size="sm" fw={600} c={palette.text}>
+                        Change proposals
+                      </Text>
+                      {proposalsLoading && <Loader size="xs" />}
+                      {proposals.map((proposal) => (
+                        <Paper
+                          key={proposal.id}
+                          p="xs"
+                          radius="md"
+                          style={{
+                            backgroundColor: palette.background,
+                            border: `1px solid ${palette.border}`,
+                          }}
+                        >
+                          <Group justify="space-between" wrap="nowrap" align="flex-start">
+                            <Stack gap={2}>
+                              <Text size="xs" c={palette.text} lineClamp={2}>
+                                {proposal.rationale}
+                              </Text>
+                              <Text size="xs" c={palette.textSoft}>
+                                {proposal.author} · {formatDate(proposal.createdAt)}
+                                {proposal.decidedBy
+                                  ? ` · ${proposal.status} by ${proposal.decidedBy}`
+                                  : ""}
+                                {proposal.kind === "document" && proposal.appliedVersion
+                                  ? ` · version ${proposal.appliedVersion}`
+                                  : ""}
+                              </Text>
+                              {proposal.decisionNote && (
+                                <Text
+                                  size="xs"
+                                  c={palette.textSoft}
+                                  style={{ fontStyle: "italic" }}
+                                >
+                                  {proposal.decisionNote}
+                                </Text>
+                              )}
+                            </Stack>
+                            <ProposalStatusBadge status={proposal.status} />
+                          </Group>
+                        </Paper>
+                      ))}
+                      <Text size="xs" component={Link} to="/proposals" c={palette.accent}>
+                        Review proposals
+                      </Text>
+                    </Stack>
+                  )}
+
+                  <Stack gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Content
+                    </Text>
+                    <Paper
+                      ref={contentRef}
+                      p="sm"
+                      radius="md"
                       style={{
-                        color: palette.textSoft,
-                        fontSize: "0.875rem",
-                        lineHeight: 1.6,
+                        backgroundColor: palette.background,
+                        border: `1px solid ${palette.border}`,
+                        maxHeight: "400px",
+                        overflowY: "auto",
                       }}
                     >
-                      <ReactMarkdown
-                        components={{
-                          // Process text nodes in paragraphs
-                          p: ({ children, ...props }) => {
-                            const processChildren = (nodes: React.ReactNode): React.ReactNode => {
-                              return React.Children.map(nodes, (child, index) => {
-                                if (typeof child === "string") {
-                                  return (
-                                    <GlossaryTextWrapper
-                                      key={`p-text-${index}`}
-                                      text={child}
-                                      palette={palette}
-                                    />
-                                  );
-                                }
-                                if (React.isValidElement(child)) {
-                                  // Don't process code blocks
-                                  if (child.type === "code" || child.type === "pre") {
-                                    return child;
-                                  }
-                                  // Recursively process nested children
-                                  const childProps = child.props as { children?: React.ReactNode };
-                                  if (childProps?.children) {
-                                    return React.cloneElement(
-                                      child,
-                                      { key: child.key || `p-child-${index}` },
-                                      processChildren(childProps.children)
-                                    );
-                                  }
-                                }
-                                return child;
-                              });
-                            };
-                            return <p {...props}>{processChildren(children)}</p>;
-                          },
-                          // Process text nodes in list items
-                          li: ({ children, ...props }) => {
-                            const processChildren = (nodes: React.ReactNode): React.ReactNode => {
-                              return React.Children.map(nodes, (child, index) => {
-                                if (typeof child === "string") {
-                                  return (
-                                    <GlossaryTextWrapper
-                                      key={`li-text-${index}`}
-                                      text={child}
-                                      palette={palette}
-                                    />
-                                  );
-                                }
-                                if (React.isValidElement(child)) {
-                                  if (child.type === "code" || child.type === "pre") {
-                                    return child;
-                                  }
-                                  const childProps = child.props as { children?: React.ReactNode };
-                                  if (childProps?.children) {
-                                    return React.cloneElement(
-                                      child,
-                                      { key: child.key || `li-child-${index}` },
-                                      processChildren(childProps.children)
-                                    );
-                                  }
-                                }
-                                return child;
-                              });
-                            };
-                            return <li {...props}>{processChildren(children)}</li>;
-                          },
-                          // Style inline code (don't process glossary terms)
-                          code: ({ children, ...props }) => (
-                            <code
-                              {...props}
-                              style={{
-                                fontFamily: "monospace",
-                                backgroundColor: palette.surface,
-                                padding: "2px 4px",
-                                borderRadius: "3px",
-                                fontSize: "0.875em",
-                              }}
-                            >
-                              {children}
-                            </code>
-                          ),
-                          // Style code blocks (don't process glossary terms)
-                          pre: ({ children, ...props }) => (
-                            <pre
-                              {...props}
-                              style={{
-                                fontFamily: "monospace",
-                                backgroundColor: palette.surface,
-                                padding: "12px",
-                                borderRadius: "4px",
-                                overflowX: "auto",
-                                fontSize: "0.875em",
-                                lineHeight: 1.5,
-                              }}
-                            >
-                              {children}
-                            </pre>
-                          ),
-                        }}
-                      >
-                        {selectedDocument.content}
-                      </ReactMarkdown>
-                    </div>
-                  </TypographyStylesProvider>
-                ) : (
-                  <Text size="xs" c={palette.textSoft} style={{ fontStyle: "italic" }}>
-                    No content
-                  </Text>
-                )}
-              </Paper>
-            </Stack>
+                      {selectedDocument.content ? (
+                        <ContinuumMarkdown
+                          content={selectedDocument.content}
+                          palette={palette}
+                          highlightLine={sectionLine}
+                        />
+                      ) : (
+                        <Text size="xs" c={palette.textSoft} style={{ fontStyle: "italic" }}>
+                          No content
+                        </Text>
+                      )}
+                    </Paper>
+                  </Stack>
+                </Stack>
+              </Tabs.Panel>
+
+              <Tabs.Panel value="rag" pt="md">
+                <DocumentRagPanel
+                  document={selectedDocument}
+                  palette={palette}
+                  onIndexed={setSelectedDocument}
+                />
+              </Tabs.Panel>
+
+              <Tabs.Panel value="history" pt="md">
+                <Stack gap="md">
+                  <SegmentedControl
+                    size="xs"
+                    value={historyView}
+                    onChange={(value) => setHistoryView(value as "versions" | "activity")}
+                    data={[
+                      { value: "versions", label: "Versions" },
+                      { value: "activity", label: "Activity" },
+                    ]}
+                  />
+                  {historyView === "versions" ? (
+                    <DocumentVersionHistory document={selectedDocument} palette={palette} />
+                  ) : (
+                    <EntityHistory documentId={selectedDocument.id} palette={palette} />
+                  )}
+                </Stack>
+              </Tabs.Panel>
+            </Tabs>
           </Stack>
         )}
       </Drawer>
 
+      {/* Edit Document Modal */}
+      <DocumentEditModal
+        opened={editDocumentOpened}
+        document={selectedDocument}
+        palette={palette}
+        onClose={() => setEditDocumentOpened(false)}
+      />
+
       {/* Create Document Modal */}
       <Modal
         opened={createDocumentOpened}
@@ -619,6 +745,7 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
           setDocumentCreateError(null);
         }}
         title="Create Document"
+        size="lg"
         styles={{
           content: {
             backgroundColor: palette.surface,
@@ -684,21 +811,13 @@ export default function DocumentsPage({ palette }: DocumentsPageProps) {
             }}
           />
 
-          <Textarea
+          <MarkdownEditor
             label="Content"
             placeholder="Enter document content (optional)"
             value={createContent}
-            onChange={(e) => setCreateContent(e.target.value)}
-            minRows={8}
+            onChange={setCreateContent}
+            palette={palette}
             disabled={creatingDocument}
-            styles={{
-              input: {
-                backgroundColor: palette.header,
-                borderColor: palette.border,
-                color: palette.text,
-                fontFamily: "monospace",
-              },
-            }}
           />
 
           <Checkbox
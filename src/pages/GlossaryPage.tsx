@@ -1,5 +1,10 @@
 import React from "react";
 import { Container, List, Paper, Stack, Table, Text, Divider } from "@mantine/core";
+import {
+  GOVERNANCE_MATRIX,
+  GOVERNANCE_MATRIX_VERSION,
+  type ApprovalLevel,
+} from "../content/governanceMatrix";
 
 // ---------- Vocabulary Map ----------
 
@@ -89,99 +94,13 @@ Examples:
 Practical rule of thumb
 If a change affects meaning, boundaries, identity, or deletion, it is governed. If it is derived, reversible, and deterministic, it can be automatic.`;
 
-const GOVERNANCE_MATRIX_DATA = [
-  {
-    asset: "UI theme / palette switching",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "No",
-    notes: "Local UI preference, not canon",
-  },
-  {
-    asset: "Derived counts (node counts, document counts)",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "Yes",
-    notes: "Log as telemetry, not canon",
-  },
-  {
-    asset: "Search index rebuild",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "Yes",
-    notes: "Deterministic, reversible",
-  },
-  {
-    asset: "RAG embedding refresh (no text change)",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "Yes",
-    notes: "Must not alter source content",
-  },
-  {
-    asset: "Create Workspace / Node",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "Yes",
-    notes: "Logged as a creation event",
-  },
-  {
-    asset: "Rename Workspace / Node",
-    allowedAutomatically: "No",
-    approvalRequired: "Yes",
-    loggingRequired: "Yes",
-    notes: "Meaning-impacting",
-  },
-  {
-    asset: "Delete Workspace / Node",
-    allowedAutomatically: "No",
-    approvalRequired: "Yes",
-    loggingRequired: "Yes",
-    notes: "Destructive",
-  },
-  {
-    asset: "Add Document",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "Yes",
-    notes: "Canonical ID must be assigned",
-  },
-  {
-    asset: "Edit Document (non-governance)",
-    allowedAutomatically: "No",
-    approvalRequired: "Yes",
-    loggingRequired: "Yes",
-    notes: "Content meaning can change",
-  },
-  {
-    asset: "Edit Governance / Canon docs",
-    allowedAutomatically: "No",
-    approvalRequired: "Yes (strict)",
-    loggingRequired: "Yes",
-    notes: "Highest protection tier",
-  },
-  {
-    asset: "Schema change / migrations",
-    allowedAutomatically: "No",
-    approvalRequired: "Yes (strict)",
-    loggingRequired: "Yes",
-    notes: "Must be planned and reversible",
-  },
-  {
-    asset: "MCP server creation from template",
-    allowedAutomatically: "Yes",
-    approvalRequired: "No",
-    loggingRequired: "Yes",
-    notes: "If templates are pre-approved",
-  },
-  {
-    asset: "MCP server capability change",
-    allowedAutomatically: "No",
-    approvalRequired: "Yes",
-    loggingRequired: "Yes",
-    notes: "Can expand system power",
-  },
-];
+const APPROVAL_LABELS: Record<ApprovalLevel, string> = {
+  none: "No",
+  required: "Yes",
+  strict: "Yes (strict)",
+};
+
+const yesNo = (value: boolean) => (value ? "Yes" : "No");
 
 export default function GlossaryPage() {
   return (
@@ -486,7 +405,8 @@ export default function GlossaryPage() {
               Governance Matrix
             </Text>
             <Text size="sm" c="#64748b" style={{ marginBottom: "8px" }}>
-              Governance matrix (v1)
+              Governance matrix ({GOVERNANCE_MATRIX_VERSION}). The app enforces these
+              rules before every change it makes.
             </Text>
             <Table
               withTableBorder
@@ -525,17 +445,17 @@ export default function GlossaryPage() {
                 </Table.Tr>
               </Table.Thead>
               <Table.Tbody>
-                {GOVERNANCE_MATRIX_DATA.map((row, index) => (
-                  <Table.Tr key={index}>
+                {GOVERNANCE_MATRIX.map((row) => (
+                  <Table.Tr key={row.asset}>
                     <Table.Td>{row.asset}</Table.Td>
                     <Table.Td style={{ textAlign: "center" }}>
-                      {row.allowedAutomatically}
+                      {yesNo(row.allowedAutomatically)}
                     </Table.Td>
                     <Table.Td style={{ textAlign: "center" }}>
-                      {row.approvalRequired}
+                      {APPROVAL_LABELS[row.approval]}
                     </Table.Td>
                     <Table.Td style={{ textAlign: "center" }}>
-                      {row.loggingRequired}
+                      {yesNo(row.loggingRequired)}
                     </Table.Td>
                     <Table.Td>{row.notes}</Table.Td>
                   </Table.Tr>
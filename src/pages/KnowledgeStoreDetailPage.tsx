@@ -0,0 +1,572 @@
+import React, { useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  SegmentedControl,
+  Select,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Tooltip,
+} from "@mantine/core";
+import { IconArrowLeft, IconFlask, IconPlus, IconRefresh, IconTrash } from "@tabler/icons-react";
+import { evaluatePolicy } from "../api/policy";
+import {
+  useAddKnowledgeMember,
+  useDocuments,
+  useKnowledgeStore,
+  useNodes,
+  useRebuildKnowledgeStore,
+  useRemoveKnowledgeMember,
+} from "../api/queries";
+import { knowledgePurpose, MEMBER_STATUS } from "../content/knowledgeStores";
+import type { AddKnowledgeMemberInput, KnowledgeStoreMember } from "../api/types";
+
+type KnowledgeStoreDetailPageProps = {
+  palette: any;
+};
+
+type MemberKind = AddKnowledgeMemberInput["kind"];
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// What the member's index holds, compared with the document as it is now
+const describeIndex = (member: KnowledgeStoreMember) => {
+  if (member.kind === "source") return member.lastRefreshedAt ? "Fetched" : "Not fetched";
+  if (!member.indexedVersion) return "Not indexed";
+  return member.indexedVersion === member.documentVersion
+    ? `Version ${member.indexedVersion}`
+    : `Version ${member.indexedVersion} (now ${member.documentVersion})`;
+};
+
+/**
+ * One knowledge store: its members with their index status, adding and
+ * removing members, and rebuilding the index. Membership and rebuilds only
+ * point at content, so they apply immediately and are logged.
+ */
+export default function KnowledgeStoreDetailPage({ palette }: KnowledgeStoreDetailPageProps) {
+  const { storeId } = useParams<{ storeId: string }>();
+  const navigate = useNavigate();
+  const { data: store, isLoading: loading, error: storeError } = useKnowledgeStore(storeId);
+  const error = !storeId ? "No knowledge store ID provided" : storeError;
+
+  // A node-scoped store lists that node's documents; a workspace-scoped one
+  // lists every document and keeps those on the workspace's nodes
+  const { data: documents = [] } = useDocuments(store?.nodeId ?? null, { enabled: !!store });
+  const { data: nodes = [] } = useNodes(store?.workspaceId, {
+    enabled: !!store && !store.nodeId,
+  });
+
+  const addKnowledgeMember = useAddKnowledgeMember();
+  const removeKnowledgeMember = useRemoveKnowledgeMember();
+  const rebuildKnowledgeStore = useRebuildKnowledgeStore();
+
+  const [kind, setKind] = useState<MemberKind>("document");
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [sourceLabel, setSourceLabel] = useState("");
+  const [sourceUri, setSourceUri] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const decision = evaluatePolicy("knowledge.rebuild");
+
+  const candidates = useMemo(() => {
+    if (!store) return [];
+    const memberIds = new Set(
+      store.members.flatMap((member) => (member.kind === "document" ? [member.documentId] : []))
+    );
+    const nodeIds = new Set(nodes.map((node) => node.id));
+    return documents.filter(
+      (document) =>
+        !memberIds.has(document.id) &&
+        (store.nodeId ? true : nodeIds.has(document.metadata?.nodeId ?? ""))
+    );
+  }, [store, documents, nodes]);
+
+  const backToList = () => navigate("/knowledge-stores");
+
+  const handleAdd = async () => {
+    if (!store) return;
+    const input: AddKnowledgeMemberInput | null =
+      kind === "document"
+        ? documentId
+          ? { kind, documentId }
+          : null
+        : sourceLabel.trim() && sourceUri.trim()
+          ? { kind, label: sourceLabel.trim(), uri: sourceUri.trim() }
+          : null;
+    if (!input) return;
+    try {
+      setAdding(true);
+      setActionError(null);
+      await addKnowledgeMember(store.id, input);
+      setDocumentId(null);
+      setSourceLabel("");
+      setSourceUri("");
+    } catch (err: any) {
+      console.error("Error adding knowledge store member", err);
+      setActionError(err?.message ?? "Failed to add member");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (member: KnowledgeStoreMember) => {
+    if (!store) return;
+    try {
+      setRemovingId(member.id);
+      setActionError(null);
+      await removeKnowledgeMember(store.id, member.id);
+    } catch (err: any) {
+      console.error("Error removing knowledge store member", err);
+      setActionError(err?.message ?? "Failed to remove member");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleRebuild = async () => {
+    if (!store) return;
+    try {
+      setRebuilding(true);
+      setActionError(null);
+      await rebuildKnowledgeStore(store.id);
+    } catch (err: any) {
+      console.error("Error rebuilding knowledge store", err);
+      setActionError(err?.message ?? "Failed to rebuild knowledge store");
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm">Loading knowledge store…</Text>
+          </Group>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  if (error || !store) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Stack gap="xs">
+            <Text size="sm" c="red.3">
+              {error || "Knowledge store not found"}
+            </Text>
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={backToList}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Back to Knowledge Stores
+            </Button>
+          </Stack>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  const purpose = knowledgePurpose(store.purpose);
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      {/* Store Header */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Group gap="xs">
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={backToList}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Knowledge Stores
+            </Button>
+            <Text fw={700} size="xl" c={palette.text}>
+              {store.name}
+            </Text>
+            <Badge color={purpose.color} variant="light" size="sm">
+              {purpose.label}
+            </Badge>
+            <Button
+              leftSection={<IconFlask size={16} />}
+              component={Link}
+              to={`/retrieval?store=${encodeURIComponent(store.id)}`}
+              size="sm"
+              variant="subtle"
+              ml="auto"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Try a query
+            </Button>
+            <Button
+              leftSection={<IconRefresh size={16} />}
+              onClick={handleRebuild}
+              loading={rebuilding}
+              disabled={store.members.length === 0 || decision.outcome === "blocked"}
+              size="sm"
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              Rebuild
+            </Button>
+          </Group>
+
+          {store.description && (
+            <Text size="sm" c={palette.textSoft}>
+              {store.description}
+            </Text>
+          )}
+
+          <Group gap="md">
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Scope
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {store.scope.nodeName
+                  ? `${store.scope.workspaceName} / ${store.scope.nodeName}`
+                  : `${store.scope.workspaceName} (whole workspace)`}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Members
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {store.members.length}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Last rebuild
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {store.lastRebuildAt ? formatDateTime(store.lastRebuildAt) : "Never"}
+              </Text>
+            </Stack>
+          </Group>
+
+          <Text size="xs" c={palette.textSoft}>
+            {decision.reason}. A rebuild re-indexes every member as it is now and is logged.
+          </Text>
+        </Stack>
+      </Paper>
+
+      {actionError && (
+        <Alert
+          color="red"
+          title="Error"
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {actionError}
+        </Alert>
+      )}
+
+      {/* Members */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Text fw={600} size="lg" c={palette.text}>
+            Members
+          </Text>
+
+          {store.members.length === 0 ? (
+            <Text size="sm" c={palette.textSoft}>
+              This store has no members yet. Add documents or sources below.
+            </Text>
+          ) : (
+            <Table
+              striped
+              highlightOnHover
+              styles={{
+                table: {
+                  backgroundColor: palette.surface,
+                },
+                thead: {
+                  backgroundColor: palette.header,
+                },
+                th: {
+                  color: palette.text,
+                  fontWeight: 600,
+                },
+                td: {
+                  color: palette.text,
+                },
+              }}
+            >
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Member</Table.Th>
+                  <Table.Th>Status</Table.Th>
+                  <Table.Th>Index</Table.Th>
+                  <Table.Th>Chunks</Table.Th>
+                  <Table.Th>Last refresh</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {store.members.map((member) => {
+                  const status = MEMBER_STATUS[member.status];
+                  return (
+                    <Table.Tr key={member.id}>
+                      <Table.Td>
+                        <Stack gap={2}>
+                          <Group gap="xs">
+                            {member.kind === "document" ? (
+                              <Link
+                                to={`/documents?doc=${encodeURIComponent(member.documentId)}`}
+                                style={{ color: palette.accent, fontSize: 14, fontWeight: 500 }}
+                              >
+                                {member.label}
+                              </Link>
+                            ) : (
+                              <Text size="sm" fw={500} c={palette.text}>
+                                {member.label}
+                              </Text>
+                            )}
+                            <Badge color="gray" variant="outline" size="xs">
+                              {member.kind}
+                            </Badge>
+                          </Group>
+                          {member.kind === "source" && (
+                            <Text size="xs" c={palette.textSoft} ff="monospace" lineClamp={1}>
+                              {member.uri}
+                            </Text>
+                          )}
+                          {member.error && (
+                            <Text size="xs" c="red.3">
+                              {member.error}
+                            </Text>
+                          )}
+                        </Stack>
+                      </Table.Td>
+                      <Table.Td>
+                        <Badge color={status.color} variant="light" size="sm">
+                          {status.label}
+                        </Badge>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {describeIndex(member)}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {member.chunkCount ?? "—"}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {member.lastRefreshedAt
+                            ? formatDateTime(member.lastRefreshedAt)
+                            : "Never"}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Tooltip label="Remove from store">
+                          <ActionIcon
+                            variant="subtle"
+                            color="red"
+                            aria-label={`Remove ${member.label}`}
+                            loading={removingId === member.id}
+                            onClick={() => handleRemove(member)}
+                          >
+                            <IconTrash size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Table.Td>
+                    </Table.Tr>
+                  );
+                })}
+              </Table.Tbody>
+            </Table>
+          )}
+
+          <Paper
+            p="sm"
+            radius="md"
+            style={{
+              backgroundColor: palette.header,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <Stack gap="sm">
+              <Group justify="space-between">
+                <Text size="sm" fw={600} c={palette.text}>
+                  Add a member
+                </Text>
+                <SegmentedControl
+                  size="xs"
+                  value={kind}
+                  onChange={(next) => setKind(next as MemberKind)}
+                  data={[
+                    { value: "document", label: "Document" },
+                    { value: "source", label: "External source" },
+                  ]}
+                />
+              </Group>
+
+              {kind === "document" ? (
+                <Select
+                  label="Document"
+                  placeholder={
+                    candidates.length === 0
+                      ? "Every document in scope is already a member"
+                      : "Pick a document"
+                  }
+                  value={documentId}
+                  onChange={setDocumentId}
+                  data={candidates.map((document) => ({
+                    value: document.id,
+                    label: document.title,
+                  }))}
+                  searchable
+                  disabled={adding || candidates.length === 0}
+                  styles={inputStyles}
+                />
+              ) : (
+                <Group grow align="flex-start">
+                  <TextInput
+                    label="Label"
+                    value={sourceLabel}
+                    onChange={(e) => setSourceLabel(e.target.value)}
+                    disabled={adding}
+                    styles={inputStyles}
+                  />
+                  <TextInput
+                    label="URL"
+                    placeholder="https://"
+                    value={sourceUri}
+                    onChange={(e) => setSourceUri(e.target.value)}
+                    disabled={adding}
+                    styles={inputStyles}
+                  />
+                </Group>
+              )}
+
+              <Group justify="space-between">
+                <Text size="xs" c={palette.textSoft}>
+                  New members stay pending until the next rebuild.
+                </Text>
+                <Button
+                  leftSection={<IconPlus size={14} />}
+                  onClick={handleAdd}
+                  loading={adding}
+                  disabled={
+                    kind === "document" ? !documentId : !sourceLabel.trim() || !sourceUri.trim()
+                  }
+                  size="xs"
+                  styles={{
+                    root: {
+                      backgroundColor: palette.accent,
+                      color: palette.background,
+                    },
+                  }}
+                >
+                  Add
+                </Button>
+              </Group>
+            </Stack>
+          </Paper>
+        </Stack>
+      </Paper>
+    </Stack>
+  );
+}
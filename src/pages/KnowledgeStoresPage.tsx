@@ -0,0 +1,264 @@
+import React, { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  Select,
+  Stack,
+  Table,
+  Text,
+} from "@mantine/core";
+import { IconPlus } from "@tabler/icons-react";
+import KnowledgeStoreCreateModal from "../components/KnowledgeStoreCreateModal";
+import { useKnowledgeStores, useWorkspaces } from "../api/queries";
+import { knowledgePurpose, MEMBER_STATUS } from "../content/knowledgeStores";
+import type { KnowledgeMemberStatus } from "../api/types";
+
+type KnowledgeStoresPageProps = {
+  palette: any;
+};
+
+const STATUS_ORDER: KnowledgeMemberStatus[] = ["indexed", "pending", "stale", "failed"];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+/**
+ * Every knowledge store, optionally filtered to one workspace via
+ * /knowledge-stores?workspaceId=…. Rows open the store's member list.
+ */
+export default function KnowledgeStoresPage({ palette }: KnowledgeStoresPageProps) {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const workspaceId = searchParams.get("workspaceId");
+
+  const { data: workspaces = [], isLoading: workspacesLoading } = useWorkspaces();
+  const { data: stores = [], isLoading, error } = useKnowledgeStores({ workspaceId });
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const updateWorkspace = (value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set("workspaceId", value);
+    else next.delete("workspaceId");
+    setSearchParams(next);
+  };
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Group justify="space-between" align="flex-start">
+            <Stack gap="xs">
+              <Text size="lg" fw={600} c={palette.text}>
+                Knowledge Stores
+              </Text>
+              <Text size="xs" c={palette.textSoft}>
+                Named collections of documents and external sources, indexed together for retrieval.
+                Each member reports whether its index is current.
+              </Text>
+            </Stack>
+            <Button
+              leftSection={<IconPlus size={16} />}
+              onClick={() => setCreateOpen(true)}
+              size="sm"
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              New knowledge store
+            </Button>
+          </Group>
+
+          <Select
+            label="Workspace"
+            value={workspaceId ?? ""}
+            onChange={(value) => updateWorkspace(value || null)}
+            data={[
+              { value: "", label: "All workspaces" },
+              ...workspaces.map((workspace) => ({ value: workspace.id, label: workspace.name })),
+            ]}
+            disabled={workspacesLoading}
+            maw={320}
+            styles={{ ...inputStyles, label: { color: palette.text } }}
+          />
+        </Stack>
+      </Paper>
+
+      {isLoading && (
+        <Group gap="xs">
+          <Loader size="sm" />
+          <Text size="sm" c={palette.textSoft}>
+            Loading knowledge stores...
+          </Text>
+        </Group>
+      )}
+
+      {error && (
+        <Alert
+          color="red"
+          title="Error"
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {error}
+        </Alert>
+      )}
+
+      {!isLoading && !error && stores.length === 0 && (
+        <Text size="sm" c={palette.textSoft}>
+          No knowledge stores{workspaceId ? " in this workspace" : ""} yet.
+        </Text>
+      )}
+
+      {stores.length > 0 && (
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Table
+            striped
+            highlightOnHover
+            styles={{
+              table: {
+                backgroundColor: palette.surface,
+              },
+              thead: {
+                backgroundColor: palette.header,
+              },
+              th: {
+                color: palette.text,
+                fontWeight: 600,
+              },
+              td: {
+                color: palette.text,
+              },
+            }}
+          >
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Name</Table.Th>
+                <Table.Th>Scope</Table.Th>
+                <Table.Th>Purpose</Table.Th>
+                <Table.Th>Members</Table.Th>
+                <Table.Th>Last rebuild</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {stores.map((store) => {
+                const purpose = knowledgePurpose(store.purpose);
+                return (
+                  <Table.Tr
+                    key={store.id}
+                    onClick={() => navigate(`/knowledge-stores/${store.id}`)}
+                    style={{ cursor: "pointer" }}
+                  >
+                    <Table.Td>
+                      <Stack gap={2}>
+                        <Text size="sm" fw={500} c={palette.text}>
+                          {store.name}
+                        </Text>
+                        {store.description && (
+                          <Text size="xs" c={palette.textSoft} lineClamp={1}>
+                            {store.description}
+                          </Text>
+                        )}
+                      </Stack>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft}>
+                        {store.scope.nodeName
+                          ? `${store.scope.workspaceName} / ${store.scope.nodeName}`
+                          : store.scope.workspaceName}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge color={purpose.color} variant="light" size="sm">
+                        {purpose.label}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td>
+                      {store.members.length === 0 ? (
+                        <Text size="xs" c={palette.textSoft}>
+                          Empty
+                        </Text>
+                      ) : (
+                        <Group gap={4}>
+                          {STATUS_ORDER.filter((status) => store.counts[status] > 0).map(
+                            (status) => (
+                              <Badge
+                                key={status}
+                                color={MEMBER_STATUS[status].color}
+                                variant="light"
+                                size="sm"
+                              >
+                                {store.counts[status]} {MEMBER_STATUS[status].label.toLowerCase()}
+                              </Badge>
+                            )
+                          )}
+                        </Group>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft}>
+                        {store.lastRebuildAt ? formatDate(store.lastRebuildAt) : "Never"}
+                      </Text>
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </Paper>
+      )}
+
+      <KnowledgeStoreCreateModal
+        opened={createOpen}
+        palette={palette}
+        workspaceId={workspaceId}
+        onClose={() => setCreateOpen(false)}
+        onCreated={(store) => navigate(`/knowledge-stores/${store.id}`)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,542 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Tabs,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import {
+  IconArrowLeft,
+  IconFileExport,
+  IconHistory,
+  IconPlugConnected,
+  IconTool,
+} from "@tabler/icons-react";
+import McpToolEditor from "../components/McpToolEditor";
+import McpServerVersionHistory from "../components/McpServerVersionHistory";
+import McpManifestExportModal from "../components/McpManifestExportModal";
+import McpInspector from "../components/McpInspector";
+import { isVersionConflict } from "../api/coreApi";
+import { evaluatePolicy } from "../api/policy";
+import {
+  useCreateCapabilityProposal,
+  useMcpServer,
+  useMcpTemplates,
+  useProposals,
+  useUpdateMcpServer,
+} from "../api/queries";
+import type { McpServer } from "../api/types";
+import { useActor } from "../context/ActorContext";
+import {
+  addedTools,
+  draftIssues,
+  fromDrafts,
+  toDraft,
+  type McpToolDraft,
+} from "../content/mcpTools";
+
+type McpServerDetailPageProps = {
+  palette: any;
+};
+
+/**
+ * An MCP server's tools, inspector and version history. Saving applies directly
+ * when it only edits or removes tools; once the draft adds a tool the save
+ * becomes a capability-change proposal with a rationale, applied when approved.
+ */
+export default function McpServerDetailPage({ palette }: McpServerDetailPageProps) {
+  const { nodeId, serverId } = useParams<{ nodeId: string; serverId: string }>();
+  const navigate = useNavigate();
+  const { actorName } = useActor();
+  const { data: server, error: serverError, isLoading: loading } = useMcpServer(serverId);
+  // A server reached through another node's URL is treated as missing
+  const error = !serverId
+    ? "No MCP server ID provided"
+    : server && server.nodeId !== nodeId
+      ? "MCP server not found on this node"
+      : serverError;
+  const { data: pending = [] } = useProposals(
+    { serverId, status: "pending" },
+    { enabled: !!serverId }
+  );
+  const { data: templates = [] } = useMcpTemplates();
+  const updateMcpServer = useUpdateMcpServer();
+  const createCapabilityProposal = useCreateCapabilityProposal();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [drafts, setDrafts] = useState<McpToolDraft[]>([]);
+  const [rationale, setRationale] = useState("");
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+
+  const resetFrom = (source: McpServer) => {
+    setName(source.name);
+    setDescription(source.description);
+    setDrafts(source.tools.map((tool) => toDraft(tool)));
+    setRationale("");
+    setDirty(false);
+  };
+
+  // Load the saved definition whenever a new version arrives
+  useEffect(() => {
+    if (server) resetFrom(server);
+  }, [server]);
+
+  const savedNames = useMemo(() => (server?.tools ?? []).map((tool) => tool.name), [server]);
+  const added = server ? addedTools(server.tools, drafts) : [];
+  const governed = added.length > 0;
+  const decision = evaluatePolicy("mcp.capabilityChange");
+  const hasIssues = drafts.some(
+    (draft) =>
+      draftIssues(
+        draft,
+        drafts.filter((other) => other.key !== draft.key).map((other) => other.name.trim())
+      ).length > 0
+  );
+
+  const touch = () => {
+    setDirty(true);
+    setNotice(null);
+  };
+
+  const handleSave = async () => {
+    if (!server || !name.trim() || hasIssues) return;
+    const proposed = { name: name.trim(), description, tools: fromDrafts(drafts) };
+    try {
+      setSaving(true);
+      setSaveError(null);
+      if (governed) {
+        await createCapabilityProposal({
+          serverId: server.id,
+          baseVersion: server.version,
+          proposed,
+          author: actorName,
+          rationale: rationale.trim(),
+        });
+        setNotice(
+          `Proposed adding ${added.join(", ")}. The server stays at version ${server.version} until the proposal is approved.`
+        );
+        resetFrom(server);
+      } else {
+        const updated = await updateMcpServer(server, { ...proposed, version: server.version });
+        setNotice(`Saved as version ${updated.version}.`);
+      }
+    } catch (err: any) {
+      if (isVersionConflict<McpServer>(err)) {
+        setSaveError(
+          `The server moved to version ${err.body.current?.version} while you were editing. Reset to load it, then reapply your changes.`
+        );
+        return;
+      }
+      console.error("Error saving MCP server", err);
+      setSaveError(err?.message ?? "Failed to save MCP server");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const backToNode = () => navigate(`/nodes/${nodeId}`);
+
+  if (loading) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm">Loading MCP server…</Text>
+          </Group>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  if (error || !server) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Stack gap="xs">
+            <Text size="sm" c="red.3">
+              {error || "MCP server not found"}
+            </Text>
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={backToNode}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Back to Node
+            </Button>
+          </Stack>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    description: {
+      color: palette.textSoft,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      {/* Server Header */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Group gap="xs">
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={backToNode}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              {server.node?.name ?? "Back"}
+            </Button>
+            <Text fw={700} size="xl" c={palette.text}>
+              {server.name}
+            </Text>
+            <Badge color="violet" variant="light" size="sm">
+              MCP server
+            </Badge>
+            <Button
+              leftSection={<IconFileExport size={16} />}
+              onClick={() => setExportOpen(true)}
+              size="sm"
+              variant="subtle"
+              ml="auto"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Export
+            </Button>
+          </Group>
+
+          <Group gap="md">
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Version
+              </Text>
+              <Text size="sm" fw={500} c={palette.text}>
+                {server.version}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Template
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {templates.find((template) => template.id === server.templateId)?.label ??
+                  server.templateId}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Tools
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {server.tools.length}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Updated
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {new Date(server.updatedAt).toLocaleString()}
+              </Text>
+            </Stack>
+          </Group>
+        </Stack>
+      </Paper>
+
+      {pending.length > 0 && (
+        <Alert
+          color="orange"
+          title="Capability change awaiting review"
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          <Stack gap={4}>
+            {pending.map((proposal) => (
+              <Text key={proposal.id} size="sm" c={palette.text}>
+                {proposal.author} proposed{" "}
+                {proposal.kind === "capability"
+                  ? `adding ${proposal.addedTools.join(", ")}`
+                  : "a change"}
+                : {proposal.rationale}
+              </Text>
+            ))}
+            <Link to="/proposals" style={{ color: palette.accent, fontSize: 14 }}>
+              Review in Proposals
+            </Link>
+          </Stack>
+        </Alert>
+      )}
+
+      <Tabs
+        defaultValue="tools"
+        styles={{
+          tab: {
+            color: palette.text,
+          },
+        }}
+      >
+        <Tabs.List>
+          <Tabs.Tab value="tools" leftSection={<IconTool size={14} />}>
+            Tools ({server.tools.length})
+          </Tabs.Tab>
+          <Tabs.Tab value="inspector" leftSection={<IconPlugConnected size={14} />}>
+            Inspector
+          </Tabs.Tab>
+          <Tabs.Tab value="versions" leftSection={<IconHistory size={14} />}>
+            Versions
+          </Tabs.Tab>
+        </Tabs.List>
+
+        <Tabs.Panel value="tools" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <Stack gap="md">
+              {notice && (
+                <Alert
+                  color="green"
+                  withCloseButton
+                  onClose={() => setNotice(null)}
+                  styles={{
+                    root: {
+                      backgroundColor: palette.surface,
+                    },
+                  }}
+                >
+                  {notice}
+                </Alert>
+              )}
+
+              {saveError && (
+                <Alert
+                  color="red"
+                  title="Error"
+                  styles={{
+                    root: {
+                      backgroundColor: palette.surface,
+                    },
+                  }}
+                >
+                  {saveError}
+                </Alert>
+              )}
+
+              <TextInput
+                label="Name"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  touch();
+                }}
+                required
+                disabled={saving}
+                styles={inputStyles}
+              />
+              <TextInput
+                label="Description"
+                value={description}
+                onChange={(e) => {
+                  setDescription(e.target.value);
+                  touch();
+                }}
+                disabled={saving}
+                styles={inputStyles}
+              />
+
+              <McpToolEditor
+                drafts={drafts}
+                onChange={(next) => {
+                  setDrafts(next);
+                  touch();
+                }}
+                savedNames={savedNames}
+                palette={palette}
+                disabled={saving}
+              />
+
+              {governed && (
+                <Paper
+                  p="sm"
+                  radius="md"
+                  style={{
+                    backgroundColor: palette.header,
+                    border: "1px solid var(--mantine-color-orange-8)",
+                  }}
+                >
+                  <Stack gap="xs">
+                    <Text size="sm" fw={600} c={palette.text}>
+                      Capability change: adds {added.join(", ")}
+                    </Text>
+                    <Text size="xs" c={palette.textSoft}>
+                      {decision.reason}. New tools let agents do more through this server, so this
+                      submits a proposal as {actorName} against version {server.version}; nothing
+                      changes until it is approved.
+                    </Text>
+                    <Textarea
+                      label="Rationale"
+                      description="Why the server needs these tools. Reviewers see it next to the diff."
+                      value={rationale}
+                      onChange={(e) => setRationale(e.target.value)}
+                      minRows={2}
+                      autosize
+                      required
+                      disabled={saving}
+                      styles={inputStyles}
+                    />
+                  </Stack>
+                </Paper>
+              )}
+
+              <Group justify="flex-end" gap="xs">
+                <Button
+                  variant="subtle"
+                  onClick={() => {
+                    resetFrom(server);
+                    setSaveError(null);
+                  }}
+                  disabled={!dirty || saving}
+                  styles={{
+                    root: {
+                      color: palette.text,
+                    },
+                  }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  loading={saving}
+                  disabled={
+                    !dirty ||
+                    !name.trim() ||
+                    hasIssues ||
+                    (governed && !rationale.trim()) ||
+                    decision.outcome === "blocked"
+                  }
+                  styles={{
+                    root: {
+                      backgroundColor: palette.accent,
+                      color: palette.background,
+                    },
+                  }}
+                >
+                  {governed ? "Submit for approval" : "Save"}
+                </Button>
+              </Group>
+            </Stack>
+          </Paper>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="inspector" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <McpInspector server={server} palette={palette} />
+          </Paper>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="versions" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <McpServerVersionHistory server={server} palette={palette} />
+          </Paper>
+        </Tabs.Panel>
+      </Tabs>
+
+      <McpManifestExportModal
+        opened={exportOpen}
+        server={server}
+        palette={palette}
+        onClose={() => setExportOpen(false)}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Alert, Badge, Group, Loader, Paper, Select, Stack, Text } from "@mantine/core";
+import ModuleDrawer from "../components/ModuleDrawer";
+import ModuleEditModal from "../components/ModuleEditModal";
+import ModuleTable from "../components/ModuleTable";
+import { useModules, useWorkspaces } from "../api/queries";
+import { MODULE_KINDS } from "../content/moduleKinds";
+import type { Module, ModuleKind } from "../api/types";
+
+type ModuleLibraryPageProps = {
+  palette: any;
+};
+
+/**
+ * Every module across workspaces, grouped by kind. Filters and the open
+ * module live in the query string, e.g. /modules?kind=connector&module=…
+ */
+export default function ModuleLibraryPage({ palette }: ModuleLibraryPageProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const workspaceId = searchParams.get("workspaceId");
+  const kind = searchParams.get("kind") as ModuleKind | null;
+  const selectedId = searchParams.get("module");
+
+  const { data: workspaces = [], isLoading: workspacesLoading } = useWorkspaces();
+  const { data: modules = [], isLoading, error } = useModules({ workspaceId, kind });
+  const [editing, setEditing] = useState<Module | null>(null);
+
+  const selected = modules.find((module) => module.id === selectedId) ?? null;
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    setSearchParams(next);
+  };
+
+  const groups = MODULE_KINDS.map((info) => ({
+    info,
+    modules: modules.filter((module) => module.kind === info.value),
+  })).filter((group) => group.modules.length > 0);
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Stack gap="xs">
+            <Text size="lg" fw={600} c={palette.text}>
+              Module Library
+            </Text>
+            <Text size="xs" c={palette.textSoft}>
+              Reusable components programs are built from. Each module lists the programs that use
+              it; an edit reaches all of them.
+            </Text>
+          </Stack>
+
+          <Group grow align="flex-end">
+            <Select
+              label="Workspace"
+              value={workspaceId ?? ""}
+              onChange={(value) => updateParams({ workspaceId: value || null })}
+              data={[
+                { value: "", label: "All workspaces" },
+                ...workspaces.map((workspace) => ({ value: workspace.id, label: workspace.name })),
+              ]}
+              disabled={workspacesLoading}
+              styles={inputStyles}
+            />
+            <Select
+              label="Kind"
+              value={kind ?? ""}
+              onChange={(value) => updateParams({ kind: value || null })}
+              data={[
+                { value: "", label: "All kinds" },
+                ...MODULE_KINDS.map((info) => ({ value: info.value, label: info.label })),
+              ]}
+              styles={inputStyles}
+            />
+          </Group>
+        </Stack>
+      </Paper>
+
+      {isLoading && (
+        <Group gap="xs">
+          <Loader size="sm" />
+          <Text size="sm" c={palette.textSoft}>
+            Loading modules...
+          </Text>
+        </Group>
+      )}
+
+      {error && (
+        <Alert
+          color="red"
+          title="Error"
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {error}
+        </Alert>
+      )}
+
+      {!isLoading && !error && groups.length === 0 && (
+        <Text size="sm" c={palette.textSoft}>
+          No modules match these filters.
+        </Text>
+      )}
+
+      {groups.map(({ info, modules: kindModules }) => (
+        <Paper
+          key={info.value}
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Stack gap="md">
+            <Stack gap={2}>
+              <Group gap="xs">
+                <Text fw={600} size="lg" c={palette.text}>
+                  {info.label}
+                </Text>
+                <Badge color={info.color} variant="light" size="sm">
+                  {kindModules.length}
+                </Badge>
+              </Group>
+              <Text size="xs" c={palette.textSoft}>
+                {info.description}
+              </Text>
+            </Stack>
+            <ModuleTable
+              modules={kindModules}
+              palette={palette}
+              showKind={false}
+              onSelect={(module) => updateParams({ module: module.id })}
+            />
+          </Stack>
+        </Paper>
+      ))}
+
+      <ModuleDrawer
+        module={selected}
+        palette={palette}
+        onClose={() => updateParams({ module: null })}
+        onEdit={setEditing}
+      />
+
+      <ModuleEditModal
+        opened={editing !== null}
+        module={editing}
+        palette={palette}
+        onClose={() => setEditing(null)}
+      />
+    </Stack>
+  );
+}
@@ -1,6 +1,7 @@
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
+  ActionIcon,
   Alert,
   Badge,
   Button,
@@ -11,11 +12,47 @@ import {
   Paper,
   Stack,
   Table,
+  Tabs,
   Text,
-  Textarea,
   TextInput,
+  Tooltip,
 } from "@mantine/core";
-import { IconArrowLeft, IconPlus } from "@tabler/icons-react";
+import {
+  IconArrowLeft,
+  IconHistory,
+  IconPencil,
+  IconPlayerPlay,
+  IconPlugConnected,
+  IconPlus,
+  IconPuzzle,
+  IconSettings,
+  IconTrash,
+} from "@tabler/icons-react";
+import EntityHistory from "../components/EntityHistory";
+import IntegrationEditModal from "../components/IntegrationEditModal";
+import IntegrationHealthBadge from "../components/IntegrationHealthBadge";
+import MarkdownEditor from "../components/MarkdownEditor";
+import McpServerCreateModal from "../components/McpServerCreateModal";
+import ModuleDrawer from "../components/ModuleDrawer";
+import ModuleEditModal from "../components/ModuleEditModal";
+import ModuleTable from "../components/ModuleTable";
+import ProgramEditModal from "../components/ProgramEditModal";
+import StructuralChangeModal, {
+  type StructuralChangeRequest,
+} from "../components/StructuralChangeModal";
+import {
+  useCreateDocument,
+  useDocuments,
+  useIntegrationCatalog,
+  useIntegrations,
+  useMcpServers,
+  useModules,
+  useNode,
+  usePrograms,
+  useTestIntegration,
+} from "../api/queries";
+import { programStatus, programTemplate } from "../content/programTemplates";
+import type { Integration, Module } from "../api/types";
 
 // Local helper to display owner name with transformation
 const displayOwnerName = (name: string | null | undefined): string => {
@@ -23,45 +60,6 @@ const displayOwnerName = (name: string | null | undefined): string => {
   return name === "Continuum Systems" ? "Continuum" : name;
 };
 
-type Node = {
-  id: string;
-  name: string;
-  workspaceId: string;
-  createdAt: string;
-  updatedAt: string;
-  workspace: {
-    id: string;
-    name: string;
-    tenant?: {
-      id: string;
-      name: string;
-    };
-  };
-  _count: {
-    programs: number;
-    modules: number;
-    documents: number;
-    integrations: number;
-  };
-};
-
-type Document = {
-  id: string;
-  title: string;
-  type: string;
-  source: string;
-  updatedAt: string;
-  ragReady?: boolean;
-  isGovernance?: boolean;
-  content?: string;
-  metadata?: {
-    version: string;
-    nodeId: string;
-    nodeName: string;
-    createdAt: string;
-  };
-};
-
 type NodeDetailPageProps = {
   palette: any;
   API_BASE: string;
@@ -73,15 +71,60 @@ export default function NodeDetailPage({
 }: NodeDetailPageProps) {
   const { nodeId } = useParams<{ nodeId: string }>();
   const navigate = useNavigate();
-  const [node, setNode] = useState<Node | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
+  const {
+    data: node,
+    error: nodeError,
+    isLoading: loading,
+  } = useNode(nodeId);
+  const error = nodeId ? nodeError : "No node ID provided";
+
   // Documents state
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [documentsLoading, setDocumentsLoading] = useState(false);
-  const [documentsError, setDocumentsError] = useState<string | null>(null);
-  
+  const {
+    data: documents = [],
+    isLoading: documentsLoading,
+    error: documentsError,
+  } = useDocuments(nodeId, { enabled: !!nodeId });
+  const createDocument = useCreateDocument();
+
+  // Programs state
+  const {
+    data: programs = [],
+    isLoading: programsLoading,
+    error: programsError,
+  } = usePrograms(nodeId, { enabled: !!nodeId });
+  const [createProgramOpened, setCreateProgramOpened] = useState(false);
+
+  // Modules state; the drawer follows the list so it shows edits straight away
+  const {
+    data: modules = [],
+    isLoading: modulesLoading,
+    error: modulesError,
+  } = useModules({ nodeId }, { enabled: !!nodeId });
+  const [selectedModuleId, setSelectedModuleId] = useState<string | null>(null);
+  const [editingModule, setEditingModule] = useState<Module | null>(null);
+  const selectedModule = modules.find((module) => module.id === selectedModuleId) ?? null;
+
+  // Integrations state; `editingIntegration` is null when connecting a new one
+  const {
+    data: integrations = [],
+    isLoading: integrationsLoading,
+    error: integrationsError,
+  } = useIntegrations(nodeId, { enabled: !!nodeId });
+  const { data: integrationCatalog = [] } = useIntegrationCatalog();
+  const testIntegration = useTestIntegration();
+  const [integrationModalOpened, setIntegrationModalOpened] = useState(false);
+  const [editingIntegration, setEditingIntegration] = useState<Integration | null>(null);
+  const [testingIntegrationId, setTestingIntegrationId] = useState<string | null>(null);
+  const [integrationActionError, setIntegrationActionError] = useState<string | null>(null);
+
+  // MCP servers state
+  const {
+    data: mcpServers = [],
+    isLoading: mcpServersLoading,
+    error: mcpServersError,
+  } = useMcpServers(nodeId, { enabled: !!nodeId });
+  const [createMcpServerOpened, setCreateMcpServerOpened] = useState(false);
+
   // Create Document modal state
   const [createDocumentOpened, setCreateDocumentOpened] = useState(false);
   const [createTitle, setCreateTitle] = useState("");
@@ -90,76 +133,9 @@ export default function NodeDetailPage({
   const [creatingDocument, setCreatingDocument] = useState(false);
   const [documentCreateError, setDocumentCreateError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchNode = async () => {
-      if (!nodeId) {
-        setError("No node ID provided");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Try to fetch by ID first, if that fails, fetch all and filter
-        let res = await fetch(`${API_BASE}/api/nodes/${nodeId}`);
-        
-        if (!res.ok && res.status === 404) {
-          // If endpoint doesn't exist, fetch all nodes and find the one we need
-          res = await fetch(`${API_BASE}/api/nodes`);
-          if (!res.ok) {
-            throw new Error(`HTTP ${res.status}`);
-          }
-          const allNodes = (await res.json()) as Node[];
-          const foundNode = allNodes.find((n) => n.id === nodeId);
-          if (!foundNode) {
-            throw new Error("Node not found");
-          }
-          setNode(foundNode);
-        } else if (!res.ok) {
-          throw new Error(`HTTP ${res.status}`);
-        } else {
-          const data = (await res.json()) as Node;
-          setNode(data);
-        }
-      } catch (err: any) {
-        console.error("Error loading node", err);
-        setError(err?.message ?? "Failed to load node");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchNode();
-  }, [nodeId, API_BASE]);
-
-  // Fetch documents for the current node
-  const fetchDocuments = async () => {
-    if (!nodeId) return;
-    
-    try {
-      setDocumentsLoading(true);
-      setDocumentsError(null);
-      const res = await fetch(`${API_BASE}/api/documents?nodeId=${nodeId}`);
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      const data = (await res.json()) as Document[];
-      setDocuments(data);
-    } catch (err: any) {
-      console.error("Error loading documents", err);
-      setDocumentsError(err?.message ?? "Failed to load documents");
-    } finally {
-      setDocumentsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    if (nodeId) {
-      fetchDocuments();
-    }
-  }, [nodeId, API_BASE]);
+  // Rename / delete go through governed proposals
+  const [structuralChange, setStructuralChange] =
+    useState<StructuralChangeRequest | null>(null);
 
   const handleCreateDocument = async () => {
     if (!nodeId || !createTitle.trim()) {
@@ -171,42 +147,20 @@ export default function NodeDetailPage({
       setCreatingDocument(true);
       setDocumentCreateError(null);
 
-      const res = await fetch(`${API_BASE}/api/documents`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          nodeId: nodeId,
-          title: createTitle.trim(),
-          content: createContent.trim() || null,
-          isGovernance: createIsGovernance,
-        }),
+      // Invalidates this node's documents and `_count.documents`
+      await createDocument({
+        nodeId: nodeId,
+        title: createTitle.trim(),
+        content: createContent.trim() || null,
+        isGovernance: createIsGovernance,
       });
 
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP ${res.status}`);
-      }
-
-      // Success: close modal, clear form, refresh documents
+      // Success: close modal, clear form
       setCreateDocumentOpened(false);
       setCreateTitle("");
       setCreateContent("");
       setCreateIsGovernance(false);
       setDocumentCreateError(null);
-
-      // Refresh documents list
-      await fetchDocuments();
-      
-      // Optionally refresh node to update document count
-      if (nodeId) {
-        const res = await fetch(`${API_BASE}/api/nodes/${nodeId}`);
-        if (res.ok) {
-          const updatedNode = (await res.json()) as Node;
-          setNode(updatedNode);
-        }
-      }
     } catch (err: any) {
       console.error("Error creating document", err);
       setDocumentCreateError(err?.message ?? "Failed to create document");
@@ -215,6 +169,27 @@ export default function NodeDetailPage({
     }
   };
 
+  const integrationKindLabel = (kind: string) =>
+    integrationCatalog.find((entry) => entry.kind === kind)?.label ?? kind;
+
+  const openIntegrationModal = (integration: Integration | null) => {
+    setEditingIntegration(integration);
+    setIntegrationModalOpened(true);
+  };
+
+  const handleTestIntegration = async (integration: Integration) => {
+    try {
+      setTestingIntegrationId(integration.id);
+      setIntegrationActionError(null);
+      await testIntegration(integration);
+    } catch (err: any) {
+      console.error("Error testing integration", err);
+      setIntegrationActionError(err?.message ?? "Failed to test integration");
+    } finally {
+      setTestingIntegrationId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -332,6 +307,30 @@ export default function NodeDetailPage({
                 {node.name}
               </Text>
             </Group>
+            <Group gap="xs">
+              <Button
+                leftSection={<IconPencil size={16} />}
+                onClick={() => setStructuralChange({ operation: "rename", type: "node", node })}
+                size="sm"
+                variant="subtle"
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Rename
+              </Button>
+              <Button
+                leftSection={<IconTrash size={16} />}
+                onClick={() => setStructuralChange({ operation: "delete", type: "node", node })}
+                size="sm"
+                variant="subtle"
+                color="red"
+              >
+                Delete
+              </Button>
+            </Group>
           </Group>
 
           <Group gap="md">
@@ -432,154 +431,400 @@ export default function NodeDetailPage({
         </Stack>
       </Paper>
 
-      {/* Programs Section */}
-      <Paper
-        shadow="sm"
-        p="md"
-        radius="md"
-        style={{
-          backgroundColor: palette.surface,
-          border: `1px solid ${palette.border}`,
+      <Tabs
+        defaultValue="overview"
+        styles={{
+          tab: {
+            color: palette.text,
+          },
         }}
       >
-        <Stack gap="xs">
-          <Text fw={600} size="lg">
-            Programs
-          </Text>
-          <Text size="sm" c={palette.textSoft}>
-            No programs yet. Programs will appear here when created.
-          </Text>
-        </Stack>
-      </Paper>
+        <Tabs.List>
+          <Tabs.Tab value="overview">Overview</Tabs.Tab>
+          <Tabs.Tab value="history" leftSection={<IconHistory size={14} />}>
+            History
+          </Tabs.Tab>
+        </Tabs.List>
 
-      {/* Documents Section */}
-      <Paper
-        shadow="sm"
-        p="md"
-        radius="md"
-        style={{
-          backgroundColor: palette.surface,
-          border: `1px solid ${palette.border}`,
-        }}
-      >
-        <Stack gap="md">
-          <Group justify="space-between" align="center">
-            <Text fw={600} size="lg" c={palette.text}>
-              Documents
-            </Text>
-            <Button
-              leftSection={<IconPlus size={16} />}
-              onClick={() => setCreateDocumentOpened(true)}
-              size="sm"
-              styles={{
-                root: {
-                  backgroundColor: palette.accent,
-                  color: palette.background,
-                },
+        <Tabs.Panel value="overview" pt="md">
+          <Stack gap="md">
+            {/* Programs Section */}
+            <Paper
+              shadow="sm"
+              p="md"
+              radius="md"
+              style={{
+                backgroundColor: palette.surface,
+                border: `1px solid ${palette.border}`,
               }}
             >
-              Create Document
-            </Button>
-          </Group>
+              <Stack gap="md">
+                <Group justify="space-between" align="center">
+                  <Text fw={600} size="lg" c={palette.text}>
+                    Programs
+                  </Text>
+                  <Button
+                    leftSection={<IconPlus size={16} />}
+                    onClick={() => setCreateProgramOpened(true)}
+                    size="sm"
+                    styles={{
+                      root: {
+                        backgroundColor: palette.accent,
+                        color: palette.background,
+                      },
+                    }}
+                  >
+                    Create Program
+                  </Button>
+                </Group>
 
-          {documentsLoading && (
-            <Group gap="xs">
-              <Loader size="sm" />
-              <Text size="sm" c={palette.textSoft}>
-                Loading documents...
-              </Text>
-            </Group>
-          )}
+                {programsLoading && (
+                  <Group gap="xs">
+                    <Loader size="sm" />
+                    <Text size="sm" c={palette.textSoft}>
+                      Loading programs...
+                    </Text>
+                  </Group>
+                )}
 
-          {documentsError && (
-            <Alert
-              color="red"
-              title="Error"
-              styles={{
-                root: {
-                  backgroundColor: palette.surface,
-                },
+                {programsError && (
+                  <Alert
+                    color="red"
+                    title="Error"
+                    styles={{
+                      root: {
+                        backgroundColor: palette.surface,
+                      },
+                    }}
+                  >
+                    {programsError}
+                  </Alert>
+                )}
+
+                {!programsLoading && !programsError && programs.length === 0 && (
+                  <Text size="sm" c={palette.textSoft}>
+                    No programs yet. Create one from a template to get started.
+                  </Text>
+                )}
+
+                {!programsLoading && !programsError && programs.length > 0 && (
+                  <Table
+                    striped
+                    highlightOnHover
+                    styles={{
+                      table: {
+                        backgroundColor: palette.surface,
+                      },
+                      thead: {
+                        backgroundColor: palette.header,
+                      },
+                      th: {
+                        color: palette.text,
+                        fontWeight: 600,
+                      },
+                      td: {
+                        color: palette.text,
+                      },
+                      tr: {
+                        "&:hover": {
+                          backgroundColor: palette.header,
+                        },
+                      },
+                    }}
+                  >
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Name</Table.Th>
+                        <Table.Th>Type</Table.Th>
+                        <Table.Th>Status</Table.Th>
+                        <Table.Th>Steps</Table.Th>
+                        <Table.Th>Updated</Table.Th>
+                        <Table.Th />
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {programs.map((program) => {
+                        const status = programStatus(program.status);
+                        return (
+                          <Table.Tr
+                            key={program.id}
+                            onClick={() => navigate(`/nodes/${node.id}/programs/${program.id}`)}
+                            style={{ cursor: "pointer" }}
+                          >
+                            <Table.Td>
+                              <Text size="sm" fw={500} c={palette.text}>
+                                {program.name}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm" c={palette.textSoft}>
+                                {programTemplate(program.type).label}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Badge color={status.color} variant="light" size="sm">
+                                {status.label}
+                              </Badge>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm" c={palette.textSoft}>
+                                {program.steps.length}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm" c={palette.textSoft}>
+                                {formatDate(program.updatedAt)}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Tooltip label="Open in Program Runner">
+                                <ActionIcon
+                                  variant="subtle"
+                                  aria-label={`Run ${program.name}`}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    navigate(`/nodes/${node.id}/programs/${program.id}/runs`);
+                                  }}
+                                  styles={{
+                                    root: {
+                                      color: palette.text,
+                                    },
+                                  }}
+                                >
+                                  <IconPlayerPlay size={16} />
+                                </ActionIcon>
+                              </Tooltip>
+                            </Table.Td>
+                          </Table.Tr>
+                        );
+                      })}
+                    </Table.Tbody>
+                  </Table>
+                )}
+              </Stack>
+            </Paper>
+
+            {/* Modules Section */}
+            <Paper
+              shadow="sm"
+              p="md"
+              radius="md"
+              style={{
+                backgroundColor: palette.surface,
+                border: `1px solid ${palette.border}`,
               }}
             >
-              {documentsError}
-            </Alert>
-          )}
+              <Stack gap="md">
+                <Group justify="space-between" align="center">
+                  <Text fw={600} size="lg" c={palette.text}>
+                    Modules
+                  </Text>
+                  <Button
+                    leftSection={<IconPuzzle size={16} />}
+                    onClick={() =>
+                      navigate(`/modules?workspaceId=${encodeURIComponent(node.workspace.id)}`)
+                    }
+                    size="sm"
+                    variant="subtle"
+                    styles={{
+                      root: {
+                        color: palette.text,
+                      },
+                    }}
+                  >
+                    Module Library
+                  </Button>
+                </Group>
 
-          {!documentsLoading && !documentsError && documents.length === 0 && (
-            <Text size="sm" c={palette.textSoft}>
-              No documents yet. Create your first document to get started.
-            </Text>
-          )}
+                {modulesLoading && (
+                  <Group gap="xs">
+                    <Loader size="sm" />
+                    <Text size="sm" c={palette.textSoft}>
+                      Loading modules...
+                    </Text>
+                  </Group>
+                )}
 
-          {!documentsLoading && !documentsError && documents.length > 0 && (
-            <Table
-              striped
-              highlightOnHover
-              styles={{
-                root: {
-                  backgroundColor: palette.surface,
-                },
-                thead: {
-                  backgroundColor: palette.header,
-                },
-                th: {
-                  color: palette.text,
-                  fontWeight: 600,
-                },
-                td: {
-                  color: palette.text,
-                },
-                tr: {
-                  "&:hover": {
-                    backgroundColor: palette.header,
-                  },
-                },
+                {modulesError && (
+                  <Alert
+                    color="red"
+                    title="Error"
+                    styles={{
+                      root: {
+                        backgroundColor: palette.surface,
+                      },
+                    }}
+                  >
+                    {modulesError}
+                  </Alert>
+                )}
+
+                {!modulesLoading && !modulesError && modules.length === 0 && (
+                  <Text size="sm" c={palette.textSoft}>
+                    No modules live on this node.
+                  </Text>
+                )}
+
+                {!modulesLoading && !modulesError && modules.length > 0 && (
+                  <ModuleTable
+                    modules={modules}
+                    palette={palette}
+                    showNode={false}
+                    onSelect={(module) => setSelectedModuleId(module.id)}
+                  />
+                )}
+              </Stack>
+            </Paper>
+
+            {/* Documents Section */}
+            <Paper
+              shadow="sm"
+              p="md"
+              radius="md"
+              style={{
+                backgroundColor: palette.surface,
+                border: `1px solid ${palette.border}`,
               }}
             >
-              <Table.Thead>
-                <Table.Tr>
-                  <Table.Th>Title</Table.Th>
-                  <Table.Th>Type</Table.Th>
-                  <Table.Th>Governance</Table.Th>
-                  <Table.Th>Updated</Table.Th>
-                </Table.Tr>
-              </Table.Thead>
-              <Table.Tbody>
-                {documents.map((doc) => (
-                  <Table.Tr key={doc.id}>
-                    <Table.Td>
-                      <Text size="sm" fw={500} c={palette.text}>
-                        {doc.title}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td>
-                      <Text size="sm" c={palette.textSoft}>
-                        {doc.type || "—"}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td>
-                      {doc.isGovernance ? (
-                        <Badge color="yellow" variant="light" size="sm">
-                          Governance
-                        </Badge>
-                      ) : (
-                        <Text size="xs" c={palette.textSoft}>
-                          Standard
-                        </Text>
-                      )}
-                    </Table.Td>
-                    <Table.Td>
-                      <Text size="sm" c={palette.textSoft}>
-                        {formatDate(doc.updatedAt)}
-                      </Text>
-                    </Table.Td>
-                  </Table.Tr>
-                ))}
-              </Table.Tbody>
-            </Table>
-          )}
-        </Stack>
-      </Paper>
+              <Stack gap="md">
+                <Group justify="space-between" align="center">
+                  <Text fw={600} size="lg" c={palette.text}>
+                    Documents
+                  </Text>
+                  <Button
+                    leftSection={<IconPlus size={16} />}
+                    onClick={() => setCreateDocumentOpened(true)}
+                    size="sm"
+                    styles={{
+                      root: {
+                        backgroundColor: palette.accent,
+                        color: palette.background,
+                      },
+                    }}
+                  >
+                    Create Document
+                  </Button>
+                </Group>
+
+                {documentsLoading && (
+                  <Group gap="xs">
+                    <Loader size="sm" />
+                    <Text size="sm" c={palette.textSoft}>
+                      Loading documents...
+                    </Text>
+                  </Group>
+                )}
+
+                {documentsError && (
+                  <Alert
+                    color="red"
+                    title="Error"
+                    styles={{
+                      root: {
+                        backgroundColor: palette.surface,
+                      },
+                    }}
+                  >
+                    {documentsError}
+                  </Alert>
+                )}
+
+                {!documentsLoading && !documentsError && documents.length === 0 && (
+                  <Text size="sm" c={palette.textSoft}>
+                    No documents yet. Create your first document to get started.
+                  </Text>
+                )}
+
+                {!documentsLoading && !documentsError && documents.length > 0 && (
+                  <Table
+                    striped
+                    highlightOnHover
+                    styles={{
+                      root: {
+                        backgroundColor: palette.surface,
+                      },
+                      thead: {
+                        backgroundColor: palette.header,
+                      },
+                      th: {
+                        color: palette.text,
+                        fontWeight: 600,
+                      },
+                      td: {
+                        color: palette.text,
+                      },
+                      tr: {
+                        "&:hover": {
+                          backgroundColor: palette.header,
+                        },
+                      },
+                    }}
+                  >
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Title</Table.Th>
+                        <Table.Th>Type</Table.Th>
+                        <Table.Th>Governance</Table.Th>
+                        <Table.Th>Updated</Table.Th>
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {documents.map((doc) => (
+                        <Table.Tr
+                          key={doc.id}
+                          onClick={() => navigate(`/documents/${encodeURIComponent(doc.id)}`)}
+                          style={{ cursor: "pointer" }}
+                        >
+                          <Table.Td>
+                            <Text size="sm" fw={500} c={palette.text}>
+                              {doc.title}
+                            </Text>
+                          </Table.Td>
+                          <Table.Td>
+                            <Text size="sm" c={palette.textSoft}>
+                              {doc.type || "—"}
+                            </Text>
+                          </Table.Td>
+                          <Table.Td>
+                            {doc.isGovernance ? (
+                              <Badge color="yellow" variant="light" size="sm">
+                                Governance
+                              </Badge>
+                            ) : (
+                              <Text size="xs" c={palette.textSoft}>
+                                Standard
+                              </Text>
+                            )}
+                          </Table.Td>
+                          <Table.Td>
+                            <Text size="sm" c={palette.textSoft}>
+                              {formatDate(doc.updatedAt)}
+                            </Text>
+                          </Table.Td>
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                )}
+              </Stack>
+            </Paper>
+          </Stack>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="history" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <EntityHistory nodeId={node.id} palette={palette} />
+          </Paper>
+        </Tabs.Panel>
+      </Tabs>
 
       {/* Create Document Modal */}
       <Modal
@@ -592,6 +837,7 @@ export default function NodeDetailPage({
           setDocumentCreateError(null);
         }}
         title="Create Document"
+        size="lg"
         styles={{
           content: {
             backgroundColor: palette.surface,
@@ -634,21 +880,13 @@ export default function NodeDetailPage({
             }}
           />
 
-          <Textarea
+          <MarkdownEditor
             label="Content"
             placeholder="Markdown supported"
             value={createContent}
-            onChange={(e) => setCreateContent(e.target.value)}
-            minRows={8}
-            autosize
+            onChange={setCreateContent}
+            palette={palette}
             disabled={creatingDocument}
-            styles={{
-              input: {
-                backgroundColor: palette.header,
-                borderColor: palette.border,
-                color: palette.text,
-              },
-            }}
           />
 
           <Stack gap="xs">
@@ -704,6 +942,29 @@ export default function NodeDetailPage({
         </Stack>
       </Modal>
 
+      <ProgramEditModal
+        opened={createProgramOpened}
+        nodeId={node.id}
+        program={null}
+        palette={palette}
+        onClose={() => setCreateProgramOpened(false)}
+        onSaved={(program) => navigate(`/nodes/${node.id}/programs/${program.id}`)}
+      />
+
+      <ModuleDrawer
+        module={selectedModule}
+        palette={palette}
+        onClose={() => setSelectedModuleId(null)}
+        onEdit={setEditingModule}
+      />
+
+      <ModuleEditModal
+        opened={editingModule !== null}
+        module={editingModule}
+        palette={palette}
+        onClose={() => setEditingModule(null)}
+      />
+
       {/* Integrations Section */}
       <Paper
         shadow="sm"
@@ -714,16 +975,171 @@ export default function NodeDetailPage({
           border: `1px solid ${palette.border}`,
         }}
       >
-        <Stack gap="xs">
-          <Text fw={600} size="lg">
-            Integrations
-          </Text>
-          <Text size="sm" c={palette.textSoft}>
-            No integrations yet. Integrations will appear here when configured.
-          </Text>
+        <Stack gap="md">
+          <Group justify="space-between" align="center">
+            <Text fw={600} size="lg">
+              Integrations
+            </Text>
+            <Button
+              leftSection={<IconPlus size={16} />}
+              onClick={() => openIntegrationModal(null)}
+              size="sm"
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              Add Integration
+            </Button>
+          </Group>
+
+          {integrationsLoading && (
+            <Group gap="xs">
+              <Loader size="sm" />
+              <Text size="sm" c={palette.textSoft}>
+                Loading integrations...
+              </Text>
+            </Group>
+          )}
+
+          {(integrationsError || integrationActionError) && (
+            <Alert
+              color="red"
+              title="Error"
+              styles={{
+                root: {
+                  backgroundColor: palette.surface,
+                },
+              }}
+            >
+              {integrationsError || integrationActionError}
+            </Alert>
+          )}
+
+          {!integrationsLoading && !integrationsError && integrations.length === 0 && (
+            <Text size="sm" c={palette.textSoft}>
+              No integrations yet. Connect GitHub, Slack or any HTTP API from the catalog.
+            </Text>
+          )}
+
+          {!integrationsLoading && !integrationsError && integrations.length > 0 && (
+            <Table
+              striped
+              styles={{
+                table: {
+                  backgroundColor: palette.surface,
+                },
+                thead: {
+                  backgroundColor: palette.header,
+                },
+                th: {
+                  color: palette.text,
+                  fontWeight: 600,
+                },
+                td: {
+                  color: palette.text,
+                },
+              }}
+            >
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Name</Table.Th>
+                  <Table.Th>Kind</Table.Th>
+                  <Table.Th>Health</Table.Th>
+                  <Table.Th>Last checked</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {integrations.map((integration) => (
+                  <Table.Tr key={integration.id}>
+                    <Table.Td>
+                      <Text size="sm" fw={500} c={palette.text}>
+                        {integration.name}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft}>
+                        {integrationKindLabel(integration.kind)}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <IntegrationHealthBadge health={integration.health} />
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft}>
+                        {integration.health.checkedAt
+                          ? formatDate(integration.health.checkedAt)
+                          : "Never"}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap={4} justify="flex-end" wrap="nowrap">
+                        <Tooltip label="Test connection">
+                          <ActionIcon
+                            variant="subtle"
+                            aria-label={`Test ${integration.name}`}
+                            loading={testingIntegrationId === integration.id}
+                            onClick={() => handleTestIntegration(integration)}
+                            styles={{
+                              root: {
+                                color: palette.text,
+                              },
+                            }}
+                          >
+                            <IconPlugConnected size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                        <Tooltip label="Configure">
+                          <ActionIcon
+                            variant="subtle"
+                            aria-label={`Configure ${integration.name}`}
+                            onClick={() => openIntegrationModal(integration)}
+                            styles={{
+                              root: {
+                                color: palette.text,
+                              },
+                            }}
+                          >
+                            <IconSettings size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                        <Tooltip label="Disconnect">
+                          <ActionIcon
+                            variant="subtle"
+                            color="red"
+                            aria-label={`Disconnect ${integration.name}`}
+                            onClick={() =>
+                              setStructuralChange({
+                                operation: "delete",
+                                type: "integration",
+                                integration,
+                              })
+                            }
+                          >
+                            <IconTrash size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
         </Stack>
       </Paper>
 
+      <IntegrationEditModal
+        opened={integrationModalOpened}
+        nodeId={node.id}
+        integration={editingIntegration}
+        palette={palette}
+        onClose={() => setIntegrationModalOpened(false)}
+      />
+
       {/* MCP Servers Section */}
       <Paper
         shadow="sm"
@@ -734,15 +1150,131 @@ export default function NodeDetailPage({
           border: `1px solid ${palette.border}`,
         }}
       >
-        <Stack gap="xs">
-          <Text fw={600} size="lg">
-            MCP Servers
-          </Text>
-          <Text size="sm" c={palette.textSoft}>
-            No MCP servers yet. MCP servers will appear here when created.
-          </Text>
+        <Stack gap="md">
+          <Group justify="space-between" align="center">
+            <Text fw={600} size="lg">
+              MCP Servers
+            </Text>
+            <Button
+              leftSection={<IconPlus size={16} />}
+              onClick={() => setCreateMcpServerOpened(true)}
+              size="sm"
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              New MCP Server
+            </Button>
+          </Group>
+
+          {mcpServersLoading && (
+            <Group gap="xs">
+              <Loader size="sm" />
+              <Text size="sm" c={palette.textSoft}>
+                Loading MCP servers...
+              </Text>
+            </Group>
+          )}
+
+          {mcpServersError && (
+            <Alert
+              color="red"
+              title="Error"
+              styles={{
+                root: {
+                  backgroundColor: palette.surface,
+                },
+              }}
+            >
+              {mcpServersError}
+            </Alert>
+          )}
+
+          {!mcpServersLoading && !mcpServersError && mcpServers.length === 0 && (
+            <Text size="sm" c={palette.textSoft}>
+              No MCP servers yet. Create one from a pre-approved template.
+            </Text>
+          )}
+
+          {!mcpServersLoading && !mcpServersError && mcpServers.length > 0 && (
+            <Table
+              striped
+              highlightOnHover
+              styles={{
+                table: {
+                  backgroundColor: palette.surface,
+                },
+                thead: {
+                  backgroundColor: palette.header,
+                },
+                th: {
+                  color: palette.text,
+                  fontWeight: 600,
+                },
+                td: {
+                  color: palette.text,
+                },
+              }}
+            >
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Name</Table.Th>
+                  <Table.Th>Tools</Table.Th>
+                  <Table.Th>Version</Table.Th>
+                  <Table.Th>Updated</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {mcpServers.map((server) => (
+                  <Table.Tr
+                    key={server.id}
+                    onClick={() => navigate(`/nodes/${node.id}/mcp-servers/${server.id}`)}
+                    style={{ cursor: "pointer" }}
+                  >
+                    <Table.Td>
+                      <Text size="sm" fw={500} c={palette.text}>
+                        {server.name}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft} ff="monospace">
+                        {server.tools.map((tool) => tool.name).join(", ") || "—"}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft}>
+                        {server.version}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c={palette.textSoft}>
+                        {formatDate(server.updatedAt)}
+                      </Text>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
         </Stack>
       </Paper>
+
+      <McpServerCreateModal
+        opened={createMcpServerOpened}
+        nodeId={node.id}
+        palette={palette}
+        onClose={() => setCreateMcpServerOpened(false)}
+        onCreated={(server) => navigate(`/nodes/${node.id}/mcp-servers/${server.id}`)}
+      />
+
+      <StructuralChangeModal
+        request={structuralChange}
+        palette={palette}
+        onClose={() => setStructuralChange(null)}
+      />
     </Stack>
   );
 }
@@ -1,14 +1,16 @@
-import React, { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import {
   Group,
   Loader,
   Paper,
   Select,
   Stack,
-  Table,
   Text,
 } from "@mantine/core";
+import DataTable, { type DataTableColumn } from "../components/DataTable";
+import { useNodes } from "../api/queries";
+import type { Node, Workspace } from "../api/types";
 
 // Local helper to display owner name with transformation
 const displayOwnerName = (name: string | null | undefined): string => {
@@ -16,39 +18,6 @@ const displayOwnerName = (name: string | null | undefined): string => {
   return name === "Continuum Systems" ? "Continuum" : name;
 };
 
-type Workspace = {
-  id: string;
-  tenantId: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-  tenant: {
-    id: string;
-    name: string;
-  };
-  _count: {
-    nodes: number;
-  };
-};
-
-type Node = {
-  id: string;
-  name: string;
-  workspaceId: string;
-  createdAt: string;
-  updatedAt: string;
-  workspace: {
-    id: string;
-    name: string;
-  };
-  _count: {
-    programs: number;
-    modules: number;
-    documents: number;
-    integrations: number;
-  };
-};
-
 type NodesPageProps = {
   workspaces: Workspace[];
   palette: any;
@@ -56,9 +25,6 @@ type NodesPageProps = {
   API_BASE: string;
 };
 
-const STORAGE_KEY_NODE_ID = "continuum.selectedNodeId";
-const STORAGE_KEY_WORKSPACE_ID = "continuum.selectedWorkspaceId";
-
 export default function NodesPage({
   workspaces,
   palette,
@@ -66,42 +32,76 @@ export default function NodesPage({
   API_BASE,
 }: NodesPageProps) {
   const navigate = useNavigate();
-  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string | null>(
-    null
-  );
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [nodesLoading, setNodesLoading] = useState(false);
-  const [nodesError, setNodesError] = useState<string | null>(null);
-
-  // Fetch all nodes or filtered by workspace
-  useEffect(() => {
-    const fetchNodes = async () => {
-      try {
-        setNodesLoading(true);
-        setNodesError(null);
-
-        const url = selectedWorkspaceId
-          ? `${API_BASE}/api/nodes?workspaceId=${encodeURIComponent(
-              selectedWorkspaceId
-            )}`
-          : `${API_BASE}/api/nodes`;
-
-        const res = await fetch(url);
-        if (!res.ok) {
-          throw new Error(`HTTP ${res.status}`);
-        }
-        const data = (await res.json()) as Node[];
-        setNodes(data);
-      } catch (err: any) {
-        console.error("Error loading nodes", err);
-        setNodesError(err?.message ?? "Failed to load nodes");
-      } finally {
-        setNodesLoading(false);
-      }
-    };
+  // The workspace filter is ?workspaceId=, so the view survives reloads and links
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedWorkspaceId = searchParams.get("workspaceId");
+  const setSelectedWorkspaceId = (workspaceId: string | null) =>
+    setSearchParams(workspaceId ? { workspaceId } : {});
+  const {
+    data: nodes = [],
+    isLoading: nodesLoading,
+    error: nodesError,
+  } = useNodes(selectedWorkspaceId);
+
+  // Opens the Documents page filtered to the node
+  const openNode = (node: Node) => {
+    navigate(`/documents?nodeId=${encodeURIComponent(node.id)}`);
+  };
 
-    fetchNodes();
-  }, [selectedWorkspaceId, API_BASE]);
+  const columns: DataTableColumn<Node>[] = [
+    { key: "workspace", header: "Workspace", width: "20%", render: (node) => node.workspace.name },
+    {
+      key: "node",
+      header: "Node",
+      width: "20%",
+      render: (node) => (
+        <Text fw={500} size="sm" truncate c={palette.text}>
+          {node.name}
+        </Text>
+      ),
+    },
+    {
+      key: "programs",
+      header: "Programs",
+      width: "10%",
+      align: "center",
+      render: (node) => node._count.programs,
+    },
+    {
+      key: "modules",
+      header: "Modules",
+      width: "10%",
+      align: "center",
+      render: (node) => node._count.modules,
+    },
+    {
+      key: "documents",
+      header: "Documents",
+      width: "10%",
+      align: "center",
+      render: (node) => node._count.documents,
+    },
+    {
+      key: "integrations",
+      header: "Integrations",
+      width: "10%",
+      align: "center",
+      render: (node) => node._count.integrations,
+    },
+    {
+      key: "created",
+      header: "Created",
+      width: "20%",
+      render: (node) =>
+        new Date(node.createdAt).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+        }),
+    },
+  ];
 
   const workspaceOptions = [
     { value: "", label: "All Workspaces" },
@@ -202,130 +202,14 @@ export default function NodesPage({
           )}
 
           {!nodesLoading && !nodesError && nodes.length > 0 && (
-            <Table
-              highlightOnHover
-              verticalSpacing="xs"
-              horizontalSpacing="md"
-              withTableBorder
-              withColumnBorders
-              style={{ tableLayout: "fixed", width: "100%" }}
-              styles={{
-                table: {
-                  backgroundColor: "transparent",
-                  tableLayout: "fixed",
-                  width: "100%",
-                },
-                thead: {
-                  "& tr th": {
-                    borderRight: `1px solid ${palette.border}`,
-                    borderBottom: `1px solid ${palette.border}`,
-                  },
-                },
-                tbody: {
-                  "& tr td": {
-                    borderRight: `1px solid ${palette.border}`,
-                    borderBottom: `1px solid ${palette.border}`,
-                    overflow: "hidden",
-                    textOverflow: "ellipsis",
-                  },
-                  "& tr:hover": {
-                    backgroundColor: "rgba(59, 130, 246, 0.1) !important",
-                  },
-                },
-                th: {
-                  backgroundColor: palette.header,
-                  color: "#ffffff",
-                  borderColor: palette.border,
-                  fontWeight: 700,
-                  overflow: "hidden",
-                },
-                td: {
-                  borderColor: palette.border,
-                  color: "#ffffff",
-                  overflow: "hidden",
-                  textOverflow: "ellipsis",
-                },
-              }}
-            >
-              <Table.Thead>
-                <Table.Tr>
-                  <Table.Th style={{ width: "20%" }}>Workspace</Table.Th>
-                  <Table.Th style={{ width: "20%" }}>Node</Table.Th>
-                  <Table.Th style={{ textAlign: "center", width: "10%" }}>
-                    Programs
-                  </Table.Th>
-                  <Table.Th style={{ textAlign: "center", width: "10%" }}>
-                    Modules
-                  </Table.Th>
-                  <Table.Th style={{ textAlign: "center", width: "10%" }}>
-                    Documents
-                  </Table.Th>
-                  <Table.Th style={{ textAlign: "center", width: "10%" }}>
-                    Integrations
-                  </Table.Th>
-                  <Table.Th style={{ width: "20%", whiteSpace: "nowrap" }}>
-                    Created
-                  </Table.Th>
-                </Table.Tr>
-              </Table.Thead>
-              <Table.Tbody>
-                {nodes.map((node) => (
-                  <Table.Tr
-                    key={node.id}
-                    onClick={() => {
-                      // Save selectedNodeId to localStorage
-                      try {
-                        localStorage.setItem(STORAGE_KEY_NODE_ID, node.id);
-                        if (node.workspaceId) {
-                          localStorage.setItem(STORAGE_KEY_WORKSPACE_ID, node.workspaceId);
-                        }
-                      } catch (e) {
-                        console.error("Error saving node selection to localStorage:", e);
-                      }
-                      // Navigate to documents page
-                      navigate("/documents");
-                    }}
-                    style={{
-                      cursor: "pointer",
-                    }}
-                  >
-                    <Table.Td style={{ width: "20%" }}>
-                      <Text size="sm" lineClamp={1} c="#ffffff">
-                        {node.workspace.name}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td style={{ width: "20%" }}>
-                      <Text fw={500} size="sm" lineClamp={1} c="#ffffff">
-                        {node.name}
-                      </Text>
-                    </Table.Td>
-                    <Table.Td style={{ textAlign: "center", width: "10%", color: "#ffffff" }}>
-                      {node._count.programs}
-                    </Table.Td>
-                    <Table.Td style={{ textAlign: "center", width: "10%", color: "#ffffff" }}>
-                      {node._count.modules}
-                    </Table.Td>
-                    <Table.Td style={{ textAlign: "center", width: "10%", color: "#ffffff" }}>
-                      {node._count.documents}
-                    </Table.Td>
-                    <Table.Td style={{ textAlign: "center", width: "10%", color: "#ffffff" }}>
-                      {node._count.integrations}
-                    </Table.Td>
-                    <Table.Td style={{ width: "20%" }}>
-                      <Text size="xs" lineClamp={1} c="#ffffff">
-                        {new Date(node.createdAt).toLocaleDateString("en-US", {
-                          month: "short",
-                          day: "numeric",
-                          year: "numeric",
-                          hour: "numeric",
-                          minute: "2-digit",
-                        })}
-                      </Text>
-                    </Table.Td>
-                  </Table.Tr>
-                ))}
-              </Table.Tbody>
-            </Table>
+            <DataTable
+              rows={nodes}
+              columns={columns}
+              getRowId={(node) => node.id}
+              onRowClick={openNode}
+              label="Nodes"
+              palette={palette}
+            />
           )}
         </Stack>
       </Paper>
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React from "react";
 import { useNavigate } from "react-router-dom";
 import {
   Badge,
@@ -12,29 +12,14 @@ import {
   Text,
 } from "@mantine/core";
 import { Link } from "react-router-dom";
-
-type Node = {
-  id: string;
-  name: string;
-  workspaceId: string;
-};
-
-type Document = {
-  id: string;
-  title: string;
-  metadata?: {
-    nodeName: string;
-    createdAt: string;
-  };
-  updatedAt: string;
-};
+import { useDocumentSummary } from "../api/queries";
+import type { Node } from "../api/types";
 
 type OverviewPageProps = {
   workspaces: Array<{ id: string; name: string; _count?: { nodes: number } }>;
   selectedWorkspace: { id: string; name: string } | null;
   nodes: Node[];
   palette: any;
-  API_BASE: string;
 };
 
 export default function OverviewPage({
@@ -42,38 +27,13 @@ export default function OverviewPage({
   selectedWorkspace,
   nodes,
   palette,
-  API_BASE,
 }: OverviewPageProps) {
   const navigate = useNavigate();
-  const [documentsCount, setDocumentsCount] = useState<number | null>(null);
-  const [documentsLoading, setDocumentsLoading] = useState(false);
-  const [recentDocuments, setRecentDocuments] = useState<Document[]>([]);
-  const [recentDocumentsLoading, setRecentDocumentsLoading] = useState(false);
-
-  // Fetch documents count and recent documents
-  useEffect(() => {
-    const fetchDocuments = async () => {
-      try {
-        setDocumentsLoading(true);
-        setRecentDocumentsLoading(true);
-        const res = await fetch(`${API_BASE}/api/documents`);
-        if (res.ok) {
-          const data = (await res.json()) as Document[];
-          setDocumentsCount(data.length);
-          // Get 5 most recent (already sorted by updatedAt desc from API)
-          setRecentDocuments(data.slice(0, 5));
-        }
-      } catch (err) {
-        // Silently fail - documents count is optional
-        console.error("Error loading documents:", err);
-      } finally {
-        setDocumentsLoading(false);
-        setRecentDocumentsLoading(false);
-      }
-    };
-
-    fetchDocuments();
-  }, [API_BASE]);
+  // Counts and the 5 most recently updated, without pulling every document
+  const { data: summary, isLoading: documentsLoading } = useDocumentSummary(5);
+  const documentsCount = summary ? summary.total : null;
+  const recentDocuments = summary ? summary.recent : [];
+  const recentDocumentsLoading = documentsLoading;
 
   const workspacesCount = workspaces.length;
   const nodesCount = selectedWorkspace
@@ -179,6 +139,11 @@ export default function OverviewPage({
               <Text fw={700} size="xl" c={palette.text}>
                 {documentsCount}
               </Text>
+              {summary && (
+                <Text size="xs" c={palette.textSoft}>
+                  {summary.governance} governed · {summary.ragReady} RAG-ready
+                </Text>
+              )}
             </Stack>
           </Paper>
         ) : null}
@@ -215,7 +180,7 @@ export default function OverviewPage({
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => navigate("/workspaces")}
+                    onClick={() => navigate(`/workspaces/${encodeURIComponent(selectedWorkspace.id)}`)}
                     styles={{
                       root: {
                         borderColor: palette.border,
@@ -315,7 +280,7 @@ export default function OverviewPage({
                         border: `1px solid ${palette.border}`,
                         cursor: "pointer",
                       }}
-                      onClick={() => navigate("/documents")}
+                      onClick={() => navigate(`/documents/${encodeURIComponent(doc.id)}`)}
                     >
                       <Stack gap={2}>
                         <Text size="sm" fw={500} c={palette.text} lineClamp={1}>
@@ -0,0 +1,397 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Table,
+  Tabs,
+  Text,
+} from "@mantine/core";
+import {
+  IconArrowLeft,
+  IconHistory,
+  IconPencil,
+  IconPlayerPlay,
+  IconTrash,
+} from "@tabler/icons-react";
+import ProgramEditModal from "../components/ProgramEditModal";
+import ProgramVersionHistory from "../components/ProgramVersionHistory";
+import StructuralChangeModal, {
+  type StructuralChangeRequest,
+} from "../components/StructuralChangeModal";
+import { useProgram } from "../api/queries";
+import { moduleKind } from "../content/moduleKinds";
+import { programStatus, programTemplate } from "../content/programTemplates";
+
+type ProgramDetailPageProps = {
+  palette: any;
+};
+
+export default function ProgramDetailPage({ palette }: ProgramDetailPageProps) {
+  const { nodeId, programId } = useParams<{ nodeId: string; programId: string }>();
+  const navigate = useNavigate();
+  const { data: program, error: programError, isLoading: loading } = useProgram(programId);
+  // A program reached through another node's URL is treated as missing
+  const error = !programId
+    ? "No program ID provided"
+    : program && program.nodeId !== nodeId
+      ? "Program not found on this node"
+      : programError;
+
+  const [editOpened, setEditOpened] = useState(false);
+  // Deleting goes through a governed proposal
+  const [structuralChange, setStructuralChange] =
+    useState<StructuralChangeRequest | null>(null);
+
+  const backToNode = () => navigate(`/nodes/${nodeId}`);
+
+  if (loading) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm">Loading program…</Text>
+          </Group>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  if (error || !program) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Stack gap="xs">
+            <Text size="sm" c="red.3">
+              {error || "Program not found"}
+            </Text>
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={backToNode}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Back to Node
+            </Button>
+          </Stack>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  const status = programStatus(program.status);
+  const template = programTemplate(program.type);
+  const moduleOf = (id: string) => program.modules.find((module) => module.id === id);
+
+  return (
+    <Stack gap="md">
+      {/* Program Header */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Group justify="space-between" align="center">
+            <Group gap="xs">
+              <Button
+                leftSection={<IconArrowLeft size={16} />}
+                onClick={backToNode}
+                size="sm"
+                variant="subtle"
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                {program.node?.name ?? "Back"}
+              </Button>
+              <Text fw={700} size="xl" c={palette.text}>
+                {program.name}
+              </Text>
+              <Badge color="blue" variant="light" size="sm">
+                {template.label}
+              </Badge>
+              <Badge color={status.color} variant="light" size="sm">
+                {status.label}
+              </Badge>
+            </Group>
+            <Group gap="xs">
+              <Button
+                leftSection={<IconPlayerPlay size={16} />}
+                onClick={() => navigate(`/nodes/${program.nodeId}/programs/${program.id}/runs`)}
+                size="sm"
+                variant="subtle"
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Runner
+              </Button>
+              <Button
+                leftSection={<IconPencil size={16} />}
+                onClick={() => setEditOpened(true)}
+                size="sm"
+                variant="subtle"
+                styles={{
+                  root: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                Edit
+              </Button>
+              <Button
+                leftSection={<IconTrash size={16} />}
+                onClick={() => setStructuralChange({ operation: "delete", type: "program", program })}
+                size="sm"
+                variant="subtle"
+                color="red"
+              >
+                Delete
+              </Button>
+            </Group>
+          </Group>
+
+          <Group gap="md">
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Version
+              </Text>
+              <Text size="sm" fw={500} c={palette.text}>
+                {program.version}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Created
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {new Date(program.createdAt).toLocaleString()}
+              </Text>
+            </Stack>
+
+            <Stack gap={4}>
+              <Text size="xs" c={palette.textSoft}>
+                Updated
+              </Text>
+              <Text size="sm" c={palette.text}>
+                {new Date(program.updatedAt).toLocaleString()}
+              </Text>
+            </Stack>
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Tabs
+        defaultValue="definition"
+        styles={{
+          tab: {
+            color: palette.text,
+          },
+        }}
+      >
+        <Tabs.List>
+          <Tabs.Tab value="definition">Definition</Tabs.Tab>
+          <Tabs.Tab value="modules">Modules ({program.modules.length})</Tabs.Tab>
+          <Tabs.Tab value="versions" leftSection={<IconHistory size={14} />}>
+            Versions
+          </Tabs.Tab>
+        </Tabs.List>
+
+        <Tabs.Panel value="definition" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <Stack gap="md">
+              <Text size="sm" c={program.description ? palette.text : palette.textSoft}>
+                {program.description || "No description."}
+              </Text>
+
+              {program.steps.length === 0 && (
+                <Text size="sm" c={palette.textSoft}>
+                  No steps yet. Edit the program to add some.
+                </Text>
+              )}
+
+              {program.steps.map((step, index) => {
+                const module = step.moduleId ? moduleOf(step.moduleId) : null;
+                return (
+                  <Paper
+                    key={step.id}
+                    p="sm"
+                    radius="md"
+                    style={{
+                      backgroundColor: palette.header,
+                      border: `1px solid ${palette.border}`,
+                    }}
+                  >
+                    <Stack gap={4}>
+                      <Group gap="xs">
+                        <Text size="sm" fw={600} c={palette.text}>
+                          {index + 1}. {step.name}
+                        </Text>
+                        {module && (
+                          <Badge color="grape" variant="light" size="xs">
+                            {module.name}
+                          </Badge>
+                        )}
+                      </Group>
+                      {step.instructions && (
+                        <Text size="sm" c={palette.textSoft} style={{ whiteSpace: "pre-wrap" }}>
+                          {step.instructions}
+                        </Text>
+                      )}
+                    </Stack>
+                  </Paper>
+                );
+              })}
+            </Stack>
+          </Paper>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="modules" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            {program.modules.length === 0 ? (
+              <Text size="sm" c={palette.textSoft}>
+                No steps use a module yet.
+              </Text>
+            ) : (
+              <Table
+                striped
+                styles={{
+                  table: {
+                    backgroundColor: palette.surface,
+                  },
+                  thead: {
+                    backgroundColor: palette.header,
+                  },
+                  th: {
+                    color: palette.text,
+                    fontWeight: 600,
+                  },
+                  td: {
+                    color: palette.text,
+                  },
+                }}
+              >
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Module</Table.Th>
+                    <Table.Th>Kind</Table.Th>
+                    <Table.Th>Used by steps</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {program.modules.map((module) => (
+                    <Table.Tr key={module.id}>
+                      <Table.Td>
+                        <Link
+                          to={`/modules?module=${encodeURIComponent(module.id)}`}
+                          style={{ color: palette.accent, fontSize: 14, fontWeight: 500 }}
+                        >
+                          {module.name}
+                        </Link>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {module.kind ? moduleKind(module.kind).label : "—"}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {program.steps
+                            .map((step, index) =>
+                              step.moduleId === module.id ? `${index + 1}. ${step.name}` : null
+                            )
+                            .filter(Boolean)
+                            .join(", ")}
+                        </Text>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            )}
+          </Paper>
+        </Tabs.Panel>
+
+        <Tabs.Panel value="versions" pt="md">
+          <Paper
+            shadow="sm"
+            p="md"
+            radius="md"
+            style={{
+              backgroundColor: palette.surface,
+              border: `1px solid ${palette.border}`,
+            }}
+          >
+            <ProgramVersionHistory program={program} palette={palette} />
+          </Paper>
+        </Tabs.Panel>
+      </Tabs>
+
+      <ProgramEditModal
+        opened={editOpened}
+        nodeId={program.nodeId}
+        program={program}
+        palette={palette}
+        onClose={() => setEditOpened(false)}
+      />
+
+      <StructuralChangeModal
+        request={structuralChange}
+        palette={palette}
+        onClose={() => setStructuralChange(null)}
+      />
+    </Stack>
+  );
+}
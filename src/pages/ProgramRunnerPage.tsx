@@ -0,0 +1,527 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import {
+  Alert,
+  Badge,
+  Button,
+  Grid,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Table,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import {
+  IconArrowLeft,
+  IconCircleCheck,
+  IconCircleDashed,
+  IconCircleX,
+  IconFile,
+  IconPlayerPlay,
+  IconPlayerSkipForward,
+  IconPlayerStop,
+} from "@tabler/icons-react";
+import RunLogConsole from "../components/RunLogConsole";
+import RunStatusBadge from "../components/RunStatusBadge";
+import { useCancelRun, useProgram, useProgramRuns, useStartRun } from "../api/queries";
+import { isRunFinished, useRunStream } from "../api/useRunStream";
+import type { ProgramRun, RunStep } from "../api/types";
+
+type ProgramRunnerPageProps = {
+  palette: any;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Elapsed time so far for an active run or step, final duration once finished
+const durationOf = (
+  { startedAt, finishedAt }: Pick<ProgramRun, "startedAt" | "finishedAt">,
+  now: number
+) =>
+  startedAt
+    ? formatDuration((finishedAt ? Date.parse(finishedAt) : now) - Date.parse(startedAt))
+    : "—";
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+function StepStatusIcon({ status }: { status: RunStep["status"] }) {
+  switch (status) {
+    case "running":
+      return <Loader size={16} />;
+    case "succeeded":
+      return <IconCircleCheck size={18} color="var(--mantine-color-green-5)" />;
+    case "failed":
+      return <IconCircleX size={18} color="var(--mantine-color-red-5)" />;
+    case "skipped":
+      return <IconPlayerSkipForward size={18} color="var(--mantine-color-gray-6)" />;
+    default:
+      return <IconCircleDashed size={18} color="var(--mantine-color-gray-6)" />;
+  }
+}
+
+/**
+ * Program Runner surface: starts runs of one program, follows the selected run
+ * live (steps and log output) and lists earlier runs with their outcome,
+ * duration and artifacts. The selected run is kept in `?run=` so it can be linked.
+ */
+export default function ProgramRunnerPage({ palette }: ProgramRunnerPageProps) {
+  const { nodeId, programId } = useParams<{ nodeId: string; programId: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: program, error: programError, isLoading: loading } = useProgram(programId);
+  const { data: runs = [], isLoading: runsLoading, error: runsError } = useProgramRuns(programId);
+  const startRun = useStartRun();
+  const cancelRun = useCancelRun();
+
+  // Follow the run from the URL, or the latest one
+  const selectedRunId = searchParams.get("run") ?? runs[0]?.id ?? null;
+  const { run: liveRun, logs, transport, error: streamError } = useRunStream(selectedRunId);
+  const run = liveRun?.id === selectedRunId ? liveRun : null;
+
+  const [starting, setStarting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Tick elapsed times while the selected run is active
+  const [now, setNow] = useState(() => Date.now());
+  const active = run ? !isRunFinished(run.status) : false;
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  const programPath = `/nodes/${nodeId}/programs/${programId}`;
+  const selectRun = (id: string) => setSearchParams({ run: id });
+
+  const handleStart = async () => {
+    if (!program) return;
+    try {
+      setStarting(true);
+      setActionError(null);
+      const started = await startRun(program.id);
+      selectRun(started.id);
+    } catch (err: any) {
+      console.error("Error starting run", err);
+      setActionError(err?.message ?? "Failed to start run");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!run) return;
+    try {
+      setCancelling(true);
+      setActionError(null);
+      await cancelRun(run);
+    } catch (err: any) {
+      console.error("Error cancelling run", err);
+      setActionError(err?.message ?? "Failed to cancel run");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Group gap="xs">
+            <Loader size="sm" />
+            <Text size="sm">Loading program…</Text>
+          </Group>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  const error =
+    program && program.nodeId !== nodeId ? "Program not found on this node" : programError;
+  if (error || !program) {
+    return (
+      <Stack gap="md">
+        <Paper
+          shadow="sm"
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: palette.surface,
+            border: `1px solid ${palette.border}`,
+          }}
+        >
+          <Stack gap="xs">
+            <Text size="sm" c="red.3">
+              {error || "Program not found"}
+            </Text>
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={() => navigate(`/nodes/${nodeId}`)}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              Back to Node
+            </Button>
+          </Stack>
+        </Paper>
+      </Stack>
+    );
+  }
+
+  const cannotRun =
+    program.status === "archived"
+      ? "Archived programs cannot be run"
+      : program.steps.length === 0
+        ? "Add a step before running this program"
+        : null;
+
+  return (
+    <Stack gap="md">
+      {/* Runner Header */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Group justify="space-between" align="center">
+          <Group gap="xs">
+            <Button
+              leftSection={<IconArrowLeft size={16} />}
+              onClick={() => navigate(programPath)}
+              size="sm"
+              variant="subtle"
+              styles={{
+                root: {
+                  color: palette.text,
+                },
+              }}
+            >
+              {program.name}
+            </Button>
+            <Text fw={700} size="xl" c={palette.text}>
+              Program Runner
+            </Text>
+            <Badge color="gray" variant="light" size="sm">
+              Version {program.version}
+            </Badge>
+          </Group>
+          <Tooltip label={cannotRun} disabled={!cannotRun}>
+            <Button
+              leftSection={<IconPlayerPlay size={16} />}
+              onClick={handleStart}
+              loading={starting}
+              disabled={!!cannotRun}
+              size="sm"
+              styles={{
+                root: {
+                  backgroundColor: palette.accent,
+                  color: palette.background,
+                },
+              }}
+            >
+              Start run
+            </Button>
+          </Tooltip>
+        </Group>
+      </Paper>
+
+      {actionError && (
+        <Alert
+          color="red"
+          title="Error"
+          withCloseButton
+          onClose={() => setActionError(null)}
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {actionError}
+        </Alert>
+      )}
+
+      {/* Selected Run */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        {!selectedRunId ? (
+          <Text size="sm" c={palette.textSoft}>
+            This program has not been run yet. Start a run to follow its output here.
+          </Text>
+        ) : !run ? (
+          streamError ? (
+            <Text size="sm" c="red.3">
+              {streamError}
+            </Text>
+          ) : (
+            <Group gap="xs">
+              <Loader size="sm" />
+              <Text size="sm" c={palette.textSoft}>
+                Connecting to run…
+              </Text>
+            </Group>
+          )
+        ) : (
+          <Stack gap="md">
+            <Group justify="space-between" align="center">
+              <Group gap="xs">
+                <Text fw={600} size="lg" c={palette.text}>
+                  Run #{run.number}
+                </Text>
+                <RunStatusBadge status={run.status} />
+                {active && transport && (
+                  <Badge
+                    color={transport === "stream" ? "green" : "gray"}
+                    variant="light"
+                    size="xs"
+                  >
+                    {transport === "stream" ? "Live" : "Polling"}
+                  </Badge>
+                )}
+              </Group>
+              {active && (
+                <Button
+                  leftSection={<IconPlayerStop size={16} />}
+                  onClick={handleCancel}
+                  loading={cancelling}
+                  size="xs"
+                  variant="subtle"
+                  color="red"
+                >
+                  Cancel run
+                </Button>
+              )}
+            </Group>
+
+            <Text size="xs" c={palette.textSoft}>
+              Started by {run.actor}
+              {run.startedAt ? ` · ${formatDateTime(run.startedAt)}` : ""} · {durationOf(run, now)}{" "}
+              · program version {run.programVersion}
+            </Text>
+
+            {run.error && (
+              <Text size="sm" c="red.3">
+                {run.error}
+              </Text>
+            )}
+
+            <Grid gutter="md">
+              <Grid.Col span={{ base: 12, md: 4 }}>
+                <Stack gap="xs">
+                  <Text size="sm" fw={600} c={palette.text}>
+                    Steps
+                  </Text>
+                  {run.steps.map((step, index) => (
+                    <Group key={step.id} gap="xs" wrap="nowrap" justify="space-between">
+                      <Group gap="xs" wrap="nowrap">
+                        <StepStatusIcon status={step.status} />
+                        <Text
+                          size="sm"
+                          c={step.status === "skipped" ? palette.textSoft : palette.text}
+                        >
+                          {index + 1}. {step.name}
+                        </Text>
+                      </Group>
+                      <Text size="xs" c={palette.textSoft}>
+                        {step.status === "pending" || step.status === "skipped"
+                          ? ""
+                          : durationOf(step, now)}
+                      </Text>
+                    </Group>
+                  ))}
+
+                  <Text size="sm" fw={600} c={palette.text} mt="sm">
+                    Artifacts
+                  </Text>
+                  {run.artifacts.length === 0 ? (
+                    <Text size="xs" c={palette.textSoft}>
+                      {active ? "Artifacts appear when the run succeeds." : "No artifacts."}
+                    </Text>
+                  ) : (
+                    run.artifacts.map((artifact) => (
+                      <Group key={artifact.id} gap="xs" wrap="nowrap">
+                        <IconFile size={16} color={palette.textSoft} />
+                        <Text size="sm" c={palette.text}>
+                          {artifact.name}
+                        </Text>
+                        <Text size="xs" c={palette.textSoft}>
+                          {artifact.kind} · {formatBytes(artifact.bytes)}
+                        </Text>
+                      </Group>
+                    ))
+                  )}
+                </Stack>
+              </Grid.Col>
+
+              <Grid.Col span={{ base: 12, md: 8 }}>
+                <Stack gap="xs">
+                  <Text size="sm" fw={600} c={palette.text}>
+                    Log output
+                  </Text>
+                  <RunLogConsole logs={logs} palette={palette} />
+                </Stack>
+              </Grid.Col>
+            </Grid>
+          </Stack>
+        )}
+      </Paper>
+
+      {/* Run History */}
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Text fw={600} size="lg" c={palette.text}>
+            Run history
+          </Text>
+
+          {runsLoading && (
+            <Group gap="xs">
+              <Loader size="sm" />
+              <Text size="sm" c={palette.textSoft}>
+                Loading runs...
+              </Text>
+            </Group>
+          )}
+
+          {runsError && (
+            <Text size="sm" c="red.3">
+              {runsError}
+            </Text>
+          )}
+
+          {!runsLoading && !runsError && runs.length === 0 && (
+            <Text size="sm" c={palette.textSoft}>
+              No runs yet.
+            </Text>
+          )}
+
+          {!runsLoading && !runsError && runs.length > 0 && (
+            <Table
+              highlightOnHover
+              styles={{
+                table: {
+                  backgroundColor: palette.surface,
+                },
+                thead: {
+                  backgroundColor: palette.header,
+                },
+                th: {
+                  color: palette.text,
+                  fontWeight: 600,
+                },
+                td: {
+                  color: palette.text,
+                },
+              }}
+            >
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Run</Table.Th>
+                  <Table.Th>Outcome</Table.Th>
+                  <Table.Th>Started</Table.Th>
+                  <Table.Th>Duration</Table.Th>
+                  <Table.Th>By</Table.Th>
+                  <Table.Th>Artifacts</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {runs.map((entry) => {
+                  // The followed run is fresher than the cached history
+                  const shown = run?.id === entry.id ? run : entry;
+                  return (
+                    <Table.Tr
+                      key={entry.id}
+                      onClick={() => selectRun(entry.id)}
+                      style={{
+                        cursor: "pointer",
+                        backgroundColor: entry.id === selectedRunId ? palette.header : undefined,
+                      }}
+                    >
+                      <Table.Td>
+                        <Text size="sm" fw={500} c={palette.text}>
+                          #{shown.number}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <RunStatusBadge status={shown.status} />
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {shown.startedAt ? formatDateTime(shown.startedAt) : "—"}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {durationOf(shown, now)}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {shown.actor}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={palette.textSoft}>
+                          {shown.artifacts.length > 0
+                            ? shown.artifacts.map((artifact) => artifact.name).join(", ")
+                            : "—"}
+                        </Text>
+                      </Table.Td>
+                    </Table.Tr>
+                  );
+                })}
+              </Table.Tbody>
+            </Table>
+          )}
+        </Stack>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,461 @@
+import React, { useMemo, useState } from "react";
+import {
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  Textarea,
+} from "@mantine/core";
+import { IconCheck, IconX } from "@tabler/icons-react";
+import TextDiff from "../components/TextDiff";
+import ProposalStatusBadge from "../components/ProposalStatusBadge";
+import { isVersionConflict } from "../api/coreApi";
+import { documentEditAction, evaluatePolicy } from "../api/policy";
+import { useDecideProposal, useNodes, useProposals } from "../api/queries";
+import type { GovernedAction } from "../content/governanceMatrix";
+import { formatTools } from "../content/mcpTools";
+import type {
+  CapabilityChangeProposal,
+  ChangeProposal,
+  McpServer,
+  McpServerSnapshot,
+  ProposalStatus,
+  StructuralChangeProposal,
+} from "../api/types";
+import { useActor } from "../context/ActorContext";
+
+type ProposalsPageProps = {
+  palette: any;
+};
+
+const STATUS_OPTIONS = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "", label: "All statuses" },
+];
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const proposalTitle = (proposal: ChangeProposal) =>
+  proposal.kind === "document"
+    ? proposal.documentTitle
+    : proposal.kind === "capability"
+      ? `Add tools to MCP server "${proposal.serverName}"`
+      : `${proposal.operation === "rename" ? "Rename" : "Delete"} ${proposal.target.type} "${proposal.target.name}"`;
+
+const proposalAction = (proposal: ChangeProposal): GovernedAction =>
+  proposal.kind === "document"
+    ? documentEditAction(proposal.current.isGovernance, proposal.proposed.isGovernance)
+    : proposal.kind === "capability"
+      ? "mcp.capabilityChange"
+      : (`${proposal.target.type}.${proposal.operation}` as GovernedAction);
+
+// Workspace-level proposals have no node, so they group under their workspace
+const groupFor = (proposal: ChangeProposal) =>
+  proposal.kind === "structure" && !proposal.nodeId
+    ? {
+        key: `workspace:${proposal.workspaceId}`,
+        label: `${proposal.workspaceName || proposal.target.name} (workspace)`,
+      }
+    : { key: proposal.nodeId, label: proposal.nodeName || proposal.nodeId };
+
+function StructuralChangeSummary({
+  proposal,
+  palette,
+}: {
+  proposal: StructuralChangeProposal;
+  palette: any;
+}) {
+  const { impact, target } = proposal;
+  if (target.type === "program" || target.type === "integration") {
+    return (
+      <Text size="xs" c="red.4">
+        {target.type === "program"
+          ? "Removes the program and its version history"
+          : "Disconnects the integration and discards its stored secrets"}
+      </Text>
+    );
+  }
+
+  const reach = [
+    target.type === "workspace" ? plural(impact.nodes, "node") : null,
+    plural(impact.documents, "document"),
+    plural(impact.programs, "program"),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <Stack gap={4}>
+      {proposal.operation === "rename" && (
+        <Text size="sm" c={palette.text}>
+          Name: <s>{target.name}</s> → {proposal.proposedName}
+        </Text>
+      )}
+      <Text size="xs" c={proposal.operation === "delete" ? "red.4" : palette.textSoft}>
+        {proposal.operation === "delete" ? `Removes the ${target.type} with` : "Reaches"} {reach}{" "}
+        (counted when proposed)
+      </Text>
+    </Stack>
+  );
+}
+
+const formatServer = (snapshot: McpServerSnapshot) =>
+  [`# ${snapshot.name}`, snapshot.description, "", formatTools(snapshot.tools)].join("\n");
+
+function CapabilityChangeSummary({
+  proposal,
+  palette,
+}: {
+  proposal: CapabilityChangeProposal;
+  palette: any;
+}) {
+  return (
+    <Stack gap="xs">
+      <Group gap={6}>
+        <Text size="xs" c="orange.4">
+          Adds
+        </Text>
+        {proposal.addedTools.map((name) => (
+          <Badge
+            key={name}
+            color="orange"
+            variant="light"
+            size="sm"
+            style={{ textTransform: "none" }}
+          >
+            {name}
+          </Badge>
+        ))}
+      </Group>
+      <TextDiff
+        before={formatServer(proposal.current)}
+        after={formatServer(proposal.proposed)}
+        palette={palette}
+      />
+    </Stack>
+  );
+}
+
+type ProposalCardProps = {
+  proposal: ChangeProposal;
+  palette: any;
+};
+
+function ProposalCard({ proposal, palette }: ProposalCardProps) {
+  const decideProposal = useDecideProposal();
+  const { actorName } = useActor();
+  const [note, setNote] = useState("");
+  const [deciding, setDeciding] = useState<"approve" | "reject" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const policy = evaluatePolicy(proposalAction(proposal));
+
+  const decide = async (decision: "approve" | "reject") => {
+    try {
+      setDeciding(decision);
+      setError(null);
+      await decideProposal(proposal.id, decision, {
+        reviewer: actorName,
+        note: note.trim() || undefined,
+      });
+    } catch (err: any) {
+      if (proposal.kind === "document" && isVersionConflict(err)) {
+        setError(
+          `The document is now at version ${err.body.current?.metadata?.version}, but this proposal was drafted against version ${proposal.baseVersion}. Reject it and submit a new proposal from the latest version.`
+        );
+        return;
+      }
+      if (proposal.kind === "capability" && isVersionConflict<McpServer>(err)) {
+        setError(
+          `The MCP server is now at version ${err.body.current?.version}, but this proposal was drafted against version ${proposal.baseVersion}. Reject it and submit a new proposal from the latest version.`
+        );
+        return;
+      }
+      console.error("Error deciding proposal", err);
+      setError(err?.message ?? "Failed to record decision");
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Paper
+      p="md"
+      radius="md"
+      style={{
+        backgroundColor: palette.background,
+        border: `1px solid ${palette.border}`,
+      }}
+    >
+      <Stack gap="sm">
+        <Group justify="space-between" align="flex-start">
+          <Stack gap={2}>
+            <Text size="sm" fw={600} c={palette.text}>
+              {proposalTitle(proposal)}
+            </Text>
+            <Text size="xs" c={palette.textSoft}>
+              Proposed by {proposal.author} · {formatDateTime(proposal.createdAt)}
+              {proposal.kind !== "structure" ? ` · against version ${proposal.baseVersion}` : ""}
+            </Text>
+          </Stack>
+          <Group gap="xs">
+            {policy.strict && (
+              <Badge color="orange" variant="outline" size="sm">
+                Strict approval
+              </Badge>
+            )}
+            <ProposalStatusBadge status={proposal.status} />
+          </Group>
+        </Group>
+
+        <Text size="sm" c={palette.text} style={{ whiteSpace: "pre-wrap" }}>
+          {proposal.rationale}
+        </Text>
+
+        {proposal.kind === "document" ? (
+          <>
+            {proposal.current.title !== proposal.proposed.title && (
+              <Text size="xs" c={palette.textSoft}>
+                Title: <s>{proposal.current.title}</s> → {proposal.proposed.title}
+              </Text>
+            )}
+            {proposal.current.isGovernance !== proposal.proposed.isGovernance && (
+              <Text size="xs" c="yellow.4">
+                {proposal.proposed.isGovernance
+                  ? "Marks the document as governance"
+                  : "Removes the governance flag from the document"}
+              </Text>
+            )}
+
+            <TextDiff
+              before={proposal.current.content}
+              after={proposal.proposed.content}
+              palette={palette}
+            />
+          </>
+        ) : proposal.kind === "capability" ? (
+          <CapabilityChangeSummary proposal={proposal} palette={palette} />
+        ) : (
+          <StructuralChangeSummary proposal={proposal} palette={palette} />
+        )}
+
+        {proposal.status !== "pending" && (
+          <Text size="xs" c={palette.textSoft}>
+            {proposal.status === "approved" ? "Approved" : "Rejected"} by{" "}
+            {proposal.decidedBy ?? "—"}
+            {proposal.decidedAt ? ` · ${formatDateTime(proposal.decidedAt)}` : ""}
+            {proposal.kind !== "structure" && proposal.appliedVersion
+              ? ` · applied as version ${proposal.appliedVersion}`
+              : ""}
+            {proposal.decisionNote ? ` — ${proposal.decisionNote}` : ""}
+          </Text>
+        )}
+
+        {error && (
+          <Alert
+            color="red"
+            title="Error"
+            styles={{
+              root: {
+                backgroundColor: palette.surface,
+              },
+            }}
+          >
+            {error}
+          </Alert>
+        )}
+
+        {proposal.status === "pending" && (
+          <>
+            <Textarea
+              placeholder="Decision note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              minRows={2}
+              autosize
+              disabled={deciding !== null}
+              styles={{
+                input: {
+                  backgroundColor: palette.header,
+                  borderColor: palette.border,
+                  color: palette.text,
+                },
+              }}
+            />
+            <Group justify="flex-end" gap="xs">
+              <Button
+                leftSection={<IconX size={16} />}
+                variant="outline"
+                color="red"
+                size="xs"
+                onClick={() => decide("reject")}
+                loading={deciding === "reject"}
+                disabled={deciding !== null}
+              >
+                Reject
+              </Button>
+              <Button
+                leftSection={<IconCheck size={16} />}
+                size="xs"
+                onClick={() => decide("approve")}
+                loading={deciding === "approve"}
+                disabled={deciding !== null}
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Approve as {actorName}
+              </Button>
+            </Group>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
+
+export default function ProposalsPage({ palette }: ProposalsPageProps) {
+  const [status, setStatus] = useState<ProposalStatus | null>("pending");
+  const [nodeId, setNodeId] = useState<string | null>(null);
+  const { data: nodes = [], isLoading: nodesLoading } = useNodes();
+  const {
+    data: proposals = [],
+    isLoading,
+    error,
+  } = useProposals({ status, nodeId });
+
+  // Group by node so reviewers work through one node's governance at a time
+  const groups = useMemo(() => {
+    const byNode = new Map<string, { nodeName: string; proposals: ChangeProposal[] }>();
+    for (const proposal of proposals) {
+      const { key, label } = groupFor(proposal);
+      const group = byNode.get(key) ?? { nodeName: label, proposals: [] };
+      group.proposals.push(proposal);
+      byNode.set(key, group);
+    }
+    return Array.from(byNode.entries());
+  }, [proposals]);
+
+  const selectStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="xs">
+          <Text size="lg" fw={600} c={palette.text}>
+            Change Proposals
+          </Text>
+          <Text size="xs" c={palette.textSoft}>
+            Document edits and workspace / node renames and deletes that the
+            governance matrix does not allow automatically wait here. Review the
+            change and rationale, then approve or reject.
+          </Text>
+        </Stack>
+      </Paper>
+
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Group grow>
+            <Select
+              label="Status"
+              value={status ?? ""}
+              onChange={(value) => setStatus((value || null) as ProposalStatus | null)}
+              data={STATUS_OPTIONS}
+              styles={selectStyles}
+            />
+            <Select
+              label="Node"
+              value={nodeId ?? ""}
+              onChange={(value) => setNodeId(value || null)}
+              data={[
+                { value: "", label: "All nodes" },
+                ...nodes.map((node) => ({ value: node.id, label: node.name })),
+              ]}
+              disabled={nodesLoading}
+              styles={selectStyles}
+            />
+          </Group>
+
+          {isLoading && (
+            <Group gap="xs">
+              <Loader size="sm" />
+              <Text size="sm" c={palette.textSoft}>
+                Loading proposals...
+              </Text>
+            </Group>
+          )}
+
+          {error && (
+            <Text size="sm" c="red.3">
+              {error}
+            </Text>
+          )}
+
+          {!isLoading && !error && proposals.length === 0 && (
+            <Text size="sm" c={palette.textSoft}>
+              No proposals found.
+            </Text>
+          )}
+
+          {groups.map(([groupNodeId, group]) => (
+            <Stack key={groupNodeId} gap="sm">
+              <Text size="sm" fw={600} c={palette.textSoft}>
+                {group.nodeName}
+              </Text>
+              {group.proposals.map((proposal) => (
+                <ProposalCard key={proposal.id} proposal={proposal} palette={palette} />
+              ))}
+            </Stack>
+          ))}
+        </Stack>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Group,
+  Loader,
+  Paper,
+  Progress,
+  SegmentedControl,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { IconSearch } from "@tabler/icons-react";
+import HighlightedText from "../components/HighlightedText";
+import { useKnowledgeQuery, useKnowledgeStores, useNodes } from "../api/queries";
+import type { KnowledgeQuery } from "../api/types";
+
+type RetrievalPlaygroundPageProps = {
+  palette: any;
+};
+
+type GovernanceFilter = "all" | "only" | "exclude";
+
+const LIMIT_OPTIONS = ["5", "10", "20"];
+
+/**
+ * Runs a query against one knowledge store and shows what retrieval would
+ * hand an agent: ranked chunks with their scores and source sections. The
+ * store, query and filters live in the query string, e.g.
+ * /retrieval?store=…&q=…&nodeId=…&governance=only
+ */
+export default function RetrievalPlaygroundPage({ palette }: RetrievalPlaygroundPageProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const storeId = searchParams.get("store");
+  const query = searchParams.get("q") ?? "";
+  const nodeId = searchParams.get("nodeId");
+  const governance = (searchParams.get("governance") as GovernanceFilter | null) ?? "all";
+  const limit = searchParams.get("limit") ?? "5";
+
+  const { data: stores = [], isLoading: storesLoading } = useKnowledgeStores();
+  const store = stores.find((candidate) => candidate.id === storeId) ?? null;
+  const { data: nodes = [] } = useNodes(store?.workspaceId, { enabled: !!store });
+
+  const params: KnowledgeQuery = {
+    q: query,
+    nodeId,
+    governance: governance === "all" ? null : governance,
+    limit: Number(limit),
+  };
+  const { data: result, isLoading, isFetching, error } = useKnowledgeQuery(storeId, params);
+
+  // The text box is only submitted on search, so it follows the URL on navigation
+  const [draft, setDraft] = useState(query);
+  useEffect(() => setDraft(query), [query]);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    setSearchParams(next);
+  };
+
+  // Only nodes that hold one of the store's documents can narrow the results
+  const memberNodeIds = new Set(
+    (store?.members ?? []).flatMap((member) =>
+      member.kind === "document" && member.nodeId ? [member.nodeId] : []
+    )
+  );
+  const nodeOptions = nodes.filter((node) => memberNodeIds.has(node.id));
+  const topScore = result?.results[0]?.score ?? 0;
+
+  const inputStyles = {
+    input: {
+      backgroundColor: palette.background,
+      borderColor: palette.border,
+      color: palette.text,
+    },
+    label: {
+      color: palette.text,
+    },
+    dropdown: {
+      backgroundColor: palette.surface,
+    },
+    option: {
+      color: palette.text,
+    },
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper
+        shadow="sm"
+        p="md"
+        radius="md"
+        style={{
+          backgroundColor: palette.surface,
+          border: `1px solid ${palette.border}`,
+        }}
+      >
+        <Stack gap="md">
+          <Stack gap="xs">
+            <Text size="lg" fw={600} c={palette.text}>
+              Retrieval Playground
+            </Text>
+            <Text size="xs" c={palette.textSoft}>
+              Check what a knowledge store returns for a query before an agent relies on it. The
+              local Core API ranks chunks by shared words (BM25), so scores compare results within
+              one query only.
+            </Text>
+          </Stack>
+
+          <Select
+            label="Knowledge store"
+            placeholder="Pick a store"
+            value={storeId}
+            onChange={(value) => updateParams({ store: value, nodeId: null })}
+            data={stores.map((candidate) => ({
+              value: candidate.id,
+              label: `${candidate.name} · ${candidate.scope.nodeName ?? candidate.scope.workspaceName}`,
+            }))}
+            disabled={storesLoading}
+            searchable
+            styles={inputStyles}
+          />
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateParams({ q: draft.trim() || null });
+            }}
+          >
+            <Group align="flex-end" gap="xs">
+              <TextInput
+                label="Query"
+                placeholder="What would an agent ask?"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                disabled={!storeId}
+                style={{ flex: 1 }}
+                styles={inputStyles}
+              />
+              <Button
+                type="submit"
+                leftSection={<IconSearch size={16} />}
+                loading={isFetching}
+                disabled={!storeId || !draft.trim()}
+                styles={{
+                  root: {
+                    backgroundColor: palette.accent,
+                    color: palette.background,
+                  },
+                }}
+              >
+                Search
+              </Button>
+            </Group>
+          </form>
+
+          <Group grow align="flex-end">
+            <Select
+              label="Node"
+              value={nodeId ?? ""}
+              onChange={(value) => updateParams({ nodeId: value || null })}
+              data={[
+                { value: "", label: "All nodes" },
+                ...nodeOptions.map((node) => ({ value: node.id, label: node.name })),
+              ]}
+              disabled={!store}
+              styles={inputStyles}
+            />
+            <Stack gap={4}>
+              <Text size="sm" fw={500} c={palette.text}>
+                Governance documents
+              </Text>
+              <SegmentedControl
+                size="xs"
+                value={governance}
+                onChange={(value) => updateParams({ governance: value === "all" ? null : value })}
+                data={[
+                  { value: "all", label: "Include" },
+                  { value: "only", label: "Only" },
+                  { value: "exclude", label: "Exclude" },
+                ]}
+              />
+            </Stack>
+            <Select
+              label="Results"
+              value={limit}
+              onChange={(value) => updateParams({ limit: value === "5" ? null : value })}
+              data={LIMIT_OPTIONS}
+              allowDeselect={false}
+              styles={inputStyles}
+            />
+          </Group>
+        </Stack>
+      </Paper>
+
+      {!storeId && (
+        <Text size="sm" c={palette.textSoft}>
+          Pick a knowledge store to query.{" "}
+          <Link to="/knowledge-stores" style={{ color: palette.accent }}>
+            Manage knowledge stores
+          </Link>
+        </Text>
+      )}
+
+      {isLoading && (
+        <Group gap="xs">
+          <Loader size="sm" />
+          <Text size="sm" c={palette.textSoft}>
+            Ranking chunks...
+          </Text>
+        </Group>
+      )}
+
+      {error && (
+        <Alert
+          color="red"
+          title="Error"
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          {error}
+        </Alert>
+      )}
+
+      {result && result.skipped.length > 0 && (
+        <Alert
+          color="yellow"
+          title={`${result.skipped.length} ${result.skipped.length === 1 ? "member was" : "members were"} not searched`}
+          styles={{
+            root: {
+              backgroundColor: palette.surface,
+            },
+          }}
+        >
+          <Stack gap={2}>
+            {result.skipped.map((entry) => (
+              <Text key={entry.memberId} size="sm" c={palette.text}>
+                {entry.label}: {entry.reason}
+              </Text>
+            ))}
+          </Stack>
+        </Alert>
+      )}
+
+      {result && (
+        <Stack gap="sm">
+          <Text size="sm" c={palette.textSoft}>
+            {result.results.length} of {result.searched.chunks}{" "}
+            {result.searched.chunks === 1 ? "chunk" : "chunks"} from {result.searched.documents}{" "}
+            {result.searched.documents === 1 ? "document" : "documents"} matched{" "}
+            {result.terms.map((term) => `"${term}"`).join(", ")}
+          </Text>
+
+          {result.results.map((hit, index) => (
+            <Paper
+              key={`${hit.documentId}-${hit.chunk.index}`}
+              p="sm"
+              radius="md"
+              style={{
+                backgroundColor: palette.surface,
+                border: `1px solid ${palette.border}`,
+              }}
+            >
+              <Stack gap={6}>
+                <Group justify="space-between" gap="xs" wrap="nowrap">
+                  <Group gap="xs">
+                    <Text size="sm" fw={700} c={palette.textSoft}>
+                      #{index + 1}
+                    </Text>
+                    <Link
+                      to={`/documents?doc=${encodeURIComponent(hit.documentId)}&line=${hit.chunk.startLine}`}
+                      style={{ color: palette.accent, fontSize: 14, fontWeight: 600 }}
+                    >
+                      {hit.title}
+                    </Link>
+                    <Badge color="gray" variant="light" size="xs">
+                      {hit.nodeName}
+                    </Badge>
+                    {hit.isGovernance && (
+                      <Badge color="grape" variant="light" size="xs">
+                        Governance
+                      </Badge>
+                    )}
+                    {hit.stale && (
+                      <Badge color="orange" variant="light" size="xs">
+                        Stale
+                      </Badge>
+                    )}
+                  </Group>
+                  <Text size="xs" c={palette.textSoft} style={{ flexShrink: 0 }}>
+                    score {hit.score.toFixed(3)}
+                  </Text>
+                </Group>
+                <Progress
+                  value={topScore > 0 ? (hit.score / topScore) * 100 : 0}
+                  color="blue"
+                  size="xs"
+                />
+                <Group gap={4}>
+                  {hit.chunk.headings.map((heading, headingIndex) => (
+                    <Badge
+                      key={`${headingIndex}-${heading}`}
+                      color="violet"
+                      variant="light"
+                      size="xs"
+                      style={{ textTransform: "none" }}
+                    >
+                      {heading}
+                    </Badge>
+                  ))}
+                  <Text size="xs" c={palette.textSoft}>
+                    lines {hit.chunk.startLine}–{hit.chunk.endLine} · ~{hit.chunk.tokens} tokens ·
+                    matched {hit.matchedTerms.join(", ")}
+                  </Text>
+                </Group>
+                <Box
+                  component="pre"
+                  style={{
+                    margin: 0,
+                    maxHeight: 220,
+                    overflow: "auto",
+                    fontFamily: "monospace",
+                    fontSize: 11,
+                    lineHeight: 1.5,
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-word",
+                    color: palette.textSoft,
+                  }}
+                >
+                  <HighlightedText
+                    text={hit.chunk.text}
+                    terms={hit.matchedTerms}
+                    palette={palette}
+                  />
+                </Box>
+              </Stack>
+            </Paper>
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -1,11 +1,14 @@
 import React from "react";
-import { Paper, Stack, Text } from "@mantine/core";
+import { Paper, Stack, Text, TextInput } from "@mantine/core";
+import { useActor } from "../context/ActorContext";
 
 type SettingsPageProps = {
   palette: any;
 };
 
 export default function SettingsPage({ palette }: SettingsPageProps) {
+  const { actorName, setActorName } = useActor();
+
   return (
     <Paper
       shadow="sm"
@@ -23,19 +26,28 @@ export default function SettingsPage({ palette }: SettingsPageProps) {
         <Text size="sm" c={palette.textSoft}>
           Continuum options and configuration
         </Text>
-        <Text size="sm" c={palette.textSoft} mt="md">
-          Settings panel coming soon.
-        </Text>
+        <TextInput
+          label="Display name"
+          description="Recorded as the author or reviewer of governed changes"
+          defaultValue={actorName}
+          onBlur={(e) => setActorName(e.currentTarget.value)}
+          mt="md"
+          maw={360}
+          styles={{
+            input: {
+              backgroundColor: palette.header,
+              borderColor: palette.border,
+              color: palette.text,
+            },
+            label: {
+              color: palette.text,
+            },
+            description: {
+              color: palette.textSoft,
+            },
+          }}
+        />
       </Stack>
     </Paper>
   );
 }
-
-
-
-
-
-
-
-
-
@@ -1,20 +1,71 @@
 import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
+  ActionIcon,
   Alert,
   Badge,
   Button,
   Group,
   Loader,
+  Menu,
   Modal,
   Paper,
   Select,
   Stack,
-  Table,
   Text,
   TextInput,
 } from "@mantine/core";
-import { IconPlus } from "@tabler/icons-react";
+import { IconDots, IconPencil, IconPlus, IconTrash } from "@tabler/icons-react";
+import DataTable, { type DataTableColumn } from "../components/DataTable";
+import StructuralChangeModal, {
+  type StructuralChangeRequest,
+} from "../components/StructuralChangeModal";
+import { useCreateNode, useCreateWorkspace } from "../api/queries";
+import type { Node, Workspace } from "../api/types";
+
+type RowActionsProps = {
+  label: string;
+  palette: any;
+  onRename: () => void;
+  onDelete: () => void;
+};
+
+// Row menu; clicks stay inside so they don't also select or open the row
+function RowActions({ label, palette, onRename, onDelete }: RowActionsProps) {
+  return (
+    <Menu position="bottom-end" withinPortal>
+      <Menu.Target>
+        <ActionIcon
+          variant="subtle"
+          size="sm"
+          aria-label={`Actions for ${label}`}
+          onClick={(e) => e.stopPropagation()}
+          styles={{
+            root: {
+              color: palette.textSoft,
+            },
+          }}
+        >
+          <IconDots size={16} />
+        </ActionIcon>
+      </Menu.Target>
+      <Menu.Dropdown
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: palette.surface,
+          borderColor: palette.border,
+        }}
+      >
+        <Menu.Item leftSection={<IconPencil size={14} />} onClick={onRename}>
+          Rename…
+        </Menu.Item>
+        <Menu.Item leftSection={<IconTrash size={14} />} color="red" onClick={onDelete}>
+          Delete…
+        </Menu.Item>
+      </Menu.Dropdown>
+    </Menu>
+  );
+}
 
 // Local helper to display owner name with transformation
 const displayOwnerName = (name: string | null | undefined): string => {
@@ -22,39 +73,6 @@ const displayOwnerName = (name: string | null | undefined): string => {
   return name === "Continuum Systems" ? "Continuum" : name;
 };
 
-type Workspace = {
-  id: string;
-  tenantId: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-  tenant: {
-    id: string;
-    name: string;
-  };
-  _count: {
-    nodes: number;
-  };
-};
-
-type Node = {
-  id: string;
-  name: string;
-  workspaceId: string;
-  createdAt: string;
-  updatedAt: string;
-  workspace: {
-    id: string;
-    name: string;
-  };
-  _count: {
-    programs: number;
-    modules: number;
-    documents: number;
-    integrations: number;
-  };
-};
-
 type WorkspacesPageProps = {
   workspaces: Workspace[];
   workspacesLoading: boolean;
@@ -64,8 +82,6 @@ type WorkspacesPageProps = {
   nodesLoading: boolean;
   nodesError: string | null;
   onWorkspaceClick: (workspace: Workspace) => void;
-  onRefreshWorkspaces: () => Promise<void>;
-  onRefreshNodes?: () => Promise<void>;
   palette: any;
   TERMS: { tenant: string; tenants: string };
   API_BASE: string;
@@ -80,13 +96,13 @@ export default function WorkspacesPage({
   nodesLoading,
   nodesError,
   onWorkspaceClick,
-  onRefreshWorkspaces,
-  onRefreshNodes,
   palette,
   TERMS,
   API_BASE,
 }: WorkspacesPageProps) {
   const navigate = useNavigate();
+  const createWorkspace = useCreateWorkspace();
+  const createNode = useCreateNode();
   // Extract unique owners from workspaces
   const owners = Array.from(
     new Map(workspaces.map((ws) => [ws.tenant.id, ws.tenant])).values()
@@ -111,6 +127,10 @@ export default function WorkspacesPage({
   const [creatingNode, setCreatingNode] = useState(false);
   const [nodeCreateError, setNodeCreateError] = useState<string | null>(null);
 
+  // Rename / delete go through governed proposals
+  const [structuralChange, setStructuralChange] =
+    useState<StructuralChangeRequest | null>(null);
+
   const handleCreateWorkspace = async () => {
     if (!workspaceName.trim() || !selectedOwnerId) {
       return;
@@ -120,26 +140,12 @@ export default function WorkspacesPage({
     setWorkspaceCreateError(null);
 
     try {
-      const res = await fetch(`${API_BASE}/api/workspaces`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          tenantId: selectedOwnerId,
-          name: workspaceName.trim(),
-        }),
+      // Invalidates the cached workspaces list
+      await createWorkspace({
+        tenantId: selectedOwnerId,
+        name: workspaceName.trim(),
       });
 
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}));
-        throw new Error(
-          errorData.message || `HTTP ${res.status}: Failed to create workspace`
-        );
-      }
-
-      // Refresh workspaces list
-      await onRefreshWorkspaces();
       setCreateWorkspaceOpened(false);
       setWorkspaceName("");
       setSelectedOwnerId(defaultOwnerId);
@@ -160,28 +166,12 @@ export default function WorkspacesPage({
     setNodeCreateError(null);
 
     try {
-      const res = await fetch(`${API_BASE}/api/nodes`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          workspaceId: selectedWorkspace.id,
-          name: nodeName.trim(),
-        }),
+      // Invalidates cached node lists and workspace `_count.nodes`
+      await createNode({
+        workspaceId: selectedWorkspace.id,
+        name: nodeName.trim(),
       });
 
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}));
-        throw new Error(
-          errorData.message || `HTTP ${res.status}: Failed to create node`
-        );
-      }
-
-      // Refresh nodes list
-      if (onRefreshNodes) {
-        await onRefreshNodes();
-      }
       setCreateNodeOpened(false);
       setNodeName("");
     } catch (err: any) {
@@ -192,6 +182,73 @@ export default function WorkspacesPage({
     }
   };
 
+  const workspaceColumns: DataTableColumn<Workspace>[] = [
+    {
+      key: "tenant",
+      header: TERMS.tenant,
+      render: (workspace) => displayOwnerName(workspace.tenant.name),
+    },
+    { key: "workspace", header: "Workspace", render: (workspace) => workspace.name },
+    {
+      key: "nodes",
+      header: "Nodes",
+      align: "center",
+      render: (workspace) => (
+        <Badge color="yellow" variant="filled" radius="xl">
+          {workspace._count.nodes}
+        </Badge>
+      ),
+    },
+    {
+      key: "created",
+      header: "Created",
+      render: (workspace) => new Date(workspace.createdAt).toLocaleString(),
+    },
+    {
+      key: "actions",
+      header: null,
+      width: 64,
+      render: (workspace) => (
+        <RowActions
+          label={workspace.name}
+          palette={palette}
+          onRename={() =>
+            setStructuralChange({ operation: "rename", type: "workspace", workspace })
+          }
+          onDelete={() =>
+            setStructuralChange({ operation: "delete", type: "workspace", workspace })
+          }
+        />
+      ),
+    },
+  ];
+
+  const nodeColumns: DataTableColumn<Node>[] = [
+    { key: "node", header: "Node", render: (node) => node.name },
+    { key: "programs", header: "Programs", render: (node) => node._count.programs },
+    { key: "modules", header: "Modules", render: (node) => node._count.modules },
+    { key: "documents", header: "Documents", render: (node) => node._count.documents },
+    { key: "integrations", header: "Integrations", render: (node) => node._count.integrations },
+    {
+      key: "created",
+      header: "Created",
+      render: (node) => new Date(node.createdAt).toLocaleString(),
+    },
+    {
+      key: "actions",
+      header: null,
+      width: 64,
+      render: (node) => (
+        <RowActions
+          label={node.name}
+          palette={palette}
+          onRename={() => setStructuralChange({ operation: "rename", type: "node", node })}
+          onDelete={() => setStructuralChange({ operation: "delete", type: "node", node })}
+        />
+      ),
+    },
+  ];
+
   return (
     <Stack gap="md">
       {/* Workspaces card */}
@@ -249,77 +306,15 @@ export default function WorkspacesPage({
           )}
 
           {!workspacesLoading && !workspacesError && (
-            <Table
-              highlightOnHover
-              verticalSpacing="xs"
-              horizontalSpacing="md"
-              withTableBorder
-              withColumnBorders
-              styles={{
-                table: {
-                  backgroundColor: "transparent",
-                },
-                th: {
-                  backgroundColor: palette.header,
-                  color: palette.textSoft,
-                  borderColor: palette.border,
-                },
-                td: {
-                  borderColor: palette.border,
-                  color: palette.text,
-                },
-              }}
-            >
-              <Table.Thead>
-                <Table.Tr>
-                  <Table.Th>{TERMS.tenant}</Table.Th>
-                  <Table.Th>Workspace</Table.Th>
-                  <Table.Th style={{ textAlign: "center" }}>Nodes</Table.Th>
-                  <Table.Th>Created</Table.Th>
-                </Table.Tr>
-              </Table.Thead>
-              <Table.Tbody>
-                {workspaces.map((workspace) => {
-                  const isSelected = selectedWorkspace?.id === workspace.id;
-                  return (
-                    <Table.Tr
-                      key={workspace.id}
-                      onClick={() => onWorkspaceClick(workspace)}
-                      style={{
-                        cursor: "pointer",
-                        backgroundColor: isSelected
-                          ? palette.accentSoft
-                          : "transparent",
-                        fontWeight: isSelected ? 600 : "normal",
-                      }}
-                    >
-                      <Table.Td>
-                        <Text fw={isSelected ? 600 : "normal"}>
-                          {displayOwnerName(workspace.tenant.name)}
-                        </Text>
-                      </Table.Td>
-                      <Table.Td>
-                        <Text fw={isSelected ? 600 : "normal"}>
-                          {workspace.name}
-                        </Text>
-                      </Table.Td>
-                      <Table.Td style={{ textAlign: "center" }}>
-                        <Badge
-                          color="yellow"
-                          variant="filled"
-                          radius="xl"
-                        >
-                          {workspace._count.nodes}
-                        </Badge>
-                      </Table.Td>
-                      <Table.Td>
-                        {new Date(workspace.createdAt).toLocaleString()}
-                      </Table.Td>
-                    </Table.Tr>
-                  );
-                })}
-              </Table.Tbody>
-            </Table>
+            <DataTable
+              rows={workspaces}
+              columns={workspaceColumns}
+              getRowId={(workspace) => workspace.id}
+              onRowClick={onWorkspaceClick}
+              selectedId={selectedWorkspace?.id}
+              label="Workspaces"
+              palette={palette}
+            />
           )}
         </Stack>
       </Paper>
@@ -376,60 +371,14 @@ export default function WorkspacesPage({
             )}
 
             {!nodesLoading && !nodesError && nodes.length > 0 && (
-              <Table
-                highlightOnHover
-                verticalSpacing="xs"
-                horizontalSpacing="md"
-                withTableBorder
-                withColumnBorders
-                styles={{
-                  table: {
-                    backgroundColor: "transparent",
-                  },
-                  th: {
-                    backgroundColor: palette.header,
-                    color: palette.textSoft,
-                    borderColor: palette.border,
-                  },
-                  td: {
-                    borderColor: palette.border,
-                    color: palette.text,
-                  },
-                }}
-              >
-                <Table.Thead>
-                  <Table.Tr>
-                    <Table.Th>Node</Table.Th>
-                    <Table.Th>Programs</Table.Th>
-                    <Table.Th>Modules</Table.Th>
-                    <Table.Th>Documents</Table.Th>
-                    <Table.Th>Integrations</Table.Th>
-                    <Table.Th>Created</Table.Th>
-                  </Table.Tr>
-                </Table.Thead>
-                <Table.Tbody>
-                  {nodes.map((node) => (
-                    <Table.Tr
-                      key={node.id}
-                      onClick={() => navigate(`/nodes/${node.id}`)}
-                      style={{
-                        cursor: "pointer",
-                      }}
-                    >
-                      <Table.Td>
-                        <Text>{node.name}</Text>
-                      </Table.Td>
-                      <Table.Td>{node._count.programs}</Table.Td>
-                      <Table.Td>{node._count.modules}</Table.Td>
-                      <Table.Td>{node._count.documents}</Table.Td>
-                      <Table.Td>{node._count.integrations}</Table.Td>
-                      <Table.Td>
-                        {new Date(node.createdAt).toLocaleString()}
-                      </Table.Td>
-                    </Table.Tr>
-                  ))}
-                </Table.Tbody>
-              </Table>
+              <DataTable
+                rows={nodes}
+                columns={nodeColumns}
+                getRowId={(node) => node.id}
+                onRowClick={(node) => navigate(`/nodes/${node.id}`)}
+                label={`Nodes for ${selectedWorkspace.name}`}
+                palette={palette}
+              />
             )}
           </Stack>
         </Paper>
@@ -634,6 +583,12 @@ export default function WorkspacesPage({
           </Group>
         </Stack>
       </Modal>
+
+      <StructuralChangeModal
+        request={structuralChange}
+        palette={palette}
+        onClose={() => setStructuralChange(null)}
+      />
     </Stack>
   );
 }
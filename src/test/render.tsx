@@ -0,0 +1,18 @@
+import React from "react";
+import { MantineProvider } from "@mantine/core";
+import { render } from "@testing-library/react";
+
+// Palette with the keys components read; the values only need to be valid colours
+export const testPalette = {
+  background: "#000000",
+  surface: "#111111",
+  header: "#222222",
+  accent: "#3b82f6",
+  accentSoft: "#1e3a8a",
+  text: "#ffffff",
+  textSoft: "#cccccc",
+  border: "#333333",
+};
+
+export const renderWithMantine = (ui: React.ReactElement) =>
+  render(<MantineProvider>{ui}</MantineProvider>);
@@ -0,0 +1,98 @@
+// Line-based diff used by proposal and version views.
+
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+  // 1-based line numbers in the old / new text (null when the line is absent there)
+  oldLine: number | null;
+  newLine: number | null;
+};
+
+const splitLines = (text: string): string[] =>
+  text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+
+/**
+ * Diffs two texts line by line using a longest-common-subsequence table.
+ * Documents are small enough that the O(n·m) table is not a concern.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i], oldLine: i + 1, newLine: null });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[j], oldLine: null, newLine: j + 1 });
+      j++;
+    }
+  }
+  while (i < a.length) {
+    result.push({ type: "removed", text: a[i], oldLine: i + 1, newLine: null });
+    i++;
+  }
+  while (j < b.length) {
+    result.push({ type: "added", text: b[j], oldLine: null, newLine: j + 1 });
+    j++;
+  }
+  return result;
+}
+
+export function diffStats(lines: DiffLine[]) {
+  return {
+    added: lines.filter((l) => l.type === "added").length,
+    removed: lines.filter((l) => l.type === "removed").length,
+  };
+}
+
+export type SplitDiffRow = {
+  left: DiffLine | null;
+  right: DiffLine | null;
+};
+
+/**
+ * Pairs diff lines for a side-by-side view: unchanged lines sit on both sides,
+ * and each run of removals is lined up against the additions that follow it.
+ */
+export function splitDiffRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === "same") {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === "removed") {
+      removed.push(lines[index++]);
+    }
+    while (index < lines.length && lines[index].type === "added") {
+      added.push(lines[index++]);
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+  return rows;
+}